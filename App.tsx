@@ -1,18 +1,71 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Header } from './components/Header';
 import { ConditionCard } from './components/ConditionCard';
-import { analyzePatientSymptoms, generatePatientSample, generateClinicalReport, analyzeMedication } from './services/assistantDoctorService';
-import { DiagnosisState, MedicationState, ViewMode } from './types';
-import { Sparkles, AlertOctagon, ArrowRight, FileText, Printer, Stethoscope, Zap, X, Mail, Copy, Check, ExternalLink, Heart, Image as ImageIcon, Upload, Pill, Camera, Calendar, Factory, AlertTriangle, Info, ShieldCheck, Clock, Database } from 'lucide-react';
+import { FollowUpPanel } from './components/FollowUpPanel';
+import { IntakeForm } from './components/IntakeForm';
+import { HistoryPanel } from './components/HistoryPanel';
+import { CabinetPanel } from './components/CabinetPanel';
+import { CabinetSaveDialog } from './components/CabinetSaveDialog';
+import { InteractionMatrix } from './components/InteractionMatrix';
+import { EmergencyInterstitial } from './components/EmergencyInterstitial';
+import { ClinicalReportView } from './components/ClinicalReportView';
+import { RichText } from './components/RichText';
+import { TerminologyCodes } from './components/TerminologyCodes';
+import { ImageGallery } from './components/ImageGallery';
+import { ImageEditor } from './components/ImageEditor';
+import { PackagingDates } from './components/PackagingDates';
+import { ExpiryBadge } from './components/ExpiryBadge';
+import { ImageFindings } from './components/ImageFindings';
+import { OfflineQueueBanner } from './components/OfflineQueueBanner';
+import { RefusalNotice } from './components/RefusalNotice';
+import { ErrorNotice } from './components/ErrorNotice';
+import { RedactionSummary } from './components/RedactionSummary';
+import { CachedResultNotice } from './components/CachedResultNotice';
+import { useI18n } from './components/I18nProvider';
+import { analyzePatientSymptoms, generatePatientSample, generateClinicalReport, analyzeMedication, checkDrugInteractions, getConsultationText } from './services/assistantDoctorService';
+import { evaluateRedFlags, redFlagText } from './services/redFlags';
+import { InputRefusedError, MAX_INPUT_LENGTH } from './services/inputSafety';
+import { errorKindOf, MODEL_ERROR_MESSAGES } from './services/modelErrors';
+import { redactText } from './services/piiRedaction';
+import { EMPTY_INTAKE, countIntakeFields } from './services/intake';
+import { createHistoryId, deleteHistoryEntry, listHistoryEntries, saveHistoryEntry } from './services/historyStore';
+import { deleteCabinetItem, deleteDoseRecord, listCabinetItems, listDoseRecords, saveCabinetItem, saveDoseRecord } from './services/cabinetStore';
+import { describeSchedule, doseRecordId, getTodaySlots } from './services/doseSchedule';
+import { remindersSupported, requestReminderPermission, scheduleReminders, subscribeToDoseActions } from './services/reminders';
+import { enqueueAnalysis, isOffline, listQueuedAnalyses, removeQueuedAnalysis, replayQueue, screenQueuedAnalysis } from './services/offlineQueue';
+import { createImageAttachment, createThumbnail } from './services/imageUtils';
+import { preprocessImage, QUALITY_ISSUE_LABELS } from './services/imagePreprocess';
+import { LOCALES, MessageKey } from './services/i18n';
+import { describeBarcode, watchForBarcodes } from './services/barcodeScanner';
+import { exportMedicationPdf, exportReportPdf } from './services/pdfExport';
+import { assessExpiry, describeExpiry } from './services/expiry';
+import { createFhirExportContext, diagnosisToFhirBundle, downloadFhirBundle, medicationToFhirBundle } from './services/fhirExport';
+import { CabinetItem, ClinicalReport, DiagnosisResponse, DoseRecord, DoseSchedule, DoseStatus, DiagnosisState, ImageAttachment, ImageEdit, FollowUpAnswer, HistoryEntry, InteractionState, MedicalCondition, MedicationResponse, MedicationState, PackageBarcode, PatientIntake, QueuedAnalysis, RedFlagMatch, ViewMode } from './types';
+import { Sparkles, AlertOctagon, ArrowRight, FileText, Printer, Stethoscope, Zap, X, Mail, Copy, Check, ExternalLink, Heart, Image as ImageIcon, Upload, Pill, Camera, Factory, AlertTriangle, Info, ShieldCheck, Clock, Database, ClipboardList, FlaskConical, Plus, Download, FileJson, Archive, ScanBarcode, RotateCw } from 'lucide-react';
 import { Analytics } from "@vercel/analytics/react";
 
+const MAX_IMAGES = 6;
+
 const App: React.FC = () => {
+  const { t, rich, locale } = useI18n();
+
+  // Classified model failures are described in the UI language; anything
+  // else gets the view's own fallback
+  const errorMessage = (err: unknown, fallback: MessageKey): string => {
+    const kind = errorKindOf(err);
+    return t(kind && kind !== 'unknown' ? MODEL_ERROR_MESSAGES[kind] : fallback);
+  };
+
   // View State
   const [view, setView] = useState<ViewMode>('diagnosis');
 
   // Inputs
   const [input, setInput] = useState('');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [images, setImages] = useState<ImageAttachment[]>([]);
+  const [preparingImages, setPreparingImages] = useState(0);
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
+  const [intake, setIntake] = useState<PatientIntake>(EMPTY_INTAKE);
+  const [showIntake, setShowIntake] = useState(false);
   
   // Diagnosis State
   const [isGenerating, setIsGenerating] = useState(false);
@@ -20,8 +73,12 @@ const App: React.FC = () => {
     results: null,
     loading: false,
     error: null,
+    rounds: [],
   });
 
+  // Emergency Screen State
+  const [redFlagAlert, setRedFlagAlert] = useState<RedFlagMatch[]>([]);
+
   // Medication State
   const [medicationState, setMedicationState] = useState<MedicationState>({
     results: null,
@@ -29,10 +86,48 @@ const App: React.FC = () => {
     error: null,
   });
   
+  // Interaction State
+  const [interactionMeds, setInteractionMeds] = useState<string[]>([]);
+  const [identifyingMedication, setIdentifyingMedication] = useState(false);
+  const [interactionState, setInteractionState] = useState<InteractionState>({
+    results: null,
+    loading: false,
+    error: null,
+  });
+
   // Report State
   const [showReportModal, setShowReportModal] = useState(false);
-  const [reportHtml, setReportHtml] = useState('');
+  const [report, setReport] = useState<ClinicalReport | null>(null);
+  const [legacyReportHtml, setLegacyReportHtml] = useState(''); // History entries saved before structured reports
+  const [reportError, setReportError] = useState<string | null>(null);
   const [generatingReport, setGeneratingReport] = useState(false);
+  const [exportingPdf, setExportingPdf] = useState(false);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const resetReport = () => {
+    setReport(null);
+    setLegacyReportHtml('');
+    setReportError(null);
+  };
+
+  // History State
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [activeEntry, setActiveEntry] = useState<HistoryEntry | null>(null);
+
+  // Cabinet State
+  const [showCabinet, setShowCabinet] = useState(false);
+  const [cabinetItems, setCabinetItems] = useState<CabinetItem[]>([]);
+  const [doseRecords, setDoseRecords] = useState<DoseRecord[]>([]);
+  const [cabinetLoading, setCabinetLoading] = useState(false);
+  const [savingToCabinet, setSavingToCabinet] = useState(false);
+  const [remindersEnabled, setRemindersEnabled] = useState(remindersSupported() && Notification.permission === 'granted');
+
+  // Offline State
+  const [online, setOnline] = useState(!isOffline());
+  const [queuedAnalyses, setQueuedAnalyses] = useState<QueuedAnalysis[]>([]);
+  const [replayedCount, setReplayedCount] = useState(0); // Finished since last dismissed
 
   // Contact Modal State
   const [showContactModal, setShowContactModal] = useState(false);
@@ -42,9 +137,12 @@ const App: React.FC = () => {
   const [showCamera, setShowCamera] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const [liveBarcode, setLiveBarcode] = useState<PackageBarcode | null>(null); // Seen in the viewfinder
+  const [barcode, setBarcode] = useState<PackageBarcode | null>(null); // Accepted for the next analysis
   
   const resultsRef = useRef<HTMLDivElement>(null);
   const medResultsRef = useRef<HTMLDivElement>(null);
+  const interactionResultsRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const inputContainerRef = useRef<HTMLDivElement>(null);
 
@@ -72,7 +170,7 @@ const App: React.FC = () => {
       setStream(mediaStream);
       setShowCamera(true);
     } catch (err) {
-      alert("Unable to access camera. Please check permissions.");
+      alert(t('alert.camera'));
     }
   };
 
@@ -82,6 +180,7 @@ const App: React.FC = () => {
       setStream(null);
     }
     setShowCamera(false);
+    setLiveBarcode(null);
   };
 
   useEffect(() => {
@@ -90,6 +189,19 @@ const App: React.FC = () => {
     }
   }, [showCamera, stream]);
 
+  // Decode package barcodes live while the viewfinder is open
+  useEffect(() => {
+    if (!showCamera || !stream || !videoRef.current) return;
+    return watchForBarcodes(videoRef.current, found =>
+      setLiveBarcode(prev => prev?.raw === found.raw ? prev : found)
+    );
+  }, [showCamera, stream]);
+
+  const acceptScannedBarcode = () => {
+    setBarcode(liveBarcode);
+    stopCamera();
+  };
+
   const captureImage = () => {
     if (videoRef.current) {
       const canvas = document.createElement('canvas');
@@ -98,122 +210,646 @@ const App: React.FC = () => {
       const ctx = canvas.getContext('2d');
       if (ctx) {
         ctx.drawImage(videoRef.current, 0, 0);
-        const dataUrl = canvas.toDataURL('image/png');
-        setSelectedImage(dataUrl);
+        // High-quality JPEG keeps the original small; preprocessing sizes it down
+        canvas.toBlob(blob => { if (blob) addImageFiles([blob]); }, 'image/jpeg', 0.92);
         stopCamera();
       }
     }
   };
 
+  // --- History Logic ---
+  // Persistence is best-effort: a failing IndexedDB must never block analysis.
+  const persistEntry = async (entry: HistoryEntry) => {
+    setActiveEntry(entry);
+    try {
+      await saveHistoryEntry(entry);
+    } catch (err) {
+      console.error("Failed to save consultation history", err);
+    }
+  };
+
+  // History keeps a thumbnail of the first image only
+  const thumbnailFor = async (attachments: ImageAttachment[]): Promise<string | undefined> => {
+    if (attachments.length === 0) return undefined;
+    try {
+      return await createThumbnail(attachments[0].dataUrl);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const openHistory = async () => {
+    setShowHistory(true);
+    setHistoryLoading(true);
+    try {
+      setHistoryEntries(await listHistoryEntries());
+    } catch (err) {
+      console.error("Failed to load consultation history", err);
+      setHistoryEntries([]);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const handleDeleteHistory = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setHistoryEntries(entries => entries.filter(e => e.id !== id));
+      if (activeEntry?.id === id) setActiveEntry(null);
+    } catch (err) {
+      console.error("Failed to delete history entry", err);
+    }
+  };
+
+  const handleRestoreHistory = (entry: HistoryEntry) => {
+    handleClear();
+    setView(entry.kind);
+    setInput(entry.input);
+    setActiveEntry(entry);
+    if (entry.kind === 'diagnosis') {
+      setIntake(entry.intake || EMPTY_INTAKE);
+      setDiagnosisState({ results: entry.response, loading: false, error: null, rounds: entry.rounds });
+      setReport(entry.report || null);
+      setLegacyReportHtml(entry.report ? '' : entry.reportHtml || '');
+    } else {
+      setMedicationState({ results: entry.response, loading: false, error: null });
+    }
+    setShowHistory(false);
+
+    setTimeout(() => {
+      (entry.kind === 'diagnosis' ? resultsRef : medResultsRef).current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 100);
+  };
+
+  // --- Cabinet Logic ---
+  // Loaded up front: the header badge, intake form and reminders all use it.
+  const loadCabinet = async () => {
+    setCabinetLoading(true);
+    try {
+      const [items, records] = await Promise.all([listCabinetItems(), listDoseRecords()]);
+      setCabinetItems(items);
+      // Keep doses recorded from a notification while this load was running
+      setDoseRecords(prev => [...records.filter(record => !prev.some(p => p.id === record.id)), ...prev]);
+    } catch (err) {
+      console.error("Failed to load medicine cabinet", err);
+    } finally {
+      setCabinetLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCabinet();
+  }, []);
+
+  useEffect(() => {
+    scheduleReminders(cabinetItems, doseRecords, locale);
+  }, [cabinetItems, doseRecords, locale]);
+
+  const handleRecordDose = async (itemId: string, scheduledFor: number, status: DoseStatus | null) => {
+    const id = doseRecordId(itemId, scheduledFor);
+    try {
+      if (status) {
+        const record: DoseRecord = { id, itemId, scheduledFor, status, recordedAt: Date.now() };
+        await saveDoseRecord(record);
+        setDoseRecords(prev => [...prev.filter(r => r.id !== id), record]);
+      } else {
+        await deleteDoseRecord(id);
+        setDoseRecords(prev => prev.filter(r => r.id !== id));
+      }
+    } catch (err) {
+      console.error("Failed to record dose", err);
+    }
+  };
+
+  // Taken/Skip pressed on a reminder notification, or the reminder opened
+  useEffect(() => subscribeToDoseActions(({ itemId, scheduledFor, status }) => {
+    if (status) handleRecordDose(itemId, scheduledFor, status);
+    else setShowCabinet(true);
+  }), []);
+
+  const handleSaveToCabinet = async (name: string, schedule: DoseSchedule) => {
+    if (!medicationState.results) return;
+    setSavingToCabinet(false);
+    const item: CabinetItem = {
+      id: createHistoryId(),
+      savedAt: Date.now(),
+      name,
+      response: medicationState.results,
+      schedule,
+      thumbnail: images.length > 0 ? await thumbnailFor(images) : activeEntry?.thumbnail,
+    };
+    try {
+      await saveCabinetItem(item);
+      setCabinetItems(prev => [...prev, item].sort((a, b) => a.name.localeCompare(b.name)));
+      if (schedule.reminders) setRemindersEnabled(await requestReminderPermission());
+      setShowCabinet(true);
+    } catch (err) {
+      console.error("Failed to save to cabinet", err);
+      alert(t('alert.cabinetSave'));
+    }
+  };
+
+  const handleDeleteCabinetItem = async (id: string) => {
+    try {
+      await deleteCabinetItem(id);
+      setCabinetItems(prev => prev.filter(item => item.id !== id));
+      setDoseRecords(prev => prev.filter(record => record.itemId !== id));
+    } catch (err) {
+      console.error("Failed to delete cabinet item", err);
+    }
+  };
+
+  const handleEnableReminders = async () => {
+    setRemindersEnabled(await requestReminderPermission());
+  };
+
+  // Expired or expiring stock plus doses waiting to be taken right now
+  const cabinetAlerts = cabinetItems.reduce((count, item) => {
+    const { status } = assessExpiry(item.response.medication.dates);
+    const due = getTodaySlots(item, doseRecords).filter(slot => slot.status === 'due').length;
+    return count + (status === 'expired' || status === 'expiring_soon' ? 1 : 0) + due;
+  }, 0);
+
+  const cabinetMedications = cabinetItems.map(item => `${item.name} (${describeSchedule(item.schedule, locale)})`);
+
+  // --- Request Lifecycle ---
+  // One analysis runs at a time; starting a new one, clearing or switching
+  // views aborts whatever is still in flight.
+  const abortRef = useRef<AbortController | null>(null);
+
+  const beginRequest = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  };
+
+  // The last request made from each view, re-run by the error panel's retry
+  const retryRef = useRef<Partial<Record<ViewMode, () => void>>>({});
+  // The same request again, bypassing the response cache
+  const reanalyzeRef = useRef<Partial<Record<ViewMode, () => void>>>({});
+
+  const cancelInFlight = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIdentifyingMedication(false);
+  };
+
+  // --- Offline Queue Logic ---
+  // Analyses submitted offline are replayed into history on reconnect. They
+  // run in the background rather than into the current view.
+  const refreshQueue = async () => {
+    try {
+      setQueuedAnalyses(await listQueuedAnalyses());
+    } catch (err) {
+      console.error("Failed to load offline queue", err);
+    }
+  };
+
+  const runQueuedAnalysis = async (queued: QueuedAnalysis) => {
+    const entry = { id: createHistoryId(), createdAt: Date.now(), input: queued.input, thumbnail: await thumbnailFor(queued.images) };
+    if (queued.kind === 'diagnosis') {
+      const response = await analyzePatientSymptoms(queued.input, queued.images, { intake: queued.intake, locale: queued.locale });
+      await saveHistoryEntry({ ...entry, kind: 'diagnosis', response, intake: queued.intake, rounds: [] });
+    } else {
+      const response = await analyzeMedication(queued.input, queued.images, { locale: queued.locale, ...(queued.barcode && { barcode: queued.barcode }) });
+      await saveHistoryEntry({ ...entry, kind: 'medication', response });
+    }
+  };
+
+  const flushQueue = async () => {
+    try {
+      const completed = await replayQueue(runQueuedAnalysis);
+      if (completed > 0) setReplayedCount(count => count + completed);
+    } catch (err) {
+      console.error("Failed to replay offline queue", err);
+    }
+    refreshQueue();
+  };
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      flushQueue();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    if (isOffline()) refreshQueue();
+    else flushQueue(); // Left over from an earlier session
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const queueAnalysis = async (analysis: QueuedAnalysis) => {
+    try {
+      await enqueueAnalysis(analysis);
+      setInput('');
+      setImages([]);
+      setBarcode(null);
+      refreshQueue();
+    } catch (err) {
+      console.error("Failed to queue analysis", err);
+      alert(t('alert.queueSave'));
+    }
+  };
+
+  const handleRemoveQueued = async (id: string) => {
+    try {
+      await removeQueuedAnalysis(id);
+      setQueuedAnalyses(prev => prev.filter(analysis => analysis.id !== id));
+    } catch (err) {
+      console.error("Failed to remove queued analysis", err);
+    }
+  };
+
   // --- Diagnosis Logic ---
-  const handleAnalyzeDiagnosis = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() && !selectedImage) return;
+  // Renders conditions as each one finishes streaming; scrolls once the first
+  // renderable content arrives.
+  const streamPartialDiagnosis = (partial: DiagnosisResponse) => {
+    setDiagnosisState(prev => {
+      if (!prev.results) {
+        setTimeout(() => {
+          resultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }, 100);
+      }
+      return { ...prev, results: partial };
+    });
+  };
 
-    setDiagnosisState({ ...diagnosisState, loading: true, error: null });
-    setReportHtml('');
+  const handleAnalyzeDiagnosis = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!input.trim() && images.length === 0) return;
+    if (!confirmImageQuality()) return;
+    retryRef.current.diagnosis = () => handleAnalyzeDiagnosis();
+
+    const controller = beginRequest();
+    setDiagnosisState({ results: null, loading: true, error: null, rounds: [] });
+    resetReport();
+
+    // The local emergency screen runs before the model call so the warning is
+    // never delayed by network latency.
+    setRedFlagAlert(evaluateRedFlags(input, intake));
+
+    const promptText = input.trim() || "Please analyze the symptoms present in the attached image.";
+    const queueForLater = () => {
+      const analysis: QueuedAnalysis = { id: createHistoryId(), queuedAt: Date.now(), kind: 'diagnosis', input: promptText, images, intake, locale };
+      const refusal = screenQueuedAnalysis(analysis);
+      setDiagnosisState({ results: null, loading: false, error: null, rounds: [], ...(refusal && { refusal }) });
+      if (!refusal) queueAnalysis(analysis);
+    };
+    if (isOffline()) return queueForLater();
 
     try {
-      const promptText = input.trim() || "Please analyze the symptoms present in the attached image.";
-      const data = await analyzePatientSymptoms(promptText, selectedImage || undefined);
+      const data = await analyzePatientSymptoms(promptText, images, {
+        intake,
+        locale,
+        signal: controller.signal,
+        onPartial: streamPartialDiagnosis,
+      });
+      if (controller.signal.aborted) return;
       setDiagnosisState({
         results: data,
         loading: false,
         error: null,
+        rounds: [],
+      });
+      persistEntry({
+        id: createHistoryId(),
+        kind: 'diagnosis',
+        createdAt: Date.now(),
+        input: promptText,
+        thumbnail: await thumbnailFor(images),
+        response: data,
+        intake,
+        rounds: [],
       });
-      
-      setTimeout(() => {
-        resultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
-      }, 100);
       
     } catch (err: any) {
+      if (controller.signal.aborted) return;
+      if (err instanceof InputRefusedError) {
+        setDiagnosisState({ results: null, loading: false, error: null, refusal: err.refusal, rounds: [] });
+        return;
+      }
+      if (isOffline()) return queueForLater(); // Connection dropped mid-request
       setDiagnosisState({
         results: null,
         loading: false,
-        error: err.message || "An error occurred during diagnosis.",
+        error: errorMessage(err, 'error.diagnosis'),
+        errorKind: errorKindOf(err),
+        rounds: [],
+      });
+    }
+  };
+
+  // --- Follow-up Consultation Logic ---
+  const handleRefineDiagnosis = async (answers: FollowUpAnswer[]) => {
+    if (!diagnosisState.results) return;
+
+    const controller = beginRequest();
+    retryRef.current.diagnosis = () => handleRefineDiagnosis(answers);
+    const rounds = [...diagnosisState.rounds, { response: diagnosisState.results, answers }];
+    setDiagnosisState({ ...diagnosisState, loading: true, error: null, refusal: undefined, rounds });
+    resetReport();
+
+    const matches = evaluateRedFlags(getConsultationText(input, rounds), intake);
+    const alreadyShown = diagnosisState.results.red_flags || [];
+    if (matches.some(m => !alreadyShown.some(shown => shown.rule_id === m.rule_id))) {
+      setRedFlagAlert(matches);
+    }
+
+    try {
+      const promptText = input.trim() || "Please analyze the symptoms present in the attached image.";
+      const data = await analyzePatientSymptoms(promptText, images, {
+        intake,
+        history: rounds,
+        locale,
+        signal: controller.signal,
+        onPartial: streamPartialDiagnosis,
+      });
+      if (controller.signal.aborted) return;
+      setDiagnosisState({
+        results: data,
+        loading: false,
+        error: null,
+        rounds,
+      });
+      if (activeEntry?.kind === 'diagnosis') {
+        persistEntry({ ...activeEntry, response: data, rounds, report: undefined, reportHtml: undefined });
+      }
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      if (err instanceof InputRefusedError) {
+        setDiagnosisState({ ...diagnosisState, loading: false, refusal: err.refusal });
+        return;
+      }
+      setDiagnosisState({
+        ...diagnosisState,
+        loading: false,
+        error: errorMessage(err, 'error.refine'),
+        errorKind: errorKindOf(err),
       });
     }
   };
 
+  const previousRound = diagnosisState.rounds[diagnosisState.rounds.length - 1];
+
+  const previousProbabilityFor = (condition: MedicalCondition): number | null | undefined => {
+    if (!previousRound) return undefined;
+    const match = previousRound.response.conditions.find(
+      c => c.name.trim().toLowerCase() === condition.name.trim().toLowerCase()
+    );
+    return match ? match.probability : null;
+  };
+
   // --- Medication Logic ---
-  const handleAnalyzeMedication = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() && !selectedImage) return;
+  const handleAnalyzeMedication = async (e?: React.FormEvent, fresh = false) => {
+    e?.preventDefault();
+    if (!input.trim() && images.length === 0 && !barcode) return;
+    if (!fresh && !confirmImageQuality()) return;
+    retryRef.current.medication = () => handleAnalyzeMedication();
+    reanalyzeRef.current.medication = () => handleAnalyzeMedication(undefined, true);
+
+    const promptText = input.trim() || (images.length > 0 ? "Analyze this medication image." : "Identify the medication with this barcode.");
+    const queueForLater = () => {
+      const analysis: QueuedAnalysis = { id: createHistoryId(), queuedAt: Date.now(), kind: 'medication', input: promptText, images, locale, ...(barcode && { barcode }) };
+      const refusal = screenQueuedAnalysis(analysis);
+      setMedicationState({ results: null, loading: false, error: null, ...(refusal && { refusal }) });
+      if (!refusal) queueAnalysis(analysis);
+    };
+    if (isOffline()) return queueForLater();
 
-    setMedicationState({ ...medicationState, loading: true, error: null });
+    const controller = beginRequest();
+    setMedicationState({ ...medicationState, loading: true, error: null, refusal: undefined });
 
     try {
-      const promptText = input.trim() || "Analyze this medication image.";
-      const data = await analyzeMedication(promptText, selectedImage || undefined);
+      const data = await analyzeMedication(promptText, images, { signal: controller.signal, fresh, locale, ...(barcode && { barcode }) });
+      if (controller.signal.aborted) return;
+      const { cached_at, ...response } = data;
       setMedicationState({
         results: data,
         loading: false,
         error: null,
       });
+      persistEntry({
+        id: createHistoryId(),
+        kind: 'medication',
+        createdAt: Date.now(),
+        input: promptText,
+        thumbnail: await thumbnailFor(images),
+        response, // History keeps the analysis, not whether this view was served from cache
+      });
 
       setTimeout(() => {
         medResultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
       }, 100);
 
     } catch (err: any) {
+      if (controller.signal.aborted) return;
+      if (err instanceof InputRefusedError) {
+        setMedicationState({ results: null, loading: false, error: null, refusal: err.refusal });
+        return;
+      }
+      if (isOffline()) return queueForLater();
       setMedicationState({
         results: null,
         loading: false,
-        error: err.message || "An error occurred during medication analysis.",
+        error: errorMessage(err, 'error.medication'),
+        errorKind: errorKindOf(err),
       });
     }
   };
 
+  // --- Interaction Logic ---
+  // Any change to the list invalidates a previously computed matrix
+  const updateInteractionMeds = (meds: string[]) => {
+    setInteractionMeds(meds);
+    setInteractionState({ results: null, loading: false, error: null });
+  };
+
+  const mergeMedications = (current: string[], names: string[]): string[] => {
+    const merged = [...current];
+    names.forEach(name => {
+      if (!merged.some(m => m.toLowerCase() === name.toLowerCase())) merged.push(name);
+    });
+    return merged;
+  };
+
+  // Typed names are added directly; an attached package photo is first
+  // identified through the medication analysis flow.
+  const handleAddInteractionMedication = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!input.trim() && images.length === 0 && !barcode) return;
+
+    let names = input.split(/[,\n]/).map(name => name.trim()).filter(Boolean);
+
+    if (images.length > 0 || barcode) {
+      if (isOffline()) {
+        setInteractionState({ ...interactionState, error: t('error.identifyOffline') });
+        return;
+      }
+      if (!confirmImageQuality()) return;
+      retryRef.current.interactions = () => handleAddInteractionMedication();
+      const controller = beginRequest();
+      setIdentifyingMedication(true);
+      setInteractionState({ ...interactionState, error: null, refusal: undefined });
+      try {
+        const data = await analyzeMedication(input.trim() || "Identify this medication.", images, { signal: controller.signal, locale, ...(barcode && { barcode }) });
+        if (controller.signal.aborted) return;
+        names = [data.medication.generic_name || data.medication.name];
+      } catch (err: any) {
+        if (controller.signal.aborted) return;
+        setInteractionState(err instanceof InputRefusedError
+          ? { ...interactionState, refusal: err.refusal }
+          : { ...interactionState, error: errorMessage(err, 'error.identify'), errorKind: errorKindOf(err) });
+        return;
+      } finally {
+        if (!controller.signal.aborted) setIdentifyingMedication(false);
+      }
+    }
+
+    updateInteractionMeds(mergeMedications(interactionMeds, names));
+    setInput('');
+    setImages([]);
+    setBarcode(null);
+  };
+
+  const handleCheckInteractions = async (fresh = false) => {
+    if (interactionMeds.length < 2) return;
+    if (isOffline()) {
+      setInteractionState({ ...interactionState, error: t('error.interactionsOffline') });
+      return;
+    }
+
+    const controller = beginRequest();
+    retryRef.current.interactions = () => handleCheckInteractions();
+    reanalyzeRef.current.interactions = () => handleCheckInteractions(true);
+    setInteractionState({ ...interactionState, loading: true, error: null, refusal: undefined });
+
+    try {
+      const data = await checkDrugInteractions(interactionMeds, { signal: controller.signal, fresh, locale });
+      if (controller.signal.aborted) return;
+      setInteractionState({
+        results: data,
+        loading: false,
+        error: null,
+      });
+
+      setTimeout(() => {
+        interactionResultsRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      }, 100);
+
+    } catch (err: any) {
+      if (controller.signal.aborted) return;
+      setInteractionState({
+        results: null,
+        loading: false,
+        error: err instanceof InputRefusedError ? null : errorMessage(err, 'error.interactions'),
+        errorKind: errorKindOf(err),
+        refusal: err instanceof InputRefusedError ? err.refusal : undefined,
+      });
+    }
+  };
+
+  const handleAddToInteractions = (name: string) => {
+    const meds = mergeMedications(interactionMeds, [name]);
+    handleClear();
+    setView('interactions');
+    setInteractionMeds(meds);
+  };
+
   const handleGenerateSample = async () => {
     if (diagnosisState.loading || isGenerating) return;
     setIsGenerating(true);
+    retryRef.current.diagnosis = () => handleGenerateSample();
     try {
-      const sample = await generatePatientSample();
+      const sample = await generatePatientSample({ locale });
       setInput(sample);
-    } catch (err) {
-      console.error("Failed to generate sample");
+    } catch (err: any) {
+      setDiagnosisState({ results: null, loading: false, error: errorMessage(err, 'error.sample'), errorKind: errorKindOf(err), rounds: [] });
     } finally {
       setIsGenerating(false);
     }
   };
 
   const handleClear = () => {
+    cancelInFlight();
     setInput('');
-    setSelectedImage(null);
-    setDiagnosisState({ results: null, loading: false, error: null });
+    setImages([]);
+    setBarcode(null);
+    setIntake(EMPTY_INTAKE);
+    setDiagnosisState({ results: null, loading: false, error: null, rounds: [] });
     setMedicationState({ results: null, loading: false, error: null });
-    setReportHtml('');
+    setInteractionState({ results: null, loading: false, error: null });
+    setInteractionMeds([]);
+    resetReport();
+    setActiveEntry(null);
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  // Upload, paste and camera all append to the same ordered gallery. Files are
+  // preprocessed one at a time to keep peak memory low on phones.
+  const addImageFiles = async (files: Blob[]) => {
+    const accepted = files.slice(0, Math.max(MAX_IMAGES - images.length - preparingImages, 0));
+    if (accepted.length < files.length) {
+      alert(t('alert.maxImages', { max: MAX_IMAGES }));
+    }
+    setPreparingImages(count => count + accepted.length);
+    for (const file of accepted) {
+      try {
+        const prepared = await preprocessImage(file);
+        const attachment = { ...createImageAttachment(prepared.dataUrl), source: file, issues: prepared.issues };
+        setImages(prev => [...prev, attachment].slice(0, MAX_IMAGES));
+      } catch (err) {
+        console.error("Failed to prepare image", err);
+      } finally {
+        setPreparingImages(count => count - 1);
+      }
+    }
+  };
+
+  const applyImageEdit = async (id: string, edit: ImageEdit) => {
+    setEditingImageId(null);
+    const image = images.find(item => item.id === id);
+    if (!image) return;
+    try {
+      const prepared = await preprocessImage(image.source || image.dataUrl, edit);
+      setImages(prev => prev.map(item =>
+        item.id === id ? { ...item, dataUrl: prepared.dataUrl, edit, issues: prepared.issues } : item
+      ));
+    } catch (err) {
+      console.error("Failed to edit image", err);
     }
+  };
+
+  // Unreadable photos waste a round trip; let the user retake them first
+  const confirmImageQuality = () => {
+    const flagged = images
+      .map((image, idx) => image.issues?.length
+        ? t('confirm.imageIssue', { index: idx + 1, issues: image.issues.map(issue => t(QUALITY_ISSUE_LABELS[issue])).join(', ') })
+        : null)
+      .filter(Boolean);
+    if (flagged.length === 0) return true;
+    return window.confirm(t('confirm.imageQuality', { issues: flagged.join('\n') }));
+  };
+
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).filter(file => file.type.startsWith('image/'));
+    if (files.length > 0) addImageFiles(files);
     if (fileInputRef.current) {
         fileInputRef.current.value = '';
     }
   };
 
   const handlePaste = (e: React.ClipboardEvent) => {
-    const items = e.clipboardData.items;
-    for (let i = 0; i < items.length; i++) {
-      if (items[i].type.indexOf('image') !== -1) {
-        e.preventDefault();
-        const blob = items[i].getAsFile();
-        if (blob) {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-            setSelectedImage(event.target?.result as string);
-          };
-          reader.readAsDataURL(blob);
-        }
-        return;
-      }
+    const files = Array.from<DataTransferItem>(e.clipboardData.items)
+      .filter(item => item.type.indexOf('image') !== -1)
+      .map(item => item.getAsFile())
+      .filter((file): file is File => !!file);
+    if (files.length > 0) {
+      e.preventDefault();
+      addImageFiles(files);
     }
   };
 
@@ -222,39 +858,47 @@ const App: React.FC = () => {
     
     setShowReportModal(true);
     
-    if (!reportHtml) {
+    if (!report && !legacyReportHtml) {
       setGeneratingReport(true);
+      setReportError(null);
       try {
-        const promptText = input.trim() || (selectedImage ? "Analysis based on provided medical image." : "");
-        const html = await generateClinicalReport(diagnosisState.results, promptText);
-        setReportHtml(html);
-      } catch (e) {
-        setReportHtml('<p>Error loading report.</p>');
+        const promptText = input.trim() || (images.length > 0 ? "Analysis based on provided medical images." : "");
+        const generated = await generateClinicalReport(diagnosisState.results, promptText, { locale });
+        setReport(generated);
+        if (activeEntry?.kind === 'diagnosis') {
+          persistEntry({ ...activeEntry, report: generated, reportHtml: undefined });
+        }
+      } catch (e: any) {
+        setReportError(errorMessage(e, 'error.report'));
       } finally {
         setGeneratingReport(false);
       }
     }
   };
 
+  // Prints the rendered (already escaped and sanitized) template, never raw model output
   const printReport = () => {
+    const content = reportRef.current?.outerHTML;
+    if (!content) return;
     const printWindow = window.open('', '_blank');
     if (printWindow) {
       printWindow.document.write(`
-        <html>
+        <html lang="${locale}" dir="${LOCALES[locale].dir}">
           <head>
-            <title>Clinical Report - LV Health</title>
+            <title>${t('report.printTitle')}</title>
             <link href="https://fonts.googleapis.com/css2?family=Outfit:wght@300;400;600&display=swap" rel="stylesheet">
             <style>
               body { font-family: 'Outfit', sans-serif; padding: 40px; color: #1e293b; }
               .report-content h1 { font-size: 24px; font-weight: 700; color: #0f172a; margin-bottom: 4px; }
               .report-content h2 { font-size: 18px; font-weight: 600; color: #334155; margin-top: 24px; margin-bottom: 12px; border-bottom: 1px solid #e2e8f0; padding-bottom: 6px; text-transform: uppercase; letter-spacing: 0.05em; }
               .report-content p { margin-bottom: 12px; font-size: 14px; line-height: 1.6; }
-              .report-content ul { list-style-type: disc; padding-left: 20px; margin-bottom: 16px; font-size: 14px; }
+              .report-content ul { list-style-type: disc; padding-inline-start: 20px; margin-bottom: 16px; font-size: 14px; }
+              .report-content ol { list-style-type: decimal; padding-inline-start: 20px; margin-bottom: 16px; font-size: 14px; }
               .report-content li { margin-bottom: 6px; }
             </style>
           </head>
           <body>
-            ${reportHtml}
+            ${content}
             <script>
               window.onload = function() { window.print(); }
             </script>
@@ -265,13 +909,38 @@ const App: React.FC = () => {
     }
   };
 
+  // The full-resolution uploads when still on screen, else the saved thumbnail
+  const getExportImages = (): ImageAttachment[] =>
+    images.length > 0 ? images : activeEntry?.thumbnail ? [createImageAttachment(activeEntry.thumbnail)] : [];
+
+  const handleExportPdf = async (exportPdf: () => Promise<void>) => {
+    setExportingPdf(true);
+    try {
+      await exportPdf();
+    } catch (e) {
+      console.error("PDF export failed", e);
+      alert(t('alert.pdf'));
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
+  // Expired stock should only reach a record or file as a deliberate choice
+  const confirmNotExpired = (response: MedicationResponse, action: 'save' | 'export') => {
+    const assessment = assessExpiry(response.medication.dates);
+    if (assessment.status !== 'expired') return true;
+    const warning = t('confirm.expired', { name: response.medication.name, expiry: describeExpiry(assessment, locale) });
+    return window.confirm(`${warning}\n\n${t(action === 'save' ? 'confirm.saveAnyway' : 'confirm.exportAnyway')}`);
+  };
+
   const handleCopyEmail = () => {
     navigator.clipboard.writeText('lvhealthanalysis@gmail.com');
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const isLoading = diagnosisState.loading || medicationState.loading;
+  const isLoading = diagnosisState.loading || medicationState.loading || interactionState.loading || identifyingMedication;
+  const intakeCount = countIntakeFields(intake);
 
   return (
     <div className="min-h-screen font-sans pb-20 selection:bg-brand-accent selection:text-white relative overflow-x-hidden">
@@ -282,7 +951,16 @@ const App: React.FC = () => {
       
       <Analytics />
 
-      <Header onContactClick={() => setShowContactModal(true)} currentView={view} onViewChange={handleViewChange} />
+      <Header
+        onContactClick={() => setShowContactModal(true)}
+        onHistoryClick={openHistory}
+        onCabinetClick={() => setShowCabinet(true)}
+        cabinetAlerts={cabinetAlerts}
+        online={online}
+        queuedCount={queuedAnalyses.length}
+        currentView={view}
+        onViewChange={handleViewChange}
+      />
 
       <main className="relative z-10 pt-28 md:pt-32 max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
         
@@ -294,9 +972,11 @@ const App: React.FC = () => {
             <img 
               src={view === 'diagnosis' 
                 ? "https://raw.githubusercontent.com/Tarikul-Islam-Anik/Animated-Fluent-Emojis/master/Emojis/Objects/Stethoscope.png"
-                : "https://raw.githubusercontent.com/Tarikul-Islam-Anik/Animated-Fluent-Emojis/master/Emojis/Objects/Pill.png"
+                : view === 'medication'
+                  ? "https://raw.githubusercontent.com/Tarikul-Islam-Anik/Animated-Fluent-Emojis/master/Emojis/Objects/Pill.png"
+                  : "https://raw.githubusercontent.com/Tarikul-Islam-Anik/Animated-Fluent-Emojis/master/Emojis/Objects/Test%20Tube.png"
               }
-              alt="3D Icon"
+              alt={t('hero.iconAlt')}
               className="w-full h-full object-contain drop-shadow-[0_0_35px_rgba(124,58,237,0.3)] rotate-12"
             />
           </div>
@@ -306,82 +986,103 @@ const App: React.FC = () => {
               {view === 'diagnosis' ? (
                 <>
                   <Sparkles size={14} className="text-brand-accent animate-pulse" />
-                  <span className="text-[10px] md:text-xs font-bold text-gray-300 uppercase tracking-widest">Neural Diagnostic Engine v2.0</span>
+                  <span className="text-[10px] md:text-xs font-bold text-gray-300 uppercase tracking-widest">{t('hero.diagnosis.badge')}</span>
                 </>
-              ) : (
+              ) : view === 'medication' ? (
                 <>
                   <Pill size={14} className="text-brand-accent animate-pulse" />
-                  <span className="text-[10px] md:text-xs font-bold text-gray-300 uppercase tracking-widest">Pharmaceutical Vision AI</span>
+                  <span className="text-[10px] md:text-xs font-bold text-gray-300 uppercase tracking-widest">{t('hero.medication.badge')}</span>
+                </>
+              ) : (
+                <>
+                  <FlaskConical size={14} className="text-brand-accent animate-pulse" />
+                  <span className="text-[10px] md:text-xs font-bold text-gray-300 uppercase tracking-widest">{t('hero.interactions.badge')}</span>
                 </>
               )}
             </div>
             
             <h2 className="text-4xl sm:text-5xl md:text-7xl font-bold text-white tracking-tight mb-4 md:mb-6 leading-tight">
-              {view === 'diagnosis' ? 'Beyond Diagnosis.' : 'Know Your Meds.'}<br />
-              <span className="text-gradient">{view === 'diagnosis' ? 'Absolute Clarity.' : 'Verified Purity.'}</span>
+              {t(`hero.${view}.title`)}<br />
+              <span className="text-gradient">{t(`hero.${view}.subtitle`)}</span>
             </h2>
             <p className="text-base md:text-xl text-gray-400 leading-relaxed max-w-xl mx-auto font-light px-2">
-              {view === 'diagnosis' 
-                ? <><span className="text-white font-medium">PhD-Level Accuracy</span> for complex medical analysis. Powered by advanced neural networks.</>
-                : <>Instantly analyze pharmaceutical compounds. Extract expiry, origin, and clinical data with <span className="text-white font-medium">100% Precision</span>.</>
-              }
+              {rich(`hero.${view}.body`, { highlight: <span className="text-white font-medium">{t(`hero.${view}.highlight`)}</span> })}
             </p>
           </div>
         </div>
 
         {/* Input Area with Spotlight */}
         <div className="max-w-4xl mx-auto mb-8 md:mb-12">
+          <OfflineQueueBanner
+            online={online}
+            queued={queuedAnalyses}
+            completed={replayedCount}
+            onRetry={flushQueue}
+            onRemove={handleRemoveQueued}
+            onViewHistory={() => { setReplayedCount(0); openHistory(); }}
+            onDismissCompleted={() => setReplayedCount(0)}
+          />
           <div 
             ref={inputContainerRef}
             onMouseMove={handleMouseMove}
             className="glass-panel rounded-2xl md:rounded-3xl overflow-hidden relative group transition-all duration-500 hover:shadow-[0_0_40px_rgba(124,58,237,0.2)] spotlight-card"
           >
             
-            <form onSubmit={view === 'diagnosis' ? handleAnalyzeDiagnosis : handleAnalyzeMedication} className="p-0 relative z-20">
+            <form onSubmit={view === 'diagnosis' ? handleAnalyzeDiagnosis : view === 'medication' ? handleAnalyzeMedication : handleAddInteractionMedication} className="p-0 relative z-20">
               <div className="relative flex flex-col">
                 
-                {/* Image Preview Section */}
-                {selectedImage && (
-                    <div className="px-5 md:px-8 pt-6 pb-2">
-                        <div className="relative inline-block group animate-fade-in-up">
-                            <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent rounded-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
-                            <img 
-                                src={selectedImage} 
-                                alt="Reference" 
-                                className="h-24 md:h-32 w-auto rounded-lg border border-white/20 shadow-lg object-cover" 
-                            />
-                            <button 
-                                type="button"
-                                onClick={() => setSelectedImage(null)}
-                                className="absolute -top-2 -right-2 bg-red-500 hover:bg-red-600 text-white p-1.5 rounded-full opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-all duration-200 shadow-md transform hover:scale-110"
-                            >
-                                <X size={12} />
-                            </button>
-                            <div className="absolute bottom-2 left-2 opacity-0 group-hover:opacity-100 transition-opacity text-[10px] font-bold text-white uppercase tracking-wide hidden md:block">
-                                Attached Image
-                            </div>
-                        </div>
-                    </div>
+                {/* Image Gallery Section */}
+                {(images.length > 0 || preparingImages > 0) && (
+                  <ImageGallery
+                    images={images}
+                    onChange={setImages}
+                    onEdit={setEditingImageId}
+                    pending={preparingImages}
+                    disabled={isLoading}
+                  />
+                )}
+
+                {barcode && (
+                  <div className="flex items-center gap-2 mb-3 px-3 py-2 rounded-lg bg-brand-primary/10 border border-brand-primary/30 text-xs text-brand-glow w-fit max-w-full">
+                    <ScanBarcode size={14} className="shrink-0" />
+                    <span className="font-mono truncate">{describeBarcode(barcode)}</span>
+                    <button type="button" onClick={() => setBarcode(null)} disabled={isLoading} className="p-0.5 text-gray-500 hover:text-white" title={t('input.removeBarcode')}>
+                      <X size={12} />
+                    </button>
+                  </div>
                 )}
 
                 <textarea
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onPaste={handlePaste}
-                  placeholder={view === 'diagnosis' 
-                    ? "Describe symptoms in detail or paste a medical image... (e.g., 'Intermittent migraine with visual aura...')"
-                    : "Enter medication name or capture an image of the packaging/pill... (e.g., 'Amoxicillin 500mg')"
-                  }
+                  maxLength={MAX_INPUT_LENGTH}
+                  placeholder={t(`input.placeholder.${view}`)}
+                  dir="auto"
                   className="w-full min-h-[150px] md:min-h-[180px] p-5 md:p-8 text-base md:text-xl text-gray-100 placeholder-gray-600 bg-transparent border-none outline-none resize-none focus:ring-0 leading-relaxed font-light"
                   disabled={isLoading}
                 />
+
+                {/* Live preview of what the local scrubber will mask */}
+                {view !== 'interactions' && (
+                  <RedactionSummary
+                    redactions={redactText(input, view === 'diagnosis' ? 'Symptoms' : 'Medication query').redactions}
+                    title={t('input.maskedPreview')}
+                    className="mx-5 md:mx-8 mb-4"
+                  />
+                )}
+
+                {/* Structured Intake (Diagnosis only) */}
+                {view === 'diagnosis' && showIntake && (
+                  <IntakeForm intake={intake} onChange={setIntake} cabinetMedications={cabinetMedications} disabled={isLoading} />
+                )}
                 
                 <div className="flex flex-col md:flex-row items-start md:items-center justify-between px-5 py-4 md:px-8 md:py-6 bg-black/20 border-t border-white/5 gap-4 backdrop-blur-md">
                   <div className="flex items-center gap-4 w-full md:w-auto justify-between md:justify-start">
                       <div className="flex items-center gap-2 text-[10px] uppercase tracking-widest text-gray-500">
                         <Zap size={12} className="text-yellow-500 animate-pulse" />
-                        <span className="hidden sm:inline">AI Active</span>
-                        <span className="sm:hidden">AI</span>
+                        <span className="hidden sm:inline">{t('input.aiActive')}</span>
+                        <span className="sm:hidden">{t('input.aiShort')}</span>
                       </div>
                       
                       <div className="h-4 w-px bg-white/10"></div>
@@ -392,6 +1093,7 @@ const App: React.FC = () => {
                         ref={fileInputRef} 
                         onChange={handleImageUpload} 
                         accept="image/*" 
+                        multiple
                         className="hidden" 
                       />
                       <button
@@ -401,11 +1103,30 @@ const App: React.FC = () => {
                         className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-500 hover:text-white transition-colors group"
                       >
                         <ImageIcon size={14} className="group-hover:text-brand-glow transition-colors" />
-                        <span className="group-hover:text-gray-300 transition-colors">Upload</span>
+                        <span className="group-hover:text-gray-300 transition-colors">{t('input.upload')}</span>
                       </button>
 
-                      {/* Camera Button for Medication View */}
-                      {view === 'medication' && (
+                      {/* Intake Toggle for Diagnosis View */}
+                      {view === 'diagnosis' && (
+                        <>
+                          <div className="h-4 w-px bg-white/10"></div>
+                          <button
+                            type="button"
+                            onClick={() => setShowIntake(!showIntake)}
+                            disabled={isLoading}
+                            className={`flex items-center gap-2 text-xs font-bold uppercase tracking-wider transition-colors group ${showIntake ? 'text-white' : 'text-gray-500 hover:text-white'}`}
+                          >
+                            <ClipboardList size={14} className="group-hover:text-brand-glow transition-colors" />
+                            <span className="group-hover:text-gray-300 transition-colors">{t('input.intake')}</span>
+                            {intakeCount > 0 && (
+                              <span className="text-[10px] bg-brand-primary/20 text-brand-glow border border-brand-primary/30 rounded-full px-1.5">{intakeCount}</span>
+                            )}
+                          </button>
+                        </>
+                      )}
+
+                      {/* Camera Button for Medication & Interaction Views */}
+                      {view !== 'diagnosis' && (
                         <>
                           <div className="h-4 w-px bg-white/10"></div>
                           <button
@@ -415,7 +1136,7 @@ const App: React.FC = () => {
                             className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-500 hover:text-white transition-colors group"
                           >
                             <Camera size={14} className="group-hover:text-brand-accent transition-colors" />
-                            <span className="group-hover:text-gray-300 transition-colors">Capture</span>
+                            <span className="group-hover:text-gray-300 transition-colors">{t('input.capture')}</span>
                           </button>
                         </>
                       )}
@@ -430,7 +1151,7 @@ const App: React.FC = () => {
                               className="md:hidden flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-500 hover:text-brand-accent transition-colors"
                             >
                               <Sparkles size={14} className={isGenerating ? "animate-spin" : ""} />
-                              Example
+                              {t('input.example')}
                             </button>
                          </>
                       )}
@@ -446,27 +1167,26 @@ const App: React.FC = () => {
                         className="hidden md:flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-500 hover:text-brand-accent transition-colors px-2 py-2"
                       >
                         <Sparkles size={14} className={isGenerating ? "animate-spin" : ""} />
-                        {isGenerating ? "Simulating Case..." : "Generate Case"}
+                        {isGenerating ? t('input.simulating') : t('input.generateCase')}
                       </button>
                     )}
 
-                    {(input || selectedImage) && (
+                    {(input || images.length > 0 || barcode || intakeCount > 0 || interactionMeds.length > 0 || isLoading) && (
                       <button
                         type="button"
                         onClick={handleClear}
                         className="text-sm font-medium text-gray-500 hover:text-white px-4 py-2 transition-colors w-full sm:w-auto"
-                        disabled={isLoading}
                       >
-                        Reset
+                        {isLoading ? t('input.cancel') : t('input.reset')}
                       </button>
                     )}
                     
                     <button
                       type="submit"
-                      disabled={isLoading || (!input.trim() && !selectedImage)}
+                      disabled={isLoading || preparingImages > 0 || (!input.trim() && images.length === 0 && !barcode)}
                       className={`
                         group relative w-full sm:w-auto overflow-hidden rounded-xl px-8 py-3 md:py-4 font-bold text-white transition-all duration-300
-                        ${isLoading || (!input.trim() && !selectedImage)
+                        ${isLoading || (!input.trim() && images.length === 0 && !barcode)
                           ? 'bg-gray-800 cursor-not-allowed text-gray-600 opacity-50 shadow-none'
                           : view === 'diagnosis' 
                               ? 'bg-gradient-to-r from-brand-primary to-brand-accent shadow-[0_6px_0_rgb(76,29,149)] hover:shadow-[0_8px_0_rgb(76,29,149)] hover:-translate-y-1 active:shadow-none active:translate-y-[6px]'
@@ -474,7 +1194,7 @@ const App: React.FC = () => {
                         }
                       `}
                     >
-                      {!isLoading && (input.trim() || selectedImage) && (
+                      {!isLoading && (input.trim() || images.length > 0 || barcode) && (
                          <div className="absolute inset-0 -translate-x-full group-hover:animate-shimmer bg-gradient-to-r from-transparent via-white/20 to-transparent z-10" />
                       )}
 
@@ -482,14 +1202,14 @@ const App: React.FC = () => {
                         {isLoading ? (
                           <>
                             <div className="h-5 w-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                            <span className="text-sm tracking-widest uppercase drop-shadow-md">Analyzing Data</span>
+                            <span className="text-sm tracking-widest uppercase drop-shadow-md">{t('input.analyzing')}</span>
                           </>
                         ) : (
                           <>
                             <span className="text-sm tracking-widest uppercase drop-shadow-md group-hover:scale-105 transition-transform">
-                                {view === 'diagnosis' ? 'Initialize Diagnosis' : 'Analyze Composition'}
+                                {t(`input.submit.${view}`)}
                             </span>
-                            <ArrowRight size={18} className="transition-transform group-hover:translate-x-1" />
+                            <ArrowRight size={18} className="transition-transform group-hover:translate-x-1 rtl:rotate-180 rtl:group-hover:-translate-x-1" />
                           </>
                         )}
                       </div>
@@ -501,50 +1221,86 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* Interaction Medication List */}
+        {view === 'interactions' && (
+          <div className="max-w-4xl mx-auto -mt-2 md:-mt-4 mb-12 animate-fade-in-up">
+            <div className="glass-panel rounded-2xl p-5 md:p-6 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1 flex flex-wrap gap-2 min-h-[36px] items-center">
+                {interactionMeds.length === 0 ? (
+                  <span className="text-sm text-gray-500">{t('interactions.empty')}</span>
+                ) : (
+                  interactionMeds.map(med => (
+                    <span key={med} className="inline-flex items-center gap-2 text-sm font-medium bg-white/5 text-gray-200 ps-3 pe-1.5 py-1.5 rounded-lg border border-white/10">
+                      {med}
+                      <button
+                        type="button"
+                        onClick={() => updateInteractionMeds(interactionMeds.filter(m => m !== med))}
+                        disabled={isLoading}
+                        className="text-gray-500 hover:text-red-400 transition-colors p-0.5"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleCheckInteractions()}
+                disabled={isLoading || interactionMeds.length < 2}
+                className="flex items-center justify-center gap-2 px-6 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-white bg-gradient-to-r from-pink-600 to-purple-600 transition-all disabled:opacity-40 disabled:cursor-not-allowed hover:-translate-y-0.5 shrink-0"
+              >
+                {interactionState.loading ? (
+                  <div className="h-4 w-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                ) : (
+                  <FlaskConical size={14} />
+                )}
+                {t('interactions.check')}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Trust Bar */}
         <div className="max-w-4xl mx-auto grid grid-cols-2 md:grid-cols-4 gap-4 md:gap-8 mb-16 px-4">
           <div className="flex items-center gap-3 justify-center md:justify-start opacity-60 hover:opacity-100 transition-opacity cursor-default">
             <ShieldCheck size={20} className="text-brand-primary" />
-            <span className="text-xs font-bold uppercase tracking-wider text-gray-300">Evidence Based</span>
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-300">{t('trust.evidence')}</span>
           </div>
           <div className="flex items-center gap-3 justify-center md:justify-start opacity-60 hover:opacity-100 transition-opacity cursor-default">
             <Clock size={20} className="text-brand-accent" />
-            <span className="text-xs font-bold uppercase tracking-wider text-gray-300">Real-time Analysis</span>
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-300">{t('trust.realtime')}</span>
           </div>
           <div className="flex items-center gap-3 justify-center md:justify-start opacity-60 hover:opacity-100 transition-opacity cursor-default">
             <Database size={20} className="text-blue-400" />
-            <span className="text-xs font-bold uppercase tracking-wider text-gray-300">10M+ Records</span>
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-300">{t('trust.records')}</span>
           </div>
           <div className="flex items-center gap-3 justify-center md:justify-start opacity-60 hover:opacity-100 transition-opacity cursor-default">
             <Sparkles size={20} className="text-yellow-400" />
-            <span className="text-xs font-bold uppercase tracking-wider text-gray-300">PhD Accuracy</span>
+            <span className="text-xs font-bold uppercase tracking-wider text-gray-300">{t('trust.accuracy')}</span>
           </div>
         </div>
 
         {/* Support Section */}
-        {!diagnosisState.results && !medicationState.results && !isLoading && (
+        {!diagnosisState.results && !medicationState.results && !interactionState.results && !isLoading && (
           <div className="max-w-2xl mx-auto text-center -mt-8 md:-mt-12 mb-24 px-4 md:px-6 opacity-80 hover:opacity-100 transition-opacity duration-500">
              <div className="inline-flex items-center gap-2 text-brand-primary mb-4 bg-brand-primary/5 px-4 py-1.5 rounded-full border border-brand-primary/10 hover:bg-brand-primary/10 transition-colors cursor-pointer">
                 <Heart size={14} className="fill-brand-primary/20" />
-                <span className="text-[10px] font-bold uppercase tracking-widest">Support Our Mission</span>
+                <span className="text-[10px] font-bold uppercase tracking-widest">{t('support.title')}</span>
              </div>
              <p className="text-gray-400 text-xs md:text-sm leading-relaxed">
-               Help us democratize precision health. If LV Health has empowered you, please consider sharing <span className="text-white font-medium">Assistant Doctor</span> with friends and family.
+               {rich('support.body', { app: <span className="text-white font-medium">Assistant Doctor</span> })}
              </p>
           </div>
         )}
 
         {/* --- Diagnosis Results --- */}
-        {view === 'diagnosis' && (diagnosisState.results || diagnosisState.error) && (
+        {view === 'diagnosis' && (diagnosisState.results || diagnosisState.error || diagnosisState.refusal) && (
           <div ref={resultsRef} className="animate-fade-in-up space-y-8 md:space-y-10 pb-20">
             {diagnosisState.error ? (
-               <div className="max-w-2xl mx-auto bg-red-900/20 border border-red-500/30 rounded-2xl p-6 md:p-8 text-center backdrop-blur-sm animate-pulse-slow">
-                 <div className="w-12 h-12 bg-red-500/10 text-red-500 rounded-full flex items-center justify-center mx-auto mb-4 border border-red-500/20">
-                   <AlertOctagon size={24} />
-                 </div>
-                 <h3 className="text-lg font-bold text-red-200 mb-2">Analysis Interrupted</h3>
-                 <p className="text-red-400/80 text-sm">{diagnosisState.error}</p>
-               </div>
+              <ErrorNotice message={diagnosisState.error} kind={diagnosisState.errorKind} onRetry={retryRef.current.diagnosis} />
+            ) : diagnosisState.refusal ? (
+              <RefusalNotice refusal={diagnosisState.refusal} />
             ) : diagnosisState.results && (
               <>
                 {/* Diagnosis Content */}
@@ -554,52 +1310,81 @@ const App: React.FC = () => {
                         <Stethoscope size={24} />
                     </div>
                     <div>
-                        <h2 className="text-xl md:text-2xl font-bold text-white">Clinical Report</h2>
-                        <p className="text-xs md:text-sm text-gray-500">ID: {Math.random().toString(36).substr(2, 9).toUpperCase()} • LV Health AI</p>
+                        <h2 className="text-xl md:text-2xl font-bold text-white">{t('diagnosis.title')}</h2>
+                        <p className="text-xs md:text-sm text-gray-500">{t('diagnosis.reference', { id: Math.random().toString(36).substr(2, 9).toUpperCase() })}</p>
                     </div>
                   </div>
+                  {diagnosisState.loading && (
+                    <div className="md:ms-auto flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-brand-accent">
+                      <div className="h-3.5 w-3.5 border-2 border-brand-accent/30 border-t-brand-accent rounded-full animate-spin" />
+                      {t('diagnosis.receiving')}
+                    </div>
+                  )}
                   <button 
                     onClick={handleViewReport}
-                    className="ml-auto w-full md:w-auto flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:border-white/30 px-5 py-2.5 rounded-lg transition-all group hover:bg-white/10"
+                    disabled={diagnosisState.loading}
+                    className="ms-auto disabled:opacity-40 disabled:pointer-events-none w-full md:w-auto flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:border-white/30 px-5 py-2.5 rounded-lg transition-all group hover:bg-white/10"
                   >
                     <FileText size={14} className="text-brand-accent group-hover:scale-110 transition-transform" />
-                    Detailed Report
+                    {t('diagnosis.detailedReport')}
+                  </button>
+                  <button
+                    onClick={() => downloadFhirBundle(diagnosisToFhirBundle(diagnosisState.results!, createFhirExportContext(), intake), 'lv-health-diagnosis.fhir.json')}
+                    disabled={diagnosisState.loading}
+                    className="w-full md:w-auto flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:border-white/30 px-5 py-2.5 rounded-lg transition-all hover:bg-white/10 disabled:opacity-40 disabled:pointer-events-none"
+                    title={t('export.fhirTitle')}
+                  >
+                    <FileJson size={14} className="text-brand-accent" />
+                    {t('export.fhir')}
                   </button>
                 </div>
 
+                {diagnosisState.results.red_flags && diagnosisState.results.red_flags.length > 0 && (
+                  <button
+                    onClick={() => setRedFlagAlert(diagnosisState.results!.red_flags!)}
+                    className="w-full flex items-center gap-3 bg-red-900/30 border border-red-500/40 rounded-2xl px-5 py-4 text-start hover:bg-red-900/40 transition-colors"
+                  >
+                    <AlertOctagon size={20} className="text-red-400 shrink-0 animate-pulse" />
+                    <span className="text-sm text-red-200">
+                      <span className="font-bold uppercase tracking-wider me-2">{t('diagnosis.emergencyScreen')}</span>
+                      {diagnosisState.results.red_flags.map(flag => redFlagText(flag, 'title', locale)).join(' • ')}
+                    </span>
+                  </button>
+                )}
+
                 <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-6 md:p-8 border border-white/10 shadow-2xl relative overflow-hidden group">
                   <div className="absolute top-0 right-0 w-96 h-96 bg-brand-primary/20 rounded-full blur-[80px] transform translate-x-1/2 -translate-y-1/2 group-hover:bg-brand-primary/25 transition-colors duration-500"></div>
                   <div className="relative z-10 flex flex-col md:grid md:grid-cols-3 gap-6 md:gap-10">
                     <div className="md:col-span-2 space-y-6">
                       <div className="flex items-center gap-2 text-brand-accent text-xs font-bold uppercase tracking-widest">
                         <Sparkles size={14} />
-                        Synopsis
+                        {t('diagnosis.synopsis')}
                       </div>
                       <p className="text-base md:text-lg text-gray-200 leading-relaxed font-light">
                         {diagnosisState.results.general_advice}
                       </p>
                       <div className="pt-4">
                         <div className="inline-block bg-red-500/10 border border-red-500/20 rounded-lg px-4 py-3 text-[11px] text-red-300 uppercase tracking-wider w-full md:w-auto hover:bg-red-500/15 transition-colors">
-                           <span className="font-bold text-red-400 mr-2 block md:inline">DISCLAIMER:</span> {diagnosisState.results.disclaimer}
+                           <span className="font-bold text-red-400 me-2 block md:inline">{t('diagnosis.disclaimer')}</span> {diagnosisState.results.disclaimer}
                         </div>
                       </div>
                     </div>
-                    <div className="flex flex-col justify-center border-t md:border-t-0 md:border-l border-white/5 pt-6 md:pt-0 pl-0 md:pl-10">
+                    <div className="flex flex-col justify-center border-t md:border-t-0 md:border-s border-white/5 pt-6 md:pt-0 ps-0 md:ps-10">
                       {diagnosisState.results.conditions.some(c => ['High', 'Critical'].includes(c.urgency)) ? (
                         <div className="text-center">
                           <div className="inline-flex p-4 rounded-full bg-red-500/10 text-red-500 mb-4 animate-pulse border border-red-500/20 shadow-[0_0_20px_rgba(239,68,68,0.2)]">
                              <AlertOctagon size={32} />
                           </div>
-                          <h4 className="font-bold text-white text-lg mb-1">Immediate Action</h4>
-                          <p className="text-xs text-gray-400 leading-relaxed">Symptoms suggest high priority conditions. Please consult a specialist.</p>
+                          <h4 className="font-bold text-white text-lg mb-1">{t('diagnosis.immediateAction')}</h4>
+                          <p className="text-xs text-gray-400 leading-relaxed">{t('diagnosis.immediateActionBody')}</p>
                         </div>
                       ) : (
                         <div className="text-center">
                            <div className="inline-flex p-4 rounded-full bg-emerald-500/10 text-emerald-500 mb-4 border border-emerald-500/20 shadow-[0_0_20px_rgba(16,185,129,0.1)]">
                              <FileText size={32} />
                            </div>
-                           <h4 className="font-bold text-white text-lg mb-1">Routine Monitor</h4>
-                           <p className="text-xs text-gray-400 leading-relaxed">Symptoms appear manageable. Follow standard care protocols.</p>
+                           <h4 className="font-bold text-white text-lg mb-1">{t('diagnosis.routine')}</h4>
+                           <p className="text-xs text-gray-400 leading-relaxed">{t('diagnosis.routineBody')}</p>
                         </div>
                       )}
                     </div>
@@ -607,41 +1392,63 @@ const App: React.FC = () => {
                 </div>
 
                 <div className="grid grid-cols-1 gap-8">
-                  <div>
-                    <div className="flex items-center justify-between mb-6">
-                       <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest">Primary Diagnosis</h3>
+                  {diagnosisState.results.conditions.length > 0 && (
+                    <div>
+                      <div className="flex items-center justify-between mb-6">
+                         <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest">{t('diagnosis.primary')}</h3>
+                      </div>
+                      <ConditionCard
+                        condition={diagnosisState.results.conditions[0]}
+                        rank={1}
+                        previousProbability={previousProbabilityFor(diagnosisState.results.conditions[0])}
+                      />
                     </div>
-                    <ConditionCard condition={diagnosisState.results.conditions[0]} rank={1} />
-                  </div>
+                  )}
 
                   {diagnosisState.results.conditions.length > 1 && (
                     <div>
-                      <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-6">Differential Diagnoses</h3>
+                      <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-6">{t('diagnosis.differential')}</h3>
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         {diagnosisState.results.conditions.slice(1).map((condition, idx) => (
-                          <ConditionCard key={idx} condition={condition} rank={idx + 2} />
+                          <ConditionCard key={idx} condition={condition} rank={idx + 2} previousProbability={previousProbabilityFor(condition)} />
                         ))}
                       </div>
                     </div>
                   )}
                 </div>
+
+                <ImageFindings findings={diagnosisState.results.image_findings} images={images} />
+
+                <RedactionSummary redactions={diagnosisState.results.redactions || []} title={t('results.redacted')} />
+
+                {!diagnosisState.loading && diagnosisState.results.follow_up_questions && diagnosisState.results.follow_up_questions.length > 0 && (
+                  <FollowUpPanel
+                    questions={diagnosisState.results.follow_up_questions}
+                    round={diagnosisState.rounds.length + 1}
+                    loading={diagnosisState.loading}
+                    onSubmit={handleRefineDiagnosis}
+                  />
+                )}
               </>
             )}
           </div>
         )}
 
         {/* --- Medication Results --- */}
-        {view === 'medication' && (medicationState.results || medicationState.error) && (
+        {view === 'medication' && (medicationState.results || medicationState.error || medicationState.refusal) && (
            <div ref={medResultsRef} className="animate-slide-up-fade space-y-8 pb-20">
              {medicationState.error ? (
-               <div className="max-w-2xl mx-auto bg-red-900/20 border border-red-500/30 rounded-2xl p-6 text-center">
-                 <p className="text-red-400">{medicationState.error}</p>
-               </div>
+               <ErrorNotice message={medicationState.error} kind={medicationState.errorKind} onRetry={retryRef.current.medication} />
+             ) : medicationState.refusal ? (
+               <RefusalNotice refusal={medicationState.refusal} />
              ) : medicationState.results && (
                <>
+                  {medicationState.results.cached_at && (
+                    <CachedResultNotice cachedAt={medicationState.results.cached_at} onReanalyze={reanalyzeRef.current.medication} disabled={isLoading} />
+                  )}
                   {/* Monograph Header */}
-                  <div className="glass-panel rounded-3xl p-8 relative overflow-hidden border-l-4 border-l-brand-accent group">
-                    <div className="absolute top-0 right-0 p-6 opacity-10 transition-opacity group-hover:opacity-20 duration-500">
+                  <div className="glass-panel rounded-3xl p-8 relative overflow-hidden border-s-4 border-s-brand-accent group">
+                    <div className="absolute top-0 end-0 p-6 opacity-10 transition-opacity group-hover:opacity-20 duration-500">
                       <Factory size={120} className="text-white" />
                     </div>
                     
@@ -650,9 +1457,41 @@ const App: React.FC = () => {
                          <div>
                             <h2 className="text-3xl md:text-4xl font-bold text-white mb-1">{medicationState.results.medication.name}</h2>
                             <p className="text-xl text-brand-accent font-light">{medicationState.results.medication.generic_name}</p>
+                            <ExpiryBadge dates={medicationState.results.medication.dates} className="mt-3" />
+                            <TerminologyCodes codes={medicationState.results.medication.codes} className="mt-3" />
+                            <button
+                              onClick={() => handleAddToInteractions(medicationState.results!.medication.generic_name || medicationState.results!.medication.name)}
+                              className="mt-4 flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:border-white/30 px-4 py-2 rounded-lg transition-all"
+                            >
+                              <Plus size={14} className="text-brand-accent" />
+                              {t('medication.addToInteractions')}
+                            </button>
+                            <button
+                              onClick={() => confirmNotExpired(medicationState.results!, 'save') && setSavingToCabinet(true)}
+                              className="mt-2 flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:border-white/30 px-4 py-2 rounded-lg transition-all"
+                            >
+                              <Archive size={14} className="text-brand-accent" />
+                              {t('medication.saveToCabinet')}
+                            </button>
+                            <button
+                              onClick={() => confirmNotExpired(medicationState.results!, 'export') && handleExportPdf(() => exportMedicationPdf(medicationState.results!, getExportImages(), locale))}
+                              disabled={exportingPdf}
+                              className="mt-2 flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:border-white/30 px-4 py-2 rounded-lg transition-all disabled:opacity-50"
+                            >
+                              <Download size={14} className="text-brand-accent" />
+                              {exportingPdf ? t('medication.preparingPdf') : t('medication.exportPdf')}
+                            </button>
+                            <button
+                              onClick={() => confirmNotExpired(medicationState.results!, 'export') && downloadFhirBundle(medicationToFhirBundle(medicationState.results!, createFhirExportContext()), 'lv-health-medication.fhir.json')}
+                              className="mt-2 flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:border-white/30 px-4 py-2 rounded-lg transition-all"
+                              title={t('export.fhirTitle')}
+                            >
+                              <FileJson size={14} className="text-brand-accent" />
+                              {t('medication.exportFhir')}
+                            </button>
                          </div>
                          <div className="bg-white/5 px-4 py-2 rounded-lg border border-white/10 hover:border-white/20 transition-colors">
-                            <span className="text-xs text-gray-400 block uppercase tracking-wider mb-1">Analysis Confidence</span>
+                            <span className="text-xs text-gray-400 block uppercase tracking-wider mb-1">{t('medication.confidence')}</span>
                             <div className="flex items-center gap-2">
                                <div className="w-32 h-2 bg-gray-700 rounded-full overflow-hidden">
                                   <div style={{width: `${medicationState.results.analysis_confidence}%`}} className="h-full bg-brand-accent rounded-full shadow-[0_0_10px_rgba(217,70,239,0.5)]" />
@@ -667,43 +1506,26 @@ const App: React.FC = () => {
                         <div className="bg-black/20 p-4 rounded-xl border border-white/5 hover:border-white/20 transition-colors">
                            <div className="flex items-center gap-2 text-gray-400 mb-2">
                               <Factory size={14} />
-                              <span className="text-xs font-bold uppercase tracking-wider">Manufacturer</span>
+                              <span className="text-xs font-bold uppercase tracking-wider">{t('medication.manufacturer')}</span>
                            </div>
                            <p className="text-white font-medium">{medicationState.results.medication.manufacturer.name}</p>
                            <div className="flex gap-2 mt-2 text-xs text-gray-500">
-                              <span>Origin: {medicationState.results.medication.manufacturer.country_of_origin}</span>
+                              <span>{t('medication.origin', { country: medicationState.results.medication.manufacturer.country_of_origin })}</span>
                            </div>
                         </div>
 
                         {/* Dates */}
-                        <div className="bg-black/20 p-4 rounded-xl border border-white/5 hover:border-white/20 transition-colors">
-                           <div className="flex items-center gap-2 text-gray-400 mb-2">
-                              <Calendar size={14} />
-                              <span className="text-xs font-bold uppercase tracking-wider">Dates (From Image)</span>
-                           </div>
-                           <div className="space-y-1">
-                             <div className="flex justify-between text-sm">
-                               <span className="text-gray-500">Mfg Date:</span>
-                               <span className="text-white">{medicationState.results.medication.dates.production_date}</span>
-                             </div>
-                             <div className="flex justify-between text-sm">
-                               <span className="text-gray-500">Exp Date:</span>
-                               <span className={`font-bold ${medicationState.results.medication.dates.expiry_date.includes('Not') ? 'text-gray-400' : 'text-brand-accent'}`}>
-                                 {medicationState.results.medication.dates.expiry_date}
-                               </span>
-                             </div>
-                           </div>
-                        </div>
+                        <PackagingDates medication={medicationState.results.medication} ocr={medicationState.results.ocr} />
                         
                         {/* Specs */}
                          <div className="bg-black/20 p-4 rounded-xl border border-white/5 hover:border-white/20 transition-colors">
                            <div className="flex items-center gap-2 text-gray-400 mb-2">
                               <Info size={14} />
-                              <span className="text-xs font-bold uppercase tracking-wider">Specifications</span>
+                              <span className="text-xs font-bold uppercase tracking-wider">{t('medication.specifications')}</span>
                            </div>
-                           <p className="text-white text-sm"><span className="text-gray-500">Type:</span> {medicationState.results.medication.specifications.type}</p>
-                           <p className="text-white text-sm"><span className="text-gray-500">Dosage:</span> {medicationState.results.medication.specifications.dosage}</p>
-                           <p className="text-white text-sm truncate" title={medicationState.results.medication.specifications.composition}><span className="text-gray-500">Active:</span> {medicationState.results.medication.specifications.composition}</p>
+                           <p className="text-white text-sm"><span className="text-gray-500">{t('medication.type')}</span> {medicationState.results.medication.specifications.type}</p>
+                           <p className="text-white text-sm"><span className="text-gray-500">{t('medication.dosage')}</span> {medicationState.results.medication.specifications.dosage}</p>
+                           <p className="text-white text-sm truncate" title={medicationState.results.medication.specifications.composition}><span className="text-gray-500">{t('medication.active')}</span> {medicationState.results.medication.specifications.composition}</p>
                         </div>
                       </div>
                     </div>
@@ -714,7 +1536,7 @@ const App: React.FC = () => {
                      {/* Uses */}
                      <div className="glass-panel p-6 rounded-2xl border-t border-t-brand-primary/50 hover:bg-white/5 transition-colors">
                         <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
-                          <Check size={18} className="text-brand-primary" /> Official Indications
+                          <Check size={18} className="text-brand-primary" /> {t('medication.indications')}
                         </h3>
                         <ul className="space-y-2">
                           {medicationState.results.medication.clinical_info.uses.map((use, i) => (
@@ -728,7 +1550,7 @@ const App: React.FC = () => {
 
                      {/* Administration */}
                      <div className="glass-panel p-6 rounded-2xl hover:bg-white/5 transition-colors">
-                        <h3 className="text-lg font-bold text-white mb-4">Administration Guide</h3>
+                        <h3 className="text-lg font-bold text-white mb-4">{t('medication.administration')}</h3>
                         <p className="text-gray-300 text-sm leading-relaxed">
                           {medicationState.results.medication.clinical_info.administration_guide}
                         </p>
@@ -737,7 +1559,7 @@ const App: React.FC = () => {
                      {/* Warnings */}
                      <div className="glass-panel p-6 rounded-2xl border border-red-500/20 bg-red-900/5 hover:bg-red-900/10 transition-colors">
                         <h3 className="text-lg font-bold text-red-200 mb-4 flex items-center gap-2">
-                          <AlertTriangle size={18} className="text-red-400" /> Critical Warnings
+                          <AlertTriangle size={18} className="text-red-400" /> {t('medication.warnings')}
                         </h3>
                          <p className="text-gray-300 text-sm leading-relaxed">
                           {medicationState.results.medication.clinical_info.warnings}
@@ -746,7 +1568,7 @@ const App: React.FC = () => {
 
                       {/* Side Effects */}
                      <div className="glass-panel p-6 rounded-2xl hover:bg-white/5 transition-colors">
-                        <h3 className="text-lg font-bold text-white mb-4">Potential Side Effects</h3>
+                        <h3 className="text-lg font-bold text-white mb-4">{t('medication.sideEffects')}</h3>
                         <div className="flex flex-wrap gap-2">
                            {medicationState.results.medication.clinical_info.side_effects.map((effect, i) => (
                              <span key={i} className="text-xs bg-white/5 text-gray-400 px-3 py-1 rounded-full border border-white/10">
@@ -756,6 +1578,10 @@ const App: React.FC = () => {
                         </div>
                      </div>
                   </div>
+
+                  <ImageFindings findings={medicationState.results.image_findings} images={images} />
+
+                  <RedactionSummary redactions={medicationState.results.redactions || []} title={t('results.redacted')} />
                   
                   <div className="text-center text-xs text-gray-500 mt-8 max-w-2xl mx-auto">
                     {medicationState.results.disclaimer}
@@ -765,6 +1591,24 @@ const App: React.FC = () => {
            </div>
         )}
 
+        {/* --- Interaction Results --- */}
+        {view === 'interactions' && (interactionState.results || interactionState.error || interactionState.refusal) && (
+          <div ref={interactionResultsRef} className="animate-slide-up-fade space-y-8 pb-20">
+            {interactionState.error ? (
+              <ErrorNotice message={interactionState.error} kind={interactionState.errorKind} onRetry={retryRef.current.interactions} />
+            ) : interactionState.refusal ? (
+              <RefusalNotice refusal={interactionState.refusal} />
+            ) : interactionState.results && (
+              <>
+                {interactionState.results.cached_at && (
+                  <CachedResultNotice cachedAt={interactionState.results.cached_at} onReanalyze={reanalyzeRef.current.interactions} disabled={isLoading} />
+                )}
+                <InteractionMatrix medications={interactionMeds} results={interactionState.results} />
+              </>
+            )}
+          </div>
+        )}
+
         {/* Report Modal (Diagnosis Only) */}
         {showReportModal && (
           <div className="fixed inset-0 z-[100] flex items-center justify-center p-2 md:p-4 bg-black/80 backdrop-blur-sm">
@@ -775,8 +1619,8 @@ const App: React.FC = () => {
                       <FileText size={18} className="text-white" />
                    </div>
                    <div>
-                     <h3 className="text-base md:text-lg font-bold text-gray-900">Consultation Report</h3>
-                     <p className="text-[10px] md:text-xs text-gray-500">Generated by LV Assistant Doctor</p>
+                     <h3 className="text-base md:text-lg font-bold text-gray-900">{t('report.title')}</h3>
+                     <p className="text-[10px] md:text-xs text-gray-500">{t('report.generatedBy')}</p>
                    </div>
                 </div>
                 <button onClick={() => setShowReportModal(false)} className="text-gray-400 hover:text-gray-700 transition-colors p-2">
@@ -787,13 +1631,22 @@ const App: React.FC = () => {
                 {generatingReport ? (
                   <div className="h-full flex flex-col items-center justify-center text-gray-400">
                     <div className="w-10 h-10 border-4 border-brand-primary/30 border-t-brand-primary rounded-full animate-spin mb-4" />
-                    <p className="text-sm animate-pulse">Compiling clinical data...</p>
+                    <p className="text-sm animate-pulse">{t('report.compiling')}</p>
+                  </div>
+                ) : reportError ? (
+                  <div className="h-full flex flex-col items-center justify-center text-center text-gray-500">
+                    <AlertOctagon size={28} className="text-red-400 mb-3" />
+                    <p className="text-sm">{reportError}</p>
+                    <button onClick={handleViewReport} className="mt-4 flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white">
+                      <RotateCw size={14} /> {t('report.tryAgain')}
+                    </button>
+                  </div>
+                ) : report ? (
+                  <ClinicalReportView ref={reportRef} report={report} />
+                ) : legacyReportHtml && (
+                  <div ref={reportRef} className="report-content">
+                    <RichText block html={legacyReportHtml} className="prose prose-slate max-w-none prose-sm md:prose-base" />
                   </div>
-                ) : (
-                  <div 
-                    className="prose prose-slate max-w-none prose-sm md:prose-base"
-                    dangerouslySetInnerHTML={{ __html: reportHtml }}
-                  />
                 )}
               </div>
               <div className="px-4 md:px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-xl flex justify-end gap-3">
@@ -801,22 +1654,69 @@ const App: React.FC = () => {
                    onClick={() => setShowReportModal(false)}
                    className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-200 rounded-lg transition-colors"
                  >
-                   Close
+                   {t('report.close')}
+                 </button>
+                 <button
+                   onClick={() => report && handleExportPdf(() => exportReportPdf(report, getExportImages(), locale))}
+                   disabled={generatingReport || !report || exportingPdf}
+                   className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-brand-primary border border-brand-primary/30 hover:bg-brand-primary/10 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                 >
+                   <Download size={16} className={exportingPdf ? "animate-bounce" : ""} />
+                   <span className="hidden sm:inline">{t('report.downloadPdf')}</span>
+                   <span className="sm:hidden">{t('report.pdf')}</span>
                  </button>
                  <button 
                    onClick={printReport}
-                   disabled={generatingReport}
+                   disabled={generatingReport || (!report && !legacyReportHtml)}
                    className="flex items-center gap-2 px-4 md:px-6 py-2 bg-brand-primary hover:bg-purple-700 text-white text-sm font-bold rounded-lg transition-colors shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
                  >
                    <Printer size={16} />
-                   <span className="hidden sm:inline">Print Document</span>
-                   <span className="sm:hidden">Print</span>
+                   <span className="hidden sm:inline">{t('report.print')}</span>
+                   <span className="sm:hidden">{t('report.printShort')}</span>
                  </button>
               </div>
             </div>
           </div>
         )}
 
+        {/* Emergency Interstitial */}
+        {redFlagAlert.length > 0 && (
+          <EmergencyInterstitial matches={redFlagAlert} onDismiss={() => setRedFlagAlert([])} />
+        )}
+
+        {/* History Drawer */}
+        {showHistory && (
+          <HistoryPanel
+            entries={historyEntries}
+            loading={historyLoading}
+            onClose={() => setShowHistory(false)}
+            onSelect={handleRestoreHistory}
+            onDelete={handleDeleteHistory}
+          />
+        )}
+
+        {/* Cabinet Drawer */}
+        {showCabinet && (
+          <CabinetPanel
+            items={cabinetItems}
+            records={doseRecords}
+            loading={cabinetLoading}
+            remindersEnabled={remindersEnabled}
+            onEnableReminders={remindersSupported() ? handleEnableReminders : undefined}
+            onRecordDose={handleRecordDose}
+            onDelete={handleDeleteCabinetItem}
+            onClose={() => setShowCabinet(false)}
+          />
+        )}
+
+        {savingToCabinet && medicationState.results && (
+          <CabinetSaveDialog
+            response={medicationState.results}
+            onSave={handleSaveToCabinet}
+            onClose={() => setSavingToCabinet(false)}
+          />
+        )}
+
         {/* Contact Modal */}
         {showContactModal && (
           <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
@@ -826,7 +1726,7 @@ const App: React.FC = () => {
                 
                 <button 
                     onClick={() => setShowContactModal(false)}
-                    className="absolute top-4 right-4 text-gray-500 hover:text-white transition-colors"
+                    className="absolute top-4 end-4 text-gray-500 hover:text-white transition-colors"
                 >
                     <X size={20} />
                 </button>
@@ -836,9 +1736,9 @@ const App: React.FC = () => {
                         <Mail size={32} className="text-brand-accent" />
                     </div>
                     
-                    <h3 className="text-2xl font-bold text-white mb-2">Contact Support</h3>
+                    <h3 className="text-2xl font-bold text-white mb-2">{t('contact.title')}</h3>
                     <p className="text-gray-400 text-sm mb-8 leading-relaxed">
-                        Have questions about your diagnosis or need technical assistance? Our LV Health specialists are ready to help.
+                        {t('contact.body')}
                     </p>
                     
                     <div className="space-y-4">
@@ -852,7 +1752,7 @@ const App: React.FC = () => {
                             <button 
                                 onClick={handleCopyEmail}
                                 className="p-2 text-gray-500 hover:text-white transition-colors relative"
-                                title="Copy to clipboard"
+                                title={t('contact.copy')}
                             >
                                 {copied ? <Check size={16} className="text-green-400" /> : <Copy size={16} />}
                             </button>
@@ -863,13 +1763,13 @@ const App: React.FC = () => {
                             className="flex items-center justify-center gap-2 w-full py-3.5 bg-brand-primary hover:bg-purple-600 text-white text-sm font-bold rounded-xl transition-all shadow-lg shadow-brand-primary/20 hover:shadow-brand-primary/40 hover:-translate-y-0.5"
                         >
                             <ExternalLink size={16} />
-                            Open Mail App
+                            {t('contact.openMail')}
                         </a>
                     </div>
                     
                     <div className="mt-8 pt-6 border-t border-white/5">
                         <p className="text-[10px] text-gray-600 uppercase tracking-widest">
-                            Average Response Time: &lt; 2 Hours
+                            {t('contact.responseTime')}
                         </p>
                     </div>
                 </div>
@@ -877,10 +1777,36 @@ const App: React.FC = () => {
           </div>
         )}
         
+        {/* Image Editor */}
+        {editingImageId && images.some(image => image.id === editingImageId) && (
+          <ImageEditor
+            image={images.find(image => image.id === editingImageId)!}
+            index={images.findIndex(image => image.id === editingImageId)}
+            onApply={(edit) => applyImageEdit(editingImageId, edit)}
+            onClose={() => setEditingImageId(null)}
+          />
+        )}
+
         {/* Camera Modal */}
         {showCamera && (
           <div className="fixed inset-0 z-[200] bg-black flex flex-col items-center justify-center animate-fade-in">
             <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover" />
+            <div className="absolute top-6 inset-x-4 flex justify-center">
+              {liveBarcode ? (
+                <div className="flex items-center gap-3 max-w-full bg-black/70 border border-brand-primary/50 rounded-xl ps-4 pe-2 py-2 text-white backdrop-blur-sm animate-fade-in">
+                  <ScanBarcode size={18} className="text-brand-accent shrink-0" />
+                  <span className="text-xs font-mono truncate">{describeBarcode(liveBarcode)}</span>
+                  <button
+                    onClick={acceptScannedBarcode}
+                    className="shrink-0 px-3 py-1.5 bg-brand-primary hover:bg-purple-600 text-xs font-bold uppercase tracking-wider rounded-lg transition-colors"
+                  >
+                    {t('camera.useBarcode')}
+                  </button>
+                </div>
+              ) : (
+                <span className="text-xs text-gray-300 bg-black/50 rounded-full px-3 py-1.5">{t('camera.hint')}</span>
+              )}
+            </div>
             <div className="absolute bottom-10 flex gap-6 items-center">
                <button 
                  onClick={stopCamera} 
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { CabinetItem, DoseRecord, DoseSlot, DoseSlotStatus, DoseStatus, Locale } from '../types';
+import { assessExpiry } from '../services/expiry';
+import { describeSchedule, getTodaySlots, summarizeAdherence } from '../services/doseSchedule';
+import { ExpiryBadge } from './ExpiryBadge';
+import { AlertTriangle, Archive, BellRing, Check, Pill, SkipForward, Trash2, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface CabinetPanelProps {
+  items: CabinetItem[];
+  records: DoseRecord[];
+  loading: boolean;
+  remindersEnabled: boolean;
+  onEnableReminders?: () => void; // Omitted when the browser cannot show reminders
+  onRecordDose: (itemId: string, scheduledFor: number, status: DoseStatus | null) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const SLOT_STYLES: Record<DoseSlotStatus, string> = {
+  taken: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30',
+  skipped: 'bg-white/5 text-gray-500 border-white/10 line-through',
+  missed: 'bg-red-500/10 text-red-300 border-red-500/30',
+  due: 'bg-amber-500/15 text-amber-200 border-amber-500/40 animate-pulse',
+  upcoming: 'bg-white/5 text-gray-300 border-white/10',
+};
+
+const CLOCK_TICK_MS = 60 * 1000;
+
+const formatTime = (epoch: number, locale: Locale) => new Date(epoch).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+
+export const CabinetPanel: React.FC<CabinetPanelProps> = ({
+  items, records, loading, remindersEnabled, onEnableReminders, onRecordDose, onDelete, onClose,
+}) => {
+  const { t, locale } = useI18n();
+  // Due and missed states depend on the clock, not only on the records
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const expiring = items.filter(item => {
+    const { status } = assessExpiry(item.response.medication.dates);
+    return status === 'expired' || status === 'expiring_soon';
+  });
+
+  const renderSlot = (slot: DoseSlot) => {
+    const recorded = slot.status === 'taken' || slot.status === 'skipped';
+    return (
+      <div key={slot.scheduledFor} className={`flex items-center gap-1.5 ps-2.5 pe-1 py-1 rounded-lg border text-xs font-bold ${SLOT_STYLES[slot.status]}`}>
+        <span>{formatTime(slot.scheduledFor, locale)}</span>
+        {recorded ? (
+          <button onClick={() => onRecordDose(slot.itemId, slot.scheduledFor, null)} className="p-1 opacity-60 hover:opacity-100" title={t('cabinet.undo')}>
+            <X size={11} />
+          </button>
+        ) : (
+          <>
+            <button onClick={() => onRecordDose(slot.itemId, slot.scheduledFor, 'taken')} className="p-1 hover:text-emerald-300" title={t('cabinet.markTaken')}>
+              <Check size={12} />
+            </button>
+            <button onClick={() => onRecordDose(slot.itemId, slot.scheduledFor, 'skipped')} className="p-1 hover:text-gray-200" title={t('cabinet.skipDose')}>
+              <SkipForward size={12} />
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-black/60 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-md bg-[#0F0A1F] border-s border-brand-primary/20 shadow-[0_0_50px_rgba(124,58,237,0.2)] flex flex-col animate-slide-up-fade"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <Archive size={18} className="text-brand-accent" />
+            <h3 className="text-lg font-bold text-white">{t('cabinet.title')}</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        {(expiring.length > 0 || (!remindersEnabled && onEnableReminders && items.length > 0)) && (
+          <div className="px-6 py-4 border-b border-white/5 space-y-3">
+            {expiring.length > 0 && (
+              <div className="flex items-start gap-2 text-xs text-amber-200 bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2">
+                <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                <span>{t('cabinet.expiring', { count: expiring.length, names: expiring.map(item => item.name).join(', ') })}</span>
+              </div>
+            )}
+            {!remindersEnabled && onEnableReminders && items.length > 0 && (
+              <button
+                onClick={onEnableReminders}
+                className="w-full flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-white bg-brand-primary/20 border border-brand-primary/40 hover:bg-brand-primary/30 rounded-lg px-3 py-2 transition-colors"
+              >
+                <BellRing size={14} /> {t('cabinet.enableReminders')}
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="w-8 h-8 border-4 border-brand-primary/30 border-t-brand-primary rounded-full animate-spin" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-12 px-6">
+              {t('cabinet.empty')}
+            </p>
+          ) : (
+            items.map(item => {
+              const today = getTodaySlots(item, records, now);
+              const adherence = summarizeAdherence(item, records, now);
+              return (
+                <div key={item.id} className="group p-4 rounded-xl border border-white/5 hover:border-brand-primary/30 bg-white/[0.02] transition-colors">
+                  <div className="flex items-start gap-3">
+                    {item.thumbnail ? (
+                      <img src={item.thumbnail} alt="" className="w-12 h-12 rounded-lg object-cover border border-white/10 shrink-0" />
+                    ) : (
+                      <div className="w-12 h-12 rounded-lg bg-white/5 border border-white/10 flex items-center justify-center shrink-0">
+                        <Pill size={18} className="text-brand-accent" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-white truncate">{item.name}</p>
+                      <p className="text-xs text-gray-500 truncate">{describeSchedule(item.schedule, locale)}</p>
+                    </div>
+                    <button
+                      onClick={() => onDelete(item.id)}
+                      className="p-2 text-gray-600 hover:text-red-400 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-all"
+                      title={t('cabinet.remove')}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+
+                  <ExpiryBadge dates={item.response.medication.dates} compact className="mt-3" />
+
+                  <div className="mt-3">
+                    <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2">{t('cabinet.today')}</p>
+                    {today.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">{today.map(renderSlot)}</div>
+                    ) : (
+                      <p className="text-xs text-gray-600">{t('cabinet.noDosesToday')}</p>
+                    )}
+                  </div>
+
+                  <p className="text-[10px] text-gray-500 uppercase tracking-wider mt-3">
+                    {t('cabinet.lastWeek')} <span className="text-emerald-400">{t('cabinet.taken', { count: adherence.taken })}</span>
+                    {' • '}{t('cabinet.skipped', { count: adherence.skipped })}
+                    {' • '}<span className={adherence.missed > 0 ? 'text-red-400' : ''}>{t('cabinet.missed', { count: adherence.missed })}</span>
+                  </p>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { DoseSchedule, MedicationResponse } from '../types';
+import { getCabinetName } from '../services/cabinetStore';
+import { DAY_LABELS, toDateKey } from '../services/doseSchedule';
+import { remindersSupported } from '../services/reminders';
+import { Archive, BellRing, Plus, Trash2, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface CabinetSaveDialogProps {
+  response: MedicationResponse;
+  onSave: (name: string, schedule: DoseSchedule) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 placeholder-gray-600 outline-none focus:border-brand-primary/50 transition-colors";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-1.5";
+
+export const CabinetSaveDialog: React.FC<CabinetSaveDialogProps> = ({ response, onSave, onClose }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(getCabinetName(response));
+  const [dose, setDose] = useState('');
+  const [times, setTimes] = useState<string[]>(['08:00']);
+  const [days, setDays] = useState<number[]>([]);
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [endDate, setEndDate] = useState('');
+  const [reminders, setReminders] = useState(remindersSupported());
+
+  const validTimes = times.filter(Boolean);
+
+  const toggleDay = (day: number) =>
+    setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || validTimes.length === 0) return;
+    onSave(name.trim(), {
+      dose: dose.trim(),
+      times: [...new Set(validTimes)].sort(),
+      days,
+      start_date: startDate,
+      ...(endDate && { end_date: endDate }),
+      reminders,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in" role="dialog" aria-modal="true">
+      <form onSubmit={handleSubmit} className="bg-[#0F0A1F] border border-brand-primary/20 rounded-2xl w-full max-w-lg shadow-[0_0_50px_rgba(124,58,237,0.2)] overflow-hidden animate-slide-up-fade">
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <Archive size={18} className="text-brand-accent" />
+            <h3 className="text-lg font-bold text-white">{t('cabinetSave.title')}</h3>
+          </div>
+          <button type="button" onClick={onClose} className="text-gray-500 hover:text-white transition-colors p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>{t('cabinetSave.name')}</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className={labelClass}>{t('cabinetSave.dose')}</label>
+              <input
+                type="text"
+                value={dose}
+                onChange={(e) => setDose(e.target.value)}
+                placeholder={response.medication.specifications.dosage || t('cabinetSave.dosePlaceholder')}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('cabinetSave.times')}</label>
+            <div className="flex flex-wrap gap-2">
+              {times.map((time, idx) => (
+                <div key={idx} className="flex items-center gap-1">
+                  <input
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTimes(prev => prev.map((value, i) => i === idx ? e.target.value : value))}
+                    className={`${inputClass} w-28`}
+                  />
+                  {times.length > 1 && (
+                    <button type="button" onClick={() => setTimes(prev => prev.filter((_, i) => i !== idx))} className="p-1.5 text-gray-600 hover:text-red-400" title={t('cabinetSave.removeTime')}>
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setTimes(prev => [...prev, ''])}
+                className="flex items-center gap-1 px-3 py-2 rounded-lg border border-dashed border-white/20 text-xs text-gray-400 hover:text-white hover:border-white/40"
+              >
+                <Plus size={12} /> {t('cabinetSave.addTime')}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('cabinetSave.days')} <span className="normal-case tracking-normal font-normal">{t('cabinetSave.daysHint')}</span></label>
+            <div className="flex flex-wrap gap-1.5">
+              {DAY_LABELS.map((label, day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleDay(day)}
+                  className={`px-2.5 py-1.5 rounded-md text-xs font-bold border transition-colors ${
+                    days.includes(day)
+                      ? 'bg-brand-primary/20 text-white border-brand-primary/50'
+                      : 'bg-white/5 text-gray-500 border-white/10 hover:text-gray-300'
+                  }`}
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>{t('cabinetSave.start')}</label>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} required />
+            </div>
+            <div>
+              <label className={labelClass}>{t('cabinetSave.end')}</label>
+              <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <label className={`flex items-center gap-3 text-sm ${remindersSupported() ? 'text-gray-300' : 'text-gray-600'}`}>
+            <input
+              type="checkbox"
+              checked={reminders}
+              onChange={(e) => setReminders(e.target.checked)}
+              disabled={!remindersSupported()}
+              className="accent-brand-primary"
+            />
+            <BellRing size={14} className="text-brand-accent" />
+            {remindersSupported() ? t('cabinetSave.reminders') : t('cabinetSave.remindersUnsupported')}
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t border-white/5">
+          <button type="button" onClick={onClose} className="px-4 py-2.5 text-sm font-bold text-gray-400 hover:text-white">
+            {t('cabinetSave.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!name.trim() || validTimes.length === 0}
+            className="px-5 py-2.5 bg-brand-primary hover:bg-purple-600 disabled:opacity-50 text-white text-sm font-bold rounded-xl transition-colors"
+          >
+            {t('cabinetSave.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Database, RefreshCw } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface CachedResultNoticeProps {
+  cachedAt: number;
+  onReanalyze?: () => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Marks a result served from the local response cache instead of a new model
+// call, with a way to ask the model again.
+export const CachedResultNotice: React.FC<CachedResultNoticeProps> = ({ cachedAt, onReanalyze, disabled, className = '' }) => {
+  const { t, rich, locale } = useI18n();
+  return (
+    <div className={`flex flex-wrap items-center justify-between gap-3 rounded-xl border border-white/10 bg-white/5 px-4 py-2.5 ${className}`}>
+      <p className="flex items-center gap-2 text-xs text-gray-400">
+        <Database size={14} className="text-brand-accent" />
+        <span>
+          {rich('cache.notice', {
+            source: <span className="font-bold text-gray-200">{t('cache.source')}</span>,
+            date: new Date(cachedAt).toLocaleString(locale),
+          })}
+        </span>
+      </p>
+      {onReanalyze && (
+        <button
+          type="button"
+          onClick={onReanalyze}
+          disabled={disabled}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-white/10 text-xs font-bold text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-50 transition-colors"
+        >
+          <RefreshCw size={12} /> {t('cache.reanalyze')}
+        </button>
+      )}
+    </div>
+  );
+};
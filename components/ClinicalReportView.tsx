@@ -0,0 +1,52 @@
+import React, { forwardRef } from 'react';
+import { ClinicalReport } from '../types';
+import { RichText } from './RichText';
+import { useI18n } from './I18nProvider';
+
+interface ClinicalReportViewProps {
+  report: ClinicalReport;
+}
+
+// Fixed report template. The `report-content` markup is also copied verbatim
+// into the print window, so it relies on plain semantic tags.
+export const ClinicalReportView = forwardRef<HTMLDivElement, ClinicalReportViewProps>(({ report }, ref) => {
+  const { t, locale } = useI18n();
+  return (
+    <div ref={ref} className="report-content text-slate-800">
+      <div className="border-b border-slate-200 pb-4 mb-6">
+        <h1 className="text-2xl font-bold text-slate-900 mb-1">{t('report.centre')}</h1>
+        <p className="text-sm text-slate-500 mb-3">{t('report.title')}</p>
+        <p className="text-xs text-slate-500">
+          <strong>{t('report.date')}</strong> {new Date(report.generated_at).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric' })}
+          {' • '}
+          <strong>{t('report.patientId')}</strong> {report.patient_id}
+        </p>
+      </div>
+
+      <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider border-b border-slate-200 pb-1.5 mt-6 mb-3">{t('report.chiefComplaint')}</h2>
+      <p className="text-sm leading-relaxed mb-3">{report.chief_complaint}</p>
+
+      <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider border-b border-slate-200 pb-1.5 mt-6 mb-3">{t('report.impression')}</h2>
+      <p className="text-sm leading-relaxed mb-3"><RichText html={report.impression} /></p>
+
+      <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider border-b border-slate-200 pb-1.5 mt-6 mb-3">{t('report.differential')}</h2>
+      <ul className="list-disc ps-5 space-y-2 text-sm mb-4">
+        {report.differential.map((item, idx) => (
+          <li key={idx} className="leading-relaxed">
+            <strong>{item.condition}:</strong> <RichText html={item.rationale} />
+          </li>
+        ))}
+      </ul>
+
+      <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider border-b border-slate-200 pb-1.5 mt-6 mb-3">{t('report.plan')}</h2>
+      <ol className="list-decimal ps-5 space-y-1.5 text-sm mb-4">
+        {report.plan.map((step, idx) => (
+          <li key={idx} className="leading-relaxed">{step}</li>
+        ))}
+      </ol>
+
+      <h2 className="text-sm font-bold text-slate-700 uppercase tracking-wider border-b border-slate-200 pb-1.5 mt-6 mb-3">{t('report.disclaimer')}</h2>
+      <p className="text-xs text-slate-500 leading-relaxed">{report.disclaimer}</p>
+    </div>
+  );
+});
@@ -1,15 +1,23 @@
 import React from 'react';
 import { MedicalCondition } from '../types';
 import { UrgencyBadge } from './UrgencyBadge';
-import { Check, ArrowRight, Activity } from 'lucide-react';
+import { TerminologyCodes } from './TerminologyCodes';
+import { useI18n } from './I18nProvider';
+import { Check, ArrowRight, Activity, TrendingUp, TrendingDown, Image as ImageIcon } from 'lucide-react';
 
 interface ConditionCardProps {
   condition: MedicalCondition;
   rank: number;
+  // Probability from the previous consultation round. Undefined when there is
+  // no earlier round, null when the condition is new in this round.
+  previousProbability?: number | null;
 }
 
-export const ConditionCard: React.FC<ConditionCardProps> = ({ condition, rank }) => {
+export const ConditionCard: React.FC<ConditionCardProps> = ({ condition, rank, previousProbability }) => {
+  const { t } = useI18n();
   const isTopMatch = rank === 1;
+  const isRuleFlag = condition.source === 'red_flag_rule';
+  const shift = typeof previousProbability === 'number' ? condition.probability - previousProbability : 0;
 
   return (
     <div 
@@ -22,10 +30,16 @@ export const ConditionCard: React.FC<ConditionCardProps> = ({ condition, rank })
       `}
       style={{ animationDelay: `${rank * 150}ms` }}
     >
-      {isTopMatch && (
-        <div className="absolute top-0 right-0">
-          <div className="bg-gradient-to-l from-brand-primary to-purple-700 text-white text-[10px] uppercase font-bold tracking-widest px-3 py-1.5 md:px-4 rounded-bl-xl shadow-sm animate-fade-in-up">
-            Primary Match
+      {isRuleFlag ? (
+        <div className="absolute top-0 end-0">
+          <div className="bg-gradient-to-l from-red-600 to-red-800 text-white text-[10px] uppercase font-bold tracking-widest px-3 py-1.5 md:px-4 rounded-es-xl shadow-sm animate-fade-in-up">
+            {t('condition.emergencyScreen')}
+          </div>
+        </div>
+      ) : isTopMatch && (
+        <div className="absolute top-0 end-0">
+          <div className="bg-gradient-to-l from-brand-primary to-purple-700 text-white text-[10px] uppercase font-bold tracking-widest px-3 py-1.5 md:px-4 rounded-es-xl shadow-sm animate-fade-in-up">
+            {t('condition.primaryMatch')}
           </div>
         </div>
       )}
@@ -42,8 +56,16 @@ export const ConditionCard: React.FC<ConditionCardProps> = ({ condition, rank })
               #{rank}
             </div>
             <div>
-              <h3 className="text-lg md:text-xl font-bold text-white leading-tight pr-20 md:pr-0">{condition.name}</h3>
-              {isTopMatch && <p className="text-xs md:text-sm text-brand-accent font-medium mt-1">Highest Confidence Analysis</p>}
+              <h3 className="text-lg md:text-xl font-bold text-white leading-tight pe-20 md:pe-0">{condition.name}</h3>
+              {isRuleFlag
+                ? <p className="text-xs md:text-sm text-red-400 font-medium mt-1">{t('condition.mustRuleOut')}</p>
+                : isTopMatch && <p className="text-xs md:text-sm text-brand-accent font-medium mt-1">{t('condition.highestConfidence')}</p>}
+              <TerminologyCodes codes={condition.codes} className="mt-2" />
+              {condition.image_refs && condition.image_refs.length > 0 && (
+                <p className="inline-flex items-center gap-1 text-[10px] font-bold text-gray-500 uppercase tracking-wider mt-2">
+                  <ImageIcon size={11} /> {t('condition.seenInImage', { images: condition.image_refs.join(', ') })}
+                </p>
+              )}
             </div>
           </div>
           <div className="self-start md:self-center">
@@ -63,13 +85,39 @@ export const ConditionCard: React.FC<ConditionCardProps> = ({ condition, rank })
              {/* Ambient background for depth */}
              <div className="absolute inset-0 bg-gradient-to-b from-transparent to-brand-primary/5 pointer-events-none transition-opacity group-hover/gauge:opacity-100 opacity-50" />
              
+             {isRuleFlag ? (
+               <div className="relative z-10 flex flex-col items-center text-center">
+                 <span className="text-lg font-bold text-red-400 mb-1">{t('condition.ruleOut')}</span>
+                 <span className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em]">{t('condition.notEstimated')}</span>
+               </div>
+             ) : (
              <div className="relative z-10 flex flex-col items-center w-full">
                <span className={`text-3xl md:text-4xl font-bold mb-1 transition-all duration-300 ${isTopMatch ? 'text-brand-glow drop-shadow-[0_0_8px_rgba(167,139,250,0.4)]' : 'text-gray-300 group-hover/gauge:text-white'}`}>
                   {condition.probability}%
                </span>
                <span className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] mb-3">
-                  Confidence
+                  {t('condition.confidence')}
                </span>
+
+               {previousProbability !== undefined && (
+                 <span className={`inline-flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider mb-3 px-2 py-0.5 rounded-full border ${
+                   previousProbability === null
+                     ? 'bg-brand-accent/10 text-brand-accent border-brand-accent/20'
+                     : shift > 0
+                       ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+                       : shift < 0
+                         ? 'bg-orange-500/10 text-orange-400 border-orange-500/20'
+                         : 'bg-white/5 text-gray-500 border-white/10'
+                 }`}>
+                   {previousProbability === null ? t('condition.newThisRound') : (
+                     <>
+                       {shift > 0 && <TrendingUp size={12} />}
+                       {shift < 0 && <TrendingDown size={12} />}
+                       {shift === 0 ? t('condition.unchanged') : t('condition.shift', { shift: `${shift > 0 ? '+' : ''}${shift}`, previous: previousProbability })}
+                     </>
+                   )}
+                 </span>
+               )}
                
                <div className="w-full bg-gray-800/50 rounded-full h-2 overflow-hidden border border-white/5">
                 <div 
@@ -81,17 +129,18 @@ export const ConditionCard: React.FC<ConditionCardProps> = ({ condition, rank })
                 />
               </div>
              </div>
+             )}
           </div>
         </div>
 
         <div className="space-y-5">
           {/* Symptoms */}
           <div>
-             <h4 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-3">Matched Symptoms</h4>
+             <h4 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-3">{t('condition.matchedSymptoms')}</h4>
              <div className="flex flex-wrap gap-2">
                {condition.symptoms_matched.map((sym, idx) => (
                  <span key={idx} className="inline-flex items-center text-xs font-medium bg-white/5 text-gray-300 px-3 py-1.5 rounded-md border border-white/10 hover:bg-white/10 transition-colors cursor-default">
-                   <Check size={12} className="mr-1.5 text-brand-accent" />
+                   <Check size={12} className="me-1.5 text-brand-accent" />
                    {sym}
                  </span>
                ))}
@@ -101,12 +150,12 @@ export const ConditionCard: React.FC<ConditionCardProps> = ({ condition, rank })
           {/* Recommendations */}
           <div className="bg-brand-primary/5 rounded-xl p-4 border border-brand-primary/10 hover:bg-brand-primary/10 transition-colors duration-300">
             <h4 className="text-[10px] font-bold text-brand-glow uppercase tracking-widest mb-3 flex items-center gap-2">
-              <Activity size={14} /> Clinical Recommendations
+              <Activity size={14} /> {t('condition.recommendations')}
             </h4>
             <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
               {condition.recommendations.map((rec, idx) => (
                 <li key={idx} className="flex items-start gap-2.5 text-sm text-gray-300">
-                  <ArrowRight size={16} className="mt-0.5 text-brand-primary shrink-0" />
+                  <ArrowRight size={16} className="mt-0.5 text-brand-primary shrink-0 rtl:rotate-180" />
                   <span className="leading-snug">{rec}</span>
                 </li>
               ))}
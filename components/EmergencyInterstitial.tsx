@@ -0,0 +1,60 @@
+import React from 'react';
+import { RedFlagMatch } from '../types';
+import { Phone, ShieldAlert } from 'lucide-react';
+import { redFlagText } from '../services/redFlags';
+import { useI18n } from './I18nProvider';
+
+interface EmergencyInterstitialProps {
+  matches: RedFlagMatch[];
+  onDismiss: () => void;
+}
+
+export const EmergencyInterstitial: React.FC<EmergencyInterstitialProps> = ({ matches, onDismiss }) => {
+  const { t, locale } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center p-4 bg-red-950/90 backdrop-blur-md animate-fade-in" role="alertdialog" aria-modal="true">
+      <div className="bg-[#1A0508] border border-red-500/40 rounded-2xl w-full max-w-lg shadow-[0_0_60px_rgba(239,68,68,0.35)] overflow-hidden animate-slide-up-fade">
+        <div className="h-1 w-full bg-red-500 animate-pulse" />
+        <div className="p-6 md:p-8">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-12 h-12 rounded-full bg-red-500/15 border border-red-500/30 flex items-center justify-center text-red-400 shrink-0">
+              <ShieldAlert size={24} />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-white">{t('emergency.title')}</h3>
+              <p className="text-xs text-red-300/80 uppercase tracking-widest font-bold">{t('emergency.subtitle')}</p>
+            </div>
+          </div>
+
+          <div className="space-y-3 mb-6">
+            {matches.map(match => (
+              <div key={match.rule_id} className="bg-red-500/10 border border-red-500/20 rounded-xl p-4">
+                <p className="text-sm font-bold text-red-200 mb-1">{redFlagText(match, 'title', locale)}</p>
+                <p className="text-sm text-gray-200 leading-relaxed">{redFlagText(match, 'advice', locale)}</p>
+              </div>
+            ))}
+          </div>
+
+          <a
+            href="tel:112"
+            className="flex items-center justify-center gap-2 w-full py-3.5 bg-red-600 hover:bg-red-500 text-white text-sm font-bold uppercase tracking-widest rounded-xl transition-colors shadow-lg mb-3"
+          >
+            <Phone size={16} />
+            {t('emergency.call')}
+          </a>
+          <p className="text-[11px] text-gray-400 text-center mb-5">
+            {t('emergency.otherNumbers')}
+          </p>
+
+          <button
+            onClick={onDismiss}
+            className="w-full py-2.5 text-xs font-bold uppercase tracking-widest text-gray-400 hover:text-white transition-colors"
+          >
+            {t('emergency.dismiss')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
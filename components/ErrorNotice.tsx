@@ -0,0 +1,52 @@
+import React from 'react';
+import { ModelErrorKind } from '../types';
+import { AlertOctagon, Clock, ImageOff, RotateCw, ShieldOff, WifiOff } from 'lucide-react';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ErrorNoticeProps {
+  message: string;
+  kind?: ModelErrorKind;
+  onRetry?: () => void;
+}
+
+const TITLES: Record<ModelErrorKind, MessageKey> = {
+  rate_limited: 'modelError.title.rate_limited',
+  quota_exhausted: 'modelError.title.quota_exhausted',
+  safety_blocked: 'modelError.title.safety_blocked',
+  invalid_image: 'modelError.title.invalid_image',
+  malformed_output: 'modelError.title.malformed_output',
+  network: 'modelError.title.network',
+  timeout: 'modelError.title.timeout',
+  unavailable: 'modelError.title.unavailable',
+  unknown: 'modelError.title.unknown',
+};
+
+const ICONS: Partial<Record<ModelErrorKind, React.ElementType>> = {
+  network: WifiOff,
+  timeout: Clock,
+  invalid_image: ImageOff,
+  safety_blocked: ShieldOff,
+};
+
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ message, kind = 'unknown', onRetry }) => {
+  const { t } = useI18n();
+  const Icon = ICONS[kind] || AlertOctagon;
+  return (
+    <div className="max-w-2xl mx-auto bg-red-900/20 border border-red-500/30 rounded-2xl p-6 md:p-8 text-center backdrop-blur-sm">
+      <div className="w-12 h-12 bg-red-500/10 text-red-500 rounded-full flex items-center justify-center mx-auto mb-4 border border-red-500/20">
+        <Icon size={24} />
+      </div>
+      <h3 className="text-lg font-bold text-red-200 mb-2">{t(TITLES[kind])}</h3>
+      <p className="text-red-400/80 text-sm">{message}</p>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-5 inline-flex items-center gap-2 px-5 py-2 rounded-full border border-red-400/30 text-xs font-bold uppercase tracking-wider text-red-200 hover:bg-red-500/10 transition-colors"
+        >
+          <RotateCw size={14} /> {t('modelError.tryAgain')}
+        </button>
+      )}
+    </div>
+  );
+};
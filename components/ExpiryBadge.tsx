@@ -0,0 +1,40 @@
+import React from 'react';
+import { MedicationDetails } from '../types';
+import { assessExpiry, describeExpiry, ExpiryStatus, formatExpiryDate } from '../services/expiry';
+import { AlertOctagon, CalendarCheck, CalendarClock, CalendarX } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface ExpiryBadgeProps {
+  dates: MedicationDetails['dates'];
+  compact?: boolean;
+  className?: string;
+}
+
+const STYLES: Record<ExpiryStatus, { icon: React.ElementType; className: string }> = {
+  expired: { icon: AlertOctagon, className: 'bg-red-500/15 text-red-300 border-red-500/40 shadow-[0_0_20px_rgba(239,68,68,0.25)]' },
+  expiring_soon: { icon: CalendarClock, className: 'bg-amber-500/15 text-amber-300 border-amber-500/40' },
+  valid: { icon: CalendarCheck, className: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30' },
+  unknown: { icon: CalendarX, className: 'bg-white/5 text-gray-400 border-white/10' },
+};
+
+export const ExpiryBadge: React.FC<ExpiryBadgeProps> = ({ dates, compact, className = '' }) => {
+  const { t, locale } = useI18n();
+  const assessment = assessExpiry(dates);
+  const { icon: Icon, className: style } = STYLES[assessment.status];
+  const title = assessment.producedOn
+    ? t('expiry.produced', { date: formatExpiryDate(assessment.producedOn, true, locale) })
+    : undefined;
+
+  return (
+    <span
+      role={assessment.status === 'expired' ? 'alert' : undefined}
+      title={title}
+      className={`inline-flex items-center rounded-lg border font-bold uppercase tracking-wider ${
+        compact ? 'gap-1.5 px-2 py-1 text-[10px]' : 'gap-2 px-3 py-1.5 text-xs'
+      } ${style} ${className}`}
+    >
+      <Icon size={compact ? 12 : 14} />
+      {describeExpiry(assessment, locale)}
+    </span>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { FollowUpAnswer, FollowUpQuestion } from '../types';
+import { MessageCircleQuestion, ArrowRight } from 'lucide-react';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface FollowUpPanelProps {
+  questions: FollowUpQuestion[];
+  round: number;
+  loading: boolean;
+  onSubmit: (answers: FollowUpAnswer[]) => void;
+}
+
+const CATEGORY_LABELS: Record<FollowUpQuestion['category'], MessageKey> = {
+  onset: 'followUp.category.onset',
+  duration: 'followUp.category.duration',
+  severity: 'followUp.category.severity',
+  red_flag: 'followUp.category.red_flag',
+  history: 'followUp.category.history',
+  other: 'followUp.category.other',
+};
+
+export const FollowUpPanel: React.FC<FollowUpPanelProps> = ({ questions, round, loading, onSubmit }) => {
+  const { t } = useI18n();
+  const [answers, setAnswers] = useState<string[]>([]);
+
+  // Reset the answer fields whenever a new round of questions arrives
+  useEffect(() => {
+    setAnswers(questions.map(() => ''));
+  }, [questions]);
+
+  const answered = answers.filter(a => a.trim()).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (answered === 0 || loading) return;
+    onSubmit(
+      questions
+        .map((q, idx) => ({ question: q.question, answer: (answers[idx] || '').trim() }))
+        .filter(a => a.answer)
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="glass-panel rounded-2xl p-6 md:p-8 border-t border-t-brand-accent/40 animate-slide-up-fade">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+          <MessageCircleQuestion size={16} className="text-brand-accent" />
+          {t('followUp.title')}
+        </h3>
+        <span className="text-[10px] font-bold uppercase tracking-widest text-gray-500">{t('followUp.round', { round })}</span>
+      </div>
+
+      <div className="space-y-5">
+        {questions.map((q, idx) => (
+          <div key={idx}>
+            <label className="flex items-start gap-3 text-sm text-gray-200 mb-2">
+              <span className={`shrink-0 text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-md border ${
+                q.category === 'red_flag'
+                  ? 'bg-red-500/10 text-red-400 border-red-500/30'
+                  : 'bg-white/5 text-gray-400 border-white/10'
+              }`}>
+                {t(CATEGORY_LABELS[q.category] || CATEGORY_LABELS.other)}
+              </span>
+              <span className="leading-snug">{q.question}</span>
+            </label>
+            <input
+              type="text"
+              value={answers[idx] || ''}
+              onChange={(e) => setAnswers(prev => prev.map((a, i) => (i === idx ? e.target.value : a)))}
+              disabled={loading}
+              placeholder={t('followUp.placeholder')}
+              className="w-full bg-black/20 border border-white/10 rounded-lg px-4 py-2.5 text-sm text-gray-100 placeholder-gray-600 outline-none focus:border-brand-primary/50 transition-colors"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end mt-6">
+        <button
+          type="submit"
+          disabled={loading || answered === 0}
+          className="flex items-center gap-2 px-6 py-3 rounded-xl text-xs font-bold uppercase tracking-widest text-white bg-gradient-to-r from-brand-primary to-brand-accent transition-all disabled:opacity-40 disabled:cursor-not-allowed hover:-translate-y-0.5"
+        >
+          {loading ? (
+            <div className="h-4 w-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+          ) : (
+            <ArrowRight size={14} className="rtl:rotate-180" />
+          )}
+          {t('followUp.submit')}
+        </button>
+      </div>
+    </form>
+  );
+};
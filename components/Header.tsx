@@ -1,14 +1,23 @@
 import React from 'react';
-import { Activity, Pill, Stethoscope } from 'lucide-react';
+import { Activity, Archive, CloudOff, FlaskConical, History, Pill, Stethoscope } from 'lucide-react';
 import { ViewMode } from '../types';
+import { useI18n } from './I18nProvider';
+import { LanguageSwitcher } from './LanguageSwitcher';
 
 interface HeaderProps {
   onContactClick: () => void;
+  onHistoryClick: () => void;
+  onCabinetClick: () => void;
+  cabinetAlerts?: number; // Expired, expiring or due items in the cabinet
+  online?: boolean;
+  queuedCount?: number; // Analyses waiting for connectivity
   currentView: ViewMode;
   onViewChange: (view: ViewMode) => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onContactClick, currentView, onViewChange }) => {
+export const Header: React.FC<HeaderProps> = ({ onContactClick, onHistoryClick, onCabinetClick, cabinetAlerts = 0, online = true, queuedCount = 0, currentView, onViewChange }) => {
+  const { t } = useI18n();
+
   return (
     <header className="fixed w-full glass-panel-strong z-50 transition-all duration-300">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 md:h-20 flex items-center justify-between">
@@ -31,7 +40,7 @@ export const Header: React.FC<HeaderProps> = ({ onContactClick, currentView, onV
             <h1 className="text-lg md:text-xl font-bold text-white tracking-tight leading-none">
               Assistant<span className="text-brand-accent">Doctor</span>
             </h1>
-            <p className="text-[8px] md:text-[10px] text-purple-300/70 font-medium uppercase tracking-[0.2em] mt-0.5 md:mt-1">Powered by LV Health</p>
+            <p className="text-[8px] md:text-[10px] text-purple-300/70 font-medium uppercase tracking-[0.2em] mt-0.5 md:mt-1">{t('header.tagline')}</p>
           </div>
         </div>
         
@@ -48,7 +57,7 @@ export const Header: React.FC<HeaderProps> = ({ onContactClick, currentView, onV
               }`}
             >
               <Stethoscope size={14} />
-              Diagnosis
+              {t('nav.diagnosis')}
             </button>
             <button
               onClick={() => onViewChange('medication')}
@@ -59,20 +68,63 @@ export const Header: React.FC<HeaderProps> = ({ onContactClick, currentView, onV
               }`}
             >
               <Pill size={14} />
-              Meds Info
+              {t('nav.medication')}
+            </button>
+            <button
+              onClick={() => onViewChange('interactions')}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${
+                currentView === 'interactions' 
+                  ? 'bg-pink-600 text-white shadow-lg' 
+                  : 'text-gray-400 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              <FlaskConical size={14} />
+              {t('nav.interactions')}
             </button>
           </div>
 
+          <button
+            onClick={onHistoryClick}
+            title={t('header.historyTitle')}
+            className="flex items-center gap-2 text-[10px] md:text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:bg-white/10 hover:border-brand-primary/30 px-3 py-2 md:px-4 md:py-2.5 rounded-lg transition-all shadow-sm"
+          >
+            <History size={14} />
+            <span className="hidden lg:inline">{t('header.history')}</span>
+          </button>
+          <button
+            onClick={onCabinetClick}
+            title={t('header.cabinetTitle')}
+            className="relative flex items-center gap-2 text-[10px] md:text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:bg-white/10 hover:border-brand-primary/30 px-3 py-2 md:px-4 md:py-2.5 rounded-lg transition-all shadow-sm"
+          >
+            <Archive size={14} />
+            <span className="hidden lg:inline">{t('header.cabinet')}</span>
+            {cabinetAlerts > 0 && (
+              <span className="absolute -top-1.5 -end-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-black text-[10px] font-bold flex items-center justify-center">
+                {cabinetAlerts}
+              </span>
+            )}
+          </button>
           <button
             onClick={onContactClick}
             className="flex items-center gap-2 text-[10px] md:text-xs font-bold uppercase tracking-wider text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:bg-white/10 hover:border-brand-primary/30 px-3 py-2 md:px-5 md:py-2.5 rounded-lg transition-all shadow-sm hover:shadow-[0_0_15px_rgba(124,58,237,0.2)]"
           >
-            Contact Us
+            {t('header.contact')}
           </button>
-          <div className="flex items-center gap-2 text-[10px] md:text-xs font-bold text-brand-accent bg-brand-accent/10 px-2.5 py-1.5 md:px-3 md:py-1.5 rounded-full border border-brand-accent/20 shadow-[0_0_10px_rgba(217,70,239,0.15)]">
-            <Activity size={12} className="animate-pulse md:w-[14px] md:h-[14px]" />
-            <span className="hidden sm:inline">SYSTEM ONLINE</span>
-          </div>
+          <LanguageSwitcher />
+          {online ? (
+            <div className="flex items-center gap-2 text-[10px] md:text-xs font-bold text-brand-accent bg-brand-accent/10 px-2.5 py-1.5 md:px-3 md:py-1.5 rounded-full border border-brand-accent/20 shadow-[0_0_10px_rgba(217,70,239,0.15)]">
+              <Activity size={12} className="animate-pulse md:w-[14px] md:h-[14px]" />
+              <span className="hidden sm:inline uppercase">{t('header.online')}</span>
+            </div>
+          ) : (
+            <div
+              title={queuedCount > 0 ? t('header.offlineTitleQueued', { count: queuedCount }) : t('header.offlineTitle')}
+              className="flex items-center gap-2 text-[10px] md:text-xs font-bold text-amber-300 bg-amber-500/10 px-2.5 py-1.5 md:px-3 md:py-1.5 rounded-full border border-amber-500/30"
+            >
+              <CloudOff size={12} className="md:w-[14px] md:h-[14px]" />
+              <span className="hidden sm:inline uppercase">{queuedCount > 0 ? t('header.offlineQueued', { count: queuedCount }) : t('header.offline')}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -88,7 +140,7 @@ export const Header: React.FC<HeaderProps> = ({ onContactClick, currentView, onV
               }`}
             >
               <Stethoscope size={14} />
-              Diagnosis
+              {t('nav.diagnosis')}
             </button>
             <button
               onClick={() => onViewChange('medication')}
@@ -99,7 +151,18 @@ export const Header: React.FC<HeaderProps> = ({ onContactClick, currentView, onV
               }`}
             >
               <Pill size={14} />
-              Meds Info
+              {t('nav.medication')}
+            </button>
+            <button
+              onClick={() => onViewChange('interactions')}
+              className={`flex items-center gap-2 px-4 py-1.5 rounded-md text-[10px] font-bold uppercase tracking-wider transition-all ${
+                currentView === 'interactions' 
+                  ? 'bg-pink-600 text-white shadow-lg' 
+                  : 'text-gray-400 hover:text-white hover:bg-white/5'
+              }`}
+            >
+              <FlaskConical size={14} />
+              {t('nav.interactions')}
             </button>
           </div>
       </div>
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { HistoryEntry } from '../types';
+import { getHistoryTitle, searchHistory } from '../services/historyStore';
+import { History, Search, Stethoscope, Pill, Trash2, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  loading: boolean;
+  onClose: () => void;
+  onSelect: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, loading, onClose, onSelect, onDelete }) => {
+  const { t, locale } = useI18n();
+  const [query, setQuery] = useState('');
+  const visible = searchHistory(entries, query);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end bg-black/60 backdrop-blur-sm animate-fade-in" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-md bg-[#0F0A1F] border-s border-brand-primary/20 shadow-[0_0_50px_rgba(124,58,237,0.2)] flex flex-col animate-slide-up-fade"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <History size={18} className="text-brand-accent" />
+            <h3 className="text-lg font-bold text-white">{t('history.title')}</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors p-1">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2 bg-black/30 border border-white/10 rounded-lg px-3 py-2 focus-within:border-brand-primary/50 transition-colors">
+            <Search size={14} className="text-gray-500" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('history.search')}
+              className="flex-1 bg-transparent text-sm text-gray-100 placeholder-gray-600 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-2">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="w-8 h-8 border-4 border-brand-primary/30 border-t-brand-primary rounded-full animate-spin" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-12">
+              {entries.length === 0 ? t('history.empty') : t('history.noMatches')}
+            </p>
+          ) : (
+            visible.map(entry => (
+              <div
+                key={entry.id}
+                onClick={() => onSelect(entry)}
+                className="group flex items-center gap-3 p-3 rounded-xl border border-white/5 hover:border-brand-primary/30 hover:bg-white/5 transition-colors cursor-pointer"
+              >
+                {entry.thumbnail ? (
+                  <img src={entry.thumbnail} alt="" className="w-12 h-12 rounded-lg object-cover border border-white/10 shrink-0" />
+                ) : (
+                  <div className="w-12 h-12 rounded-lg bg-white/5 border border-white/10 flex items-center justify-center shrink-0">
+                    {entry.kind === 'diagnosis'
+                      ? <Stethoscope size={18} className="text-brand-glow" />
+                      : <Pill size={18} className="text-brand-accent" />}
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-white truncate">{getHistoryTitle(entry)}</p>
+                  <p className="text-xs text-gray-500 truncate">{entry.input}</p>
+                  <p className="text-[10px] text-gray-600 uppercase tracking-wider mt-0.5">
+                    {entry.kind === 'diagnosis' ? t('history.diagnosis') : t('history.medication')} • {new Date(entry.createdAt).toLocaleString(locale)}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(entry.id); }}
+                  className="p-2 text-gray-600 hover:text-red-400 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-all"
+                  title={t('history.delete')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { createContext, useContext, useLayoutEffect, useState } from 'react';
+import { Locale, TextDirection } from '../types';
+import { DEFAULT_LOCALE, detectLocale, LOCALES, MessageKey, MessageParams, saveLocale, translate } from '../services/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  dir: TextDirection;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // Like `t`, but placeholders may be elements, e.g. a highlighted phrase
+  rich: (key: MessageKey, params: Record<string, React.ReactNode>) => React.ReactNode;
+}
+
+const createValue = (locale: Locale, setLocale: (locale: Locale) => void): I18nContextValue => ({
+  locale,
+  dir: LOCALES[locale].dir,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  rich: (key, params) =>
+    translate(locale, key).split(/(\{\w+\})/).map((part, idx) => {
+      const name = part.match(/^\{(\w+)\}$/)?.[1];
+      return <React.Fragment key={idx}>{name && name in params ? params[name] : part}</React.Fragment>;
+    }),
+});
+
+// English without a provider, so components also render in isolation
+const I18nContext = createContext<I18nContextValue>(createValue(DEFAULT_LOCALE, () => {}));
+
+export const useI18n = () => useContext(I18nContext);
+
+// Holds the UI language and mirrors it onto <html lang dir>, which flips the
+// layout for Arabic and Hebrew
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  useLayoutEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = LOCALES[locale].dir;
+  }, [locale]);
+
+  const setLocale = (next: Locale) => {
+    setLocaleState(next);
+    saveLocale(next);
+  };
+
+  return <I18nContext.Provider value={createValue(locale, setLocale)}>{children}</I18nContext.Provider>;
+};
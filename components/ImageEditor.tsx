@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageAttachment, ImageCrop, ImageEdit, ImageRotation } from '../types';
+import { preprocessImage } from '../services/imagePreprocess';
+import { Check, Crop, EyeOff, Loader2, RotateCcw, RotateCw, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface ImageEditorProps {
+  image: ImageAttachment;
+  index: number;
+  onApply: (edit: ImageEdit) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = 720;
+const MIN_CROP = 0.05; // Ignore accidental taps instead of cropping to a sliver
+const MIN_BLUR = 0.01;
+
+type EditorMode = 'crop' | 'blur';
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Crop, rotate and blur regions of an attachment, e.g. the patient name on a
+// pharmacy label. Edits are always applied to the original upload, so
+// repeated edits never compound quality loss.
+export const ImageEditor: React.FC<ImageEditorProps> = ({ image, index, onApply, onClose }) => {
+  const { t } = useI18n();
+  const [rotation, setRotation] = useState<ImageRotation>(image.edit?.rotation ?? 0);
+  const [crop, setCrop] = useState<ImageCrop | undefined>(image.edit?.crop);
+  const [blurs, setBlurs] = useState<ImageCrop[]>(image.edit?.blurs || []);
+  const [mode, setMode] = useState<EditorMode>('crop');
+  const [draftBlur, setDraftBlur] = useState<ImageCrop | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  // The preview shows the whole rotated image; the crop and blurs are drawn on top of it
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    preprocessImage(image.source || image.dataUrl, { rotation }, { maxDimension: PREVIEW_SIZE })
+      .then(result => { if (!cancelled) setPreview(result.dataUrl); })
+      .catch(err => console.error("Failed to render preview", err));
+    return () => { cancelled = true; };
+  }, [image, rotation]);
+
+  const rotate = (delta: number) => {
+    setRotation(prev => ((prev + delta + 360) % 360) as ImageRotation);
+    // Crop and blur coordinates are relative to the rotated image
+    setCrop(undefined);
+    setBlurs([]);
+  };
+
+  const pointFrom = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointFrom(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    const point = pointFrom(e);
+    const region = {
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    };
+    if (mode === 'blur') setDraftBlur(region);
+    else setCrop(region);
+  };
+
+  const handlePointerUp = () => {
+    dragStart.current = null;
+    if (mode === 'blur') {
+      if (draftBlur && draftBlur.width >= MIN_BLUR && draftBlur.height >= MIN_BLUR) setBlurs(prev => [...prev, draftBlur]);
+      setDraftBlur(null);
+      return;
+    }
+    setCrop(prev => prev && prev.width >= MIN_CROP && prev.height >= MIN_CROP ? prev : undefined);
+  };
+
+  const regionStyle = (region: ImageCrop) => ({
+    left: `${region.x * 100}%`,
+    top: `${region.y * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  });
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in" role="dialog" aria-modal="true">
+      <div className="bg-[#0F0A1F] border border-brand-primary/20 rounded-2xl w-full max-w-2xl shadow-[0_0_50px_rgba(124,58,237,0.2)] overflow-hidden animate-slide-up-fade">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/10">
+          <div>
+            <h3 className="text-lg font-bold text-white">{t('editor.title', { index: index + 1 })}</h3>
+            <p className="text-xs text-gray-500">
+              {mode === 'crop'
+                ? t('editor.cropHint')
+                : t('editor.blurHint')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" title={t('editor.close')}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 flex items-center justify-center bg-black/40 min-h-[280px]">
+          {preview ? (
+            <div
+              ref={frameRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="relative select-none touch-none cursor-crosshair"
+            >
+              <img src={preview} alt={t('image.label', { index: index + 1 })} draggable={false} className="max-h-[60vh] max-w-full block" />
+              {crop && (
+                <div
+                  className="absolute border-2 border-brand-accent shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none"
+                  style={regionStyle(crop)}
+                />
+              )}
+              {[...blurs, ...(draftBlur ? [draftBlur] : [])].map((region, idx) => (
+                <div key={idx} className="absolute border border-white/40 bg-black/30 backdrop-blur-md pointer-events-none" style={regionStyle(region)} />
+              ))}
+            </div>
+          ) : (
+            <Loader2 size={28} className="animate-spin text-brand-accent" />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3 px-5 py-4 border-t border-white/10">
+          <div className="flex flex-wrap gap-2">
+            <div className="flex rounded-lg border border-white/10 overflow-hidden">
+              {([['crop', Crop, 'editor.crop'], ['blur', EyeOff, 'editor.blur']] as const).map(([value, Icon, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={`flex items-center gap-1.5 px-3 py-2 text-xs font-bold ${mode === value ? 'bg-brand-primary/30 text-white' : 'bg-white/5 text-gray-400 hover:text-white'}`}
+                >
+                  <Icon size={14} /> {t(label)}
+                </button>
+              ))}
+            </div>
+            <button type="button" onClick={() => rotate(-90)} className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10" title={t('editor.rotateLeft')}>
+              <RotateCcw size={16} />
+            </button>
+            <button type="button" onClick={() => rotate(90)} className="p-2 rounded-lg bg-white/5 hover:bg-white/10 text-gray-300 border border-white/10" title={t('editor.rotateRight')}>
+              <RotateCw size={16} />
+            </button>
+            {crop && (
+              <button type="button" onClick={() => setCrop(undefined)} className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-xs font-bold text-gray-300 border border-white/10">
+                {t('editor.clearCrop')}
+              </button>
+            )}
+            {blurs.length > 0 && (
+              <button type="button" onClick={() => setBlurs([])} className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-xs font-bold text-gray-300 border border-white/10">
+                {t('editor.clearBlurs', { count: blurs.length })}
+              </button>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => onApply({ rotation, ...(crop && { crop }), ...(blurs.length > 0 && { blurs }) })}
+            disabled={!preview}
+            className="flex items-center gap-2 px-5 py-2.5 bg-brand-primary hover:bg-purple-600 disabled:opacity-50 text-white text-sm font-bold rounded-xl transition-colors"
+          >
+            <Check size={16} /> {t('editor.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
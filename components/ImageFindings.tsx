@@ -0,0 +1,44 @@
+import React from 'react';
+import { ImageAttachment, ImageFinding } from '../types';
+import { ScanEye } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface ImageFindingsProps {
+  findings?: ImageFinding[];
+  images: ImageAttachment[]; // Current gallery; may be empty for restored history
+}
+
+export const ImageFindings: React.FC<ImageFindingsProps> = ({ findings, images }) => {
+  const { t } = useI18n();
+  if (!findings || findings.length === 0) return null;
+
+  return (
+    <div className="glass-panel rounded-2xl p-6 border border-white/10">
+      <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+        <ScanEye size={16} className="text-brand-accent" /> {t('findings.title')}
+      </h3>
+      <ul className="space-y-3">
+        {findings.map((finding, idx) => {
+          const image = images[finding.image - 1];
+          return (
+            <li key={idx} className="flex items-start gap-3">
+              {image ? (
+                <img src={image.dataUrl} alt={t('image.label', { index: finding.image })} className="w-12 h-12 rounded-lg object-cover border border-white/10 shrink-0" />
+              ) : (
+                <div className="w-12 h-12 rounded-lg bg-white/5 border border-white/10 flex items-center justify-center text-xs font-bold text-gray-400 shrink-0">
+                  {finding.image}
+                </div>
+              )}
+              <div className="min-w-0">
+                <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                  {t('image.label', { index: finding.image })}{image?.caption ? ` • ${image.caption}` : ''}
+                </p>
+                <p className="text-sm text-gray-300 leading-relaxed">{finding.finding}</p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
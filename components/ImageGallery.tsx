@@ -0,0 +1,115 @@
+import React from 'react';
+import { ImageAttachment } from '../types';
+import { QUALITY_ISSUE_LABELS } from '../services/imagePreprocess';
+import { AlertTriangle, ChevronLeft, ChevronRight, Crop, Loader2, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface ImageGalleryProps {
+  images: ImageAttachment[];
+  onChange: (images: ImageAttachment[]) => void;
+  onEdit: (id: string) => void;
+  pending?: number; // Uploads still being preprocessed
+  disabled?: boolean;
+}
+
+// Ordered attachment strip. The number on each image is the label the model
+// sees ("Image 1", "Image 2", ...), so reordering changes how results cite them.
+export const ImageGallery: React.FC<ImageGalleryProps> = ({ images, onChange, onEdit, pending = 0, disabled }) => {
+  const { t, dir } = useI18n();
+  const update = (id: string, caption: string) =>
+    onChange(images.map(image => image.id === id ? { ...image, caption } : image));
+
+  const remove = (id: string) => onChange(images.filter(image => image.id !== id));
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= images.length) return;
+    const next = [...images];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="px-5 md:px-8 pt-6 pb-2 flex gap-4 overflow-x-auto">
+      {images.map((image, idx) => (
+        <div key={image.id} className="relative shrink-0 w-32 md:w-40 group animate-fade-in-up">
+          <div className="relative">
+            <img
+              src={image.dataUrl}
+              alt={image.caption || t('image.label', { index: idx + 1 })}
+              className="h-24 md:h-32 w-full rounded-lg border border-white/20 shadow-lg object-cover"
+            />
+            <span className="absolute top-1.5 start-1.5 bg-black/70 text-white text-[10px] font-bold px-1.5 py-0.5 rounded">
+              {idx + 1}
+            </span>
+            {image.issues && image.issues.length > 0 && (
+              <span
+                className="absolute bottom-1.5 start-1.5 flex items-center gap-1 bg-amber-500/90 text-black text-[10px] font-bold px-1.5 py-0.5 rounded"
+                title={t('gallery.qualityHint', { issues: image.issues.map(issue => t(QUALITY_ISSUE_LABELS[issue])).join(', ') })}
+              >
+                <AlertTriangle size={10} /> {t(QUALITY_ISSUE_LABELS[image.issues[0]])}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => remove(image.id)}
+              disabled={disabled}
+              className="absolute -top-2 -end-2 bg-red-500 hover:bg-red-600 text-white p-1.5 rounded-full opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-all duration-200 shadow-md transform hover:scale-110"
+              title={t('gallery.remove')}
+            >
+              <X size={12} />
+            </button>
+            <div className="absolute bottom-1.5 end-1.5 flex gap-1 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+              <button
+                type="button"
+                onClick={() => onEdit(image.id)}
+                disabled={disabled}
+                className="bg-black/70 text-white p-1 rounded disabled:opacity-30"
+                title={t('gallery.edit')}
+              >
+                <Crop size={12} />
+              </button>
+              {images.length > 1 && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => move(idx, -1)}
+                    disabled={disabled || idx === 0}
+                    className="bg-black/70 text-white p-1 rounded disabled:opacity-30"
+                    title={t(dir === 'rtl' ? 'gallery.moveRight' : 'gallery.moveLeft')}
+                  >
+                    <ChevronLeft size={12} className="rtl:rotate-180" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(idx, 1)}
+                    disabled={disabled || idx === images.length - 1}
+                    className="bg-black/70 text-white p-1 rounded disabled:opacity-30"
+                    title={t(dir === 'rtl' ? 'gallery.moveLeft' : 'gallery.moveRight')}
+                  >
+                    <ChevronRight size={12} className="rtl:rotate-180" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+          <input
+            type="text"
+            value={image.caption}
+            onChange={(e) => update(image.id, e.target.value)}
+            disabled={disabled}
+            placeholder={t('gallery.caption')}
+            maxLength={120}
+            className="mt-2 w-full bg-black/30 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 placeholder-gray-600 outline-none focus:border-brand-primary/50 transition-colors"
+          />
+        </div>
+      ))}
+      {Array.from({ length: pending }, (_, idx) => (
+        <div key={`pending-${idx}`} className="shrink-0 w-32 md:w-40 h-24 md:h-32 rounded-lg border border-white/10 bg-white/5 flex flex-col items-center justify-center gap-2 text-gray-500">
+          <Loader2 size={18} className="animate-spin" />
+          <span className="text-[10px] font-bold uppercase tracking-wider">{t('gallery.preparing')}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
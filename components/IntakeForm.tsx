@@ -0,0 +1,153 @@
+import React from 'react';
+import { BiologicalSex, PatientIntake, PregnancyStatus, Vitals } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface IntakeFormProps {
+  intake: PatientIntake;
+  onChange: (intake: PatientIntake) => void;
+  cabinetMedications?: string[]; // Offered as a one-click fill for current medications
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-100 placeholder-gray-600 outline-none focus:border-brand-primary/50 transition-colors disabled:opacity-50";
+const labelClass = "block text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-1.5";
+
+const toNumber = (value: string): number | undefined => (value === '' ? undefined : Number(value));
+
+type ListField = 'chronic_conditions' | 'current_medications' | 'allergies';
+
+export const IntakeForm: React.FC<IntakeFormProps> = ({ intake, onChange, cabinetMedications = [], disabled }) => {
+  const { t } = useI18n();
+  const update = (patch: Partial<PatientIntake>) => onChange({ ...intake, ...patch });
+  const updateVitals = (patch: Partial<Vitals>) => onChange({ ...intake, vitals: { ...intake.vitals, ...patch } });
+
+  // Lists are split on commas without trimming so the text round-trips while typing
+  const listInput = (field: ListField, label: MessageKey, placeholder: MessageKey) => (
+    <div>
+      <label className={labelClass}>{t(label)}</label>
+      <input
+        type="text"
+        value={intake[field].join(',')}
+        onChange={(e) => update({ [field]: e.target.value ? e.target.value.split(',') : [] })}
+        placeholder={t(placeholder)}
+        disabled={disabled}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const addCabinetMedications = () => {
+    const current = intake.current_medications.map(m => m.trim()).filter(Boolean);
+    const missing = cabinetMedications.filter(name => !current.some(m => m.toLowerCase() === name.toLowerCase()));
+    update({ current_medications: [...current, ...missing] });
+  };
+
+  const numberInput = (label: MessageKey, value: number | undefined, onValue: (v: number | undefined) => void, placeholder: string) => (
+    <div>
+      <label className={labelClass}>{t(label)}</label>
+      <input
+        type="number"
+        inputMode="decimal"
+        value={value ?? ''}
+        onChange={(e) => onValue(toNumber(e.target.value))}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="px-5 md:px-8 pb-6 pt-2 space-y-5 animate-fade-in-up">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {numberInput('intake.age', intake.age, (age) => update({ age }), t('intake.years'))}
+        <div>
+          <label className={labelClass}>{t('intake.sex')}</label>
+          <select
+            value={intake.sex || ''}
+            onChange={(e) => update({
+              sex: (e.target.value || undefined) as BiologicalSex | undefined,
+              pregnancy_status: e.target.value === 'male' ? undefined : intake.pregnancy_status,
+            })}
+            disabled={disabled}
+            className={inputClass}
+          >
+            <option value="">{t('intake.notStated')}</option>
+            <option value="female">{t('intake.female')}</option>
+            <option value="male">{t('intake.male')}</option>
+            <option value="intersex">{t('intake.intersex')}</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{t('intake.pregnancy')}</label>
+          <select
+            value={intake.pregnancy_status || ''}
+            onChange={(e) => update({ pregnancy_status: (e.target.value || undefined) as PregnancyStatus | undefined })}
+            disabled={disabled || intake.sex === 'male'}
+            className={inputClass}
+          >
+            <option value="">{t('intake.notStated')}</option>
+            <option value="not_pregnant">{t('intake.notPregnant')}</option>
+            <option value="pregnant">{t('intake.pregnant')}</option>
+            <option value="possible">{t('intake.possiblyPregnant')}</option>
+            <option value="unknown">{t('intake.unknown')}</option>
+          </select>
+        </div>
+        {numberInput('intake.weight', intake.weight_kg, (weight_kg) => update({ weight_kg }), 'kg')}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {listInput('chronic_conditions', 'intake.chronicConditions', 'intake.chronicConditionsPlaceholder')}
+        <div>
+          {listInput('current_medications', 'intake.currentMedications', 'intake.currentMedicationsPlaceholder')}
+          {cabinetMedications.length > 0 && (
+            <button
+              type="button"
+              onClick={addCabinetMedications}
+              disabled={disabled}
+              className="mt-1.5 text-[10px] font-bold uppercase tracking-wider text-brand-accent hover:text-white disabled:opacity-50 transition-colors"
+            >
+              {t('intake.addFromCabinet', { count: cabinetMedications.length })}
+            </button>
+          )}
+        </div>
+        {listInput('allergies', 'intake.allergies', 'intake.allergiesPlaceholder')}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {numberInput('intake.temperature', intake.vitals.temperature_c, (temperature_c) => updateVitals({ temperature_c }), '37.0')}
+        {numberInput('intake.heartRate', intake.vitals.heart_rate_bpm, (heart_rate_bpm) => updateVitals({ heart_rate_bpm }), 'bpm')}
+        {numberInput('intake.systolic', intake.vitals.systolic_bp, (systolic_bp) => updateVitals({ systolic_bp }), 'mmHg')}
+        {numberInput('intake.diastolic', intake.vitals.diastolic_bp, (diastolic_bp) => updateVitals({ diastolic_bp }), 'mmHg')}
+        {numberInput('intake.respiratoryRate', intake.vitals.respiratory_rate, (respiratory_rate) => updateVitals({ respiratory_rate }), '/min')}
+        {numberInput('intake.spo2', intake.vitals.spo2_percent, (spo2_percent) => updateVitals({ spo2_percent }), '%')}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>{t('intake.onset')}</label>
+          <input
+            type="text"
+            value={intake.symptom_onset || ''}
+            onChange={(e) => update({ symptom_onset: e.target.value })}
+            placeholder={t('intake.onsetPlaceholder')}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>{t('intake.duration')}</label>
+          <input
+            type="text"
+            value={intake.symptom_duration || ''}
+            onChange={(e) => update({ symptom_duration: e.target.value })}
+            placeholder={t('intake.durationPlaceholder')}
+            disabled={disabled}
+            className={inputClass}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { DrugInteraction, InteractionResponse, InteractionSeverity, UrgencyLevel } from '../types';
+import { UrgencyBadge, getUrgencyStyle } from './UrgencyBadge';
+import { Activity, ArrowRight, FlaskConical } from 'lucide-react';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface InteractionMatrixProps {
+  medications: string[];
+  results: InteractionResponse;
+}
+
+// Interaction severities reuse the urgency palette; "None" falls through to
+// the neutral default style.
+const SEVERITY_LEVEL: Record<InteractionSeverity, string> = {
+  None: 'None',
+  Minor: UrgencyLevel.LOW,
+  Moderate: UrgencyLevel.MEDIUM,
+  Major: UrgencyLevel.HIGH,
+  Contraindicated: UrgencyLevel.CRITICAL,
+};
+
+const SEVERITY_LABELS: Record<InteractionSeverity, MessageKey> = {
+  None: 'severity.None',
+  Minor: 'severity.Minor',
+  Moderate: 'severity.Moderate',
+  Major: 'severity.Major',
+  Contraindicated: 'severity.Contraindicated',
+};
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  None: 0,
+  Minor: 1,
+  Moderate: 2,
+  Major: 3,
+  Contraindicated: 4,
+};
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+const findInteraction = (interactions: DrugInteraction[], a: string, b: string): DrugInteraction | undefined =>
+  interactions.find(i =>
+    (normalize(i.drug_a) === normalize(a) && normalize(i.drug_b) === normalize(b)) ||
+    (normalize(i.drug_a) === normalize(b) && normalize(i.drug_b) === normalize(a))
+  );
+
+export const InteractionMatrix: React.FC<InteractionMatrixProps> = ({ medications, results }) => {
+  const { t } = useI18n();
+  const [selected, setSelected] = useState<DrugInteraction | null>(null);
+
+  const significant = results.interactions
+    .filter(i => i.severity !== 'None')
+    .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+  const renderDetail = (interaction: DrugInteraction) => (
+    <div className="glass-panel rounded-2xl p-6 border border-white/10 animate-fade-in-up">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+        <h4 className="text-lg font-bold text-white">
+          {interaction.drug_a} <span className="text-gray-500 font-light">+</span> {interaction.drug_b}
+        </h4>
+        <UrgencyBadge level={SEVERITY_LEVEL[interaction.severity]} label={t(SEVERITY_LABELS[interaction.severity])} />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <h5 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2 flex items-center gap-1.5"><FlaskConical size={12} /> {t('interactions.mechanism')}</h5>
+          <p className="text-gray-300 leading-relaxed">{interaction.mechanism}</p>
+        </div>
+        <div>
+          <h5 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2 flex items-center gap-1.5"><Activity size={12} /> {t('interactions.clinicalEffect')}</h5>
+          <p className="text-gray-300 leading-relaxed">{interaction.clinical_effect}</p>
+        </div>
+        <div>
+          <h5 className="text-[10px] font-bold text-gray-500 uppercase tracking-widest mb-2 flex items-center gap-1.5"><ArrowRight size={12} className="rtl:rotate-180" /> {t('interactions.management')}</h5>
+          <p className="text-gray-300 leading-relaxed">{interaction.management}</p>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="glass-panel rounded-2xl p-4 md:p-6 overflow-x-auto">
+        <table className="w-full border-separate border-spacing-1.5 text-xs">
+          <thead>
+            <tr>
+              <th />
+              {medications.map(med => (
+                <th key={med} className="text-gray-400 font-bold uppercase tracking-wider px-2 py-2 text-center align-bottom">{med}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {medications.map((rowMed, rowIdx) => (
+              <tr key={rowMed}>
+                <th className="text-gray-400 font-bold uppercase tracking-wider px-2 py-2 text-end whitespace-nowrap">{rowMed}</th>
+                {medications.map((colMed, colIdx) => {
+                  if (rowIdx === colIdx) {
+                    return <td key={colMed} className="bg-white/[0.02] rounded-lg" />;
+                  }
+                  const interaction = findInteraction(results.interactions, rowMed, colMed);
+                  const { styles } = getUrgencyStyle(interaction ? SEVERITY_LEVEL[interaction.severity] : '');
+                  return (
+                    <td key={colMed} className="p-0">
+                      <button
+                        type="button"
+                        disabled={!interaction}
+                        onClick={() => interaction && setSelected(interaction)}
+                        className={`w-full min-w-[84px] px-2 py-3 rounded-lg border font-bold uppercase tracking-wider transition-transform hover:scale-105 disabled:hover:scale-100 ${styles} ${selected === interaction && interaction ? 'ring-2 ring-white/40' : ''}`}
+                      >
+                        {interaction ? t(SEVERITY_LABELS[interaction.severity]) : t('interactions.notAvailable')}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && renderDetail(selected)}
+
+      <div className="bg-gradient-to-br from-gray-900 to-black rounded-2xl p-6 md:p-8 border border-white/10">
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-3">{t('interactions.assessment')}</h3>
+        <p className="text-gray-200 leading-relaxed font-light">{results.summary}</p>
+      </div>
+
+      {significant.length > 0 && (
+        <div>
+          <h3 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-6">{t('interactions.significant')}</h3>
+          <div className="space-y-4">
+            {significant.map((interaction, idx) => (
+              <React.Fragment key={idx}>{renderDetail(interaction)}</React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="text-center text-xs text-gray-500 max-w-2xl mx-auto">
+        {results.disclaimer}
+      </div>
+    </div>
+  );
+};
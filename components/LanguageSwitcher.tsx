@@ -0,0 +1,31 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Locale } from '../types';
+import { LOCALES } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+// Language names are shown in their own language so anyone can find theirs
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label
+      title={t('header.language')}
+      className="relative flex items-center gap-2 text-[10px] md:text-xs font-bold text-gray-400 hover:text-white bg-white/5 border border-white/10 hover:bg-white/10 hover:border-brand-primary/30 px-3 py-2 md:py-2.5 rounded-lg transition-all shadow-sm cursor-pointer"
+    >
+      <Languages size={14} />
+      <span className="sr-only">{t('header.language')}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent outline-none cursor-pointer appearance-none"
+      >
+        {(Object.keys(LOCALES) as Locale[]).map(code => (
+          <option key={code} value={code} lang={code} className="bg-brand-panel text-white">
+            {LOCALES[code].name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { QueuedAnalysis } from '../types';
+import { AlertTriangle, CheckCircle2, CloudOff, History, Pill, RotateCw, ShieldAlert, Stethoscope, Trash2, X } from 'lucide-react';
+import { REFUSAL_MESSAGES } from '../services/inputSafety';
+import { useI18n } from './I18nProvider';
+
+interface OfflineQueueBannerProps {
+  online: boolean;
+  queued: QueuedAnalysis[];
+  completed: number; // Replayed since the user last dismissed the notice
+  onRetry: () => void;
+  onRemove: (id: string) => void;
+  onViewHistory: () => void;
+  onDismissCompleted: () => void;
+}
+
+export const OfflineQueueBanner: React.FC<OfflineQueueBannerProps> = ({
+  online, queued, completed, onRetry, onRemove, onViewHistory, onDismissCompleted,
+}) => {
+  const { t, locale } = useI18n();
+  if (online && queued.length === 0 && completed === 0) return null;
+  const failed = queued.some(analysis => analysis.error);
+
+  return (
+    <div className="mb-6 rounded-2xl border border-white/10 bg-[#0F0A1F]/80 px-5 py-4 space-y-3 animate-fade-in">
+      {!online && (
+        <div className="flex items-start gap-3 text-sm text-amber-200">
+          <CloudOff size={16} className="shrink-0 mt-0.5" />
+          <p>{t('queue.offline')}</p>
+        </div>
+      )}
+
+      {completed > 0 && (
+        <div className="flex items-center gap-3 text-sm text-emerald-300">
+          <CheckCircle2 size={16} className="shrink-0" />
+          <span className="flex-1">{t('queue.ready', { count: completed })}</span>
+          <button onClick={onViewHistory} className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider hover:text-white">
+            <History size={12} /> {t('queue.viewHistory')}
+          </button>
+          <button onClick={onDismissCompleted} className="p-1 text-gray-500 hover:text-white" title={t('queue.dismiss')}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {queued.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-[10px] font-bold text-gray-500 uppercase tracking-widest">{t('queue.title', { count: queued.length })}</p>
+            {online && failed && (
+              <button onClick={onRetry} className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-white">
+                <RotateCw size={12} /> {t('queue.retry')}
+              </button>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            {queued.map(analysis => (
+              <div key={analysis.id} className="flex items-center gap-3 px-3 py-2 rounded-lg bg-white/[0.03] border border-white/5">
+                {analysis.kind === 'diagnosis'
+                  ? <Stethoscope size={14} className="text-brand-glow shrink-0" />
+                  : <Pill size={14} className="text-brand-accent shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-200 truncate">{analysis.input}</p>
+                  {analysis.refusal ? (
+                    <p className="flex items-center gap-1 text-[10px] text-amber-300 truncate" title={t(REFUSAL_MESSAGES[analysis.refusal.reason])}>
+                      <ShieldAlert size={10} className="shrink-0" /> {t('queue.notSent', { reason: t(REFUSAL_MESSAGES[analysis.refusal.reason]) })}
+                    </p>
+                  ) : analysis.error ? (
+                    <p className="flex items-center gap-1 text-[10px] text-red-400 truncate" title={analysis.error}>
+                      <AlertTriangle size={10} className="shrink-0" /> {t('queue.failed')}
+                    </p>
+                  ) : (
+                    <p className="text-[10px] text-gray-600 uppercase tracking-wider">
+                      {analysis.images.length > 0 && `${t('queue.images', { count: analysis.images.length })} • `}
+                      {t('queue.queuedAt', { time: new Date(analysis.queuedAt).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }) })}
+                    </p>
+                  )}
+                </div>
+                <button onClick={() => onRemove(analysis.id)} className="p-1.5 text-gray-600 hover:text-red-400" title={t('queue.remove')}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React from 'react';
+import { ExtractionSource, MedicationDetails, PackagingField, PackagingOcr } from '../types';
+import { isMissingValue } from '../services/packagingOcr';
+import { Calendar } from 'lucide-react';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface PackagingDatesProps {
+  medication: MedicationDetails;
+  ocr?: PackagingOcr;
+}
+
+const SOURCE_BADGES: Record<ExtractionSource, { label: MessageKey; title: MessageKey; className: string }> = {
+  ocr: {
+    label: 'source.ocr',
+    title: 'source.ocr.title',
+    className: 'bg-sky-500/10 text-sky-300 border-sky-500/20',
+  },
+  model: {
+    label: 'source.model',
+    title: 'source.model.title',
+    className: 'bg-white/5 text-gray-400 border-white/10',
+  },
+  ocr_and_model: {
+    label: 'source.ocr_and_model',
+    title: 'source.ocr_and_model.title',
+    className: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/20',
+  },
+  barcode: {
+    label: 'source.barcode',
+    title: 'source.barcode.title',
+    className: 'bg-brand-primary/15 text-brand-glow border-brand-primary/30',
+  },
+};
+
+const ROWS: { field: PackagingField; label: MessageKey }[] = [
+  { field: 'production_date', label: 'packaging.production' },
+  { field: 'expiry_date', label: 'packaging.expiry' },
+  { field: 'lot_number', label: 'packaging.lot' },
+];
+
+export const PackagingDates: React.FC<PackagingDatesProps> = ({ medication, ocr }) => {
+  const { t } = useI18n();
+  const valueOf = (field: PackagingField) =>
+    field === 'lot_number' ? medication.lot_number : medication.dates[field];
+
+  return (
+    <div className="bg-black/20 p-4 rounded-xl border border-white/5 hover:border-white/20 transition-colors">
+      <div className="flex items-center gap-2 text-gray-400 mb-2">
+        <Calendar size={14} />
+        <span className="text-xs font-bold uppercase tracking-wider">{t('packaging.title')}</span>
+      </div>
+      <div className="space-y-1.5">
+        {ROWS.map(({ field, label }) => {
+          const value = valueOf(field);
+          // The lot row only appears when something was actually read
+          if (field === 'lot_number' && isMissingValue(value)) return null;
+          const source = medication.sources?.[field];
+          const badge = source && SOURCE_BADGES[source];
+          const ocrDisagrees = (source === 'model' || source === 'barcode') && ocr?.[field] && ocr[field] !== value;
+          return (
+            <div key={field} className="text-sm">
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-gray-500">{t(label)}:</span>
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className={`truncate ${
+                    field === 'expiry_date'
+                      ? `font-bold ${value?.includes('Not') ? 'text-gray-400' : 'text-brand-accent'}`
+                      : 'text-white'
+                  }`}>
+                    {value}
+                  </span>
+                  {badge && (
+                    <span title={t(badge.title)} className={`shrink-0 text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border ${badge.className}`}>
+                      {t(badge.label)}
+                    </span>
+                  )}
+                </span>
+              </div>
+              {ocrDisagrees && (
+                <p className="text-[10px] text-amber-400/80 text-end">{t('packaging.ocrDisagrees', { value: ocr![field] })}</p>
+              )}
+            </div>
+          );
+        })}
+        {medication.gtin && (
+          <div className="flex justify-between items-center gap-2 text-sm">
+            <span className="text-gray-500">{t('packaging.gtin')}:</span>
+            <span className="text-white font-mono truncate">{medication.gtin}</span>
+          </div>
+        )}
+        {medication.serial_number && (
+          <div className="flex justify-between items-center gap-2 text-sm">
+            <span className="text-gray-500">{t('packaging.serial')}:</span>
+            <span className="text-white font-mono truncate">{medication.serial_number}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Redaction } from '../types';
+import { PII_LABELS } from '../services/piiRedaction';
+import { EyeOff } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface RedactionSummaryProps {
+  redactions: Redaction[];
+  title: string;
+  className?: string;
+}
+
+// Lists personal details masked out of a request: live under the input box
+// before sending, and with the saved consultation afterwards.
+export const RedactionSummary: React.FC<RedactionSummaryProps> = ({ redactions, title, className = '' }) => {
+  const { t } = useI18n();
+  if (redactions.length === 0) return null;
+
+  return (
+    <div className={`rounded-xl border border-sky-400/20 bg-sky-500/5 px-4 py-3 ${className}`}>
+      <p className="flex items-center gap-2 text-[10px] font-bold text-sky-300 uppercase tracking-widest mb-2">
+        <EyeOff size={12} /> {title} ({redactions.length})
+      </p>
+      <ul className="flex flex-wrap gap-1.5">
+        {redactions.map((redaction, idx) => (
+          <li
+            key={idx}
+            className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300"
+            title={t('redaction.found', { kind: t(PII_LABELS[redaction.kind]), field: redaction.field })}
+          >
+            <span className="font-mono text-gray-500 line-through">{redaction.preview}</span>
+            <span className="font-mono text-sky-300">{redaction.placeholder}</span>
+            <span className="text-[10px] text-gray-600">{redaction.field}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
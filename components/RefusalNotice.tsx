@@ -0,0 +1,32 @@
+import React from 'react';
+import { RefusalReason, SafetyRefusal } from '../types';
+import { ShieldAlert } from 'lucide-react';
+import { MessageKey } from '../services/i18n';
+import { REFUSAL_MESSAGES } from '../services/inputSafety';
+import { useI18n } from './I18nProvider';
+
+interface RefusalNoticeProps {
+  refusal: SafetyRefusal;
+}
+
+const TITLES: Record<RefusalReason, MessageKey> = {
+  prompt_injection: 'refusal.title.prompt_injection',
+  dangerous_dosage: 'refusal.title.dangerous_dosage',
+};
+
+// A declined request, not a failure: nothing went wrong and retrying the same
+// input gives the same answer, so it is styled apart from the red error boxes.
+// The text comes from the reason, so a refusal from the API server is shown
+// in the UI language too.
+export const RefusalNotice: React.FC<RefusalNoticeProps> = ({ refusal }) => {
+  const { t } = useI18n();
+  return (
+    <div className="max-w-2xl mx-auto bg-amber-500/5 border border-amber-400/30 rounded-2xl p-6 md:p-8 text-center backdrop-blur-sm">
+      <div className="w-12 h-12 bg-amber-400/10 text-amber-300 rounded-full flex items-center justify-center mx-auto mb-4 border border-amber-400/20">
+        <ShieldAlert size={24} />
+      </div>
+      <h3 className="text-lg font-bold text-amber-100 mb-2">{t(TITLES[refusal.reason])}</h3>
+      <p className="text-amber-200/80 text-sm leading-relaxed">{t(REFUSAL_MESSAGES[refusal.reason])}</p>
+    </div>
+  );
+};
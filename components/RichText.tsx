@@ -0,0 +1,17 @@
+import React from 'react';
+import { BLOCK_TAGS, INLINE_TAGS, sanitizeHtml } from '../services/sanitize';
+
+interface RichTextProps {
+  html: string;
+  block?: boolean; // Allow paragraphs, headings and lists instead of inline emphasis only
+  className?: string;
+}
+
+// The only place model-authored markup reaches the DOM; it always passes
+// through the allowlist sanitizer first.
+export const RichText: React.FC<RichTextProps> = ({ html, block = false, className }) => {
+  const __html = sanitizeHtml(html, block ? BLOCK_TAGS : INLINE_TAGS);
+  return block
+    ? <div className={className} dangerouslySetInnerHTML={{ __html }} />
+    : <span className={className} dangerouslySetInnerHTML={{ __html }} />;
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ConditionCodes, MedicationCodes, TerminologyCode } from '../types';
+import { CODE_SYSTEM_LABELS, CodeSystem } from '../services/terminology';
+import { AlertTriangle, BadgeCheck } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface TerminologyCodesProps {
+  codes?: ConditionCodes | MedicationCodes;
+  className?: string;
+}
+
+export const TerminologyCodes: React.FC<TerminologyCodesProps> = ({ codes, className = '' }) => {
+  const { t } = useI18n();
+  const entries = Object.entries(codes || {}).filter(([, code]) => code) as [CodeSystem, TerminologyCode][];
+  if (entries.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1.5 ${className}`}>
+      {entries.map(([system, code]) => (
+        <span
+          key={system}
+          title={code.verified
+            ? code.display
+            : [t('codes.unverifiedTitle', { system: CODE_SYSTEM_LABELS[system] }), code.display && t('codes.modelLabel', { label: code.display })].filter(Boolean).join(' ')}
+          className={`inline-flex items-center gap-1 text-[10px] font-mono px-2 py-0.5 rounded border ${
+            code.verified
+              ? 'bg-white/5 text-gray-400 border-white/10'
+              : 'bg-amber-500/10 text-amber-300 border-amber-500/30'
+          }`}
+        >
+          {code.verified ? <BadgeCheck size={11} className="text-emerald-400" /> : <AlertTriangle size={11} />}
+          <span className="font-sans font-bold uppercase tracking-wider">{CODE_SYSTEM_LABELS[system]}</span>
+          {code.code}
+          {!code.verified && <span className="font-sans uppercase tracking-wider font-bold">{t('codes.unverified')}</span>}
+        </span>
+      ))}
+    </div>
+  );
+};
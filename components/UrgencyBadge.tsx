@@ -1,12 +1,24 @@
 import React from 'react';
 import { UrgencyLevel } from '../types';
 import { AlertTriangle, AlertCircle, Info, ShieldAlert, CheckCircle2 } from 'lucide-react';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
 
 interface UrgencyBadgeProps {
   level: string;
+  label?: string; // Text to display instead of the level, e.g. an interaction severity
 }
 
-export const UrgencyBadge: React.FC<UrgencyBadgeProps> = ({ level }) => {
+// The level itself stays canonical English in model output; only its label
+// is translated
+const URGENCY_LABELS: Record<UrgencyLevel, MessageKey> = {
+  [UrgencyLevel.LOW]: 'urgency.low',
+  [UrgencyLevel.MEDIUM]: 'urgency.medium',
+  [UrgencyLevel.HIGH]: 'urgency.high',
+  [UrgencyLevel.CRITICAL]: 'urgency.critical',
+};
+
+export const getUrgencyStyle = (level: string): { styles: string; Icon: typeof Info } => {
   let styles = '';
   let Icon = Info;
   
@@ -33,10 +45,18 @@ export const UrgencyBadge: React.FC<UrgencyBadgeProps> = ({ level }) => {
       styles = 'bg-gray-800 text-gray-400 border-gray-700';
   }
 
+  return { styles, Icon };
+};
+
+export const UrgencyBadge: React.FC<UrgencyBadgeProps> = ({ level, label }) => {
+  const { t } = useI18n();
+  const { styles, Icon } = getUrgencyStyle(level);
+  const levelKey = URGENCY_LABELS[level as UrgencyLevel];
+
   return (
     <span className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-bold border uppercase tracking-wider ${styles}`}>
       <Icon size={14} strokeWidth={2.5} />
-      {level}
+      {label ?? (levelKey ? t(levelKey) : level)}
     </span>
   );
-};
\ No newline at end of file
+};
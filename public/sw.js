@@ -0,0 +1,90 @@
+// Service worker. Precaches the app shell and build output so the app opens
+// offline, and routes dose reminder actions back to the app: to an open tab
+// by message, otherwise by opening one with the action in the URL.
+
+const PRECACHE = 'lv-precache';
+// OCR and barcode assets were cached from CDNs before they were bundled
+const RETIRED_CACHES = ['lv-runtime'];
+// Written by the build (see vite.config.ts); absent on the dev server
+const MANIFEST_URL = '/precache-manifest.json';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+
+// Brings the precache in line with the current build. Runs on install and
+// after online navigations, so a deploy is picked up without a new sw.js.
+const syncPrecache = async () => {
+  const response = await fetch(MANIFEST_URL, { cache: 'no-store' });
+  if (!response.ok || !response.headers.get('content-type')?.includes('json')) return;
+  const manifest = await response.clone().json();
+  const cache = await caches.open(PRECACHE);
+  const previous = await cache.match(MANIFEST_URL);
+  if (previous && (await previous.json()).version === manifest.version) return;
+
+  const urls = [...SHELL, ...manifest.files];
+  await cache.addAll(urls);
+  const keep = new Set([MANIFEST_URL, ...urls].map(url => new URL(url, self.location.origin).href));
+  const stale = (await cache.keys()).filter(request => !keep.has(request.url));
+  await Promise.all(stale.map(request => cache.delete(request)));
+  await cache.put(MANIFEST_URL, response);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(syncPrecache().catch(err => console.warn('Precache failed', err)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => event.waitUntil(
+  Promise.all(RETIRED_CACHES.map(name => caches.delete(name))).then(() => self.clients.claim())
+));
+
+// Pages are network-first so a deploy shows up immediately; the cached shell
+// is the offline fallback for any in-app URL.
+const handleNavigation = async (event) => {
+  try {
+    const response = await fetch(event.request);
+    if (response.ok) {
+      const cache = await caches.open(PRECACHE);
+      await cache.put('/', response.clone());
+      event.waitUntil(syncPrecache().catch(() => {}));
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match('/', { cacheName: PRECACHE });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(handleNavigation(event));
+  } else if (url.origin === self.location.origin) {
+    // Hashed build files never change, so the precached copy is always right
+    event.respondWith(caches.match(request, { cacheName: PRECACHE }).then(cached => cached || fetch(request)));
+  }
+});
+
+const DOSE_STATUSES = { taken: 'taken', skip: 'skipped' };
+
+self.addEventListener('notificationclick', (event) => {
+  const { itemId, scheduledFor } = event.notification.data || {};
+  event.notification.close();
+  if (!itemId) return;
+
+  const status = DOSE_STATUSES[event.action];
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      windows.forEach(client => client.postMessage({ type: 'dose-action', itemId, scheduledFor, status }));
+      if (!status) await windows[0].focus();
+      return;
+    }
+    const url = new URL('/', self.location.origin);
+    url.searchParams.set('dose', itemId);
+    url.searchParams.set('at', String(scheduledFor));
+    if (status) url.searchParams.set('status', status);
+    await self.clients.openWindow(url.href);
+  })());
+});
@@ -0,0 +1,385 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { createModelProvider, getModelProviderConfig, ModelProvider } from "../services/providers";
+import { CallOptions } from "../services/providers/types";
+import { assertSafeInput, InputRefusedError } from "../services/inputSafety";
+import { isLocale } from "../services/i18n";
+import { toModelError } from "../services/modelErrors";
+import {
+  diagnosisUserText, interactionUserText, InteractionRequest, MedicationAnalysisRequest, medicationUserText, ReportRequest, reportUserText, SymptomAnalysisRequest,
+} from "../services/prompts";
+import { BiologicalSex, ConsultationRound, Locale, ModelErrorKind, PackageBarcode, PackagingOcr, PatientIntake, PregnancyStatus, Vitals } from "../types";
+import { log } from "./logger";
+import { createRateLimiter } from "./rateLimit";
+
+// API server that keeps the model credentials off the client. Each endpoint
+// accepts the same request object the providers take, builds the prompt with
+// the shared prompt and schema modules, and returns the raw model text; the
+// browser validates it exactly as before.
+
+// Same file Vite reads; variables already in the environment win
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: configuration comes from the environment only
+}
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const PORT = positiveInt(process.env.API_PORT, 8787);
+const MAX_BODY_BYTES = positiveInt(process.env.API_MAX_BODY_KB, 8192) * 1024;
+const RATE_LIMIT = positiveInt(process.env.API_RATE_LIMIT, 20); // Requests per minute per IP
+const RATE_WINDOW_MS = 60 * 1000;
+const TRUST_PROXY = process.env.API_TRUST_PROXY === 'true'; // Behind a load balancer setting X-Forwarded-For
+
+const MAX_IMAGES = 6;
+const MAX_TEXT_LENGTH = 20000;
+const MAX_MEDICATIONS = 20;
+const MAX_ROUNDS = 10;
+const MAX_LIST_ITEMS = 50;
+
+// Status for each model failure; the body carries the kind itself so the
+// client does not have to infer it back from the status
+const MODEL_ERROR_STATUS: Record<ModelErrorKind, number> = {
+  rate_limited: 429,
+  quota_exhausted: 503,
+  safety_blocked: 422,
+  invalid_image: 400,
+  malformed_output: 502,
+  network: 502,
+  timeout: 504,
+  unavailable: 503,
+  unknown: 502,
+};
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// --- Request validation ---
+// Only the shape the prompt builders rely on is checked; anything else in
+// the body is dropped rather than forwarded.
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown, field: string, required = true): string | undefined => {
+  if (value === undefined && !required) return undefined;
+  if (typeof value !== 'string' || (required && !value.trim())) throw new HttpError(400, `${field} must be a non-empty string`);
+  if (value.length > MAX_TEXT_LENGTH) throw new HttpError(400, `${field} is too long`);
+  return value;
+};
+
+const optionalObject = <T>(value: unknown, field: string): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) throw new HttpError(400, `${field} must be an object`);
+  return value as T;
+};
+
+const optionalNumber = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new HttpError(400, `${field} must be a number`);
+  return value;
+};
+
+const optionalChoice = <T extends string>(value: unknown, field: string, choices: readonly T[]): T | undefined => {
+  if (value === undefined || value === '') return undefined;
+  if (!choices.includes(value as T)) throw new HttpError(400, `${field} must be one of ${choices.join(', ')}`);
+  return value as T;
+};
+
+const list = <T>(value: unknown, field: string, max: number, item: (value: unknown, field: string) => T): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > max) throw new HttpError(400, `${field} must be an array of at most ${max}`);
+  return value.map((entry, idx) => item(entry, `${field}[${idx}]`));
+};
+
+const listText = (value: unknown, field: string) => text(value, field, false) ?? '';
+
+const vitals = (value: unknown): Vitals => {
+  const body = optionalObject<Record<string, unknown>>(value, 'intake.vitals') ?? {};
+  return {
+    temperature_c: optionalNumber(body.temperature_c, 'intake.vitals.temperature_c'),
+    heart_rate_bpm: optionalNumber(body.heart_rate_bpm, 'intake.vitals.heart_rate_bpm'),
+    systolic_bp: optionalNumber(body.systolic_bp, 'intake.vitals.systolic_bp'),
+    diastolic_bp: optionalNumber(body.diastolic_bp, 'intake.vitals.diastolic_bp'),
+    respiratory_rate: optionalNumber(body.respiratory_rate, 'intake.vitals.respiratory_rate'),
+    spo2_percent: optionalNumber(body.spo2_percent, 'intake.vitals.spo2_percent'),
+  };
+};
+
+const intake = (value: unknown): PatientIntake | undefined => {
+  const body = optionalObject<Record<string, unknown>>(value, 'intake');
+  if (!body) return undefined;
+  return {
+    age: optionalNumber(body.age, 'intake.age'),
+    sex: optionalChoice<BiologicalSex>(body.sex, 'intake.sex', ['female', 'male', 'intersex']),
+    pregnancy_status: optionalChoice<PregnancyStatus>(body.pregnancy_status, 'intake.pregnancy_status', ['pregnant', 'not_pregnant', 'possible', 'unknown']),
+    weight_kg: optionalNumber(body.weight_kg, 'intake.weight_kg'),
+    chronic_conditions: list(body.chronic_conditions, 'intake.chronic_conditions', MAX_LIST_ITEMS, listText),
+    current_medications: list(body.current_medications, 'intake.current_medications', MAX_LIST_ITEMS, listText),
+    allergies: list(body.allergies, 'intake.allergies', MAX_LIST_ITEMS, listText),
+    vitals: vitals(body.vitals),
+    symptom_onset: text(body.symptom_onset, 'intake.symptom_onset', false),
+    symptom_duration: text(body.symptom_duration, 'intake.symptom_duration', false),
+  };
+};
+
+// Only the differential names, probabilities and the answers reach the prompt
+const history = (value: unknown): ConsultationRound[] | undefined => {
+  if (value === undefined) return undefined;
+  list(value, 'history', MAX_ROUNDS, (round, field) => {
+    if (!isObject(round) || !isObject(round.response)) throw new HttpError(400, `${field}.response must be an object`);
+    list(round.response.conditions, `${field}.response.conditions`, MAX_LIST_ITEMS, (condition, conditionField) => {
+      if (!isObject(condition)) throw new HttpError(400, `${conditionField} must be an object`);
+      text(condition.name, `${conditionField}.name`);
+      optionalNumber(condition.probability, `${conditionField}.probability`);
+    });
+    list(round.answers, `${field}.answers`, MAX_LIST_ITEMS, (answer, answerField) => {
+      if (!isObject(answer)) throw new HttpError(400, `${answerField} must be an object`);
+      text(answer.question, `${answerField}.question`);
+      listText(answer.answer, `${answerField}.answer`);
+    });
+  });
+  return value as ConsultationRound[];
+};
+
+const ocr = (value: unknown): PackagingOcr | undefined => {
+  const body = optionalObject<Record<string, unknown>>(value, 'ocr');
+  if (!body) return undefined;
+  return {
+    text: listText(body.text, 'ocr.text'),
+    lot_number: text(body.lot_number, 'ocr.lot_number', false),
+    production_date: text(body.production_date, 'ocr.production_date', false),
+    expiry_date: text(body.expiry_date, 'ocr.expiry_date', false),
+  };
+};
+
+const barcode = (value: unknown): PackageBarcode | undefined => {
+  const body = optionalObject<Record<string, unknown>>(value, 'barcode');
+  if (!body) return undefined;
+  return {
+    format: text(body.format, 'barcode.format')!,
+    raw: listText(body.raw, 'barcode.raw'),
+    gtin: text(body.gtin, 'barcode.gtin', false),
+    expiry_date: text(body.expiry_date, 'barcode.expiry_date', false),
+    lot_number: text(body.lot_number, 'barcode.lot_number', false),
+    serial_number: text(body.serial_number, 'barcode.serial_number', false),
+  };
+};
+
+const images = (value: unknown) => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_IMAGES) throw new HttpError(400, `images must be an array of at most ${MAX_IMAGES}`);
+  return value.map((image, idx) => {
+    if (!isObject(image) || typeof image.dataUrl !== 'string' || !/^data:image\/(jpeg|png|webp);base64,/.test(image.dataUrl)) {
+      throw new HttpError(400, `images[${idx}] must have a base64 JPEG, PNG or WebP dataUrl`);
+    }
+    return { id: String(idx), dataUrl: image.dataUrl, caption: typeof image.caption === 'string' ? image.caption.slice(0, 200) : '' };
+  });
+};
+
+const locale = (value: unknown): Locale | undefined => {
+  if (value === undefined) return undefined;
+  if (!isLocale(value)) throw new HttpError(400, 'locale is not supported');
+  return value;
+};
+
+const parseDiagnosis = (body: Record<string, any>): SymptomAnalysisRequest => ({
+  symptoms: text(body.symptoms, 'symptoms')!,
+  images: images(body.images),
+  intake: intake(body.intake),
+  history: history(body.history),
+  correction: text(body.correction, 'correction', false),
+  locale: locale(body.locale),
+});
+
+const parseMedication = (body: Record<string, any>): MedicationAnalysisRequest => ({
+  query: text(body.query, 'query')!,
+  images: images(body.images),
+  ocr: ocr(body.ocr),
+  barcode: barcode(body.barcode),
+  correction: text(body.correction, 'correction', false),
+  locale: locale(body.locale),
+});
+
+const parseInteractions = (body: Record<string, any>): InteractionRequest => {
+  const { medications } = body;
+  if (!Array.isArray(medications) || medications.length < 2 || medications.length > MAX_MEDICATIONS) {
+    throw new HttpError(400, `medications must list 2 to ${MAX_MEDICATIONS} names`);
+  }
+  return {
+    medications: medications.map((name, idx) => text(name, `medications[${idx}]`)!),
+    correction: text(body.correction, 'correction', false),
+    locale: locale(body.locale),
+  };
+};
+
+const parseReport = (body: Record<string, any>): ReportRequest => {
+  const diagnosis = optionalObject<ReportRequest['diagnosis']>(body.diagnosis, 'diagnosis');
+  if (!diagnosis || !Array.isArray(diagnosis.conditions)) throw new HttpError(400, 'diagnosis must include conditions');
+  return {
+    diagnosis,
+    symptoms: text(body.symptoms, 'symptoms')!,
+    correction: text(body.correction, 'correction', false),
+    locale: locale(body.locale),
+  };
+};
+
+// The client screens too, but nothing from it can be trusted to have done so
+const screened = <T>(request: T, userText: (request: T) => string[]): T => {
+  assertSafeInput(userText(request));
+  return request;
+};
+
+type Handler = (provider: ModelProvider, body: Record<string, any>, options: CallOptions) => Promise<string>;
+
+const ROUTES: Record<string, Handler> = {
+  '/api/diagnose': (provider, body, options) => provider.analyzeSymptoms(screened(parseDiagnosis(body), diagnosisUserText), options),
+  '/api/medication': (provider, body, options) => provider.analyzeMedication(screened(parseMedication(body), medicationUserText), options),
+  '/api/interactions': (provider, body, options) => provider.checkInteractions(screened(parseInteractions(body), interactionUserText), options),
+  '/api/sample': (provider, body, options) => provider.generateSample({ locale: locale(body.locale) }, options),
+  '/api/report': (provider, body, options) => provider.generateReport(screened(parseReport(body), reportUserText), options),
+};
+
+// --- HTTP plumbing ---
+
+const readJsonBody = (req: IncomingMessage): Promise<Record<string, any>> =>
+  new Promise((resolve, reject) => {
+    if (!req.headers['content-type']?.startsWith('application/json')) {
+      reject(new HttpError(415, 'Expected application/json'));
+      return;
+    }
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        // Discard the rest so the 413 can still be delivered
+        req.removeAllListeners('data');
+        req.resume();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (!isObject(body)) throw new Error();
+        resolve(body);
+      } catch {
+        reject(new HttpError(400, 'Body must be a JSON object'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const clientIp = (req: IncomingMessage): string => {
+  const forwarded = TRUST_PROXY && req.headers['x-forwarded-for'];
+  return (typeof forwarded === 'string' && forwarded.split(',')[0].trim()) || req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const config = getModelProviderConfig();
+if (config.provider === 'proxy') {
+  log('error', 'config_error', { message: 'MODEL_PROVIDER=proxy would make the server call itself' });
+  process.exit(1);
+}
+const provider = createModelProvider(config);
+const limiter = createRateLimiter(RATE_LIMIT, RATE_WINDOW_MS);
+
+const handle = async (req: IncomingMessage, res: ServerResponse, ip: string) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (url.pathname === '/api/health') {
+    sendJson(res, 200, { ok: true, provider: provider.name });
+    return;
+  }
+  const route = ROUTES[url.pathname];
+  if (!route) throw new HttpError(404, 'Not found');
+  if (req.method !== 'POST') throw new HttpError(405, 'Use POST');
+
+  const retryAfterMs = limiter.hit(ip);
+  if (retryAfterMs > 0) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    throw new HttpError(429, 'Too many requests');
+  }
+
+  const body = await readJsonBody(req);
+
+  // A closed connection means the user cancelled; stop paying for the call
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+  if (url.searchParams.get('stream') === '1') {
+    let sent = 0;
+    const onText = (accumulated: string) => {
+      if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.write(accumulated.slice(sent));
+      sent = accumulated.length;
+    };
+    const result = await route(provider, body, { signal: controller.signal, onText });
+    if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(result.slice(sent));
+    return;
+  }
+
+  const result = await route(provider, body, { signal: controller.signal });
+  sendJson(res, 200, { text: result });
+};
+
+const server = createServer((req, res) => {
+  const started = Date.now();
+  const requestId = randomUUID();
+  const ip = clientIp(req);
+  res.setHeader('X-Request-Id', requestId);
+  res.setHeader('Cache-Control', 'no-store');
+
+  res.on('finish', () => log('info', 'request', {
+    requestId, method: req.method, path: req.url?.split('?')[0], status: res.statusCode, durationMs: Date.now() - started, ip,
+  }));
+
+  handle(req, res, ip).catch((error: unknown) => {
+    if (error instanceof HttpError) {
+      if (!res.headersSent) sendJson(res, error.status, { error: error.message, requestId });
+      else res.destroy();
+      return;
+    }
+    if (error instanceof InputRefusedError) {
+      log('warn', 'input_refused', { requestId, reason: error.refusal.reason, ip });
+      sendJson(res, 422, { error: error.message, refusal: error.refusal, requestId });
+      return;
+    }
+    if (res.destroyed) return; // Client went away mid-call
+    const failure = toModelError(error);
+    log('error', 'model_error', { requestId, provider: provider.name, kind: failure.kind, message: error instanceof Error ? error.message : String(error) });
+    // Mid-stream failures cannot change the status; cutting the connection
+    // makes the client's read fail instead of returning truncated text
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    if (failure.retryAfterMs !== undefined) res.setHeader('Retry-After', String(Math.ceil(failure.retryAfterMs / 1000)));
+    sendJson(res, MODEL_ERROR_STATUS[failure.kind], { error: failure.message, kind: failure.kind, requestId });
+  });
+});
+
+server.listen(PORT, () => log('info', 'listening', { port: PORT, provider: provider.name, rateLimitPerMinute: RATE_LIMIT, maxBodyKb: MAX_BODY_BYTES / 1024 }));
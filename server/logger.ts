@@ -0,0 +1,11 @@
+// Structured logging: one JSON object per line on stdout, so the output can
+// be shipped to any log collector as is. Request bodies are never logged;
+// they contain patient data.
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+export const log = (level: LogLevel, event: string, fields: Record<string, unknown> = {}): void => {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, event, ...fields });
+  if (level === 'error') console.error(line);
+  else console.log(line);
+};
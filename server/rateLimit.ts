@@ -0,0 +1,29 @@
+// Fixed-window request counter per client IP. In memory, so limits apply per
+// server instance.
+
+export interface RateLimiter {
+  // Counts a request; returns how long to wait when over the limit, else 0
+  hit(ip: string, now?: number): number;
+}
+
+export const createRateLimiter = (max: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+  let lastSweep = 0;
+
+  return {
+    hit(ip, now = Date.now()) {
+      // Drop expired windows now and then so idle clients do not accumulate
+      if (now - lastSweep > windowMs) {
+        windows.forEach((window, key) => { if (now - window.start >= windowMs) windows.delete(key); });
+        lastSweep = now;
+      }
+      const current = windows.get(ip);
+      if (!current || now - current.start >= windowMs) {
+        windows.set(ip, { start: now, count: 1 });
+        return 0;
+      }
+      current.count++;
+      return current.count > max ? current.start + windowMs - now : 0;
+    },
+  };
+};
@@ -1,279 +1,264 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DiagnosisResponse, MedicationResponse } from "../types";
+import { ClinicalReport, ClinicalReportContent, ConsultationRound, DiagnosisResponse, ImageAttachment, InteractionResponse, Locale, MedicalCondition, MedicationResponse, PackageBarcode, PackagingOcr, PatientIntake } from "../types";
+import { Schema } from "@google/genai";
+import { getModelProvider, getModelProviderConfig } from "./providers";
+import { DIAGNOSIS_SCHEMA, INTERACTION_SCHEMA, MEDICATION_SCHEMA, REPORT_SCHEMA } from "./schemas";
+import { enforceRedFlags, evaluateRedFlags } from "./redFlags";
+import { parsePartialJson } from "./partialJson";
+import { readPackagingText, reconcilePackagingOcr } from "./packagingOcr";
+import { applyPackageBarcode } from "./gs1";
+import { assertSafeInput, InputRefusedError } from "./inputSafety";
+import { diagnosisUserText, interactionUserText, medicationUserText, reportUserText } from "./prompts";
+import { verifyConditionCodes, verifyDiagnosisCodes, verifyMedicationCodes } from "./terminology";
+import { ModelError, toModelError, withRetry } from "./modelErrors";
+import { createRedactor, redactCaptions, redactIntake, redactText } from "./piiRedaction";
+import { hashKey, withResponseCache } from "./responseCache";
+import { parseModelJson, SchemaValidationError, validateAgainstSchema } from "./validation";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// --- Diagnosis Schema ---
-const DIAGNOSIS_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    conditions: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING, description: "Precise medical name of the condition" },
-          probability: { type: Type.NUMBER, description: "Estimated percentage likelihood (0-100) based on symptom clustering" },
-          description: { type: Type.STRING, description: "Clinical explanation of why this condition matches the specific pathophysiology described" },
-          urgency: { type: Type.STRING, enum: ["Low", "Medium", "High", "Critical"], description: "Clinical urgency level" },
-          symptoms_matched: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Specific reported symptoms that align with this diagnosis" },
-          recommendations: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Clinical next steps (labs, imaging, specialist referral)" },
-        },
-        required: ["name", "probability", "description", "urgency", "symptoms_matched", "recommendations"],
-      },
-    },
-    disclaimer: { type: Type.STRING, description: "Mandatory medical disclaimer." },
-    general_advice: { type: Type.STRING, description: "High-level clinical synopsis and patient guidance." },
-  },
-  required: ["conditions", "disclaimer", "general_advice"],
+// Runs a structured model call, validating the JSON against its schema. Each
+// call is retried on transient failures; on unrecoverable output the model is
+// re-prompted once with the failing fields.
+const requestValidated = async <T>(
+  call: (correction: string | undefined, signal: AbortSignal) => Promise<string>,
+  schema: Schema,
+  signal?: AbortSignal
+): Promise<T> => {
+  let result = parseModelJson<T>(await withRetry(attemptSignal => call(undefined, attemptSignal), { signal }), schema);
+  if (!result.ok) {
+    console.warn("Model output rejected, re-prompting:", result.issues);
+    const correction = result.issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    result = parseModelJson<T>(await withRetry(attemptSignal => call(correction, attemptSignal), { signal }), schema);
+  }
+  if (!result.ok) {
+    throw new SchemaValidationError(result.issues);
+  }
+  if (result.repairs.length > 0) {
+    console.warn("Model output repaired:", result.repairs);
+  }
+  return result.value;
 };
 
-// --- Medication Schema ---
-const MEDICATION_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    medication: {
-      type: Type.OBJECT,
-      properties: {
-        name: { type: Type.STRING, description: "Brand name of the medication" },
-        generic_name: { type: Type.STRING, description: "Generic/Scientific name" },
-        manufacturer: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            country_of_origin: { type: Type.STRING },
-            country_of_distribution: { type: Type.STRING },
-          }
-        },
-        dates: {
-          type: Type.OBJECT,
-          properties: {
-            production_date: { type: Type.STRING, description: "Date extracted from image text if visible, otherwise state 'Not visible'" },
-            expiry_date: { type: Type.STRING, description: "Date extracted from image text if visible, otherwise state 'Not visible'" },
-          }
-        },
-        specifications: {
-          type: Type.OBJECT,
-          properties: {
-            type: { type: Type.STRING, description: "Tablet, Capsule, Syrup, Injection, etc." },
-            dosage: { type: Type.STRING, description: "e.g., 500mg, 10ml" },
-            composition: { type: Type.STRING, description: "Active chemical ingredients" },
-          }
-        },
-        clinical_info: {
-          type: Type.OBJECT,
-          properties: {
-            uses: { type: Type.ARRAY, items: { type: Type.STRING } },
-            administration_guide: { type: Type.STRING, description: "How/When to take, with food/without food, etc." },
-            side_effects: { type: Type.ARRAY, items: { type: Type.STRING } },
-            warnings: { type: Type.STRING, description: "Major contraindications or box warnings" },
-          }
-        }
-      }
-    },
-    analysis_confidence: { type: Type.NUMBER, description: "Confidence in identification 0-100" },
-    disclaimer: { type: Type.STRING },
-  },
-  required: ["medication", "analysis_confidence", "disclaimer"],
+const CONDITION_SCHEMA = DIAGNOSIS_SCHEMA.properties!.conditions.items!;
+
+// Builds a renderable diagnosis from a streamed prefix: only conditions whose
+// JSON object has fully arrived (and validates) are included, while the free
+// text fields are passed through as they grow.
+const toPartialDiagnosis = (text: string): DiagnosisResponse | null => {
+  const parsed = parsePartialJson(text);
+  if (!parsed || typeof parsed.value !== 'object' || parsed.value === null) return null;
+
+  const root = parsed.value as Record<string, unknown>;
+  const conditions = (Array.isArray(root.conditions) ? root.conditions : [])
+    .filter(item => typeof item === 'object' && item !== null && !parsed.incomplete.has(item))
+    .map(item => validateAgainstSchema<MedicalCondition>(item, CONDITION_SCHEMA))
+    .filter(result => result.ok)
+    .map(result => verifyConditionCodes(result.value));
+
+  return {
+    conditions,
+    general_advice: typeof root.general_advice === 'string' ? root.general_advice : '',
+    disclaimer: typeof root.disclaimer === 'string' ? root.disclaimer : '',
+  };
 };
 
-export const analyzePatientSymptoms = async (symptoms: string, image?: string): Promise<DiagnosisResponse> => {
-  try {
-    const modelId = 'gemini-2.5-flash'; 
-    
-    const systemInstruction = `
-      You are Dr. LV, a Distinguished Professor of Medicine and Chief Diagnostician with PhD-level expertise in Internal Medicine, Pathophysiology, and Differential Diagnosis. You are the core intelligence of the LV Health "Assistant Doctor" system.
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting rejects with the provider's AbortError unchanged
+  locale?: Locale; // Language for the model's free text; enums stay English
+}
 
-      YOUR CAPABILITIES:
-      - You possess the collective clinical knowledge of a multidisciplinary board of specialists.
-      - Your diagnostic accuracy is designed to exceed that of a standard life-long physician by utilizing pure, bias-free evidence-based medicine.
-      - **Multimodal Analysis**: You are capable of analyzing medical images (rashes, swelling, wounds, test results) in conjunction with provided text to form a more accurate diagnosis.
+export interface CachedRequestOptions extends RequestOptions {
+  fresh?: boolean; // Ignore a cached response and ask the model again
+}
 
-      YOUR METHODOLOGY:
-      1.  **Phenomenological Analysis**: Do not just match keywords. Analyze the *quality*, *duration*, *onset*, and *progression* of the reported symptoms to build a clinical picture.
-      2.  **Visual Analysis (if image provided)**: Examine the image for clinical signs (erythema, asymmetry, exudate, structural abnormalities) and integrate these findings.
-      3.  **Bayesian Reasoning**: Weigh the probability of diseases based on the specific constellation of symptoms. Prioritize conditions where the *pathophysiology* explains the majority of the user's complaints.
-      4.  **Rule Out Strategy**: actively consider "Red Flags" (signs of emergency) and "Zebras" (rare diseases) if the common conditions (Horses) do not fully explain the presentation.
-      5.  **Precision**: Use precise medical terminology, followed by clear explanations.
+// Bump when the local post-processing of cached responses changes
+const RESPONSE_CACHE_VERSION = 1;
 
-      DIAGNOSTIC PROTOCOL:
-      - If the input is vague, make the best probabilistic estimate based on epidemiology.
-      - If symptoms suggest a life-threatening emergency (e.g., aortic dissection, myocardial infarction, meningitis, stroke), mark urgency as "CRITICAL" and provide directive advice for emergency care.
+// The schema is hashed whole, so editing it invalidates earlier responses
+const responseCacheKey = (operation: string, schema: Schema, request: unknown): Promise<string | undefined> =>
+  hashKey(RESPONSE_CACHE_VERSION, operation, getModelProvider().name, getModelProviderConfig().model ?? null, schema, request);
 
-      OUTPUT REQUIREMENT:
-      - Return a structured analysis identifying the top medical conditions.
-      - Rank them by strict probability.
-      - Maintain a professional, authoritative, yet empathetic tone suitable for a luxury health service.
-    `;
+const imageCacheKey = (images: ImageAttachment[]) => images.map(image => ({ dataUrl: image.dataUrl, caption: image.caption }));
 
-    const parts: any[] = [];
+// All patient-authored text in the consultation, for the local red-flag screen.
+export const getConsultationText = (symptoms: string, history: ConsultationRound[] = []): string =>
+  [symptoms, ...history.flatMap(round => round.answers.map(a => a.answer))].join('\n');
 
-    if (image) {
-      // Extract base64 data and mime type if it's a data URL
-      const matches = image.match(/^data:(.+);base64,(.+)$/);
-      if (matches) {
-        parts.push({
-          inlineData: {
-            mimeType: matches[1],
-            data: matches[2]
-          }
-        });
-      } else {
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png',
-            data: image
-          }
-        });
-      }
-    }
+export interface DiagnosisOptions extends RequestOptions {
+  intake?: PatientIntake;
+  history?: ConsultationRound[];
+  // Streams the response, reporting each renderable intermediate state
+  onPartial?: (partial: DiagnosisResponse) => void;
+}
 
-    // Add the text prompt
-    parts.push({ 
-      text: `Patient Presentation: "${symptoms}". ${image ? '[IMAGE ATTACHED FOR ANALYSIS]' : ''} \n\nTask: Perform a rigorous differential diagnosis. Identify the most probable pathologies, explain the mechanism of disease for the top match, and recommend clinical workup.` 
-    });
+export interface MedicationOptions extends CachedRequestOptions {
+  barcode?: PackageBarcode; // Exact package data scanned in the camera view
+}
 
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts },
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: DIAGNOSIS_SCHEMA,
-        temperature: 0.2,
-      },
-    });
+export const analyzePatientSymptoms = async (
+  symptoms: string,
+  images: ImageAttachment[] = [],
+  { intake, history = [], signal, onPartial, locale }: DiagnosisOptions = {}
+): Promise<DiagnosisResponse> => {
+  // Refusals throw before any model call, so nothing is sent
+  assertSafeInput(diagnosisUserText({ symptoms, images, intake, history }));
 
-    if (!response.text) {
-      throw new Error("LV Assistant Doctor system failed to return a diagnosis.");
-    }
+  // Screened once up front so streamed partials show the same red flags as
+  // the final result
+  const redFlags = evaluateRedFlags(getConsultationText(symptoms, history), intake);
+  const onText = onPartial && ((text: string) => {
+    const partial = toPartialDiagnosis(text);
+    if (partial) onPartial(enforceRedFlags(partial, redFlags, locale));
+  });
+
+  // Personal details are masked before anything leaves the device; the local
+  // red-flag screen still reads the original text
+  const { redact, redactions } = createRedactor();
+  const request = {
+    symptoms: redact(symptoms, 'Symptoms'),
+    images: redactCaptions(images, redact),
+    intake: intake && redactIntake(intake, redact),
+    history: history.map(round => ({ ...round, answers: round.answers.map(a => ({ ...a, answer: redact(a.answer, 'Follow-up answer') })) })),
+    locale,
+  };
 
-    const data = JSON.parse(response.text) as DiagnosisResponse;
-    return data;
+  try {
+    const data = await requestValidated<DiagnosisResponse>(
+      (correction, attemptSignal) => getModelProvider().analyzeSymptoms({ ...request, correction }, { signal: attemptSignal, onText }),
+      DIAGNOSIS_SCHEMA,
+      signal
+    );
+    const screened = enforceRedFlags(verifyDiagnosisCodes(data), redFlags, locale);
+    return redactions.length > 0 ? { ...screened, redactions } : screened;
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error("LV Assistant Doctor Error:", error);
-    throw new Error("Diagnostic analysis failed. Please verify input and retry.");
+    if (error instanceof InputRefusedError) throw error;
+    throw toModelError(error, "Diagnostic analysis failed. Please verify input and retry.");
   }
 };
 
-export const analyzeMedication = async (query: string, image?: string): Promise<MedicationResponse> => {
-  try {
-    const modelId = 'gemini-2.5-flash';
-    
-    const systemInstruction = `
-      You are the LV Health "Pharma-Mind" AI, a PhD-level Clinical Pharmacist and Pharmaceutical Researcher with encyclopedic knowledge of global drug databases.
-      
-      YOUR TASK:
-      Analyze the provided medication name or image (packaging, tablet, bottle, prescription) and provide a 100% accurate, minute detailed monograph.
-      
-      CAPABILITIES (OCR & VISUAL ANALYSIS):
-      - If an image is provided, you MUST perform OCR to read specific text:
-        - **Batch Numbers, Expiry Dates, Manufacturing Dates**: Look for "Exp:", "Mfg:", "Use By". If visible, extract them EXACTLY. If not visible/blurry, explicitly state "Not visible in provided image".
-        - **Manufacturer**: Look for logos and company names. Infer country of origin/distribution based on the packaging language and brand regulations (e.g., FDA vs EMA packaging).
-        - **Dosage/Strength**: Extract numbers (e.g., 500mg, 20mg).
-      
-      KNOWLEDGE RETRIEVAL:
-      - Retrieve mechanism of action, precise chemical composition, official indications, and strict administration guidelines.
-      
-      OUTPUT RULES:
-      - Be precise. Do not guess dates if they aren't in the image.
-      - If the image is a generic loose pill without text, identify it by shape/color/imprint if possible, but lower your confidence score and add a warning.
-      - Structure the response strictly according to the schema.
-    `;
-
-    const parts: any[] = [];
-
-    if (image) {
-      const matches = image.match(/^data:(.+);base64,(.+)$/);
-      if (matches) {
-        parts.push({ inlineData: { mimeType: matches[1], data: matches[2] } });
-      } else {
-        parts.push({ inlineData: { mimeType: 'image/png', data: image } });
-      }
+// OCR, the model call and post-processing. Runs once for identical requests
+// in flight, so it takes the shared signal rather than the caller's.
+const identifyMedication = async (
+  query: string,
+  images: ImageAttachment[],
+  barcode: PackageBarcode | undefined,
+  locale: Locale | undefined,
+  signal: AbortSignal
+): Promise<MedicationResponse> => {
+  // OCR is an optional aid: if the worker cannot load, the model reads alone
+  let ocr: PackagingOcr | undefined;
+  if (images.length > 0) {
+    try {
+      ocr = await readPackagingText(images, signal);
+    } catch (error) {
+      if (signal.aborted) throw error;
+      console.warn("Packaging OCR unavailable:", error);
     }
+  }
 
-    parts.push({ 
-      text: `Analyze this medication. Input: "${query}". ${image ? '[IMAGE ATTACHED]' : ''} \n\nExtract all visible details (dates, manufacturer) and provide deep clinical info.` 
-    });
-
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts },
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: MEDICATION_SCHEMA,
-        temperature: 0.1, // Very low temp for factual accuracy
-      },
-    });
+  // Pharmacy labels in the photos often carry the patient's name and address
+  const { redact, redactions } = createRedactor();
+  const request = {
+    query: redact(query, 'Medication query'),
+    images: redactCaptions(images, redact),
+    ocr: ocr && { ...ocr, text: redact(ocr.text, 'Package text', { packaging: true }) },
+    locale,
+  };
 
-    if (!response.text) {
-      throw new Error("Failed to analyze medication.");
-    }
+  const data = await requestValidated<MedicationResponse>(
+    (correction, attemptSignal) => getModelProvider().analyzeMedication({ ...request, barcode, correction }, { signal: attemptSignal }),
+    MEDICATION_SCHEMA,
+    signal
+  );
+  const verified = verifyMedicationCodes(data);
+  const reconciled = request.ocr ? reconcilePackagingOcr(verified, request.ocr) : verified;
+  const result = barcode ? applyPackageBarcode(reconciled, barcode) : reconciled;
+  return redactions.length > 0 ? { ...result, redactions } : result;
+};
 
-    return JSON.parse(response.text) as MedicationResponse;
+export const analyzeMedication = async (
+  query: string,
+  images: ImageAttachment[] = [],
+  { signal, barcode, fresh, locale }: MedicationOptions = {}
+): Promise<MedicationResponse> => {
+  assertSafeInput(medicationUserText({ query, images }));
 
+  try {
+    const key = await responseCacheKey('medication', MEDICATION_SCHEMA, { query, images: imageCacheKey(images), barcode, locale });
+    const { value, cachedAt } = await withResponseCache(
+      key,
+      sharedSignal => identifyMedication(query, images, barcode, locale, sharedSignal),
+      { signal, fresh }
+    );
+    return cachedAt ? { ...value, cached_at: cachedAt } : value;
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error("Medication Analysis Error:", error);
-    throw new Error("Medication analysis failed. Please ensure the image is clear or the name is correct.");
+    if (error instanceof InputRefusedError) throw error;
+    throw toModelError(error, "Medication analysis failed. Please ensure the image is clear or the name is correct.");
   }
 };
 
-export const generatePatientSample = async (): Promise<string> => {
+export const checkDrugInteractions = async (
+  medications: string[],
+  { signal, fresh, locale }: CachedRequestOptions = {}
+): Promise<InteractionResponse> => {
+  assertSafeInput(interactionUserText({ medications }));
   try {
-    const modelId = 'gemini-2.5-flash';
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: "Generate a short, realistic, first-person description of a patient experiencing a specific set of medical symptoms (approx 30-50 words). Do not mention the diagnosis name. Vary the specialty (neurology, cardiology, gastro, etc.).",
-      config: {
-        temperature: 1.0, 
-      }
-    });
-    return response.text || "I've been having a persistent throbbing headache on the left side of my head for 2 days, accompanied by nausea and sensitivity to light.";
+    const key = await responseCacheKey('interactions', INTERACTION_SCHEMA, { medications, locale });
+    const { value, cachedAt } = await withResponseCache(
+      key,
+      sharedSignal => requestValidated<InteractionResponse>(
+        (correction, attemptSignal) => getModelProvider().checkInteractions({ medications, correction, locale }, { signal: attemptSignal }),
+        INTERACTION_SCHEMA,
+        sharedSignal
+      ),
+      { signal, fresh }
+    );
+    return cachedAt ? { ...value, cached_at: cachedAt } : value;
   } catch (error) {
-    console.error("Error generating sample:", error);
-    return "I have a sharp pain in my lower right abdomen that gets worse when I move, along with a low-grade fever and loss of appetite.";
+    if (signal?.aborted) throw error;
+    console.error("Interaction Check Error:", error);
+    if (error instanceof InputRefusedError) throw error;
+    throw toModelError(error, "Interaction check failed. Please review the medication list and retry.");
   }
 };
 
-export const generateClinicalReport = async (diagnosisData: DiagnosisResponse, userSymptoms: string): Promise<string> => {
+export const generatePatientSample = async ({ signal, locale }: RequestOptions = {}): Promise<string> => {
   try {
-    const modelId = 'gemini-2.5-flash';
-    const prompt = `
-      Act as Dr. LV, a senior specialist at LV Health.
-      Generate a formal, highly detailed medical consultation report in HTML format based on the provided analysis.
-      
-      Patient Symptoms: "${userSymptoms}"
-      
-      Diagnosis Data: ${JSON.stringify(diagnosisData)}
+    const text = await withRetry(attemptSignal => getModelProvider().generateSample({ locale }, { signal: attemptSignal }), { signal });
+    if (!text.trim()) throw new ModelError('malformed_output', 'The model returned an empty sample. Please try again.');
+    return text.trim();
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Error generating sample:", error);
+    throw toModelError(error, "Unable to generate a sample case at this time.");
+  }
+};
 
-      Requirements:
-      - Use clean semantic HTML tags (<h1>, <h2>, <p>, <ul>, <li>, <strong>). Do NOT use Markdown code blocks.
-      - Structure the HTML content nicely within a <div> with class "report-content".
-      - Start with a Header Section containing:
-        - "LV Health Medical Centre" (H1)
-        - "Consultation Report" (Subtitle)
-        - Date: [Current Date]
-        - Patient ID: [Random 8 char alphanumeric]
-      - Sections to include:
-        1. **Chief Complaint**: Summary of patient's input.
-        2. **Clinical Impression**: Brief summary of the situation.
-        3. **Differential Diagnosis**: Detailed discussion of the top conditions identified, explaining *why* they were selected based on the symptoms.
-        4. **Recommended Action Plan**: Clear steps for the patient (e.g., Labs to request, Specialists to see).
-        5. **Medical Disclaimer**: Standard medical disclaimer.
-      - Tone: Professional, clinical, authoritative but readable.
-      - Do not include <html>, <head>, or <body> tags. Just the inner content.
-    `;
+const PATIENT_ID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
 
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: prompt,
-      config: { temperature: 0.3 }
-    });
+// 8-character reference printed on the report; not linked to any identity
+const createPatientId = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => PATIENT_ID_ALPHABET[byte % PATIENT_ID_ALPHABET.length]).join('');
 
-    return response.text || "<p>Unable to generate report at this time.</p>";
-  } catch (e) {
-    console.error("Error generating report", e);
-    return "<p>Error generating report content.</p>";
+export const generateClinicalReport = async (
+  diagnosisData: DiagnosisResponse,
+  userSymptoms: string,
+  { signal, locale }: RequestOptions = {}
+): Promise<ClinicalReport> => {
+  assertSafeInput(reportUserText({ diagnosis: diagnosisData, symptoms: userSymptoms }));
+  try {
+    const content = await requestValidated<ClinicalReportContent>(
+      (correction, attemptSignal) => getModelProvider().generateReport({ diagnosis: diagnosisData, symptoms: redactText(userSymptoms, 'Symptoms').text, correction, locale }, { signal: attemptSignal }),
+      REPORT_SCHEMA,
+      signal
+    );
+    return { ...content, patient_id: createPatientId(), generated_at: Date.now() };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Error generating report", error);
+    if (error instanceof InputRefusedError) throw error;
+    throw toModelError(error, "Unable to generate the clinical report at this time.");
   }
-};
\ No newline at end of file
+};
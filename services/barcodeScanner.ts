@@ -0,0 +1,88 @@
+import type { BarcodeDetector as PonyfillDetector, BarcodeFormat } from "barcode-detector/ponyfill";
+import zxingWasmUrl from "zxing-wasm/reader/zxing_reader.wasm?url";
+import { PackageBarcode } from "../types";
+import { parsePackageBarcode } from "./gs1";
+
+// Live barcode decoding for the camera view. The browser's BarcodeDetector is
+// used when it handles every format we need; otherwise a ZXing WASM ponyfill
+// with the same API is loaded on first use, with its WASM from our own build.
+
+const FORMATS: BarcodeFormat[] = ['ean_13', 'data_matrix', 'qr_code'];
+const SCAN_INTERVAL_MS = 300;
+
+type Detector = Pick<PonyfillDetector, 'detect'>;
+
+// Chromium's native detector shares the ponyfill's API; the DOM typings lack it
+declare global {
+  interface Window {
+    BarcodeDetector?: typeof PonyfillDetector;
+  }
+}
+
+let detectorPromise: Promise<Detector> | null = null;
+
+const getDetector = (): Promise<Detector> => {
+  if (!detectorPromise) {
+    detectorPromise = (async () => {
+      if ('BarcodeDetector' in window) {
+        const Native = window.BarcodeDetector;
+        const supported = await Native.getSupportedFormats();
+        if (FORMATS.every(format => supported.includes(format))) return new Native({ formats: FORMATS });
+      }
+      const { BarcodeDetector, prepareZXingModule } = await import("barcode-detector/ponyfill");
+      prepareZXingModule({ overrides: { locateFile: (file, prefix) => file.endsWith('.wasm') ? zxingWasmUrl : prefix + file } });
+      return new BarcodeDetector({ formats: FORMATS });
+    })();
+    detectorPromise.catch(() => { detectorPromise = null; });
+  }
+  return detectorPromise;
+};
+
+// GS1 codes carrying expiry or batch beat a bare product number
+const richness = (barcode: PackageBarcode) =>
+  (barcode.gtin ? 1 : 0) + (barcode.expiry_date ? 2 : 0) + (barcode.lot_number ? 2 : 0) + (barcode.serial_number ? 1 : 0);
+
+// Scans `video` until the returned function is called, reporting the most
+// informative product barcode in each frame that has one.
+export const watchForBarcodes = (
+  video: HTMLVideoElement,
+  onBarcode: (barcode: PackageBarcode) => void,
+  onUnavailable?: (error: unknown) => void
+): (() => void) => {
+  let stopped = false;
+  let timer: number | undefined;
+
+  const scan = async (detector: Detector) => {
+    if (stopped) return;
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      try {
+        const found = (await detector.detect(video))
+          .map(code => parsePackageBarcode(code.format, code.rawValue))
+          .filter((barcode): barcode is PackageBarcode => barcode !== null)
+          .sort((a, b) => richness(b) - richness(a));
+        if (!stopped && found.length > 0) onBarcode(found[0]);
+      } catch (error) {
+        console.warn("Barcode detection failed for a frame:", error);
+      }
+    }
+    if (!stopped) timer = window.setTimeout(() => scan(detector), SCAN_INTERVAL_MS);
+  };
+
+  getDetector().then(scan, error => {
+    console.warn("Barcode scanning unavailable:", error);
+    onUnavailable?.(error);
+  });
+
+  return () => {
+    stopped = true;
+    window.clearTimeout(timer);
+  };
+};
+
+// Short label for chips, e.g. "GTIN 09501101530003 · EXP 2026-12 · LOT A1"
+export const describeBarcode = (barcode: PackageBarcode): string => [
+  barcode.gtin && `GTIN ${barcode.gtin}`,
+  barcode.expiry_date && `EXP ${barcode.expiry_date}`,
+  barcode.lot_number && `LOT ${barcode.lot_number}`,
+  barcode.serial_number && `SN ${barcode.serial_number}`,
+].filter(Boolean).join(' · ');
@@ -0,0 +1,38 @@
+import { CabinetItem, DoseRecord, MedicationResponse } from "../types";
+import { STORES, withStore } from "./db";
+
+export const saveCabinetItem = (item: CabinetItem): Promise<IDBValidKey> =>
+  withStore(STORES.cabinet, 'readwrite', store => store.put(item));
+
+// Alphabetical, as on a shelf
+export const listCabinetItems = async (): Promise<CabinetItem[]> => {
+  const items = await withStore<CabinetItem[]>(STORES.cabinet, 'readonly', store => store.getAll());
+  return items.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Removes the item together with its dose log
+export const deleteCabinetItem = async (id: string): Promise<void> => {
+  await withStore(STORES.cabinet, 'readwrite', store => store.delete(id));
+  await withStore(STORES.doses, 'readwrite', store => new Promise<void>((resolve, reject) => {
+    const request = store.index('itemId').openCursor(IDBKeyRange.only(id));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      cursor.delete();
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  }));
+};
+
+export const saveDoseRecord = (record: DoseRecord): Promise<IDBValidKey> =>
+  withStore(STORES.doses, 'readwrite', store => store.put(record));
+
+export const deleteDoseRecord = (id: string): Promise<undefined> =>
+  withStore(STORES.doses, 'readwrite', store => store.delete(id));
+
+export const listDoseRecords = (): Promise<DoseRecord[]> =>
+  withStore<DoseRecord[]>(STORES.doses, 'readonly', store => store.getAll());
+
+export const getCabinetName = ({ medication }: MedicationResponse): string =>
+  medication.name || medication.generic_name || 'Medication';
@@ -0,0 +1,80 @@
+// Thin promise wrapper around the app's single IndexedDB database. Each
+// feature owns one object store; bump DB_VERSION and add a migration step in
+// `upgrade` when introducing a new store.
+
+const DB_NAME = 'lv-assistant-doctor';
+const DB_VERSION = 4;
+
+export const STORES = {
+  history: 'history',
+  cabinet: 'cabinet',
+  doses: 'doses',
+  queue: 'queue',
+  responses: 'responses',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.cabinet, { keyPath: 'id' });
+    const doses = db.createObjectStore(STORES.doses, { keyPath: 'id' });
+    doses.createIndex('itemId', 'itemId');
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.queue, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.responses, { keyPath: 'key' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `fn` inside a transaction and resolves with its result once the
+// transaction has committed.
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const pending = fn(tx.objectStore(storeName));
+  const result = pending instanceof IDBRequest ? await requestToPromise(pending) : await pending;
+  await done;
+  return result;
+};
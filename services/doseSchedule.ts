@@ -0,0 +1,91 @@
+import { CabinetItem, DoseRecord, DoseSchedule, DoseSlot, DoseSlotStatus, Locale } from "../types";
+import { DEFAULT_LOCALE, MessageKey, translate } from "./i18n";
+
+// Expands dosing schedules into concrete slots in local time and derives
+// each slot's status from the dose log.
+
+// An unrecorded dose stays "due" this long before it counts as missed
+export const MISSED_AFTER_MS = 2 * 60 * 60 * 1000;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Indexed like Date.getDay(), Sunday first
+export const DAY_LABELS: MessageKey[] = ['day.0', 'day.1', 'day.2', 'day.3', 'day.4', 'day.5', 'day.6'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const toDateKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const doseRecordId = (itemId: string, scheduledFor: number) => `${itemId}@${scheduledFor}`;
+
+// Scheduled dose times between `from` and `to` (epoch ms), oldest first
+export const getScheduledTimes = ({ times, days, start_date, end_date }: DoseSchedule, from: number, to: number): number[] => {
+  const slots: number[] = [];
+  const cursor = new Date(from);
+  cursor.setHours(0, 0, 0, 0);
+  for (; cursor.getTime() <= to; cursor.setDate(cursor.getDate() + 1)) {
+    const key = toDateKey(cursor);
+    if (key < start_date || (end_date && key > end_date)) continue;
+    if (days.length > 0 && !days.includes(cursor.getDay())) continue;
+    for (const time of times) {
+      const [hours, minutes] = time.split(':').map(Number);
+      const at = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate(), hours, minutes).getTime();
+      if (at >= from && at <= to) slots.push(at);
+    }
+  }
+  return slots.sort((a, b) => a - b);
+};
+
+export const getSlotStatus = (scheduledFor: number, record: DoseRecord | undefined, now: number): DoseSlotStatus => {
+  if (record) return record.status;
+  if (scheduledFor > now) return 'upcoming';
+  return now - scheduledFor <= MISSED_AFTER_MS ? 'due' : 'missed';
+};
+
+const indexRecords = (records: DoseRecord[]) => new Map(records.map(record => [record.id, record]));
+
+// Slots before the item was saved are never reported as missed
+export const getDoseSlots = (
+  item: CabinetItem,
+  records: DoseRecord[],
+  from: number,
+  to: number,
+  now = Date.now()
+): DoseSlot[] => {
+  const byId = indexRecords(records);
+  return getScheduledTimes(item.schedule, Math.max(from, item.savedAt), to).map(scheduledFor => ({
+    itemId: item.id,
+    scheduledFor,
+    status: getSlotStatus(scheduledFor, byId.get(doseRecordId(item.id, scheduledFor)), now),
+  }));
+};
+
+export const getTodaySlots = (item: CabinetItem, records: DoseRecord[], now = Date.now()): DoseSlot[] => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return getDoseSlots(item, records, start.getTime(), start.getTime() + DAY_MS - 1, now);
+};
+
+export interface Adherence {
+  taken: number;
+  skipped: number;
+  missed: number;
+}
+
+// Settled doses over the last `days` days; due and upcoming slots are excluded
+export const summarizeAdherence = (item: CabinetItem, records: DoseRecord[], now = Date.now(), days = 7): Adherence => {
+  const summary: Adherence = { taken: 0, skipped: 0, missed: 0 };
+  getDoseSlots(item, records, now - days * DAY_MS, now, now).forEach(({ status }) => {
+    if (status === 'taken' || status === 'skipped' || status === 'missed') summary[status]++;
+  });
+  return summary;
+};
+
+// "1 tablet at 08:00/20:00 on Mon/Thu". Kept comma-free so it survives the
+// comma-separated medication list in the intake form.
+export const describeSchedule = ({ dose, times, days }: DoseSchedule, locale: Locale = DEFAULT_LOCALE): string => {
+  const when = times.length > 0 && translate(locale, 'schedule.at', { times: times.join('/') });
+  const on = days.length > 0 && days.length < 7
+    ? translate(locale, 'schedule.on', { days: [...days].sort().map(day => translate(locale, DAY_LABELS[day])).join('/') })
+    : translate(locale, 'schedule.daily');
+  return [dose || translate(locale, 'schedule.dose'), when, on].filter(Boolean).join(' ');
+};
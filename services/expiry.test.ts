@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { assessExpiry, normalizePackagingDate } from "./expiry";
+
+describe('normalizePackagingDate', () => {
+  it.each([
+    ['EXP 03/2026', '2026-03'],
+    ['2026-03', '2026-03'],
+    ['MAR 26', '2026-03'],
+    ['31 DEC 2025', '2025-12-31'],
+    ['March 15, 2027', '2027-03-15'],
+    ['Mar 15th 2027', '2027-03-15'],
+    ['15 March 2027', '2027-03-15'],
+    ['LOT 12345 EXP 03/2026', '2026-03'],
+    ['Batch 7781, use by 2027-01-31', '2027-01-31'],
+  ])('reads %s as %s', (value, expected) => {
+    expect(normalizePackagingDate(value)).toBe(expected);
+  });
+
+  it('takes the date after the matching label', () => {
+    expect(normalizePackagingDate('MFG 01/2024 EXP 01/2027')).toBe('2027-01');
+    expect(normalizePackagingDate('MFG 01/2024 EXP 01/2027', 'production')).toBe('2024-01');
+  });
+
+  it.each(['Not visible in provided image', '', 'See carton'])('has no date in %j', value => {
+    expect(normalizePackagingDate(value)).toBeUndefined();
+  });
+});
+
+describe('assessExpiry', () => {
+  const today = new Date(2026, 5, 1);
+
+  it('keeps a long-form model date valid', () => {
+    expect(assessExpiry({ expiry_date: 'March 15, 2027', production_date: 'Not visible' }, today).status).toBe('valid');
+  });
+
+  it('treats a month-only expiry as the end of that month', () => {
+    const assessment = assessExpiry({ expiry_date: '06/2026', production_date: '' }, today);
+    expect(assessment).toMatchObject({ status: 'expiring_soon', daysRemaining: 29, monthOnly: true });
+  });
+
+  it('flags a past date as expired', () => {
+    expect(assessExpiry({ expiry_date: 'EXP 2026-05-31', production_date: '' }, today).status).toBe('expired');
+  });
+});
@@ -0,0 +1,80 @@
+import { Locale, MedicationDetails } from "../types";
+import { DEFAULT_LOCALE, translate } from "./i18n";
+import { EXPIRY_LABEL, findLabelledDate, isMissingValue, parsePackagingDate, PRODUCTION_LABEL } from "./packagingOcr";
+
+// Turns the free-text packaging dates into real dates and classifies the
+// expiry against today.
+
+export type ExpiryStatus = 'expired' | 'expiring_soon' | 'valid' | 'unknown';
+
+export interface ExpiryAssessment {
+  status: ExpiryStatus;
+  expiresOn?: Date; // Last day the medication is usable
+  producedOn?: Date;
+  daysRemaining?: number; // Negative once expired
+  monthOnly?: boolean; // Packaging gave no day, so expiresOn is the month end
+}
+
+export const EXPIRING_SOON_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_START = /\b(?:\d|JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC)/g;
+
+// "EXP 03/2026", "2026-03" and "MAR 26" all become "2026-03". A date after
+// the field's own label wins, so "LOT 12345 EXP 03/2026" finds the expiry;
+// otherwise the first position that parses.
+export const normalizePackagingDate = (value?: string, field: 'expiry' | 'production' = 'expiry'): string | undefined => {
+  if (isMissingValue(value)) return undefined;
+  const upper = value!.toUpperCase();
+  const labelled = findLabelledDate(upper, field === 'expiry' ? EXPIRY_LABEL : PRODUCTION_LABEL);
+  if (labelled) return labelled;
+  for (const match of upper.matchAll(DATE_START)) {
+    const date = parsePackagingDate(upper.slice(match.index));
+    if (date) return date;
+  }
+  return undefined;
+};
+
+const toDate = (iso: string, monthEnd: boolean): Date => {
+  const [year, month, day] = iso.split('-').map(Number);
+  if (day) return new Date(year, month - 1, day);
+  // Month-only expiry means "use before the end of that month"
+  return monthEnd ? new Date(year, month, 0) : new Date(year, month - 1, 1);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const assessExpiry = (dates: MedicationDetails['dates'], today = new Date()): ExpiryAssessment => {
+  const expiry = normalizePackagingDate(dates.expiry_date);
+  const production = normalizePackagingDate(dates.production_date, 'production');
+  const producedOn = production ? toDate(production, false) : undefined;
+  if (!expiry) return { status: 'unknown', producedOn };
+
+  const expiresOn = toDate(expiry, true);
+  // Rounded so a daylight-saving shift cannot change the day count
+  const daysRemaining = Math.round((expiresOn.getTime() - startOfDay(today).getTime()) / DAY_MS);
+  const status: ExpiryStatus = daysRemaining < 0
+    ? 'expired'
+    : daysRemaining <= EXPIRING_SOON_DAYS ? 'expiring_soon' : 'valid';
+  return { status, expiresOn, producedOn, daysRemaining, monthOnly: expiry.length === 7 };
+};
+
+export const formatExpiryDate = (date: Date, monthOnly = false, locale: Locale = DEFAULT_LOCALE): string =>
+  date.toLocaleDateString(locale, monthOnly
+    ? { month: 'short', year: 'numeric' }
+    : { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const describeExpiry = ({ status, expiresOn, daysRemaining, monthOnly }: ExpiryAssessment, locale: Locale = DEFAULT_LOCALE): string => {
+  if (status === 'unknown' || !expiresOn) return translate(locale, 'expiry.unknown');
+  const date = formatExpiryDate(expiresOn, monthOnly, locale);
+  switch (status) {
+    case 'expired':
+      return translate(locale, monthOnly ? 'expiry.expiredMonth' : 'expiry.expiredOn', { date });
+    case 'expiring_soon':
+      return daysRemaining === 0 ? translate(locale, 'expiry.today')
+        : daysRemaining === 1 ? translate(locale, 'expiry.tomorrow', { date })
+        : translate(locale, 'expiry.inDays', { days: daysRemaining, date });
+    default:
+      return translate(locale, 'expiry.validUntil', { date });
+  }
+};
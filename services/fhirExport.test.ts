@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { DiagnosisResponse, MedicalCondition, MedicationResponse, UrgencyLevel } from "../types";
+import { EMPTY_INTAKE } from "./intake";
+import { diagnosisToFhirBundle, FhirExportContext, FhirResource, medicationToFhirBundle, PROVISIONAL_THRESHOLD } from "./fhirExport";
+
+const createContext = (): FhirExportContext => {
+  let next = 0;
+  return { createId: () => `id-${++next}`, now: new Date('2026-01-15T10:00:00.000Z') };
+};
+
+const condition = (overrides: Partial<MedicalCondition> = {}): MedicalCondition => ({
+  name: 'Tension-type headache',
+  probability: 70,
+  description: 'Band-like pressure.',
+  urgency: UrgencyLevel.LOW,
+  symptoms_matched: ['headache'],
+  recommendations: ['Hydrate', 'Track triggers'],
+  ...overrides,
+});
+
+const diagnosis = (conditions: MedicalCondition[]): DiagnosisResponse => ({
+  conditions,
+  disclaimer: 'Not a substitute for professional care.',
+  general_advice: 'Rest and review in a week.',
+});
+
+const medication = (overrides: Partial<MedicationResponse['medication']> = {}): MedicationResponse => ({
+  medication: {
+    name: 'Amoxil',
+    generic_name: 'Amoxicillin',
+    manufacturer: { name: 'Acme Pharma', country_of_origin: 'UK', country_of_distribution: 'UK' },
+    dates: { production_date: 'Not visible', expiry_date: '2027-03' },
+    lot_number: 'AB123',
+    specifications: { type: 'Capsule', dosage: '500mg', composition: 'Amoxicillin trihydrate' },
+    clinical_info: { uses: ['Bacterial infections'], administration_guide: 'Every 8 hours', side_effects: [], warnings: 'Penicillin allergy' },
+    ...overrides,
+  },
+  analysis_confidence: 90,
+  disclaimer: 'Check with your pharmacist.',
+});
+
+const resources = (bundle: { entry: { resource: FhirResource }[] }, type: string) =>
+  bundle.entry.map(e => e.resource).filter(resource => resource.resourceType === type);
+
+const verificationCode = (resource: FhirResource) =>
+  (resource.verificationStatus as { coding: { code: string }[] }).coding[0].code;
+
+describe('diagnosisToFhirBundle', () => {
+  it('builds a collection of Patient, one Condition per condition and a CarePlan', () => {
+    const bundle = diagnosisToFhirBundle(diagnosis([condition(), condition({ name: 'Migraine' })]), createContext());
+    expect(bundle.resourceType).toBe('Bundle');
+    expect(bundle.type).toBe('collection');
+    expect(bundle.timestamp).toBe('2026-01-15T10:00:00.000Z');
+    expect(bundle.entry.map(e => e.resource.resourceType)).toEqual(['Patient', 'Condition', 'Condition', 'CarePlan']);
+    expect(bundle.entry.every(e => e.fullUrl === `urn:uuid:${e.resource.id}`)).toBe(true);
+  });
+
+  it('marks conditions provisional from the threshold up and differential below it', () => {
+    const bundle = diagnosisToFhirBundle(diagnosis([
+      condition({ probability: PROVISIONAL_THRESHOLD }),
+      condition({ probability: PROVISIONAL_THRESHOLD - 1 }),
+      condition({ probability: 95, source: 'red_flag_rule' }),
+    ]), createContext());
+    expect(resources(bundle, 'Condition').map(verificationCode)).toEqual(['provisional', 'differential', 'differential']);
+  });
+
+  it('leaves out unverified codes but keeps the condition name as text', () => {
+    const bundle = diagnosisToFhirBundle(diagnosis([condition({
+      codes: {
+        icd10cm: { code: 'G44.2', display: 'Tension-type headache', verified: true },
+        snomed_ct: { code: '398057008', verified: false },
+      },
+    })]), createContext());
+    const [resource] = resources(bundle, 'Condition');
+    expect(resource.code).toEqual({
+      coding: [{ system: 'http://hl7.org/fhir/sid/icd-10-cm', code: 'G44.2', display: 'Tension-type headache' }],
+      text: 'Tension-type headache',
+    });
+  });
+
+  it('drops the coding entirely when no code is verified', () => {
+    const bundle = diagnosisToFhirBundle(diagnosis([condition({ codes: { icd10cm: { code: 'G44.2' } } })]), createContext());
+    expect(resources(bundle, 'Condition')[0].code).toEqual({ text: 'Tension-type headache' });
+  });
+
+  it('attaches the disclaimer to every Condition and the CarePlan', () => {
+    const bundle = diagnosisToFhirBundle(diagnosis([condition(), condition()]), createContext());
+    for (const resource of [...resources(bundle, 'Condition'), ...resources(bundle, 'CarePlan')]) {
+      expect(resource.note).toContainEqual({ text: 'Not a substitute for professional care.' });
+    }
+  });
+
+  it('turns each recommendation into a CarePlan activity referencing its condition', () => {
+    const bundle = diagnosisToFhirBundle(diagnosis([
+      condition(),
+      condition({ name: 'Migraine', recommendations: ['See a neurologist'] }),
+    ]), createContext());
+    const [first, second] = resources(bundle, 'Condition');
+    const [carePlan] = resources(bundle, 'CarePlan');
+    expect(carePlan.activity).toEqual([
+      { detail: { status: 'not-started', description: 'Hydrate', reasonReference: [{ reference: `urn:uuid:${first.id}`, display: 'Tension-type headache' }] } },
+      { detail: { status: 'not-started', description: 'Track triggers', reasonReference: [{ reference: `urn:uuid:${first.id}`, display: 'Tension-type headache' }] } },
+      { detail: { status: 'not-started', description: 'See a neurologist', reasonReference: [{ reference: `urn:uuid:${second.id}`, display: 'Migraine' }] } },
+    ]);
+  });
+
+  it('carries only the sex from the intake onto the Patient', () => {
+    const bundle = diagnosisToFhirBundle(diagnosis([condition()]), createContext(), { ...EMPTY_INTAKE, sex: 'intersex', age: 40 });
+    expect(resources(bundle, 'Patient')[0]).toEqual({ resourceType: 'Patient', id: 'id-1', gender: 'other' });
+  });
+});
+
+describe('medicationToFhirBundle', () => {
+  it('builds Patient, Organization, Medication and MedicationStatement', () => {
+    const bundle = medicationToFhirBundle(medication(), createContext());
+    expect(bundle.entry.map(e => e.resource.resourceType)).toEqual(['Patient', 'Organization', 'Medication', 'MedicationStatement']);
+  });
+
+  it('omits the Organization when the manufacturer is unknown', () => {
+    const bundle = medicationToFhirBundle(
+      medication({ manufacturer: { name: '', country_of_origin: '', country_of_distribution: '' } }),
+      createContext()
+    );
+    expect(bundle.entry.map(e => e.resource.resourceType)).toEqual(['Patient', 'Medication', 'MedicationStatement']);
+  });
+
+  it('keeps verified codes and barcode data and drops unverified ones', () => {
+    const bundle = medicationToFhirBundle(medication({
+      gtin: '05012345678900',
+      codes: { rxnorm: { code: '723', verified: true }, atc: { code: 'J01CA04', verified: false } },
+    }), createContext());
+    const [resource] = resources(bundle, 'Medication');
+    expect((resource.code as { coding: { system: string; code: string }[] }).coding.map(c => c.code)).toEqual(['723', '05012345678900']);
+  });
+
+  it('records the batch only for real values', () => {
+    const withBatch = resources(medicationToFhirBundle(medication(), createContext()), 'Medication')[0];
+    expect(withBatch.batch).toEqual({ lotNumber: 'AB123', expirationDate: '2027-03' });
+
+    const hidden = resources(medicationToFhirBundle(
+      medication({ lot_number: 'Not visible', dates: { production_date: 'Not visible', expiry_date: 'Not visible' } }),
+      createContext()
+    ), 'Medication')[0];
+    expect(hidden.batch).toBeUndefined();
+  });
+
+  it('adds the disclaimer to the MedicationStatement', () => {
+    const [statement] = resources(medicationToFhirBundle(medication(), createContext()), 'MedicationStatement');
+    expect(statement.note).toContainEqual({ text: 'Check with your pharmacist.' });
+  });
+});
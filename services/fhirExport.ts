@@ -0,0 +1,277 @@
+import { DiagnosisResponse, MedicalCondition, MedicationResponse, PatientIntake, TerminologyCode, UrgencyLevel } from "../types";
+import { isMissingValue } from "./packagingOcr";
+
+// Maps analysis results onto FHIR R4 resources so clinic systems can import
+// them. Only the subset of each resource we can populate is typed here. The
+// mapping functions are pure; ids and timestamps are passed in.
+
+export interface FhirReference {
+  reference: string;
+  display?: string;
+}
+
+export interface FhirCoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirAnnotation {
+  text: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id: string;
+  [field: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+export interface FhirExportContext {
+  createId: () => string;
+  now: Date;
+}
+
+const CONDITION_CLINICAL_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-clinical';
+const CONDITION_VERIFICATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const CONDITION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/condition-category';
+const SNOMED_SYSTEM = 'http://snomed.info/sct';
+const ICD10CM_SYSTEM = 'http://hl7.org/fhir/sid/icd-10-cm';
+const RXNORM_SYSTEM = 'http://www.nlm.nih.gov/research/umls/rxnorm';
+const ATC_SYSTEM = 'http://www.whocc.no/atc';
+const GTIN_SYSTEM = 'https://www.gs1.org/gtin';
+const GS1_SERIAL_SYSTEM = 'https://www.gs1.org/serial-number'; // GS1 AI (21), unique per pack
+
+// A condition the model considers more likely than not is a working
+// (provisional) diagnosis; everything else, including rule-injected emergencies
+// that must be excluded, stays on the differential.
+export const PROVISIONAL_THRESHOLD = 50;
+
+const SEVERITY_CODES: Record<UrgencyLevel, FhirCoding> = {
+  [UrgencyLevel.LOW]: { system: SNOMED_SYSTEM, code: '255604002', display: 'Mild' },
+  [UrgencyLevel.MEDIUM]: { system: SNOMED_SYSTEM, code: '6736007', display: 'Moderate' },
+  [UrgencyLevel.HIGH]: { system: SNOMED_SYSTEM, code: '24484000', display: 'Severe' },
+  [UrgencyLevel.CRITICAL]: { system: SNOMED_SYSTEM, code: '24484000', display: 'Severe' },
+};
+
+const FHIR_GENDER: Record<string, string> = {
+  female: 'female',
+  male: 'male',
+  intersex: 'other',
+};
+
+const urn = (id: string) => `urn:uuid:${id}`;
+
+// Unverified codes are left out; the free-text name still travels in `text`.
+const toCodeableConcept = (text: string, codes: [string, TerminologyCode | undefined][]): FhirCodeableConcept => {
+  const coding = codes
+    .filter(([, code]) => code?.verified)
+    .map(([system, code]) => ({ system, code: code!.code, display: code!.display }));
+  return coding.length > 0 ? { coding, text } : { text };
+};
+
+const toReference = (resource: FhirResource, display?: string): FhirReference => ({
+  reference: urn(resource.id),
+  ...(display && { display }),
+});
+
+export const getVerificationStatus = (condition: MedicalCondition): 'provisional' | 'differential' =>
+  condition.source !== 'red_flag_rule' && condition.probability >= PROVISIONAL_THRESHOLD ? 'provisional' : 'differential';
+
+const toBundle = (resources: FhirResource[], { createId, now }: FhirExportContext): FhirBundle => ({
+  resourceType: 'Bundle',
+  id: createId(),
+  type: 'collection',
+  timestamp: now.toISOString(),
+  entry: resources.map(resource => ({ fullUrl: urn(resource.id), resource })),
+});
+
+// The patient is anonymous: only the demographics that inform the analysis.
+export const toFhirPatient = (id: string, intake?: PatientIntake): FhirResource => ({
+  resourceType: 'Patient',
+  id,
+  ...(intake?.sex && { gender: FHIR_GENDER[intake.sex] }),
+});
+
+export const toFhirCondition = (
+  id: string,
+  condition: MedicalCondition,
+  subject: FhirReference,
+  disclaimer: string,
+  recordedDate: string
+): FhirResource => ({
+  resourceType: 'Condition',
+  id,
+  clinicalStatus: { coding: [{ system: CONDITION_CLINICAL_SYSTEM, code: 'active' }] },
+  verificationStatus: { coding: [{ system: CONDITION_VERIFICATION_SYSTEM, code: getVerificationStatus(condition) }] },
+  category: [{ coding: [{ system: CONDITION_CATEGORY_SYSTEM, code: 'encounter-diagnosis', display: 'Encounter Diagnosis' }] }],
+  severity: { coding: [SEVERITY_CODES[condition.urgency]], text: condition.urgency },
+  code: toCodeableConcept(condition.name, [
+    [ICD10CM_SYSTEM, condition.codes?.icd10cm],
+    [SNOMED_SYSTEM, condition.codes?.snomed_ct],
+  ]),
+  subject,
+  recordedDate,
+  evidence: condition.symptoms_matched.map(symptom => ({ code: [{ text: symptom }] })),
+  note: [
+    { text: condition.description },
+    { text: condition.source === 'red_flag_rule'
+      ? 'Added by the local emergency screen; must be excluded urgently.'
+      : `Estimated probability: ${condition.probability}%.` },
+    { text: disclaimer },
+  ],
+});
+
+export const toFhirCarePlan = (
+  id: string,
+  response: DiagnosisResponse,
+  conditions: FhirResource[],
+  subject: FhirReference,
+  created: string
+): FhirResource => ({
+  resourceType: 'CarePlan',
+  id,
+  status: 'draft',
+  intent: 'proposal',
+  title: 'Recommended clinical workup',
+  description: response.general_advice,
+  subject,
+  created,
+  addresses: conditions.map((resource, idx) => toReference(resource, response.conditions[idx].name)),
+  activity: response.conditions.flatMap((condition, idx) =>
+    condition.recommendations.map(recommendation => ({
+      detail: {
+        status: 'not-started',
+        description: recommendation,
+        reasonReference: [toReference(conditions[idx], condition.name)],
+      },
+    }))
+  ),
+  note: [{ text: response.disclaimer }],
+});
+
+export const diagnosisToFhirBundle = (
+  response: DiagnosisResponse,
+  context: FhirExportContext,
+  intake?: PatientIntake
+): FhirBundle => {
+  const recorded = context.now.toISOString();
+  const patient = toFhirPatient(context.createId(), intake);
+  const subject = toReference(patient);
+  const conditions = response.conditions.map(condition =>
+    toFhirCondition(context.createId(), condition, subject, response.disclaimer, recorded)
+  );
+  const carePlan = toFhirCarePlan(context.createId(), response, conditions, subject, recorded);
+  return toBundle([patient, ...conditions, carePlan], context);
+};
+
+// Only ISO-like dates are carried over; "Not visible" and free text are dropped.
+const toFhirDate = (value: string): string | undefined => {
+  const match = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/.exec(value?.trim() || '');
+  if (!match) return undefined;
+  return match[3] ? match[0] : `${match[1]}-${match[2]}`;
+};
+
+export const toFhirMedication = (id: string, response: MedicationResponse, manufacturer?: FhirResource): FhirResource => {
+  const { medication } = response;
+  const expiry = toFhirDate(medication.dates.expiry_date);
+  const lotNumber = isMissingValue(medication.lot_number) ? undefined : medication.lot_number.trim();
+  const ingredients = (medication.specifications.composition || '')
+    .split(/[,;+]/)
+    .map(part => part.trim())
+    .filter(Boolean);
+  const code = toCodeableConcept(medication.generic_name || medication.name, [
+    [RXNORM_SYSTEM, medication.codes?.rxnorm],
+    [ATC_SYSTEM, medication.codes?.atc],
+  ]);
+  // A GTIN only ever comes from a scanned barcode, so it needs no verification
+  if (medication.gtin) code.coding = [...(code.coding || []), { system: GTIN_SYSTEM, code: medication.gtin }];
+  return {
+    resourceType: 'Medication',
+    id,
+    ...(medication.serial_number && { identifier: [{ system: GS1_SERIAL_SYSTEM, value: medication.serial_number }] }),
+    code,
+    ...(medication.specifications.type && { form: { text: medication.specifications.type } }),
+    ...(manufacturer && { manufacturer: toReference(manufacturer, medication.manufacturer.name) }),
+    ...(ingredients.length > 0 && {
+      ingredient: ingredients.map(text => ({ itemCodeableConcept: { text }, isActive: true })),
+    }),
+    ...((expiry || lotNumber) && {
+      batch: { ...(lotNumber && { lotNumber }), ...(expiry && { expirationDate: expiry }) },
+    }),
+  };
+};
+
+export const toFhirMedicationStatement = (
+  id: string,
+  response: MedicationResponse,
+  medication: FhirResource,
+  subject: FhirReference,
+  dateAsserted: string
+): FhirResource => {
+  const { medication: details } = response;
+  return {
+    resourceType: 'MedicationStatement',
+    id,
+    status: 'unknown',
+    medicationReference: toReference(medication, details.name),
+    subject,
+    dateAsserted,
+    reasonCode: details.clinical_info.uses.map(text => ({ text })),
+    dosage: [{ text: [details.specifications.dosage, details.clinical_info.administration_guide].filter(Boolean).join(' — ') }],
+    note: [
+      ...(details.clinical_info.warnings ? [{ text: `Warnings: ${details.clinical_info.warnings}` }] : []),
+      { text: `Identification confidence: ${response.analysis_confidence}%.` },
+      { text: response.disclaimer },
+    ],
+  };
+};
+
+export const medicationToFhirBundle = (response: MedicationResponse, context: FhirExportContext): FhirBundle => {
+  const patient = toFhirPatient(context.createId());
+  const { manufacturer } = response.medication;
+  const organization: FhirResource | undefined = manufacturer?.name
+    ? {
+        resourceType: 'Organization',
+        id: context.createId(),
+        name: manufacturer.name,
+        ...(manufacturer.country_of_origin && { address: [{ country: manufacturer.country_of_origin }] }),
+      }
+    : undefined;
+  const medication = toFhirMedication(context.createId(), response, organization);
+  const statement = toFhirMedicationStatement(
+    context.createId(),
+    response,
+    medication,
+    toReference(patient),
+    context.now.toISOString()
+  );
+  return toBundle([patient, ...(organization ? [organization] : []), medication, statement], context);
+};
+
+export const createFhirExportContext = (): FhirExportContext => ({
+  createId: () => crypto.randomUUID(),
+  now: new Date(),
+});
+
+export const downloadFhirBundle = (bundle: FhirBundle, fileName: string) => {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,142 @@
+import { MedicationResponse, PackageBarcode } from "../types";
+
+// Parses the GS1 data carried by medication barcodes: element strings from
+// DataMatrix (FNC1 shows up as the GS character), the bracketed
+// human-readable form, GS1 Digital Link URLs in QR codes, and plain
+// EAN-13/GTIN numbers.
+
+const GS = '\u001d';
+
+// Data length of fixed-length AIs; the rest run to the next GS or the end
+const FIXED_LENGTH: Record<string, number> = {
+  '00': 18, '01': 14, '02': 14, '11': 6, '12': 6, '13': 6, '15': 6, '16': 6, '17': 6, '20': 2,
+};
+
+const VARIABLE_MAX: Record<string, number> = {
+  '10': 20, '21': 20, '22': 20, '240': 30, '241': 30, '30': 8, '37': 8,
+  '710': 20, '711': 20, '712': 20, '713': 20, '714': 20, '715': 20,
+};
+
+export type Gs1Elements = Record<string, string>;
+
+const knownAi = (data: string, position: number): string | undefined =>
+  [2, 3].map(length => data.slice(position, position + length))
+    .find(ai => ai in FIXED_LENGTH || ai in VARIABLE_MAX);
+
+// Parses a raw element string; stops at the first AI it does not know
+export const parseElementString = (raw: string): Gs1Elements => {
+  const data = raw.replace(/^\][A-Za-z]\d/, '').replace(/^\u001d/, '');
+  const elements: Gs1Elements = {};
+  let position = 0;
+  while (position < data.length) {
+    const ai = knownAi(data, position);
+    if (!ai) break;
+    position += ai.length;
+    if (ai in FIXED_LENGTH) {
+      elements[ai] = data.slice(position, position + FIXED_LENGTH[ai]);
+      position += FIXED_LENGTH[ai];
+    } else {
+      const end = data.indexOf(GS, position);
+      const stop = Math.min(end < 0 ? data.length : end, position + VARIABLE_MAX[ai]);
+      elements[ai] = data.slice(position, stop);
+      position = stop;
+    }
+    if (data[position] === GS) position++;
+  }
+  return elements;
+};
+
+// "(01)09501101530003(17)261231(10)AB-123"
+const parseBracketed = (raw: string): Gs1Elements => {
+  const elements: Gs1Elements = {};
+  for (const match of raw.matchAll(/\((\d{2,4})\)([^(]*)/g)) elements[match[1]] = match[2].trim();
+  return elements;
+};
+
+// "https://id.example.com/01/09501101530003/10/AB-123?17=261231"
+const parseDigitalLink = (raw: string): Gs1Elements | null => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const start = segments.findIndex((segment, idx) => segment === '01' && /^\d{8,14}$/.test(segments[idx + 1] || ''));
+  if (start < 0) return null;
+  const elements: Gs1Elements = {};
+  for (let i = start; i + 1 < segments.length; i += 2) elements[segments[i]] = segments[i + 1];
+  url.searchParams.forEach((value, key) => { if (/^\d{2,4}$/.test(key)) elements[key] = value; });
+  return elements;
+};
+
+export const isValidGtin = (gtin: string): boolean => {
+  if (!/^\d{8}$|^\d{12,14}$/.test(gtin)) return false;
+  const digits = gtin.split('').map(Number);
+  const check = digits.pop()!;
+  // Weights alternate 3,1,3... from the digit next to the check digit
+  const sum = digits.reverse().reduce((total, digit, idx) => total + digit * (idx % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+// YYMMDD; a day of 00 means the end of the month, so only the month is kept
+export const gs1DateToIso = (value: string): string | undefined => {
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const [, yy, mm, dd] = match;
+  if (+mm < 1 || +mm > 12 || +dd > new Date(2000 + +yy, +mm, 0).getDate()) return undefined;
+  return dd === '00' ? `20${yy}-${mm}` : `20${yy}-${mm}-${dd}`;
+};
+
+const toBarcode = (format: string, raw: string, elements: Gs1Elements): PackageBarcode => {
+  const gtin = elements['01'] || elements['02'];
+  const expiry = elements['17'] && gs1DateToIso(elements['17']);
+  return {
+    format,
+    raw,
+    ...(gtin && isValidGtin(gtin) && { gtin }),
+    ...(expiry && { expiry_date: expiry }),
+    ...(elements['10'] && { lot_number: elements['10'] }),
+    ...(elements['21'] && { serial_number: elements['21'] }),
+  };
+};
+
+// Returns null when the code carries nothing that identifies a product
+export const parsePackageBarcode = (format: string, raw: string): PackageBarcode | null => {
+  const value = raw.trim();
+  let elements: Gs1Elements | null = null;
+
+  if (/^\d{8}$|^\d{12,14}$/.test(value)) {
+    elements = { '01': value };
+  } else if (value.startsWith('(')) {
+    elements = parseBracketed(value);
+  } else if (/^https?:\/\//i.test(value)) {
+    elements = parseDigitalLink(value);
+  } else if (/^(\][A-Za-z]\d)?\u001d?\d{2}/.test(value)) {
+    elements = parseElementString(value);
+  }
+
+  const barcode = elements && toBarcode(format, raw, elements);
+  return barcode && (barcode.gtin || barcode.expiry_date || barcode.lot_number) ? barcode : null;
+};
+
+// Barcode values are exact, so they replace whatever OCR or the model read
+export const applyPackageBarcode = (response: MedicationResponse, barcode: PackageBarcode): MedicationResponse => {
+  const { medication } = response;
+  return {
+    ...response,
+    barcode,
+    medication: {
+      ...medication,
+      ...(barcode.gtin && { gtin: barcode.gtin }),
+      ...(barcode.serial_number && { serial_number: barcode.serial_number }),
+      ...(barcode.lot_number && { lot_number: barcode.lot_number }),
+      dates: { ...medication.dates, ...(barcode.expiry_date && { expiry_date: barcode.expiry_date }) },
+      sources: {
+        ...medication.sources,
+        ...(barcode.lot_number && { lot_number: 'barcode' as const }),
+        ...(barcode.expiry_date && { expiry_date: 'barcode' as const }),
+      },
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import { HistoryEntry } from "../types";
+import { STORES, withStore } from "./db";
+
+export const saveHistoryEntry = (entry: HistoryEntry): Promise<IDBValidKey> =>
+  withStore(STORES.history, 'readwrite', store => store.put(entry));
+
+export const deleteHistoryEntry = (id: string): Promise<undefined> =>
+  withStore(STORES.history, 'readwrite', store => store.delete(id));
+
+// Newest first
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>(STORES.history, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const createHistoryId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Title shown in the history list: top condition or medication name.
+export const getHistoryTitle = (entry: HistoryEntry): string =>
+  entry.kind === 'diagnosis'
+    ? entry.response.conditions[0]?.name || 'Diagnosis'
+    : entry.response.medication.name || entry.response.medication.generic_name || 'Medication';
+
+const searchableText = (entry: HistoryEntry): string => {
+  if (entry.kind === 'diagnosis') {
+    return [entry.input, ...entry.response.conditions.map(c => c.name)].join(' ');
+  }
+  const { medication } = entry.response;
+  return [entry.input, medication.name, medication.generic_name, medication.specifications.composition].join(' ');
+};
+
+// Matches every whitespace-separated term against condition names, drug
+// names and the original input, case-insensitively.
+export const searchHistory = (entries: HistoryEntry[], query: string): HistoryEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+  return entries.filter(entry => {
+    const haystack = searchableText(entry).toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
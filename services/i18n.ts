@@ -0,0 +1,73 @@
+import { Locale, TextDirection } from "../types";
+import { en, MessageKey, Messages } from "./locales/en";
+import { es } from "./locales/es";
+import { ar } from "./locales/ar";
+import { he } from "./locales/he";
+
+export type { MessageKey } from "./locales/en";
+
+export interface LocaleInfo {
+  name: string; // In the language itself, for the switcher
+  englishName: string; // For the model prompts
+  dir: TextDirection;
+}
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', englishName: 'English', dir: 'ltr' },
+  es: { name: 'Español', englishName: 'Spanish', dir: 'ltr' },
+  ar: { name: 'العربية', englishName: 'Arabic', dir: 'rtl' },
+  he: { name: 'עברית', englishName: 'Hebrew', dir: 'rtl' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Messages> = { en, es, ar, he };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, value);
+
+// For keys built from data, such as a rule id, that may have no message
+export const isMessageKey = (key: string): key is MessageKey =>
+  Object.prototype.hasOwnProperty.call(en, key);
+
+export type MessageParams = Record<string, string | number>;
+
+// Placeholders without a value are left in place so a missing parameter shows
+// up in the UI instead of silently disappearing
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string =>
+  (CATALOGS[locale][key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+
+// Drops accents, Arabic harakat and hamza seats, and Hebrew niqqud, so the
+// local safety screens match "torácico" and "toracico" or "أريد" and "اريد" alike
+export const foldForMatching = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').replace(/\u0649/g, '\u064A');
+
+const STORAGE_KEY = 'lv-locale';
+
+// The saved choice, else the first supported browser language
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage blocked: fall through to the browser languages
+  }
+  const languages = typeof navigator !== 'undefined' ? navigator.languages || [navigator.language] : [];
+  for (const language of languages) {
+    const base = language?.toLowerCase().split('-')[0];
+    // "iw" is the legacy code some browsers still report for Hebrew
+    const locale = base === 'iw' ? 'he' : base;
+    if (isLocale(locale)) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Not persisted; the choice lasts for this session
+  }
+};
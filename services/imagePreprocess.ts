@@ -0,0 +1,218 @@
+import { ImageEdit, ImageQualityIssue } from "../types";
+import { loadImage } from "./imageUtils";
+import { MessageKey } from "./i18n";
+
+// Prepares photos before they are attached: orientation fix, crop/rotate,
+// downscale, re-encode within a byte budget and a quick readability check.
+// Re-encoding also drops EXIF metadata such as GPS location.
+
+export type EncodedFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+  maxDimension: number; // Longest side in pixels
+  maxBytes: number;
+  format: EncodedFormat;
+}
+
+export interface PreprocessedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  bytes: number;
+  issues: ImageQualityIssue[];
+}
+
+const positiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+};
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: positiveInt(process.env.IMAGE_MAX_DIMENSION, 1600),
+  maxBytes: positiveInt(process.env.IMAGE_MAX_KB, 500) * 1024,
+  format: process.env.IMAGE_FORMAT === 'webp' ? 'image/webp' : 'image/jpeg',
+};
+
+export const QUALITY_ISSUE_LABELS: Record<ImageQualityIssue, MessageKey> = {
+  blurry: 'quality.blurry',
+  glare: 'quality.glare',
+};
+
+const QUALITY_STEPS = [0.85, 0.75, 0.65, 0.55, 0.45];
+const DOWNSCALE_STEP = 0.75;
+const MIN_DIMENSION = 480; // Below this labels become unreadable; accept going over budget
+
+// Heuristic thresholds, measured on a 512px sample so they do not depend on
+// the upload resolution. Variance of the Laplacian drops as edges soften;
+// glare is the share of pixels clipped to white in every channel.
+const QUALITY_SAMPLE_SIZE = 512;
+const BLUR_THRESHOLD = 60;
+const GLARE_LEVEL = 245;
+const GLARE_RATIO = 0.06;
+
+type Decoded = ImageBitmap | HTMLImageElement;
+
+const dimensionsOf = (image: Decoded) =>
+  image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+// Both decoders honour the EXIF orientation tag, so pixels arrive upright
+const decode = async (source: Blob): Promise<Decoded> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(source, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall back to <img> for formats createImageBitmap rejects (e.g. SVG)
+    }
+  }
+  const url = URL.createObjectURL(source);
+  try {
+    return await loadImage(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const toBlob = async (source: Blob | string): Promise<Blob> =>
+  typeof source === 'string' ? (await fetch(source)).blob() : source;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available in this browser.");
+  return { canvas, ctx };
+};
+
+// Coarse blocks rather than a blur filter: a light blur can be partly
+// reversed, and ctx.filter is missing in Safari.
+const pixelate = (canvas: HTMLCanvasElement, x: number, y: number, width: number, height: number) => {
+  const block = Math.max(8, Math.round(Math.max(width, height) / 12));
+  const { canvas: small, ctx: smallCtx } = createCanvas(width / block, height / block);
+  smallCtx.drawImage(canvas, x, y, width, height, 0, 0, small.width, small.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, x, y, width, height);
+  ctx.imageSmoothingEnabled = true;
+};
+
+// Rotates, then crops in rotated coordinates, then scales the crop so its
+// longest side fits `maxDimension`. Blur regions share the crop's coordinates
+// and are pixelated last.
+const render = (image: Decoded, edit: ImageEdit, maxDimension: number): HTMLCanvasElement => {
+  const { width, height } = dimensionsOf(image);
+  const quarterTurn = edit.rotation === 90 || edit.rotation === 270;
+  const rotatedWidth = quarterTurn ? height : width;
+  const rotatedHeight = quarterTurn ? width : height;
+  const crop = edit.crop || { x: 0, y: 0, width: 1, height: 1 };
+  const cropWidth = crop.width * rotatedWidth;
+  const cropHeight = crop.height * rotatedHeight;
+  const scale = Math.min(1, maxDimension / Math.max(cropWidth, cropHeight));
+
+  const { canvas, ctx } = createCanvas(cropWidth * scale, cropHeight * scale);
+  // JPEG has no alpha channel; keep transparent PNGs from turning black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * rotatedWidth + rotatedWidth / 2, -crop.y * rotatedHeight + rotatedHeight / 2);
+  ctx.rotate((edit.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -width / 2, -height / 2);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+  (edit.blurs || []).forEach(region => {
+    const left = Math.max(0, (region.x - crop.x) * rotatedWidth * scale);
+    const top = Math.max(0, (region.y - crop.y) * rotatedHeight * scale);
+    const right = Math.min(canvas.width, (region.x + region.width - crop.x) * rotatedWidth * scale);
+    const bottom = Math.min(canvas.height, (region.y + region.height - crop.y) * rotatedHeight * scale);
+    if (right - left >= 1 && bottom - top >= 1) pixelate(canvas, left, top, right - left, bottom - top);
+  });
+  return canvas;
+};
+
+const downscale = (source: HTMLCanvasElement, factor: number): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(source.width * factor, source.height * factor);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const dataUrlBytes = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+};
+
+// Browsers without a WebP encoder silently return PNG; fall back to JPEG
+const encode = (canvas: HTMLCanvasElement, format: EncodedFormat, quality: number) => {
+  const dataUrl = canvas.toDataURL(format, quality);
+  return dataUrl.startsWith(`data:${format}`) ? dataUrl : canvas.toDataURL('image/jpeg', quality);
+};
+
+// Steps quality down first, then resolution, until the image fits the budget
+const encodeWithinBudget = (canvas: HTMLCanvasElement, { format, maxBytes }: PreprocessOptions) => {
+  let current = canvas;
+  for (;;) {
+    let dataUrl = '';
+    for (const quality of QUALITY_STEPS) {
+      dataUrl = encode(current, format, quality);
+      if (dataUrlBytes(dataUrl) <= maxBytes) return { canvas: current, dataUrl };
+    }
+    if (Math.max(current.width, current.height) * DOWNSCALE_STEP < MIN_DIMENSION) {
+      return { canvas: current, dataUrl };
+    }
+    current = downscale(current, DOWNSCALE_STEP);
+  }
+};
+
+export const assessImageQuality = (canvas: HTMLCanvasElement): ImageQualityIssue[] => {
+  const sample = downscale(canvas, Math.min(1, QUALITY_SAMPLE_SIZE / Math.max(canvas.width, canvas.height)));
+  const { width, height } = sample;
+  const { data } = sample.getContext('2d')!.getImageData(0, 0, width, height);
+
+  const gray = new Float32Array(width * height);
+  let clipped = 0;
+  for (let i = 0; i < gray.length; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    gray[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    if (Math.min(r, g, b) >= GLARE_LEVEL) clipped++;
+  }
+
+  let sum = 0, sumSquares = 0, count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  const issues: ImageQualityIssue[] = [];
+  if (count > 0 && sumSquares / count - (sum / count) ** 2 < BLUR_THRESHOLD) issues.push('blurry');
+  if (clipped / gray.length > GLARE_RATIO) issues.push('glare');
+  return issues;
+};
+
+export const preprocessImage = async (
+  source: Blob | string,
+  edit: ImageEdit = { rotation: 0 },
+  overrides: Partial<PreprocessOptions> = {}
+): Promise<PreprocessedImage> => {
+  const options = { ...DEFAULT_PREPROCESS_OPTIONS, ...overrides };
+  const image = await decode(await toBlob(source));
+  try {
+    const { canvas, dataUrl } = encodeWithinBudget(render(image, edit, options.maxDimension), options);
+    return {
+      dataUrl,
+      width: canvas.width,
+      height: canvas.height,
+      bytes: dataUrlBytes(dataUrl),
+      issues: assessImageQuality(canvas),
+    };
+  } finally {
+    if (!(image instanceof HTMLImageElement)) image.close();
+  }
+};
@@ -0,0 +1,29 @@
+import { ImageAttachment } from "../types";
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Unable to decode image."));
+    img.src = src;
+  });
+
+// Downscales a data URL so its longest side is at most `maxSize` pixels and
+// re-encodes it as JPEG. Used for history thumbnails and PDF export.
+export const createThumbnail = async (dataUrl: string, maxSize = 160): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return dataUrl;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
+
+export const createImageAttachment = (dataUrl: string, caption = ''): ImageAttachment => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  dataUrl,
+  caption,
+});
@@ -0,0 +1,76 @@
+import { PatientIntake, PregnancyStatus, Vitals } from "../types";
+
+export const EMPTY_INTAKE: PatientIntake = {
+  chronic_conditions: [],
+  current_medications: [],
+  allergies: [],
+  vitals: {},
+};
+
+const PREGNANCY_LABELS: Record<PregnancyStatus, string> = {
+  pregnant: 'Pregnant',
+  not_pregnant: 'Not pregnant',
+  possible: 'Possibly pregnant',
+  unknown: 'Unknown',
+};
+
+const cleanList = (items: string[]): string[] => items.map(item => item.trim()).filter(Boolean);
+
+const isSet = (value: unknown): boolean =>
+  value !== undefined && value !== null && !(typeof value === 'number' && Number.isNaN(value)) && value !== '';
+
+const formatVitals = (vitals: Vitals): string => {
+  const parts: string[] = [];
+  if (isSet(vitals.temperature_c)) parts.push(`T ${vitals.temperature_c} °C`);
+  if (isSet(vitals.heart_rate_bpm)) parts.push(`HR ${vitals.heart_rate_bpm} bpm`);
+  if (isSet(vitals.systolic_bp) || isSet(vitals.diastolic_bp)) {
+    parts.push(`BP ${vitals.systolic_bp ?? '?'}/${vitals.diastolic_bp ?? '?'} mmHg`);
+  }
+  if (isSet(vitals.respiratory_rate)) parts.push(`RR ${vitals.respiratory_rate}/min`);
+  if (isSet(vitals.spo2_percent)) parts.push(`SpO2 ${vitals.spo2_percent}%`);
+  return parts.join(', ');
+};
+
+export const countIntakeFields = (intake: PatientIntake): number =>
+  [
+    intake.age,
+    intake.sex,
+    intake.pregnancy_status,
+    intake.weight_kg,
+    intake.symptom_onset?.trim(),
+    intake.symptom_duration?.trim(),
+  ].filter(isSet).length +
+  [intake.chronic_conditions, intake.current_medications, intake.allergies].filter(list => cleanList(list).length > 0).length +
+  Object.values(intake.vitals).filter(isSet).length;
+
+export const hasIntakeData = (intake?: PatientIntake): boolean => !!intake && countIntakeFields(intake) > 0;
+
+// Serializes the intake into a fixed clinical layout so the model always sees
+// the same field order and units. Empty fields are omitted entirely.
+export const formatIntake = (intake: PatientIntake): string => {
+  const lines: string[] = [];
+
+  const demographics = [
+    isSet(intake.age) ? `${intake.age}-year-old` : '',
+    intake.sex || '',
+  ].filter(Boolean).join(' ');
+  if (demographics) lines.push(`Demographics: ${demographics}`);
+  if (intake.pregnancy_status && intake.sex !== 'male') {
+    lines.push(`Pregnancy status: ${PREGNANCY_LABELS[intake.pregnancy_status]}`);
+  }
+  if (isSet(intake.weight_kg)) lines.push(`Weight: ${intake.weight_kg} kg`);
+
+  const chronic = cleanList(intake.chronic_conditions);
+  if (chronic.length) lines.push(`Chronic conditions: ${chronic.join(', ')}`);
+  const medications = cleanList(intake.current_medications);
+  if (medications.length) lines.push(`Current medications: ${medications.join(', ')}`);
+  const allergies = cleanList(intake.allergies);
+  if (allergies.length) lines.push(`Allergies: ${allergies.join(', ')}`);
+
+  const vitals = formatVitals(intake.vitals);
+  if (vitals) lines.push(`Vitals: ${vitals}`);
+  if (intake.symptom_onset?.trim()) lines.push(`Symptom onset: ${intake.symptom_onset.trim()}`);
+  if (intake.symptom_duration?.trim()) lines.push(`Symptom duration: ${intake.symptom_duration.trim()}`);
+
+  return lines.map(line => `- ${line}`).join('\n');
+};
@@ -0,0 +1,474 @@
+import { Messages } from "./en";
+
+export const ar: Messages = {
+  // Header
+  'header.tagline': 'بدعم من LV Health',
+  'header.history': 'السجل',
+  'header.historyTitle': 'سجل الاستشارات',
+  'header.cabinet': 'الخزانة',
+  'header.cabinetTitle': 'خزانة الأدوية',
+  'header.contact': 'اتصل بنا',
+  'header.online': 'النظام متصل',
+  'header.offline': 'غير متصل',
+  'header.offlineQueued': 'غير متصل · {count} في الانتظار',
+  'header.offlineTitle': 'تعمل دون اتصال',
+  'header.offlineTitleQueued': '{count} في الانتظار حتى يعود الاتصال',
+  'header.language': 'اللغة',
+  'nav.diagnosis': 'التشخيص',
+  'nav.medication': 'معلومات الأدوية',
+  'nav.interactions': 'التداخلات',
+
+  // Hero
+  'hero.iconAlt': 'أيقونة ثلاثية الأبعاد',
+  'hero.diagnosis.badge': 'محرك التشخيص العصبي 2.0',
+  'hero.diagnosis.title': 'ما وراء التشخيص.',
+  'hero.diagnosis.subtitle': 'وضوح تام.',
+  'hero.diagnosis.body': '{highlight} للتحليل الطبي المعقد، مدعومة بشبكات عصبية متقدمة.',
+  'hero.diagnosis.highlight': 'دقة بمستوى الدكتوراه',
+  'hero.medication.badge': 'ذكاء اصطناعي للرؤية الدوائية',
+  'hero.medication.title': 'اعرف أدويتك.',
+  'hero.medication.subtitle': 'نقاء مُتحقَّق منه.',
+  'hero.medication.body': 'حلّل المركبات الدوائية فورًا. استخرج تاريخ الانتهاء والمنشأ والبيانات السريرية {highlight}.',
+  'hero.medication.highlight': 'بدقة 100%',
+  'hero.interactions.badge': 'ذكاء التداخلات الدوائية',
+  'hero.interactions.title': 'اجمع بحذر.',
+  'hero.interactions.subtitle': 'كل زوج مفحوص.',
+  'hero.interactions.body': 'أنشئ قائمة أدويتك وافحص {highlight} من حيث الآلية والشدة وطريقة التعامل.',
+  'hero.interactions.highlight': 'كل تركيبة',
+
+  // Input
+  'input.placeholder.diagnosis': "صف الأعراض بالتفصيل أو الصق صورة طبية... (مثال: 'صداع نصفي متقطع مع هالة بصرية...')",
+  'input.placeholder.medication': "أدخل اسم الدواء أو التقط صورة للعبوة أو الحبة... (مثال: 'أموكسيسيلين 500 ملغ')",
+  'input.placeholder.interactions': "أضف الأدوية واحدًا تلو الآخر أو مفصولة بفواصل، أو أرفق صورة العبوة... (مثال: 'وارفارين، إيبوبروفين')",
+  'input.removeBarcode': 'إزالة الرمز الشريطي',
+  'input.maskedPreview': 'سيُخفى قبل الإرسال',
+  'input.aiActive': 'الذكاء الاصطناعي نشط',
+  'input.aiShort': 'ذكاء',
+  'input.upload': 'رفع',
+  'input.intake': 'الاستبيان',
+  'input.capture': 'التقاط',
+  'input.example': 'مثال',
+  'input.generateCase': 'إنشاء حالة',
+  'input.simulating': 'جارٍ محاكاة الحالة...',
+  'input.cancel': 'إلغاء',
+  'input.reset': 'إعادة تعيين',
+  'input.analyzing': 'جارٍ تحليل البيانات',
+  'input.submit.diagnosis': 'بدء التشخيص',
+  'input.submit.medication': 'تحليل التركيب',
+  'input.submit.interactions': 'إضافة دواء',
+
+  // Interaction list
+  'interactions.empty': 'لم تتم إضافة أدوية بعد. أضف دواءين على الأقل لفحص التداخلات.',
+  'interactions.check': 'فحص التداخلات',
+
+  // Trust bar and support
+  'trust.evidence': 'قائم على الأدلة',
+  'trust.realtime': 'تحليل فوري',
+  'trust.records': 'أكثر من 10 ملايين سجل',
+  'trust.accuracy': 'دقة بمستوى الدكتوراه',
+  'support.title': 'ادعم رسالتنا',
+  'support.body': 'ساعدنا في جعل الصحة الدقيقة في متناول الجميع. إذا أفادك LV Health، فشارك {app} مع أصدقائك وعائلتك.',
+
+  // Diagnosis results
+  'diagnosis.title': 'التقرير السريري',
+  'diagnosis.reference': 'المعرّف: {id} • LV Health AI',
+  'diagnosis.receiving': 'جارٍ استلام التحليل',
+  'diagnosis.detailedReport': 'تقرير مفصل',
+  'diagnosis.emergencyScreen': 'فحص الطوارئ:',
+  'diagnosis.synopsis': 'الملخص',
+  'diagnosis.disclaimer': 'إخلاء المسؤولية:',
+  'diagnosis.immediateAction': 'إجراء فوري',
+  'diagnosis.immediateActionBody': 'تشير الأعراض إلى حالات ذات أولوية عالية. يُرجى استشارة طبيب مختص.',
+  'diagnosis.routine': 'متابعة روتينية',
+  'diagnosis.routineBody': 'تبدو الأعراض قابلة للتعامل معها. اتبع بروتوكولات الرعاية المعتادة.',
+  'diagnosis.primary': 'التشخيص الرئيسي',
+  'diagnosis.differential': 'التشخيصات التفريقية',
+  'results.redacted': 'أُزيل قبل الإرسال إلى النموذج',
+  'export.fhir': 'FHIR',
+  'export.fhirTitle': 'تنزيل كحزمة FHIR R4',
+
+  // Condition card
+  'condition.emergencyScreen': 'فحص الطوارئ',
+  'condition.primaryMatch': 'التطابق الرئيسي',
+  'condition.mustRuleOut': 'يجب استبعاده',
+  'condition.highestConfidence': 'التحليل الأعلى ثقة',
+  'condition.seenInImage': 'ظاهر في الصورة {images}',
+  'condition.ruleOut': 'للاستبعاد',
+  'condition.notEstimated': 'غير مقدَّر من النموذج',
+  'condition.confidence': 'الثقة',
+  'condition.newThisRound': 'جديد في هذه الجولة',
+  'condition.unchanged': 'دون تغيير',
+  'condition.shift': '{shift}% من {previous}%',
+  'condition.matchedSymptoms': 'الأعراض المتطابقة',
+  'condition.recommendations': 'التوصيات السريرية',
+  'urgency.low': 'منخفضة',
+  'urgency.medium': 'متوسطة',
+  'urgency.high': 'عالية',
+  'urgency.critical': 'حرجة',
+
+  // Medication results
+  'medication.addToInteractions': 'إضافة إلى فحص التداخلات',
+  'medication.saveToCabinet': 'حفظ في الخزانة',
+  'medication.exportPdf': 'تصدير PDF',
+  'medication.preparingPdf': 'جارٍ إعداد PDF...',
+  'medication.exportFhir': 'تصدير FHIR',
+  'medication.confidence': 'ثقة التحليل',
+  'medication.manufacturer': 'الشركة المصنّعة',
+  'medication.origin': 'المنشأ: {country}',
+  'medication.specifications': 'المواصفات',
+  'medication.type': 'النوع:',
+  'medication.dosage': 'الجرعة:',
+  'medication.active': 'المادة الفعالة:',
+  'medication.indications': 'الاستطبابات الرسمية',
+  'medication.administration': 'دليل الاستعمال',
+  'medication.warnings': 'تحذيرات مهمة',
+  'medication.sideEffects': 'الآثار الجانبية المحتملة',
+
+  // Report modal
+  'report.title': 'تقرير الاستشارة',
+  'report.generatedBy': 'أُنشئ بواسطة LV Assistant Doctor',
+  'report.printTitle': 'التقرير السريري - LV Health',
+  'report.compiling': 'جارٍ تجميع البيانات السريرية...',
+  'report.tryAgain': 'أعد المحاولة',
+  'report.close': 'إغلاق',
+  'report.downloadPdf': 'تنزيل PDF',
+  'report.pdf': 'PDF',
+  'report.print': 'طباعة المستند',
+  'report.printShort': 'طباعة',
+
+  // Contact modal
+  'contact.title': 'التواصل مع الدعم',
+  'contact.body': 'هل لديك أسئلة حول تشخيصك أو تحتاج إلى مساعدة تقنية؟ متخصصو LV Health جاهزون لمساعدتك.',
+  'contact.copy': 'نسخ إلى الحافظة',
+  'contact.openMail': 'فتح تطبيق البريد',
+  'contact.responseTime': 'متوسط وقت الرد: أقل من ساعتين',
+
+  // Camera
+  'camera.useBarcode': 'استخدام الرمز',
+  'camera.hint': 'وجّه الكاميرا نحو الرمز الشريطي أو التقط صورة',
+
+  // Prompts and alerts
+  'alert.camera': 'تعذّر الوصول إلى الكاميرا. يُرجى التحقق من الأذونات.',
+  'alert.cabinetSave': 'تعذّر الحفظ في الخزانة. يُرجى المحاولة مرة أخرى.',
+  'alert.queueSave': 'أنت غير متصل وتعذّر حفظ التحليل لوقت لاحق. يُرجى المحاولة مرة أخرى بعد الاتصال.',
+  'alert.maxImages': 'يمكنك إرفاق {max} صور كحد أقصى.',
+  'alert.pdf': 'تعذّر إنشاء ملف PDF. يُرجى المحاولة مرة أخرى.',
+  'confirm.imageQuality': 'قد يصعب قراءة بعض الصور:\n\n{issues}\n\nهل تريد الإرسال على أي حال؟',
+  'confirm.imageIssue': 'الصورة {index}: {issues}',
+  'confirm.expired': '{name}: {expiry}. قد يكون الدواء منتهي الصلاحية غير فعال أو غير آمن.',
+  'confirm.saveAnyway': 'هل تريد الحفظ على أي حال؟',
+  'confirm.exportAnyway': 'هل تريد التصدير على أي حال؟',
+  'quality.blurry': 'تبدو ضبابية',
+  'quality.glare': 'انعكاس ضوئي قوي',
+
+  // Error fallbacks when the failure carries no message
+  'error.diagnosis': 'حدث خطأ أثناء التشخيص.',
+  'error.refine': 'حدث خطأ أثناء تحسين التشخيص.',
+  'error.medication': 'حدث خطأ أثناء تحليل الدواء.',
+  'error.identify': 'تعذّر التعرف على الدواء.',
+  'error.identifyOffline': 'يتطلب التعرف على العبوة اتصالًا بالإنترنت. اكتب اسم الدواء بدلًا من ذلك.',
+  'error.interactions': 'حدث خطأ أثناء فحص التداخلات.',
+  'error.interactionsOffline': 'يتطلب فحص التداخلات اتصالًا بالإنترنت. حاول مرة أخرى بعد عودة الاتصال.',
+  'error.sample': 'تعذّر إنشاء حالة نموذجية.',
+  'error.report': 'حدث خطأ أثناء تحميل التقرير.',
+
+  // Model errors, by kind
+  'modelError.title.rate_limited': 'الخدمة مشغولة',
+  'modelError.title.quota_exhausted': 'تم بلوغ حد الاستخدام',
+  'modelError.title.safety_blocked': 'تم حظر الرد',
+  'modelError.title.invalid_image': 'لم تُقبل الصورة',
+  'modelError.title.malformed_output': 'رد غير متوقع',
+  'modelError.title.network': 'مشكلة في الاتصال',
+  'modelError.title.timeout': 'انتهت مهلة الطلب',
+  'modelError.title.unavailable': 'الخدمة غير متاحة',
+  'modelError.title.unknown': 'توقف التحليل',
+  'modelError.rate_limited': 'خدمة النموذج مشغولة حاليًا. يرجى الانتظار قليلًا ثم المحاولة مرة أخرى.',
+  'modelError.quota_exhausted': 'بلغت خدمة النموذج حصة الاستخدام المسموح بها. يرجى المحاولة لاحقًا.',
+  'modelError.safety_blocked': 'رفض النموذج الإجابة بموجب سياسة الأمان. أعد صياغة الطلب وحاول مرة أخرى.',
+  'modelError.invalid_image': 'تعذرت معالجة إحدى الصور. احذفها أو أعد التقاطها ثم حاول مرة أخرى.',
+  'modelError.malformed_output': 'أعاد النموذج ردًا غير مكتمل. يرجى المحاولة مرة أخرى.',
+  'modelError.network': 'تعذر الوصول إلى خدمة النموذج. تحقق من اتصالك وحاول مرة أخرى.',
+  'modelError.timeout': 'استغرق النموذج وقتًا طويلًا للرد. يرجى المحاولة مرة أخرى.',
+  'modelError.unavailable': 'خدمة النموذج غير متاحة مؤقتًا. يرجى المحاولة بعد قليل.',
+  'modelError.unknown': 'فشل طلب النموذج. يرجى المحاولة مرة أخرى.',
+  'modelError.tryAgain': 'حاول مرة أخرى',
+
+  // Input safety refusals, by reason
+  'refusal.title.prompt_injection': 'لم تتم معالجة الطلب',
+  'refusal.title.dangerous_dosage': 'لا يمكننا المساعدة في هذا',
+  'refusal.prompt_injection': 'يحتوي هذا الطلب على تعليمات موجهة إلى المساعد بدلًا من وصف للأعراض أو لدواء. يرجى وصف سؤالك الصحي بكلماتك الخاصة.',
+  'refusal.dangerous_dosage': 'لا يمكننا المساعدة في جرعات يُقصد بها إلحاق الأذى. إذا كنت تفكر في إيذاء نفسك، فاتصل برقم الطوارئ المحلي أو بخط دعم الأزمات. وفي حالة الجرعة الزائدة العرضية، اتصل بمركز السموم الآن.',
+
+  // Emergency interstitial
+  'emergency.title': 'حالة طبية طارئة محتملة',
+  'emergency.subtitle': 'تم اكتشافها قبل اكتمال التحليل',
+  'emergency.call': 'اتصل بخدمات الطوارئ',
+  'emergency.otherNumbers': 'إذا لم يعمل الرقم 112 في بلدك، فاتصل برقم الطوارئ المحلي (مثل 911 أو 997 أو 999).',
+  'emergency.dismiss': 'فهمت — اعرض التحليل',
+  'redFlag.acute-coronary-syndrome.title': 'ألم في الصدر مع تعرّق',
+  'redFlag.acute-coronary-syndrome.advice': 'اتصل بخدمات الطوارئ الآن. لا تقد السيارة بنفسك. إن لم تكن لديك حساسية، امضغ 300 ملغ من الأسبرين أثناء الانتظار.',
+  'redFlag.acute-coronary-syndrome.condition': 'متلازمة الشريان التاجي الحادة',
+  'redFlag.thunderclap-headache.title': 'صداع مفاجئ هو "الأسوأ على الإطلاق"',
+  'redFlag.thunderclap-headache.advice': 'يجب تقييم الصداع المفاجئ الشديد في قسم الطوارئ فورًا.',
+  'redFlag.thunderclap-headache.condition': 'نزف تحت العنكبوتية',
+  'redFlag.stroke.title': 'ضعف أو خدر في جانب واحد',
+  'redFlag.stroke.advice': 'سجّل وقت بدء الأعراض واتصل بخدمات الطوارئ فورًا. كل دقيقة مهمة.',
+  'redFlag.stroke.condition': 'سكتة دماغية حادة',
+  'redFlag.suicidal-ideation.title': 'أفكار انتحارية أو إيذاء النفس',
+  'redFlag.suicidal-ideation.advice': 'تستحق الدعم الآن. اتصل برقم الطوارئ المحلي أو بخط دعم الأزمات، أو توجّه إلى أقرب قسم طوارئ.',
+  'redFlag.suicidal-ideation.condition': 'أفكار انتحارية — حالة طوارئ نفسية',
+  'redFlag.anaphylaxis.title': 'علامات الحساسية المفرطة (التأق)',
+  'redFlag.anaphylaxis.advice': 'استخدم حاقن الأدرينالين الذاتي إن توفر واتصل بخدمات الطوارئ فورًا.',
+  'redFlag.anaphylaxis.condition': 'التأق (الحساسية المفرطة)',
+  'redFlag.meningitis.title': 'تيبّس الرقبة مع حمى أو طفح جلدي',
+  'redFlag.meningitis.advice': 'اطلب الرعاية الطارئة الآن. قد يتطور التهاب السحايا خلال ساعات.',
+  'redFlag.meningitis.condition': 'التهاب السحايا الجرثومي',
+  'redFlag.gi-haemorrhage.title': 'تقيؤ دم أو خروج دم مع البراز',
+  'redFlag.gi-haemorrhage.advice': 'اطلب الرعاية الطارئة فورًا، خاصة إذا شعرت بالإغماء أو الدوار.',
+  'redFlag.gi-haemorrhage.condition': 'نزف حاد في الجهاز الهضمي',
+  'redFlag.critical-vitals.title': 'علامات حيوية خطرة',
+  'redFlag.critical-vitals.advice': 'العلامات الحيوية المُدخلة ضمن نطاق خطر. اطلب تقييمًا طارئًا الآن.',
+  'redFlag.critical-vitals.condition': 'عدم استقرار فيزيولوجي — احتمال إنتان أو صدمة',
+  'redFlag.injectedDescription': 'رصده فحص الطوارئ المحلي ({title}). يجب استبعاده بشكل عاجل بغض النظر عن تقدير النموذج.',
+
+  // Intake form
+  'intake.age': 'العمر',
+  'intake.years': 'سنوات',
+  'intake.sex': 'الجنس',
+  'intake.notStated': 'غير محدد',
+  'intake.female': 'أنثى',
+  'intake.male': 'ذكر',
+  'intake.intersex': 'ثنائي الجنس',
+  'intake.pregnancy': 'الحمل',
+  'intake.notPregnant': 'غير حامل',
+  'intake.pregnant': 'حامل',
+  'intake.possiblyPregnant': 'حمل محتمل',
+  'intake.unknown': 'غير معروف',
+  'intake.weight': 'الوزن (كغ)',
+  'intake.chronicConditions': 'الأمراض المزمنة',
+  'intake.chronicConditionsPlaceholder': 'مثال: الربو، السكري من النوع 2',
+  'intake.currentMedications': 'الأدوية الحالية',
+  'intake.currentMedicationsPlaceholder': 'مثال: ميتفورمين 500 ملغ',
+  'intake.addFromCabinet': '+ أضف من خزانتي ({count})',
+  'intake.allergies': 'الحساسية',
+  'intake.allergiesPlaceholder': 'مثال: البنسلين',
+  'intake.temperature': 'الحرارة (°م)',
+  'intake.heartRate': 'معدل النبض',
+  'intake.systolic': 'الضغط الانقباضي',
+  'intake.diastolic': 'الضغط الانبساطي',
+  'intake.respiratoryRate': 'معدل التنفس',
+  'intake.spo2': 'تشبع الأكسجين (%)',
+  'intake.onset': 'بداية الأعراض',
+  'intake.onsetPlaceholder': 'مثال: مفاجئة، أثناء التمرين',
+  'intake.duration': 'المدة',
+  'intake.durationPlaceholder': 'مثال: 3 أيام، متقطعة',
+
+  // Follow-up questions
+  'followUp.title': 'أسئلة توضيحية',
+  'followUp.round': 'الجولة {round}',
+  'followUp.category.onset': 'البداية',
+  'followUp.category.duration': 'المدة',
+  'followUp.category.severity': 'الشدة',
+  'followUp.category.red_flag': 'علامة تحذيرية',
+  'followUp.category.history': 'السوابق',
+  'followUp.category.other': 'السياق',
+  'followUp.placeholder': 'إجابتك (اختياري)',
+  'followUp.submit': 'تحسين التشخيص',
+
+  // Interaction results
+  'severity.None': 'لا يوجد',
+  'severity.Minor': 'طفيف',
+  'severity.Moderate': 'متوسط',
+  'severity.Major': 'شديد',
+  'severity.Contraindicated': 'ممنوع الجمع',
+  'interactions.notAvailable': 'غير متاح',
+  'interactions.mechanism': 'الآلية',
+  'interactions.clinicalEffect': 'التأثير السريري',
+  'interactions.management': 'التعامل',
+  'interactions.assessment': 'تقييم النظام العلاجي',
+  'interactions.significant': 'تداخلات مهمة',
+
+  // History panel
+  'history.title': 'سجل الاستشارات',
+  'history.search': 'ابحث باسم الحالة أو الدواء',
+  'history.empty': 'لا توجد استشارات محفوظة بعد.',
+  'history.noMatches': 'لا توجد استشارات تطابق بحثك.',
+  'history.diagnosis': 'تشخيص',
+  'history.medication': 'دواء',
+  'history.delete': 'حذف الإدخال',
+
+  // Cabinet panel
+  'cabinet.title': 'خزانة الأدوية',
+  'cabinet.undo': 'تراجع',
+  'cabinet.markTaken': 'تم أخذها',
+  'cabinet.skipDose': 'تخطي الجرعة',
+  'cabinet.expiring': 'منتهية الصلاحية أو قاربت على الانتهاء ({count}): {names}',
+  'cabinet.enableReminders': 'تفعيل تذكيرات الجرعات',
+  'cabinet.empty': 'خزانتك فارغة. حلّل دواءً واختر "حفظ في الخزانة" لمتابعة الجرعات.',
+  'cabinet.remove': 'إزالة من الخزانة',
+  'cabinet.today': 'اليوم',
+  'cabinet.noDosesToday': 'لا توجد جرعات مجدولة اليوم.',
+  'cabinet.lastWeek': 'آخر 7 أيام:',
+  'cabinet.taken': 'مأخوذة: {count}',
+  'cabinet.skipped': 'متخطاة: {count}',
+  'cabinet.missed': 'فائتة: {count}',
+
+  // Cabinet save dialog
+  'cabinetSave.title': 'حفظ في الخزانة',
+  'cabinetSave.name': 'الاسم',
+  'cabinetSave.dose': 'الجرعة',
+  'cabinetSave.dosePlaceholder': 'مثال: قرص واحد',
+  'cabinetSave.times': 'أوقات الجرعات',
+  'cabinetSave.removeTime': 'إزالة الوقت',
+  'cabinetSave.addTime': 'إضافة وقت',
+  'cabinetSave.days': 'الأيام',
+  'cabinetSave.daysHint': '(عدم الاختيار = كل يوم)',
+  'cabinetSave.start': 'البداية',
+  'cabinetSave.end': 'النهاية (اختياري)',
+  'cabinetSave.reminders': 'ذكّرني في أوقات الجرعات',
+  'cabinetSave.remindersUnsupported': 'التذكيرات غير مدعومة في هذا المتصفح',
+  'cabinetSave.cancel': 'إلغاء',
+  'cabinetSave.save': 'حفظ',
+
+  // Dose schedules and reminders
+  'day.0': 'الأحد',
+  'day.1': 'الاثنين',
+  'day.2': 'الثلاثاء',
+  'day.3': 'الأربعاء',
+  'day.4': 'الخميس',
+  'day.5': 'الجمعة',
+  'day.6': 'السبت',
+  'schedule.dose': 'جرعة',
+  'schedule.at': 'في {times}',
+  'schedule.on': 'أيام {days}',
+  'schedule.daily': 'يوميًا',
+  'reminder.title': 'حان وقت {name}',
+  'reminder.body': '{dose} مجدولة في {time}',
+  'reminder.taken': 'أُخذت',
+  'reminder.skip': 'تخطٍّ',
+
+  // Expiry
+  'expiry.unknown': 'تاريخ الانتهاء غير معروف',
+  'expiry.expiredMonth': 'انتهت الصلاحية في نهاية {date}',
+  'expiry.expiredOn': 'انتهت الصلاحية في {date}',
+  'expiry.today': 'تنتهي الصلاحية اليوم',
+  'expiry.tomorrow': 'تنتهي الصلاحية غدًا ({date})',
+  'expiry.inDays': 'الأيام المتبقية على انتهاء الصلاحية: {days} ({date})',
+  'expiry.validUntil': 'صالح حتى {date}',
+  'expiry.produced': 'تاريخ الإنتاج {date}',
+
+  // Packaging dates and where each value came from
+  'packaging.title': 'التواريخ (من الصورة)',
+  'packaging.production': 'تاريخ الإنتاج',
+  'packaging.expiry': 'تاريخ الانتهاء',
+  'packaging.lot': 'رقم التشغيلة',
+  'packaging.gtin': 'GTIN',
+  'packaging.serial': 'الرقم التسلسلي',
+  'packaging.ocrDisagrees': 'قرأ التعرف الضوئي {value}؛ تحقق من العبوة',
+  'source.ocr': 'OCR',
+  'source.ocr.title': 'قُرئ على الجهاز من الصورة؛ لم يتمكن النموذج من قراءته',
+  'source.model': 'النموذج',
+  'source.model.title': 'قرأه النموذج فقط',
+  'source.ocr_and_model': 'OCR + النموذج',
+  'source.ocr_and_model.title': 'التعرف الضوئي على الجهاز والنموذج متفقان',
+  'source.barcode': 'الباركود',
+  'source.barcode.title': 'مفكوك من باركود العبوة؛ دقيق',
+
+  // Terminology codes
+  'codes.unverified': 'غير مُتحقق',
+  'codes.unverifiedTitle': 'غير موجود في قائمة {system} المحلية. تحقق منه قبل الاستخدام.',
+  'codes.modelLabel': 'تسمية النموذج: {label}',
+
+  // Personal details
+  'pii.name': 'الاسم',
+  'pii.email': 'البريد الإلكتروني',
+  'pii.phone': 'رقم الهاتف',
+  'pii.address': 'العنوان',
+  'pii.id_number': 'رقم الهوية',
+  'pii.date_of_birth': 'تاريخ الميلاد',
+  'redaction.found': '{kind} في {field}',
+
+  // Images
+  'image.label': 'الصورة {index}',
+  'gallery.qualityHint': '{issues}. أعد التقاطها أو اقتصها للحصول على نتيجة أوضح.',
+  'gallery.remove': 'إزالة الصورة',
+  'gallery.edit': 'قص أو تدوير',
+  'gallery.moveLeft': 'نقل إلى اليسار',
+  'gallery.moveRight': 'نقل إلى اليمين',
+  'gallery.caption': 'تعليق (اختياري)',
+  'gallery.preparing': 'جارٍ التجهيز',
+  'findings.title': 'نتائج الصور',
+  'editor.title': 'تعديل الصورة {index}',
+  'editor.cropHint': 'اسحب على الصورة للقص. يؤدي التدوير إلى مسح القص والتمويه.',
+  'editor.blurHint': 'اسحب فوق الأسماء أو العناوين أو أرقام الهوية لتمويهها قبل الإرسال.',
+  'editor.close': 'إغلاق',
+  'editor.crop': 'قص',
+  'editor.blur': 'تمويه',
+  'editor.rotateLeft': 'تدوير لليسار',
+  'editor.rotateRight': 'تدوير لليمين',
+  'editor.clearCrop': 'مسح القص',
+  'editor.clearBlurs': 'مسح التمويه ({count})',
+  'editor.apply': 'تطبيق',
+
+  // Cached results
+  'cache.source': 'من الذاكرة المؤقتة',
+  'cache.notice': '{source} · حُلّل في {date}',
+  'cache.reanalyze': 'إعادة التحليل من جديد',
+
+  // Offline queue
+  'queue.offline': 'أنت غير متصل. توضع التشخيصات وتحليلات الأدوية في قائمة الانتظار وتُنفَّذ تلقائيًا عند عودة الاتصال. يبقى السجل والتقارير المحفوظة متاحة.',
+  'queue.ready': 'التحليلات الجاهزة من قائمة الانتظار: {count}',
+  'queue.viewHistory': 'عرض في السجل',
+  'queue.dismiss': 'إغلاق',
+  'queue.title': 'في الانتظار ({count})',
+  'queue.retry': 'إعادة المحاولة',
+  'queue.notSent': 'لم يُرسل: {reason}',
+  'queue.failed': 'فشل التحليل. أعد المحاولة أو احذفه.',
+  'queue.images': 'الصور: {count}',
+  'queue.queuedAt': 'في الانتظار منذ {time}',
+  'queue.remove': 'إزالة من قائمة الانتظار',
+
+  // Consultation report
+  'report.centre': 'مركز LV Health الطبي',
+  'report.date': 'التاريخ:',
+  'report.patientId': 'معرّف المريض:',
+  'report.chiefComplaint': 'الشكوى الرئيسية',
+  'report.impression': 'الانطباع السريري',
+  'report.differential': 'التشخيص التفريقي',
+  'report.plan': 'خطة العمل الموصى بها',
+  'report.disclaimer': 'إخلاء المسؤولية الطبية',
+
+  // PDF export
+  'pdf.page': 'صفحة {page} من {count}',
+  'pdf.footerShortened': 'مختصر هنا؛ إخلاء المسؤولية الكامل مطبوع في المستند.',
+  'pdf.patientId': 'رقم المريض {id}',
+  'pdf.submittedImage': 'الصورة المرسلة',
+  'pdf.submittedImages': 'الصور المرسلة',
+  'pdf.monograph': 'دليل الدواء',
+  'pdf.identification': 'التعريف',
+  'pdf.brandName': 'الاسم التجاري',
+  'pdf.genericName': 'الاسم العلمي',
+  'pdf.analyzedImage': 'الصورة المحللة',
+  'pdf.analyzedImages': 'الصور المحللة',
+  'pdf.form': 'الشكل',
+  'pdf.dosage': 'الجرعة',
+  'pdf.composition': 'التركيب',
+  'pdf.manufacturerName': 'الاسم',
+  'pdf.origin': 'بلد المنشأ',
+  'pdf.distribution': 'يوزع في',
+  'pdf.dates': 'التواريخ',
+  'pdf.productionDate': 'تاريخ الإنتاج',
+  'pdf.expiryDate': 'تاريخ الانتهاء',
+  'pdf.expiryStatus': 'حالة الصلاحية',
+  'pdf.lotNumber': 'رقم التشغيلة',
+  'pdf.serialNumber': 'الرقم التسلسلي',
+  'pdf.indications': 'دواعي الاستعمال',
+  'pdf.administration': 'طريقة الاستعمال',
+  'pdf.sideEffects': 'الآثار الجانبية',
+  'pdf.warnings': 'التحذيرات',
+  'pdf.disclaimer': 'إخلاء المسؤولية',
+  'pdf.source.ocr': 'مقروء بالتعرف الضوئي على الجهاز',
+  'pdf.source.model': 'مقروء بواسطة النموذج',
+  'pdf.source.ocr_and_model': 'التعرف الضوئي والنموذج متفقان',
+  'pdf.source.barcode': 'من الرمز الشريطي للعبوة',
+};
@@ -0,0 +1,478 @@
+// Source catalog. Every other locale must define the same keys; `{name}`
+// placeholders are filled in by `translate`.
+export const en = {
+  // Header
+  'header.tagline': 'Powered by LV Health',
+  'header.history': 'History',
+  'header.historyTitle': 'Consultation history',
+  'header.cabinet': 'Cabinet',
+  'header.cabinetTitle': 'Medicine cabinet',
+  'header.contact': 'Contact Us',
+  'header.online': 'System online',
+  'header.offline': 'Offline',
+  'header.offlineQueued': 'Offline · {count} queued',
+  'header.offlineTitle': 'Working offline',
+  'header.offlineTitleQueued': '{count} queued for when you reconnect',
+  'header.language': 'Language',
+  'nav.diagnosis': 'Diagnosis',
+  'nav.medication': 'Meds Info',
+  'nav.interactions': 'Interactions',
+
+  // Hero
+  'hero.iconAlt': '3D Icon',
+  'hero.diagnosis.badge': 'Neural Diagnostic Engine v2.0',
+  'hero.diagnosis.title': 'Beyond Diagnosis.',
+  'hero.diagnosis.subtitle': 'Absolute Clarity.',
+  'hero.diagnosis.body': '{highlight} for complex medical analysis. Powered by advanced neural networks.',
+  'hero.diagnosis.highlight': 'PhD-Level Accuracy',
+  'hero.medication.badge': 'Pharmaceutical Vision AI',
+  'hero.medication.title': 'Know Your Meds.',
+  'hero.medication.subtitle': 'Verified Purity.',
+  'hero.medication.body': 'Instantly analyze pharmaceutical compounds. Extract expiry, origin, and clinical data with {highlight}.',
+  'hero.medication.highlight': '100% Precision',
+  'hero.interactions.badge': 'Interaction Intelligence',
+  'hero.interactions.title': 'Mix With Care.',
+  'hero.interactions.subtitle': 'Every Pair Checked.',
+  'hero.interactions.body': 'Build your medication list and screen {highlight} for mechanism, severity and management.',
+  'hero.interactions.highlight': 'every combination',
+
+  // Input
+  'input.placeholder.diagnosis': "Describe symptoms in detail or paste a medical image... (e.g., 'Intermittent migraine with visual aura...')",
+  'input.placeholder.medication': "Enter medication name or capture an image of the packaging/pill... (e.g., 'Amoxicillin 500mg')",
+  'input.placeholder.interactions': "Add medications one at a time or comma-separated, or attach a package photo... (e.g., 'Warfarin, Ibuprofen')",
+  'input.removeBarcode': 'Remove barcode',
+  'input.maskedPreview': 'Masked before sending',
+  'input.aiActive': 'AI Active',
+  'input.aiShort': 'AI',
+  'input.upload': 'Upload',
+  'input.intake': 'Intake',
+  'input.capture': 'Capture',
+  'input.example': 'Example',
+  'input.generateCase': 'Generate Case',
+  'input.simulating': 'Simulating Case...',
+  'input.cancel': 'Cancel',
+  'input.reset': 'Reset',
+  'input.analyzing': 'Analyzing Data',
+  'input.submit.diagnosis': 'Initialize Diagnosis',
+  'input.submit.medication': 'Analyze Composition',
+  'input.submit.interactions': 'Add Medication',
+
+  // Interaction list
+  'interactions.empty': 'No medications added yet. Add at least two to check interactions.',
+  'interactions.check': 'Check Interactions',
+
+  // Trust bar and support
+  'trust.evidence': 'Evidence Based',
+  'trust.realtime': 'Real-time Analysis',
+  'trust.records': '10M+ Records',
+  'trust.accuracy': 'PhD Accuracy',
+  'support.title': 'Support Our Mission',
+  'support.body': 'Help us democratize precision health. If LV Health has empowered you, please consider sharing {app} with friends and family.',
+
+  // Diagnosis results
+  'diagnosis.title': 'Clinical Report',
+  'diagnosis.reference': 'ID: {id} • LV Health AI',
+  'diagnosis.receiving': 'Receiving analysis',
+  'diagnosis.detailedReport': 'Detailed Report',
+  'diagnosis.emergencyScreen': 'Emergency screen:',
+  'diagnosis.synopsis': 'Synopsis',
+  'diagnosis.disclaimer': 'Disclaimer:',
+  'diagnosis.immediateAction': 'Immediate Action',
+  'diagnosis.immediateActionBody': 'Symptoms suggest high priority conditions. Please consult a specialist.',
+  'diagnosis.routine': 'Routine Monitor',
+  'diagnosis.routineBody': 'Symptoms appear manageable. Follow standard care protocols.',
+  'diagnosis.primary': 'Primary Diagnosis',
+  'diagnosis.differential': 'Differential Diagnoses',
+  'results.redacted': 'Removed before sending to the model',
+  'export.fhir': 'FHIR',
+  'export.fhirTitle': 'Download as a FHIR R4 Bundle',
+
+  // Condition card
+  'condition.emergencyScreen': 'Emergency Screen',
+  'condition.primaryMatch': 'Primary Match',
+  'condition.mustRuleOut': 'Must Be Ruled Out',
+  'condition.highestConfidence': 'Highest Confidence Analysis',
+  'condition.seenInImage': 'Seen in image {images}',
+  'condition.ruleOut': 'Rule Out',
+  'condition.notEstimated': 'Not model-estimated',
+  'condition.confidence': 'Confidence',
+  'condition.newThisRound': 'New this round',
+  'condition.unchanged': 'Unchanged',
+  'condition.shift': '{shift}% from {previous}%',
+  'condition.matchedSymptoms': 'Matched Symptoms',
+  'condition.recommendations': 'Clinical Recommendations',
+  'urgency.low': 'Low',
+  'urgency.medium': 'Medium',
+  'urgency.high': 'High',
+  'urgency.critical': 'Critical',
+
+  // Medication results
+  'medication.addToInteractions': 'Add to Interaction Check',
+  'medication.saveToCabinet': 'Save to Cabinet',
+  'medication.exportPdf': 'Export PDF',
+  'medication.preparingPdf': 'Preparing PDF...',
+  'medication.exportFhir': 'Export FHIR',
+  'medication.confidence': 'Analysis Confidence',
+  'medication.manufacturer': 'Manufacturer',
+  'medication.origin': 'Origin: {country}',
+  'medication.specifications': 'Specifications',
+  'medication.type': 'Type:',
+  'medication.dosage': 'Dosage:',
+  'medication.active': 'Active:',
+  'medication.indications': 'Official Indications',
+  'medication.administration': 'Administration Guide',
+  'medication.warnings': 'Critical Warnings',
+  'medication.sideEffects': 'Potential Side Effects',
+
+  // Report modal
+  'report.title': 'Consultation Report',
+  'report.generatedBy': 'Generated by LV Assistant Doctor',
+  'report.printTitle': 'Clinical Report - LV Health',
+  'report.compiling': 'Compiling clinical data...',
+  'report.tryAgain': 'Try again',
+  'report.close': 'Close',
+  'report.downloadPdf': 'Download PDF',
+  'report.pdf': 'PDF',
+  'report.print': 'Print Document',
+  'report.printShort': 'Print',
+
+  // Contact modal
+  'contact.title': 'Contact Support',
+  'contact.body': 'Have questions about your diagnosis or need technical assistance? Our LV Health specialists are ready to help.',
+  'contact.copy': 'Copy to clipboard',
+  'contact.openMail': 'Open Mail App',
+  'contact.responseTime': 'Average Response Time: < 2 Hours',
+
+  // Camera
+  'camera.useBarcode': 'Use barcode',
+  'camera.hint': 'Point at the barcode, or take a photo',
+
+  // Prompts and alerts
+  'alert.camera': 'Unable to access camera. Please check permissions.',
+  'alert.cabinetSave': 'Unable to save to the cabinet. Please try again.',
+  'alert.queueSave': "You're offline and the analysis could not be saved for later. Please try again once connected.",
+  'alert.maxImages': 'You can attach up to {max} images.',
+  'alert.pdf': 'Unable to create the PDF. Please try again.',
+  'confirm.imageQuality': 'Some photos may be hard to read:\n\n{issues}\n\nSend anyway?',
+  'confirm.imageIssue': 'Image {index}: {issues}',
+  'confirm.expired': '{name}: {expiry}. Expired medication may be ineffective or unsafe.',
+  'confirm.saveAnyway': 'Save anyway?',
+  'confirm.exportAnyway': 'Export anyway?',
+  'quality.blurry': 'looks blurry',
+  'quality.glare': 'strong glare',
+
+  // Error fallbacks when the failure carries no message
+  'error.diagnosis': 'An error occurred during diagnosis.',
+  'error.refine': 'An error occurred while refining the diagnosis.',
+  'error.medication': 'An error occurred during medication analysis.',
+  'error.identify': 'Unable to identify the medication.',
+  'error.identifyOffline': 'Identifying a package needs a connection. Type the medication name instead.',
+  'error.interactions': 'An error occurred during the interaction check.',
+  'error.interactionsOffline': "Interaction checks need a connection. Try again once you're back online.",
+  'error.sample': 'Unable to generate a sample case.',
+  'error.report': 'Error loading report.',
+
+  // Model errors, by kind
+  'modelError.title.rate_limited': 'Service Busy',
+  'modelError.title.quota_exhausted': 'Usage Limit Reached',
+  'modelError.title.safety_blocked': 'Response Blocked',
+  'modelError.title.invalid_image': 'Image Not Accepted',
+  'modelError.title.malformed_output': 'Unexpected Response',
+  'modelError.title.network': 'Connection Problem',
+  'modelError.title.timeout': 'Request Timed Out',
+  'modelError.title.unavailable': 'Service Unavailable',
+  'modelError.title.unknown': 'Analysis Interrupted',
+  'modelError.rate_limited': 'The model service is busy right now. Please wait a moment and try again.',
+  'modelError.quota_exhausted': 'The model service has reached its usage quota. Please try again later.',
+  'modelError.safety_blocked': 'The model declined to answer under its safety policy. Rephrase the request and try again.',
+  'modelError.invalid_image': 'One of the images could not be processed. Remove or retake it and try again.',
+  'modelError.malformed_output': 'The model returned an incomplete response. Please try again.',
+  'modelError.network': 'Could not reach the model service. Check your connection and try again.',
+  'modelError.timeout': 'The model took too long to respond. Please try again.',
+  'modelError.unavailable': 'The model service is temporarily unavailable. Please try again shortly.',
+  'modelError.unknown': 'The model request failed. Please try again.',
+  'modelError.tryAgain': 'Try again',
+
+  // Input safety refusals, by reason
+  'refusal.title.prompt_injection': 'Request Not Processed',
+  'refusal.title.dangerous_dosage': "We Can't Help With This",
+  'refusal.prompt_injection': 'This request contains instructions aimed at the assistant rather than a description of symptoms or a medication. Please describe the health question in your own words.',
+  'refusal.dangerous_dosage': "We can't help with doses intended to cause harm. If you are thinking about hurting yourself, contact your local emergency number or a crisis line (e.g. 988 in the US, 116 123 in the UK and EU). For an accidental overdose, call your poison control centre now.",
+
+  // Emergency interstitial
+  'emergency.title': 'Possible Medical Emergency',
+  'emergency.subtitle': 'Detected before analysis completed',
+  'emergency.call': 'Call Emergency Services',
+  'emergency.otherNumbers': 'If 112 does not work in your country, dial your local emergency number (e.g. 911, 999, 000).',
+  'emergency.dismiss': 'I understand — show the analysis',
+  'redFlag.acute-coronary-syndrome.title': 'Chest pain with sweating',
+  'redFlag.acute-coronary-syndrome.advice': 'Call emergency services now. Do not drive yourself. If not allergic, chew 300 mg of aspirin while waiting.',
+  'redFlag.acute-coronary-syndrome.condition': 'Acute Coronary Syndrome',
+  'redFlag.thunderclap-headache.title': 'Sudden "worst ever" headache',
+  'redFlag.thunderclap-headache.advice': 'A sudden, severe headache must be assessed in an emergency department immediately.',
+  'redFlag.thunderclap-headache.condition': 'Subarachnoid Haemorrhage',
+  'redFlag.stroke.title': 'One-sided weakness or numbness',
+  'redFlag.stroke.advice': 'Note the time symptoms started and call emergency services immediately. Every minute matters.',
+  'redFlag.stroke.condition': 'Acute Stroke',
+  'redFlag.suicidal-ideation.title': 'Thoughts of suicide or self-harm',
+  'redFlag.suicidal-ideation.advice': 'You deserve support right now. Contact your local emergency number or a crisis line (e.g. 988 in the US, 116 123 in the UK and EU), or go to the nearest emergency department.',
+  'redFlag.suicidal-ideation.condition': 'Suicidal Ideation — Psychiatric Emergency',
+  'redFlag.anaphylaxis.title': 'Signs of anaphylaxis',
+  'redFlag.anaphylaxis.advice': 'Use an adrenaline auto-injector if available and call emergency services immediately.',
+  'redFlag.anaphylaxis.condition': 'Anaphylaxis',
+  'redFlag.meningitis.title': 'Stiff neck with fever or rash',
+  'redFlag.meningitis.advice': 'Seek emergency care now. Meningitis can progress within hours.',
+  'redFlag.meningitis.condition': 'Bacterial Meningitis',
+  'redFlag.gi-haemorrhage.title': 'Vomiting or passing blood',
+  'redFlag.gi-haemorrhage.advice': 'Seek emergency care immediately, especially if you feel faint or dizzy.',
+  'redFlag.gi-haemorrhage.condition': 'Acute Gastrointestinal Haemorrhage',
+  'redFlag.critical-vitals.title': 'Dangerous vital signs',
+  'redFlag.critical-vitals.advice': 'The vital signs entered are in a dangerous range. Seek emergency assessment now.',
+  'redFlag.critical-vitals.condition': 'Physiological Instability — Possible Sepsis or Shock',
+  'redFlag.injectedDescription': "Flagged by the local emergency screen ({title}). This must be excluded urgently regardless of the model's estimate.",
+
+  // Intake form
+  'intake.age': 'Age',
+  'intake.years': 'Years',
+  'intake.sex': 'Sex',
+  'intake.notStated': 'Not stated',
+  'intake.female': 'Female',
+  'intake.male': 'Male',
+  'intake.intersex': 'Intersex',
+  'intake.pregnancy': 'Pregnancy',
+  'intake.notPregnant': 'Not pregnant',
+  'intake.pregnant': 'Pregnant',
+  'intake.possiblyPregnant': 'Possibly pregnant',
+  'intake.unknown': 'Unknown',
+  'intake.weight': 'Weight (kg)',
+  'intake.chronicConditions': 'Chronic Conditions',
+  'intake.chronicConditionsPlaceholder': 'e.g. Asthma, Type 2 diabetes',
+  'intake.currentMedications': 'Current Medications',
+  'intake.currentMedicationsPlaceholder': 'e.g. Metformin 500mg',
+  'intake.addFromCabinet': '+ Add from my cabinet ({count})',
+  'intake.allergies': 'Allergies',
+  'intake.allergiesPlaceholder': 'e.g. Penicillin',
+  'intake.temperature': 'Temp (°C)',
+  'intake.heartRate': 'Heart Rate',
+  'intake.systolic': 'Systolic BP',
+  'intake.diastolic': 'Diastolic BP',
+  'intake.respiratoryRate': 'Resp. Rate',
+  'intake.spo2': 'SpO2 (%)',
+  'intake.onset': 'Symptom Onset',
+  'intake.onsetPlaceholder': 'e.g. Sudden, while exercising',
+  'intake.duration': 'Duration',
+  'intake.durationPlaceholder': 'e.g. 3 days, intermittent',
+
+  // Follow-up questions
+  'followUp.title': 'Clarifying Questions',
+  'followUp.round': 'Round {round}',
+  'followUp.category.onset': 'Onset',
+  'followUp.category.duration': 'Duration',
+  'followUp.category.severity': 'Severity',
+  'followUp.category.red_flag': 'Red Flag',
+  'followUp.category.history': 'History',
+  'followUp.category.other': 'Context',
+  'followUp.placeholder': 'Your answer (optional)',
+  'followUp.submit': 'Refine Diagnosis',
+
+  // Interaction results
+  'severity.None': 'None',
+  'severity.Minor': 'Minor',
+  'severity.Moderate': 'Moderate',
+  'severity.Major': 'Major',
+  'severity.Contraindicated': 'Contraindicated',
+  'interactions.notAvailable': 'N/A',
+  'interactions.mechanism': 'Mechanism',
+  'interactions.clinicalEffect': 'Clinical Effect',
+  'interactions.management': 'Management',
+  'interactions.assessment': 'Regimen Assessment',
+  'interactions.significant': 'Significant Interactions',
+
+  // History panel
+  'history.title': 'Consultation History',
+  'history.search': 'Search by condition or drug name',
+  'history.empty': 'No saved consultations yet.',
+  'history.noMatches': 'No consultations match your search.',
+  'history.diagnosis': 'Diagnosis',
+  'history.medication': 'Medication',
+  'history.delete': 'Delete entry',
+
+  // Cabinet panel
+  'cabinet.title': 'Medicine Cabinet',
+  'cabinet.undo': 'Undo',
+  'cabinet.markTaken': 'Mark taken',
+  'cabinet.skipDose': 'Skip dose',
+  'cabinet.expiring': 'Expired or expiring soon ({count}): {names}',
+  'cabinet.enableReminders': 'Enable dose reminders',
+  'cabinet.empty': 'Your cabinet is empty. Analyze a medication and choose "Save to Cabinet" to track doses.',
+  'cabinet.remove': 'Remove from cabinet',
+  'cabinet.today': 'Today',
+  'cabinet.noDosesToday': 'No doses scheduled today.',
+  'cabinet.lastWeek': 'Last 7 days:',
+  'cabinet.taken': '{count} taken',
+  'cabinet.skipped': '{count} skipped',
+  'cabinet.missed': '{count} missed',
+
+  // Cabinet save dialog
+  'cabinetSave.title': 'Save to Cabinet',
+  'cabinetSave.name': 'Name',
+  'cabinetSave.dose': 'Dose',
+  'cabinetSave.dosePlaceholder': 'e.g. 1 tablet',
+  'cabinetSave.times': 'Dose Times',
+  'cabinetSave.removeTime': 'Remove time',
+  'cabinetSave.addTime': 'Add time',
+  'cabinetSave.days': 'Days',
+  'cabinetSave.daysHint': '(none selected = every day)',
+  'cabinetSave.start': 'Start',
+  'cabinetSave.end': 'End (optional)',
+  'cabinetSave.reminders': 'Remind me at dose times',
+  'cabinetSave.remindersUnsupported': 'Reminders are not supported in this browser',
+  'cabinetSave.cancel': 'Cancel',
+  'cabinetSave.save': 'Save',
+
+  // Dose schedules and reminders
+  'day.0': 'Sun',
+  'day.1': 'Mon',
+  'day.2': 'Tue',
+  'day.3': 'Wed',
+  'day.4': 'Thu',
+  'day.5': 'Fri',
+  'day.6': 'Sat',
+  'schedule.dose': 'Dose',
+  'schedule.at': 'at {times}',
+  'schedule.on': 'on {days}',
+  'schedule.daily': 'daily',
+  'reminder.title': 'Time for {name}',
+  'reminder.body': '{dose} scheduled for {time}',
+  'reminder.taken': 'Taken',
+  'reminder.skip': 'Skip',
+
+  // Expiry
+  'expiry.unknown': 'Expiry date unknown',
+  'expiry.expiredMonth': 'Expired end of {date}',
+  'expiry.expiredOn': 'Expired on {date}',
+  'expiry.today': 'Expires today',
+  'expiry.tomorrow': 'Expires tomorrow ({date})',
+  'expiry.inDays': 'Expires in {days} days ({date})',
+  'expiry.validUntil': 'Valid until {date}',
+  'expiry.produced': 'Produced {date}',
+
+  // Packaging dates and where each value came from
+  'packaging.title': 'Dates (From Image)',
+  'packaging.production': 'Mfg Date',
+  'packaging.expiry': 'Exp Date',
+  'packaging.lot': 'Lot',
+  'packaging.gtin': 'GTIN',
+  'packaging.serial': 'Serial',
+  'packaging.ocrDisagrees': 'OCR read {value}; check the package',
+  'source.ocr': 'OCR',
+  'source.ocr.title': 'Read on-device from the photo; the model could not read it',
+  'source.model': 'Model',
+  'source.model.title': 'Read by the model only',
+  'source.ocr_and_model': 'OCR + Model',
+  'source.ocr_and_model.title': 'On-device OCR and the model agree',
+  'source.barcode': 'Barcode',
+  'source.barcode.title': 'Decoded from the package barcode; exact',
+
+  // Terminology codes
+  'codes.unverified': 'Unverified',
+  'codes.unverifiedTitle': 'Not found in the offline {system} list. Verify before use.',
+  'codes.modelLabel': 'Model label: {label}',
+
+  // Personal details
+  'pii.name': 'Name',
+  'pii.email': 'Email',
+  'pii.phone': 'Phone number',
+  'pii.address': 'Address',
+  'pii.id_number': 'ID number',
+  'pii.date_of_birth': 'Date of birth',
+  'redaction.found': '{kind} in {field}',
+
+  // Images
+  'image.label': 'Image {index}',
+  'gallery.qualityHint': '{issues}. Retake or crop for a clearer result.',
+  'gallery.remove': 'Remove image',
+  'gallery.edit': 'Crop or rotate',
+  'gallery.moveLeft': 'Move left',
+  'gallery.moveRight': 'Move right',
+  'gallery.caption': 'Caption (optional)',
+  'gallery.preparing': 'Preparing',
+  'findings.title': 'Image Findings',
+  'editor.title': 'Edit Image {index}',
+  'editor.cropHint': 'Drag across the photo to crop. Rotating clears the crop and blurs.',
+  'editor.blurHint': 'Drag over names, addresses or ID numbers to blur them before sending.',
+  'editor.close': 'Close',
+  'editor.crop': 'Crop',
+  'editor.blur': 'Blur',
+  'editor.rotateLeft': 'Rotate left',
+  'editor.rotateRight': 'Rotate right',
+  'editor.clearCrop': 'Clear crop',
+  'editor.clearBlurs': 'Clear blurs ({count})',
+  'editor.apply': 'Apply',
+
+  // Cached results
+  'cache.source': 'From cache',
+  'cache.notice': '{source} · analysed {date}',
+  'cache.reanalyze': 'Re-analyze fresh',
+
+  // Offline queue
+  'queue.offline': "You're offline. Diagnosis and medication analyses are queued and run automatically when you reconnect. History and saved reports stay available.",
+  'queue.ready': 'Queued analyses ready: {count}',
+  'queue.viewHistory': 'View in history',
+  'queue.dismiss': 'Dismiss',
+  'queue.title': 'Queued ({count})',
+  'queue.retry': 'Retry',
+  'queue.notSent': 'Not sent: {reason}',
+  'queue.failed': 'Analysis failed. Retry or remove it.',
+  'queue.images': 'Images: {count}',
+  'queue.queuedAt': 'Queued {time}',
+  'queue.remove': 'Remove from queue',
+
+  // Consultation report
+  'report.centre': 'LV Health Medical Centre',
+  'report.date': 'Date:',
+  'report.patientId': 'Patient ID:',
+  'report.chiefComplaint': 'Chief Complaint',
+  'report.impression': 'Clinical Impression',
+  'report.differential': 'Differential Diagnosis',
+  'report.plan': 'Recommended Action Plan',
+  'report.disclaimer': 'Medical Disclaimer',
+
+  // PDF export
+  'pdf.page': 'Page {page} of {count}',
+  'pdf.footerShortened': 'Shortened here; the full disclaimer is printed in the document.',
+  'pdf.patientId': 'Patient ID {id}',
+  'pdf.submittedImage': 'Submitted Image',
+  'pdf.submittedImages': 'Submitted Images',
+  'pdf.monograph': 'Medication Monograph',
+  'pdf.identification': 'Identification',
+  'pdf.brandName': 'Brand name',
+  'pdf.genericName': 'Generic name',
+  'pdf.analyzedImage': 'Analyzed Image',
+  'pdf.analyzedImages': 'Analyzed Images',
+  'pdf.form': 'Form',
+  'pdf.dosage': 'Dosage',
+  'pdf.composition': 'Composition',
+  'pdf.manufacturerName': 'Name',
+  'pdf.origin': 'Country of origin',
+  'pdf.distribution': 'Distributed in',
+  'pdf.dates': 'Dates',
+  'pdf.productionDate': 'Production date',
+  'pdf.expiryDate': 'Expiry date',
+  'pdf.expiryStatus': 'Expiry status',
+  'pdf.lotNumber': 'Lot number',
+  'pdf.serialNumber': 'Serial number',
+  'pdf.indications': 'Indications',
+  'pdf.administration': 'Administration',
+  'pdf.sideEffects': 'Side Effects',
+  'pdf.warnings': 'Warnings',
+  'pdf.disclaimer': 'Disclaimer',
+  'pdf.source.ocr': 'read by on-device OCR',
+  'pdf.source.model': 'read by the model',
+  'pdf.source.ocr_and_model': 'OCR and model agree',
+  'pdf.source.barcode': 'from the package barcode',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
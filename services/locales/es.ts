@@ -0,0 +1,474 @@
+import { Messages } from "./en";
+
+export const es: Messages = {
+  // Header
+  'header.tagline': 'Con la tecnología de LV Health',
+  'header.history': 'Historial',
+  'header.historyTitle': 'Historial de consultas',
+  'header.cabinet': 'Botiquín',
+  'header.cabinetTitle': 'Botiquín de medicamentos',
+  'header.contact': 'Contacto',
+  'header.online': 'Sistema en línea',
+  'header.offline': 'Sin conexión',
+  'header.offlineQueued': 'Sin conexión · {count} en cola',
+  'header.offlineTitle': 'Trabajando sin conexión',
+  'header.offlineTitleQueued': '{count} en cola hasta que vuelva la conexión',
+  'header.language': 'Idioma',
+  'nav.diagnosis': 'Diagnóstico',
+  'nav.medication': 'Medicamentos',
+  'nav.interactions': 'Interacciones',
+
+  // Hero
+  'hero.iconAlt': 'Icono 3D',
+  'hero.diagnosis.badge': 'Motor de diagnóstico neuronal v2.0',
+  'hero.diagnosis.title': 'Más allá del diagnóstico.',
+  'hero.diagnosis.subtitle': 'Claridad absoluta.',
+  'hero.diagnosis.body': '{highlight} para análisis médicos complejos. Impulsado por redes neuronales avanzadas.',
+  'hero.diagnosis.highlight': 'Precisión de nivel doctoral',
+  'hero.medication.badge': 'IA de visión farmacéutica',
+  'hero.medication.title': 'Conoce tus medicamentos.',
+  'hero.medication.subtitle': 'Pureza verificada.',
+  'hero.medication.body': 'Analiza compuestos farmacéuticos al instante. Extrae caducidad, origen y datos clínicos con {highlight}.',
+  'hero.medication.highlight': 'un 100 % de precisión',
+  'hero.interactions.badge': 'Inteligencia de interacciones',
+  'hero.interactions.title': 'Combina con cuidado.',
+  'hero.interactions.subtitle': 'Cada par revisado.',
+  'hero.interactions.body': 'Crea tu lista de medicamentos y revisa {highlight} según mecanismo, gravedad y manejo.',
+  'hero.interactions.highlight': 'cada combinación',
+
+  // Input
+  'input.placeholder.diagnosis': "Describe los síntomas con detalle o pega una imagen médica... (p. ej., 'Migraña intermitente con aura visual...')",
+  'input.placeholder.medication': "Escribe el nombre del medicamento o fotografía el envase/la pastilla... (p. ej., 'Amoxicilina 500 mg')",
+  'input.placeholder.interactions': "Añade medicamentos uno a uno o separados por comas, o adjunta una foto del envase... (p. ej., 'Warfarina, Ibuprofeno')",
+  'input.removeBarcode': 'Quitar código de barras',
+  'input.maskedPreview': 'Se ocultará antes de enviar',
+  'input.aiActive': 'IA activa',
+  'input.aiShort': 'IA',
+  'input.upload': 'Subir',
+  'input.intake': 'Ficha',
+  'input.capture': 'Capturar',
+  'input.example': 'Ejemplo',
+  'input.generateCase': 'Generar caso',
+  'input.simulating': 'Simulando caso...',
+  'input.cancel': 'Cancelar',
+  'input.reset': 'Restablecer',
+  'input.analyzing': 'Analizando datos',
+  'input.submit.diagnosis': 'Iniciar diagnóstico',
+  'input.submit.medication': 'Analizar composición',
+  'input.submit.interactions': 'Añadir medicamento',
+
+  // Interaction list
+  'interactions.empty': 'Aún no hay medicamentos. Añade al menos dos para revisar interacciones.',
+  'interactions.check': 'Revisar interacciones',
+
+  // Trust bar and support
+  'trust.evidence': 'Basado en evidencia',
+  'trust.realtime': 'Análisis en tiempo real',
+  'trust.records': 'Más de 10 M de registros',
+  'trust.accuracy': 'Precisión doctoral',
+  'support.title': 'Apoya nuestra misión',
+  'support.body': 'Ayúdanos a democratizar la salud de precisión. Si LV Health te ha sido útil, considera compartir {app} con tus amigos y familiares.',
+
+  // Diagnosis results
+  'diagnosis.title': 'Informe clínico',
+  'diagnosis.reference': 'ID: {id} • LV Health AI',
+  'diagnosis.receiving': 'Recibiendo análisis',
+  'diagnosis.detailedReport': 'Informe detallado',
+  'diagnosis.emergencyScreen': 'Cribado de urgencias:',
+  'diagnosis.synopsis': 'Sinopsis',
+  'diagnosis.disclaimer': 'Aviso:',
+  'diagnosis.immediateAction': 'Acción inmediata',
+  'diagnosis.immediateActionBody': 'Los síntomas sugieren afecciones de alta prioridad. Consulta a un especialista.',
+  'diagnosis.routine': 'Seguimiento rutinario',
+  'diagnosis.routineBody': 'Los síntomas parecen manejables. Sigue los protocolos de atención habituales.',
+  'diagnosis.primary': 'Diagnóstico principal',
+  'diagnosis.differential': 'Diagnósticos diferenciales',
+  'results.redacted': 'Eliminado antes de enviarlo al modelo',
+  'export.fhir': 'FHIR',
+  'export.fhirTitle': 'Descargar como paquete FHIR R4',
+
+  // Condition card
+  'condition.emergencyScreen': 'Cribado de urgencias',
+  'condition.primaryMatch': 'Coincidencia principal',
+  'condition.mustRuleOut': 'Debe descartarse',
+  'condition.highestConfidence': 'Análisis de mayor confianza',
+  'condition.seenInImage': 'Visto en la imagen {images}',
+  'condition.ruleOut': 'Descartar',
+  'condition.notEstimated': 'Sin estimación del modelo',
+  'condition.confidence': 'Confianza',
+  'condition.newThisRound': 'Nuevo en esta ronda',
+  'condition.unchanged': 'Sin cambios',
+  'condition.shift': '{shift}% desde {previous}%',
+  'condition.matchedSymptoms': 'Síntomas coincidentes',
+  'condition.recommendations': 'Recomendaciones clínicas',
+  'urgency.low': 'Baja',
+  'urgency.medium': 'Media',
+  'urgency.high': 'Alta',
+  'urgency.critical': 'Crítica',
+
+  // Medication results
+  'medication.addToInteractions': 'Añadir a la revisión de interacciones',
+  'medication.saveToCabinet': 'Guardar en el botiquín',
+  'medication.exportPdf': 'Exportar PDF',
+  'medication.preparingPdf': 'Preparando PDF...',
+  'medication.exportFhir': 'Exportar FHIR',
+  'medication.confidence': 'Confianza del análisis',
+  'medication.manufacturer': 'Fabricante',
+  'medication.origin': 'Origen: {country}',
+  'medication.specifications': 'Especificaciones',
+  'medication.type': 'Tipo:',
+  'medication.dosage': 'Dosis:',
+  'medication.active': 'Principio activo:',
+  'medication.indications': 'Indicaciones oficiales',
+  'medication.administration': 'Guía de administración',
+  'medication.warnings': 'Advertencias críticas',
+  'medication.sideEffects': 'Posibles efectos secundarios',
+
+  // Report modal
+  'report.title': 'Informe de consulta',
+  'report.generatedBy': 'Generado por LV Assistant Doctor',
+  'report.printTitle': 'Informe clínico - LV Health',
+  'report.compiling': 'Recopilando datos clínicos...',
+  'report.tryAgain': 'Reintentar',
+  'report.close': 'Cerrar',
+  'report.downloadPdf': 'Descargar PDF',
+  'report.pdf': 'PDF',
+  'report.print': 'Imprimir documento',
+  'report.printShort': 'Imprimir',
+
+  // Contact modal
+  'contact.title': 'Contactar con soporte',
+  'contact.body': '¿Tienes preguntas sobre tu diagnóstico o necesitas asistencia técnica? Los especialistas de LV Health están listos para ayudarte.',
+  'contact.copy': 'Copiar al portapapeles',
+  'contact.openMail': 'Abrir la aplicación de correo',
+  'contact.responseTime': 'Tiempo medio de respuesta: < 2 horas',
+
+  // Camera
+  'camera.useBarcode': 'Usar código',
+  'camera.hint': 'Apunta al código de barras o haz una foto',
+
+  // Prompts and alerts
+  'alert.camera': 'No se puede acceder a la cámara. Revisa los permisos.',
+  'alert.cabinetSave': 'No se pudo guardar en el botiquín. Inténtalo de nuevo.',
+  'alert.queueSave': 'No hay conexión y no se pudo guardar el análisis para más tarde. Inténtalo de nuevo cuando vuelvas a estar en línea.',
+  'alert.maxImages': 'Puedes adjuntar hasta {max} imágenes.',
+  'alert.pdf': 'No se pudo crear el PDF. Inténtalo de nuevo.',
+  'confirm.imageQuality': 'Algunas fotos pueden ser difíciles de leer:\n\n{issues}\n\n¿Enviar de todos modos?',
+  'confirm.imageIssue': 'Imagen {index}: {issues}',
+  'confirm.expired': '{name}: {expiry}. Un medicamento caducado puede ser ineficaz o peligroso.',
+  'confirm.saveAnyway': '¿Guardar de todos modos?',
+  'confirm.exportAnyway': '¿Exportar de todos modos?',
+  'quality.blurry': 'parece borrosa',
+  'quality.glare': 'reflejo intenso',
+
+  // Error fallbacks when the failure carries no message
+  'error.diagnosis': 'Se produjo un error durante el diagnóstico.',
+  'error.refine': 'Se produjo un error al afinar el diagnóstico.',
+  'error.medication': 'Se produjo un error durante el análisis del medicamento.',
+  'error.identify': 'No se pudo identificar el medicamento.',
+  'error.identifyOffline': 'Identificar un envase requiere conexión. Escribe el nombre del medicamento.',
+  'error.interactions': 'Se produjo un error durante la revisión de interacciones.',
+  'error.interactionsOffline': 'La revisión de interacciones requiere conexión. Inténtalo de nuevo cuando vuelvas a estar en línea.',
+  'error.sample': 'No se pudo generar un caso de ejemplo.',
+  'error.report': 'Error al cargar el informe.',
+
+  // Model errors, by kind
+  'modelError.title.rate_limited': 'Servicio ocupado',
+  'modelError.title.quota_exhausted': 'Límite de uso alcanzado',
+  'modelError.title.safety_blocked': 'Respuesta bloqueada',
+  'modelError.title.invalid_image': 'Imagen no aceptada',
+  'modelError.title.malformed_output': 'Respuesta inesperada',
+  'modelError.title.network': 'Problema de conexión',
+  'modelError.title.timeout': 'Tiempo de espera agotado',
+  'modelError.title.unavailable': 'Servicio no disponible',
+  'modelError.title.unknown': 'Análisis interrumpido',
+  'modelError.rate_limited': 'El servicio del modelo está ocupado en este momento. Espera un momento y vuelve a intentarlo.',
+  'modelError.quota_exhausted': 'El servicio del modelo ha alcanzado su cuota de uso. Inténtalo de nuevo más tarde.',
+  'modelError.safety_blocked': 'El modelo no respondió por su política de seguridad. Reformula la solicitud e inténtalo de nuevo.',
+  'modelError.invalid_image': 'No se pudo procesar una de las imágenes. Elimínala o vuelve a tomarla e inténtalo de nuevo.',
+  'modelError.malformed_output': 'El modelo devolvió una respuesta incompleta. Inténtalo de nuevo.',
+  'modelError.network': 'No se pudo conectar con el servicio del modelo. Comprueba tu conexión e inténtalo de nuevo.',
+  'modelError.timeout': 'El modelo tardó demasiado en responder. Inténtalo de nuevo.',
+  'modelError.unavailable': 'El servicio del modelo no está disponible temporalmente. Inténtalo de nuevo en breve.',
+  'modelError.unknown': 'La solicitud al modelo falló. Inténtalo de nuevo.',
+  'modelError.tryAgain': 'Reintentar',
+
+  // Input safety refusals, by reason
+  'refusal.title.prompt_injection': 'Solicitud no procesada',
+  'refusal.title.dangerous_dosage': 'No podemos ayudar con esto',
+  'refusal.prompt_injection': 'Esta solicitud contiene instrucciones dirigidas al asistente en lugar de una descripción de síntomas o de un medicamento. Describe tu consulta de salud con tus propias palabras.',
+  'refusal.dangerous_dosage': 'No podemos ayudar con dosis destinadas a causar daño. Si estás pensando en hacerte daño, contacta con tu número de emergencias local o una línea de crisis (p. ej., 024 en España, 988 en EE. UU.). Ante una sobredosis accidental, llama ahora a tu centro de toxicología.',
+
+  // Emergency interstitial
+  'emergency.title': 'Posible emergencia médica',
+  'emergency.subtitle': 'Detectada antes de completar el análisis',
+  'emergency.call': 'Llamar a emergencias',
+  'emergency.otherNumbers': 'Si el 112 no funciona en tu país, marca tu número de emergencias local (p. ej., 911, 999, 000).',
+  'emergency.dismiss': 'Entiendo — mostrar el análisis',
+  'redFlag.acute-coronary-syndrome.title': 'Dolor torácico con sudoración',
+  'redFlag.acute-coronary-syndrome.advice': 'Llama a emergencias ahora. No conduzcas tú mismo. Si no eres alérgico, mastica 300 mg de aspirina mientras esperas.',
+  'redFlag.acute-coronary-syndrome.condition': 'Síndrome coronario agudo',
+  'redFlag.thunderclap-headache.title': 'Cefalea súbita, "la peor de mi vida"',
+  'redFlag.thunderclap-headache.advice': 'Un dolor de cabeza súbito e intenso debe valorarse de inmediato en un servicio de urgencias.',
+  'redFlag.thunderclap-headache.condition': 'Hemorragia subaracnoidea',
+  'redFlag.stroke.title': 'Debilidad o entumecimiento de un lado',
+  'redFlag.stroke.advice': 'Anota la hora en que empezaron los síntomas y llama a emergencias de inmediato. Cada minuto cuenta.',
+  'redFlag.stroke.condition': 'Ictus agudo',
+  'redFlag.suicidal-ideation.title': 'Pensamientos de suicidio o autolesión',
+  'redFlag.suicidal-ideation.advice': 'Mereces apoyo ahora mismo. Contacta con tu número de emergencias local o una línea de crisis (p. ej., 024 en España, 988 en EE. UU.), o acude al servicio de urgencias más cercano.',
+  'redFlag.suicidal-ideation.condition': 'Ideación suicida: urgencia psiquiátrica',
+  'redFlag.anaphylaxis.title': 'Signos de anafilaxia',
+  'redFlag.anaphylaxis.advice': 'Usa un autoinyector de adrenalina si dispones de él y llama a emergencias de inmediato.',
+  'redFlag.anaphylaxis.condition': 'Anafilaxia',
+  'redFlag.meningitis.title': 'Rigidez de nuca con fiebre o erupción',
+  'redFlag.meningitis.advice': 'Busca atención urgente ahora. La meningitis puede avanzar en cuestión de horas.',
+  'redFlag.meningitis.condition': 'Meningitis bacteriana',
+  'redFlag.gi-haemorrhage.title': 'Vómito o heces con sangre',
+  'redFlag.gi-haemorrhage.advice': 'Busca atención urgente de inmediato, sobre todo si te sientes mareado o a punto de desmayarte.',
+  'redFlag.gi-haemorrhage.condition': 'Hemorragia gastrointestinal aguda',
+  'redFlag.critical-vitals.title': 'Constantes vitales peligrosas',
+  'redFlag.critical-vitals.advice': 'Las constantes vitales introducidas están en un rango peligroso. Busca una valoración urgente ahora.',
+  'redFlag.critical-vitals.condition': 'Inestabilidad fisiológica: posible sepsis o shock',
+  'redFlag.injectedDescription': 'Detectado por el control local de urgencias ({title}). Debe descartarse con urgencia, sea cual sea la estimación del modelo.',
+
+  // Intake form
+  'intake.age': 'Edad',
+  'intake.years': 'Años',
+  'intake.sex': 'Sexo',
+  'intake.notStated': 'Sin indicar',
+  'intake.female': 'Femenino',
+  'intake.male': 'Masculino',
+  'intake.intersex': 'Intersexual',
+  'intake.pregnancy': 'Embarazo',
+  'intake.notPregnant': 'No embarazada',
+  'intake.pregnant': 'Embarazada',
+  'intake.possiblyPregnant': 'Posible embarazo',
+  'intake.unknown': 'Desconocido',
+  'intake.weight': 'Peso (kg)',
+  'intake.chronicConditions': 'Enfermedades crónicas',
+  'intake.chronicConditionsPlaceholder': 'p. ej., Asma, Diabetes tipo 2',
+  'intake.currentMedications': 'Medicación actual',
+  'intake.currentMedicationsPlaceholder': 'p. ej., Metformina 500mg',
+  'intake.addFromCabinet': '+ Añadir desde mi botiquín ({count})',
+  'intake.allergies': 'Alergias',
+  'intake.allergiesPlaceholder': 'p. ej., Penicilina',
+  'intake.temperature': 'Temp. (°C)',
+  'intake.heartRate': 'Frecuencia cardiaca',
+  'intake.systolic': 'PA sistólica',
+  'intake.diastolic': 'PA diastólica',
+  'intake.respiratoryRate': 'Frec. respiratoria',
+  'intake.spo2': 'SpO2 (%)',
+  'intake.onset': 'Inicio de los síntomas',
+  'intake.onsetPlaceholder': 'p. ej., Repentino, haciendo ejercicio',
+  'intake.duration': 'Duración',
+  'intake.durationPlaceholder': 'p. ej., 3 días, intermitente',
+
+  // Follow-up questions
+  'followUp.title': 'Preguntas aclaratorias',
+  'followUp.round': 'Ronda {round}',
+  'followUp.category.onset': 'Inicio',
+  'followUp.category.duration': 'Duración',
+  'followUp.category.severity': 'Gravedad',
+  'followUp.category.red_flag': 'Señal de alarma',
+  'followUp.category.history': 'Antecedentes',
+  'followUp.category.other': 'Contexto',
+  'followUp.placeholder': 'Tu respuesta (opcional)',
+  'followUp.submit': 'Afinar diagnóstico',
+
+  // Interaction results
+  'severity.None': 'Ninguna',
+  'severity.Minor': 'Leve',
+  'severity.Moderate': 'Moderada',
+  'severity.Major': 'Grave',
+  'severity.Contraindicated': 'Contraindicada',
+  'interactions.notAvailable': 'N/D',
+  'interactions.mechanism': 'Mecanismo',
+  'interactions.clinicalEffect': 'Efecto clínico',
+  'interactions.management': 'Manejo',
+  'interactions.assessment': 'Valoración del tratamiento',
+  'interactions.significant': 'Interacciones significativas',
+
+  // History panel
+  'history.title': 'Historial de consultas',
+  'history.search': 'Buscar por enfermedad o medicamento',
+  'history.empty': 'Aún no hay consultas guardadas.',
+  'history.noMatches': 'Ninguna consulta coincide con tu búsqueda.',
+  'history.diagnosis': 'Diagnóstico',
+  'history.medication': 'Medicamento',
+  'history.delete': 'Eliminar entrada',
+
+  // Cabinet panel
+  'cabinet.title': 'Botiquín',
+  'cabinet.undo': 'Deshacer',
+  'cabinet.markTaken': 'Marcar como tomada',
+  'cabinet.skipDose': 'Omitir dosis',
+  'cabinet.expiring': 'Caducados o a punto de caducar ({count}): {names}',
+  'cabinet.enableReminders': 'Activar recordatorios de dosis',
+  'cabinet.empty': 'Tu botiquín está vacío. Analiza un medicamento y elige "Guardar en el botiquín" para seguir tus dosis.',
+  'cabinet.remove': 'Quitar del botiquín',
+  'cabinet.today': 'Hoy',
+  'cabinet.noDosesToday': 'No hay dosis programadas hoy.',
+  'cabinet.lastWeek': 'Últimos 7 días:',
+  'cabinet.taken': 'tomadas: {count}',
+  'cabinet.skipped': 'omitidas: {count}',
+  'cabinet.missed': 'olvidadas: {count}',
+
+  // Cabinet save dialog
+  'cabinetSave.title': 'Guardar en el botiquín',
+  'cabinetSave.name': 'Nombre',
+  'cabinetSave.dose': 'Dosis',
+  'cabinetSave.dosePlaceholder': 'p. ej., 1 comprimido',
+  'cabinetSave.times': 'Horas de las dosis',
+  'cabinetSave.removeTime': 'Quitar hora',
+  'cabinetSave.addTime': 'Añadir hora',
+  'cabinetSave.days': 'Días',
+  'cabinetSave.daysHint': '(ninguno = todos los días)',
+  'cabinetSave.start': 'Inicio',
+  'cabinetSave.end': 'Fin (opcional)',
+  'cabinetSave.reminders': 'Recordármelo a la hora de cada dosis',
+  'cabinetSave.remindersUnsupported': 'Este navegador no admite recordatorios',
+  'cabinetSave.cancel': 'Cancelar',
+  'cabinetSave.save': 'Guardar',
+
+  // Dose schedules and reminders
+  'day.0': 'Dom',
+  'day.1': 'Lun',
+  'day.2': 'Mar',
+  'day.3': 'Mié',
+  'day.4': 'Jue',
+  'day.5': 'Vie',
+  'day.6': 'Sáb',
+  'schedule.dose': 'Dosis',
+  'schedule.at': 'a las {times}',
+  'schedule.on': 'los {days}',
+  'schedule.daily': 'a diario',
+  'reminder.title': 'Hora de tomar {name}',
+  'reminder.body': '{dose} programada para las {time}',
+  'reminder.taken': 'Tomada',
+  'reminder.skip': 'Omitir',
+
+  // Expiry
+  'expiry.unknown': 'Fecha de caducidad desconocida',
+  'expiry.expiredMonth': 'Caducó a finales de {date}',
+  'expiry.expiredOn': 'Caducó el {date}',
+  'expiry.today': 'Caduca hoy',
+  'expiry.tomorrow': 'Caduca mañana ({date})',
+  'expiry.inDays': 'Caduca en {days} días ({date})',
+  'expiry.validUntil': 'Válido hasta {date}',
+  'expiry.produced': 'Fabricado en {date}',
+
+  // Packaging dates and where each value came from
+  'packaging.title': 'Fechas (de la imagen)',
+  'packaging.production': 'Fabricación',
+  'packaging.expiry': 'Caducidad',
+  'packaging.lot': 'Lote',
+  'packaging.gtin': 'GTIN',
+  'packaging.serial': 'N.º de serie',
+  'packaging.ocrDisagrees': 'El OCR leyó {value}; comprueba el envase',
+  'source.ocr': 'OCR',
+  'source.ocr.title': 'Leído en el dispositivo a partir de la foto; el modelo no pudo leerlo',
+  'source.model': 'Modelo',
+  'source.model.title': 'Leído solo por el modelo',
+  'source.ocr_and_model': 'OCR + Modelo',
+  'source.ocr_and_model.title': 'El OCR del dispositivo y el modelo coinciden',
+  'source.barcode': 'Código de barras',
+  'source.barcode.title': 'Decodificado del código de barras del envase; exacto',
+
+  // Terminology codes
+  'codes.unverified': 'Sin verificar',
+  'codes.unverifiedTitle': 'No figura en la lista {system} sin conexión. Verifícalo antes de usarlo.',
+  'codes.modelLabel': 'Etiqueta del modelo: {label}',
+
+  // Personal details
+  'pii.name': 'Nombre',
+  'pii.email': 'Correo electrónico',
+  'pii.phone': 'Teléfono',
+  'pii.address': 'Dirección',
+  'pii.id_number': 'Número de identificación',
+  'pii.date_of_birth': 'Fecha de nacimiento',
+  'redaction.found': '{kind} en {field}',
+
+  // Images
+  'image.label': 'Imagen {index}',
+  'gallery.qualityHint': '{issues}. Vuelve a tomarla o recórtala para un resultado más claro.',
+  'gallery.remove': 'Quitar imagen',
+  'gallery.edit': 'Recortar o girar',
+  'gallery.moveLeft': 'Mover a la izquierda',
+  'gallery.moveRight': 'Mover a la derecha',
+  'gallery.caption': 'Pie de foto (opcional)',
+  'gallery.preparing': 'Preparando',
+  'findings.title': 'Hallazgos en las imágenes',
+  'editor.title': 'Editar imagen {index}',
+  'editor.cropHint': 'Arrastra sobre la foto para recortar. Girar borra el recorte y los difuminados.',
+  'editor.blurHint': 'Arrastra sobre nombres, direcciones o números de identificación para difuminarlos antes de enviar.',
+  'editor.close': 'Cerrar',
+  'editor.crop': 'Recortar',
+  'editor.blur': 'Difuminar',
+  'editor.rotateLeft': 'Girar a la izquierda',
+  'editor.rotateRight': 'Girar a la derecha',
+  'editor.clearCrop': 'Quitar recorte',
+  'editor.clearBlurs': 'Quitar difuminados ({count})',
+  'editor.apply': 'Aplicar',
+
+  // Cached results
+  'cache.source': 'De la caché',
+  'cache.notice': '{source} · analizado el {date}',
+  'cache.reanalyze': 'Volver a analizar',
+
+  // Offline queue
+  'queue.offline': 'Estás sin conexión. Los diagnósticos y análisis de medicamentos se ponen en cola y se ejecutan automáticamente al reconectar. El historial y los informes guardados siguen disponibles.',
+  'queue.ready': 'Análisis en cola listos: {count}',
+  'queue.viewHistory': 'Ver en el historial',
+  'queue.dismiss': 'Descartar',
+  'queue.title': 'En cola ({count})',
+  'queue.retry': 'Reintentar',
+  'queue.notSent': 'No enviado: {reason}',
+  'queue.failed': 'El análisis falló. Reinténtalo o quítalo.',
+  'queue.images': 'Imágenes: {count}',
+  'queue.queuedAt': 'En cola desde las {time}',
+  'queue.remove': 'Quitar de la cola',
+
+  // Consultation report
+  'report.centre': 'Centro Médico LV Health',
+  'report.date': 'Fecha:',
+  'report.patientId': 'ID de paciente:',
+  'report.chiefComplaint': 'Motivo de consulta',
+  'report.impression': 'Impresión clínica',
+  'report.differential': 'Diagnóstico diferencial',
+  'report.plan': 'Plan de acción recomendado',
+  'report.disclaimer': 'Aviso médico',
+
+  // PDF export
+  'pdf.page': 'Página {page} de {count}',
+  'pdf.footerShortened': 'Abreviado aquí; el aviso completo figura en el documento.',
+  'pdf.patientId': 'ID de paciente {id}',
+  'pdf.submittedImage': 'Imagen enviada',
+  'pdf.submittedImages': 'Imágenes enviadas',
+  'pdf.monograph': 'Monografía del medicamento',
+  'pdf.identification': 'Identificación',
+  'pdf.brandName': 'Nombre comercial',
+  'pdf.genericName': 'Nombre genérico',
+  'pdf.analyzedImage': 'Imagen analizada',
+  'pdf.analyzedImages': 'Imágenes analizadas',
+  'pdf.form': 'Forma',
+  'pdf.dosage': 'Dosis',
+  'pdf.composition': 'Composición',
+  'pdf.manufacturerName': 'Nombre',
+  'pdf.origin': 'País de origen',
+  'pdf.distribution': 'Distribuido en',
+  'pdf.dates': 'Fechas',
+  'pdf.productionDate': 'Fecha de fabricación',
+  'pdf.expiryDate': 'Fecha de caducidad',
+  'pdf.expiryStatus': 'Estado de caducidad',
+  'pdf.lotNumber': 'Número de lote',
+  'pdf.serialNumber': 'Número de serie',
+  'pdf.indications': 'Indicaciones',
+  'pdf.administration': 'Administración',
+  'pdf.sideEffects': 'Efectos secundarios',
+  'pdf.warnings': 'Advertencias',
+  'pdf.disclaimer': 'Aviso',
+  'pdf.source.ocr': 'leído por OCR en el dispositivo',
+  'pdf.source.model': 'leído por el modelo',
+  'pdf.source.ocr_and_model': 'OCR y modelo coinciden',
+  'pdf.source.barcode': 'del código de barras del envase',
+};
@@ -0,0 +1,474 @@
+import { Messages } from "./en";
+
+export const he: Messages = {
+  // Header
+  'header.tagline': 'מופעל על ידי LV Health',
+  'header.history': 'היסטוריה',
+  'header.historyTitle': 'היסטוריית ייעוצים',
+  'header.cabinet': 'ארון תרופות',
+  'header.cabinetTitle': 'ארון התרופות',
+  'header.contact': 'צור קשר',
+  'header.online': 'המערכת מחוברת',
+  'header.offline': 'לא מקוון',
+  'header.offlineQueued': 'לא מקוון · {count} בתור',
+  'header.offlineTitle': 'עובדים במצב לא מקוון',
+  'header.offlineTitleQueued': '{count} בתור עד לחידוש החיבור',
+  'header.language': 'שפה',
+  'nav.diagnosis': 'אבחון',
+  'nav.medication': 'מידע על תרופות',
+  'nav.interactions': 'אינטראקציות',
+
+  // Hero
+  'hero.iconAlt': 'סמל תלת־ממדי',
+  'hero.diagnosis.badge': 'מנוע אבחון עצבי 2.0',
+  'hero.diagnosis.title': 'מעבר לאבחון.',
+  'hero.diagnosis.subtitle': 'בהירות מוחלטת.',
+  'hero.diagnosis.body': '{highlight} לניתוח רפואי מורכב, מבוסס רשתות עצביות מתקדמות.',
+  'hero.diagnosis.highlight': 'דיוק ברמת דוקטורט',
+  'hero.medication.badge': 'בינה מלאכותית לזיהוי תרופות',
+  'hero.medication.title': 'הכירו את התרופות שלכם.',
+  'hero.medication.subtitle': 'טוהר מאומת.',
+  'hero.medication.body': 'נתחו תרכובות תרופתיות באופן מיידי. חלצו תאריך תפוגה, מקור ונתונים קליניים {highlight}.',
+  'hero.medication.highlight': 'בדיוק של 100%',
+  'hero.interactions.badge': 'בינת אינטראקציות',
+  'hero.interactions.title': 'שלבו בזהירות.',
+  'hero.interactions.subtitle': 'כל זוג נבדק.',
+  'hero.interactions.body': 'בנו את רשימת התרופות שלכם ובדקו {highlight} לפי מנגנון, חומרה ודרכי טיפול.',
+  'hero.interactions.highlight': 'כל שילוב',
+
+  // Input
+  'input.placeholder.diagnosis': "תארו את התסמינים בפירוט או הדביקו תמונה רפואית... (לדוגמה: 'מיגרנה לסירוגין עם הילה חזותית...')",
+  'input.placeholder.medication': "הזינו שם תרופה או צלמו את האריזה או הכדור... (לדוגמה: 'אמוקסיצילין 500 מ\"ג')",
+  'input.placeholder.interactions': "הוסיפו תרופות אחת־אחת או מופרדות בפסיקים, או צרפו תמונה של האריזה... (לדוגמה: 'וורפרין, איבופרופן')",
+  'input.removeBarcode': 'הסרת הברקוד',
+  'input.maskedPreview': 'יוסתר לפני השליחה',
+  'input.aiActive': 'בינה מלאכותית פעילה',
+  'input.aiShort': 'AI',
+  'input.upload': 'העלאה',
+  'input.intake': 'שאלון',
+  'input.capture': 'צילום',
+  'input.example': 'דוגמה',
+  'input.generateCase': 'יצירת מקרה',
+  'input.simulating': 'מדמה מקרה...',
+  'input.cancel': 'ביטול',
+  'input.reset': 'איפוס',
+  'input.analyzing': 'מנתח נתונים',
+  'input.submit.diagnosis': 'התחלת אבחון',
+  'input.submit.medication': 'ניתוח הרכב',
+  'input.submit.interactions': 'הוספת תרופה',
+
+  // Interaction list
+  'interactions.empty': 'עדיין לא נוספו תרופות. הוסיפו לפחות שתיים כדי לבדוק אינטראקציות.',
+  'interactions.check': 'בדיקת אינטראקציות',
+
+  // Trust bar and support
+  'trust.evidence': 'מבוסס ראיות',
+  'trust.realtime': 'ניתוח בזמן אמת',
+  'trust.records': 'יותר מ־10 מיליון רשומות',
+  'trust.accuracy': 'דיוק ברמת דוקטורט',
+  'support.title': 'תמכו במשימה שלנו',
+  'support.body': 'עזרו לנו להנגיש רפואה מדויקת לכולם. אם LV Health עזר לכם, שתפו את {app} עם חברים ובני משפחה.',
+
+  // Diagnosis results
+  'diagnosis.title': 'דוח קליני',
+  'diagnosis.reference': 'מזהה: {id} • LV Health AI',
+  'diagnosis.receiving': 'מקבל ניתוח',
+  'diagnosis.detailedReport': 'דוח מפורט',
+  'diagnosis.emergencyScreen': 'סינון חירום:',
+  'diagnosis.synopsis': 'תקציר',
+  'diagnosis.disclaimer': 'הבהרה:',
+  'diagnosis.immediateAction': 'נדרשת פעולה מיידית',
+  'diagnosis.immediateActionBody': 'התסמינים מצביעים על מצבים בעדיפות גבוהה. יש לפנות לרופא מומחה.',
+  'diagnosis.routine': 'מעקב שגרתי',
+  'diagnosis.routineBody': 'התסמינים נראים ניתנים לטיפול. פעלו לפי הנחיות הטיפול המקובלות.',
+  'diagnosis.primary': 'אבחנה עיקרית',
+  'diagnosis.differential': 'אבחנות מבדלות',
+  'results.redacted': 'הוסר לפני השליחה למודל',
+  'export.fhir': 'FHIR',
+  'export.fhirTitle': 'הורדה כחבילת FHIR R4',
+
+  // Condition card
+  'condition.emergencyScreen': 'סינון חירום',
+  'condition.primaryMatch': 'התאמה עיקרית',
+  'condition.mustRuleOut': 'יש לשלול',
+  'condition.highestConfidence': 'הניתוח בעל הוודאות הגבוהה ביותר',
+  'condition.seenInImage': 'נראה בתמונה {images}',
+  'condition.ruleOut': 'לשלילה',
+  'condition.notEstimated': 'ללא הערכת מודל',
+  'condition.confidence': 'ודאות',
+  'condition.newThisRound': 'חדש בסבב זה',
+  'condition.unchanged': 'ללא שינוי',
+  'condition.shift': '{shift}% מ־{previous}%',
+  'condition.matchedSymptoms': 'תסמינים תואמים',
+  'condition.recommendations': 'המלצות קליניות',
+  'urgency.low': 'נמוכה',
+  'urgency.medium': 'בינונית',
+  'urgency.high': 'גבוהה',
+  'urgency.critical': 'קריטית',
+
+  // Medication results
+  'medication.addToInteractions': 'הוספה לבדיקת אינטראקציות',
+  'medication.saveToCabinet': 'שמירה בארון התרופות',
+  'medication.exportPdf': 'ייצוא PDF',
+  'medication.preparingPdf': 'מכין PDF...',
+  'medication.exportFhir': 'ייצוא FHIR',
+  'medication.confidence': 'ודאות הניתוח',
+  'medication.manufacturer': 'יצרן',
+  'medication.origin': 'מקור: {country}',
+  'medication.specifications': 'מפרט',
+  'medication.type': 'סוג:',
+  'medication.dosage': 'מינון:',
+  'medication.active': 'חומר פעיל:',
+  'medication.indications': 'התוויות רשמיות',
+  'medication.administration': 'הנחיות נטילה',
+  'medication.warnings': 'אזהרות חשובות',
+  'medication.sideEffects': 'תופעות לוואי אפשריות',
+
+  // Report modal
+  'report.title': 'דוח ייעוץ',
+  'report.generatedBy': 'הופק על ידי LV Assistant Doctor',
+  'report.printTitle': 'דוח קליני - LV Health',
+  'report.compiling': 'מרכז נתונים קליניים...',
+  'report.tryAgain': 'נסו שוב',
+  'report.close': 'סגירה',
+  'report.downloadPdf': 'הורדת PDF',
+  'report.pdf': 'PDF',
+  'report.print': 'הדפסת המסמך',
+  'report.printShort': 'הדפסה',
+
+  // Contact modal
+  'contact.title': 'פנייה לתמיכה',
+  'contact.body': 'יש לכם שאלות לגבי האבחון או שאתם זקוקים לעזרה טכנית? המומחים של LV Health ישמחו לעזור.',
+  'contact.copy': 'העתקה ללוח',
+  'contact.openMail': 'פתיחת אפליקציית הדואר',
+  'contact.responseTime': 'זמן תגובה ממוצע: פחות משעתיים',
+
+  // Camera
+  'camera.useBarcode': 'שימוש בברקוד',
+  'camera.hint': 'כוונו אל הברקוד או צלמו תמונה',
+
+  // Prompts and alerts
+  'alert.camera': 'אין גישה למצלמה. בדקו את ההרשאות.',
+  'alert.cabinetSave': 'השמירה בארון התרופות נכשלה. נסו שוב.',
+  'alert.queueSave': 'אין חיבור לרשת ולא ניתן היה לשמור את הניתוח למועד מאוחר יותר. נסו שוב לאחר חידוש החיבור.',
+  'alert.maxImages': 'ניתן לצרף עד {max} תמונות.',
+  'alert.pdf': 'יצירת קובץ ה־PDF נכשלה. נסו שוב.',
+  'confirm.imageQuality': 'ייתכן שחלק מהתמונות יהיו קשות לקריאה:\n\n{issues}\n\nלשלוח בכל זאת?',
+  'confirm.imageIssue': 'תמונה {index}: {issues}',
+  'confirm.expired': '{name}: {expiry}. תרופה שפג תוקפה עלולה להיות לא יעילה או לא בטוחה.',
+  'confirm.saveAnyway': 'לשמור בכל זאת?',
+  'confirm.exportAnyway': 'לייצא בכל זאת?',
+  'quality.blurry': 'נראית מטושטשת',
+  'quality.glare': 'השתקפות חזקה',
+
+  // Error fallbacks when the failure carries no message
+  'error.diagnosis': 'אירעה שגיאה במהלך האבחון.',
+  'error.refine': 'אירעה שגיאה בעת עדכון האבחון.',
+  'error.medication': 'אירעה שגיאה בניתוח התרופה.',
+  'error.identify': 'לא ניתן היה לזהות את התרופה.',
+  'error.identifyOffline': 'זיהוי אריזה דורש חיבור לרשת. הקלידו את שם התרופה במקום זאת.',
+  'error.interactions': 'אירעה שגיאה בבדיקת האינטראקציות.',
+  'error.interactionsOffline': 'בדיקת אינטראקציות דורשת חיבור לרשת. נסו שוב לאחר חידוש החיבור.',
+  'error.sample': 'לא ניתן היה ליצור מקרה לדוגמה.',
+  'error.report': 'שגיאה בטעינת הדוח.',
+
+  // Model errors, by kind
+  'modelError.title.rate_limited': 'השירות עמוס',
+  'modelError.title.quota_exhausted': 'הגעת למגבלת השימוש',
+  'modelError.title.safety_blocked': 'התשובה נחסמה',
+  'modelError.title.invalid_image': 'התמונה לא התקבלה',
+  'modelError.title.malformed_output': 'תשובה לא צפויה',
+  'modelError.title.network': 'בעיית חיבור',
+  'modelError.title.timeout': 'הזמן לבקשה תם',
+  'modelError.title.unavailable': 'השירות אינו זמין',
+  'modelError.title.unknown': 'הניתוח הופסק',
+  'modelError.rate_limited': 'שירות המודל עמוס כרגע. המתינו רגע ונסו שוב.',
+  'modelError.quota_exhausted': 'שירות המודל הגיע למכסת השימוש שלו. נסו שוב מאוחר יותר.',
+  'modelError.safety_blocked': 'המודל סירב לענות בהתאם למדיניות הבטיחות שלו. נסחו את הבקשה מחדש ונסו שוב.',
+  'modelError.invalid_image': 'לא ניתן היה לעבד אחת התמונות. הסירו אותה או צלמו מחדש ונסו שוב.',
+  'modelError.malformed_output': 'המודל החזיר תשובה חלקית. נסו שוב.',
+  'modelError.network': 'לא ניתן להתחבר לשירות המודל. בדקו את החיבור ונסו שוב.',
+  'modelError.timeout': 'המודל התעכב יותר מדי בתשובה. נסו שוב.',
+  'modelError.unavailable': 'שירות המודל אינו זמין כרגע. נסו שוב בעוד זמן קצר.',
+  'modelError.unknown': 'הבקשה למודל נכשלה. נסו שוב.',
+  'modelError.tryAgain': 'נסו שוב',
+
+  // Input safety refusals, by reason
+  'refusal.title.prompt_injection': 'הבקשה לא טופלה',
+  'refusal.title.dangerous_dosage': 'איננו יכולים לעזור בזה',
+  'refusal.prompt_injection': 'הבקשה מכילה הוראות המופנות לעוזר במקום תיאור של תסמינים או של תרופה. תארו את שאלת הבריאות במילים שלכם.',
+  'refusal.dangerous_dosage': 'איננו יכולים לעזור במינונים שנועדו לגרום נזק. אם אתם חושבים לפגוע בעצמכם, פנו למספר החירום המקומי או לקו סיוע נפשי (למשל ער"ן 1201 בישראל). במקרה של מנת יתר בשוגג, התקשרו עכשיו למרכז להרעלות.',
+
+  // Emergency interstitial
+  'emergency.title': 'מצב חירום רפואי אפשרי',
+  'emergency.subtitle': 'זוהה לפני סיום הניתוח',
+  'emergency.call': 'התקשרו לשירותי החירום',
+  'emergency.otherNumbers': 'אם 112 אינו פועל במדינה שלכם, חייגו למספר החירום המקומי (למשל 101, 911, 999).',
+  'emergency.dismiss': 'הבנתי — הציגו את הניתוח',
+  'redFlag.acute-coronary-syndrome.title': 'כאב בחזה עם הזעה',
+  'redFlag.acute-coronary-syndrome.advice': 'התקשרו עכשיו לשירותי החירום. אל תנהגו בעצמכם. אם אין לכם אלרגיה, לעסו 300 מ"ג אספירין בזמן ההמתנה.',
+  'redFlag.acute-coronary-syndrome.condition': 'תסמונת כלילית חריפה',
+  'redFlag.thunderclap-headache.title': 'כאב ראש פתאומי, "הגרוע ביותר אי פעם"',
+  'redFlag.thunderclap-headache.advice': 'כאב ראש פתאומי וחזק חייב להיבדק מיד בחדר מיון.',
+  'redFlag.thunderclap-headache.condition': 'דימום תת-עכבישי',
+  'redFlag.stroke.title': 'חולשה או נימול בצד אחד',
+  'redFlag.stroke.advice': 'רשמו את שעת הופעת התסמינים והתקשרו מיד לשירותי החירום. כל דקה חשובה.',
+  'redFlag.stroke.condition': 'שבץ מוחי חריף',
+  'redFlag.suicidal-ideation.title': 'מחשבות אובדניות או פגיעה עצמית',
+  'redFlag.suicidal-ideation.advice': 'מגיעה לכם תמיכה עכשיו. פנו למספר החירום המקומי או לקו סיוע נפשי (למשל ער"ן 1201 בישראל), או גשו לחדר המיון הקרוב.',
+  'redFlag.suicidal-ideation.condition': 'מחשבות אובדניות — מצב חירום נפשי',
+  'redFlag.anaphylaxis.title': 'סימנים של אנפילקסיס',
+  'redFlag.anaphylaxis.advice': 'השתמשו במזרק אדרנלין אוטומטי אם יש לכם והתקשרו מיד לשירותי החירום.',
+  'redFlag.anaphylaxis.condition': 'אנפילקסיס',
+  'redFlag.meningitis.title': 'צוואר נוקשה עם חום או פריחה',
+  'redFlag.meningitis.advice': 'פנו לטיפול דחוף עכשיו. דלקת קרום המוח עלולה להחמיר תוך שעות.',
+  'redFlag.meningitis.condition': 'דלקת קרום המוח חיידקית',
+  'redFlag.gi-haemorrhage.title': 'הקאה או יציאות עם דם',
+  'redFlag.gi-haemorrhage.advice': 'פנו לטיפול דחוף מיד, במיוחד אם אתם חשים עילפון או סחרחורת.',
+  'redFlag.gi-haemorrhage.condition': 'דימום חריף במערכת העיכול',
+  'redFlag.critical-vitals.title': 'מדדים חיוניים מסוכנים',
+  'redFlag.critical-vitals.advice': 'המדדים החיוניים שהוזנו נמצאים בטווח מסוכן. פנו להערכה דחופה עכשיו.',
+  'redFlag.critical-vitals.condition': 'חוסר יציבות פיזיולוגית — חשד לאלח דם או הלם',
+  'redFlag.injectedDescription': 'זוהה בבדיקת החירום המקומית ({title}). יש לשלול זאת בדחיפות, ללא קשר להערכת המודל.',
+
+  // Intake form
+  'intake.age': 'גיל',
+  'intake.years': 'שנים',
+  'intake.sex': 'מין',
+  'intake.notStated': 'לא צוין',
+  'intake.female': 'נקבה',
+  'intake.male': 'זכר',
+  'intake.intersex': 'אינטרסקס',
+  'intake.pregnancy': 'היריון',
+  'intake.notPregnant': 'לא בהיריון',
+  'intake.pregnant': 'בהיריון',
+  'intake.possiblyPregnant': 'ייתכן היריון',
+  'intake.unknown': 'לא ידוע',
+  'intake.weight': 'משקל (ק"ג)',
+  'intake.chronicConditions': 'מחלות כרוניות',
+  'intake.chronicConditionsPlaceholder': 'למשל אסתמה, סוכרת סוג 2',
+  'intake.currentMedications': 'תרופות נוכחיות',
+  'intake.currentMedicationsPlaceholder': 'למשל מטפורמין 500 מ"ג',
+  'intake.addFromCabinet': '+ הוספה מארון התרופות שלי ({count})',
+  'intake.allergies': 'אלרגיות',
+  'intake.allergiesPlaceholder': 'למשל פניצילין',
+  'intake.temperature': 'חום (°C)',
+  'intake.heartRate': 'דופק',
+  'intake.systolic': 'לחץ דם סיסטולי',
+  'intake.diastolic': 'לחץ דם דיאסטולי',
+  'intake.respiratoryRate': 'קצב נשימה',
+  'intake.spo2': 'ריווי חמצן (%)',
+  'intake.onset': 'הופעת התסמינים',
+  'intake.onsetPlaceholder': 'למשל פתאומית, במהלך פעילות גופנית',
+  'intake.duration': 'משך',
+  'intake.durationPlaceholder': 'למשל 3 ימים, לסירוגין',
+
+  // Follow-up questions
+  'followUp.title': 'שאלות הבהרה',
+  'followUp.round': 'סבב {round}',
+  'followUp.category.onset': 'הופעה',
+  'followUp.category.duration': 'משך',
+  'followUp.category.severity': 'חומרה',
+  'followUp.category.red_flag': 'דגל אדום',
+  'followUp.category.history': 'רקע',
+  'followUp.category.other': 'הקשר',
+  'followUp.placeholder': 'התשובה שלכם (אופציונלי)',
+  'followUp.submit': 'חידוד האבחנה',
+
+  // Interaction results
+  'severity.None': 'אין',
+  'severity.Minor': 'קלה',
+  'severity.Moderate': 'בינונית',
+  'severity.Major': 'חמורה',
+  'severity.Contraindicated': 'התווית נגד',
+  'interactions.notAvailable': 'לא זמין',
+  'interactions.mechanism': 'מנגנון',
+  'interactions.clinicalEffect': 'השפעה קלינית',
+  'interactions.management': 'טיפול',
+  'interactions.assessment': 'הערכת המשטר הטיפולי',
+  'interactions.significant': 'אינטראקציות משמעותיות',
+
+  // History panel
+  'history.title': 'היסטוריית ייעוצים',
+  'history.search': 'חיפוש לפי מצב רפואי או שם תרופה',
+  'history.empty': 'אין עדיין ייעוצים שמורים.',
+  'history.noMatches': 'אין ייעוצים התואמים לחיפוש.',
+  'history.diagnosis': 'אבחנה',
+  'history.medication': 'תרופה',
+  'history.delete': 'מחיקת רשומה',
+
+  // Cabinet panel
+  'cabinet.title': 'ארון התרופות',
+  'cabinet.undo': 'ביטול',
+  'cabinet.markTaken': 'סימון כנלקחה',
+  'cabinet.skipDose': 'דילוג על המנה',
+  'cabinet.expiring': 'פג תוקף או עומד לפוג ({count}): {names}',
+  'cabinet.enableReminders': 'הפעלת תזכורות למנות',
+  'cabinet.empty': 'ארון התרופות ריק. נתחו תרופה ובחרו "שמירה בארון" כדי לעקוב אחר המנות.',
+  'cabinet.remove': 'הסרה מהארון',
+  'cabinet.today': 'היום',
+  'cabinet.noDosesToday': 'אין מנות מתוכננות להיום.',
+  'cabinet.lastWeek': '7 הימים האחרונים:',
+  'cabinet.taken': 'נלקחו: {count}',
+  'cabinet.skipped': 'דולגו: {count}',
+  'cabinet.missed': 'הוחמצו: {count}',
+
+  // Cabinet save dialog
+  'cabinetSave.title': 'שמירה בארון',
+  'cabinetSave.name': 'שם',
+  'cabinetSave.dose': 'מנה',
+  'cabinetSave.dosePlaceholder': 'למשל טבלייה אחת',
+  'cabinetSave.times': 'שעות המנות',
+  'cabinetSave.removeTime': 'הסרת שעה',
+  'cabinetSave.addTime': 'הוספת שעה',
+  'cabinetSave.days': 'ימים',
+  'cabinetSave.daysHint': '(ללא בחירה = כל יום)',
+  'cabinetSave.start': 'התחלה',
+  'cabinetSave.end': 'סיום (אופציונלי)',
+  'cabinetSave.reminders': 'הזכירו לי בשעות המנות',
+  'cabinetSave.remindersUnsupported': 'הדפדפן הזה אינו תומך בתזכורות',
+  'cabinetSave.cancel': 'ביטול',
+  'cabinetSave.save': 'שמירה',
+
+  // Dose schedules and reminders
+  'day.0': 'א׳',
+  'day.1': 'ב׳',
+  'day.2': 'ג׳',
+  'day.3': 'ד׳',
+  'day.4': 'ה׳',
+  'day.5': 'ו׳',
+  'day.6': 'ש׳',
+  'schedule.dose': 'מנה',
+  'schedule.at': 'בשעה {times}',
+  'schedule.on': 'בימים {days}',
+  'schedule.daily': 'מדי יום',
+  'reminder.title': 'הגיע הזמן ל{name}',
+  'reminder.body': '{dose} מתוכננת לשעה {time}',
+  'reminder.taken': 'נלקחה',
+  'reminder.skip': 'דילוג',
+
+  // Expiry
+  'expiry.unknown': 'תאריך התפוגה אינו ידוע',
+  'expiry.expiredMonth': 'פג תוקף בסוף {date}',
+  'expiry.expiredOn': 'פג תוקף ב-{date}',
+  'expiry.today': 'פג תוקף היום',
+  'expiry.tomorrow': 'פג תוקף מחר ({date})',
+  'expiry.inDays': 'פג תוקף בעוד {days} ימים ({date})',
+  'expiry.validUntil': 'בתוקף עד {date}',
+  'expiry.produced': 'יוצר ב-{date}',
+
+  // Packaging dates and where each value came from
+  'packaging.title': 'תאריכים (מהתמונה)',
+  'packaging.production': 'תאריך ייצור',
+  'packaging.expiry': 'תאריך תפוגה',
+  'packaging.lot': 'אצווה',
+  'packaging.gtin': 'GTIN',
+  'packaging.serial': 'מספר סידורי',
+  'packaging.ocrDisagrees': 'זיהוי התווים קרא {value}; בדקו את האריזה',
+  'source.ocr': 'OCR',
+  'source.ocr.title': 'נקרא במכשיר מתוך התמונה; המודל לא הצליח לקרוא אותו',
+  'source.model': 'מודל',
+  'source.model.title': 'נקרא על ידי המודל בלבד',
+  'source.ocr_and_model': 'OCR + מודל',
+  'source.ocr_and_model.title': 'זיהוי התווים במכשיר והמודל מסכימים',
+  'source.barcode': 'ברקוד',
+  'source.barcode.title': 'פוענח מהברקוד שעל האריזה; מדויק',
+
+  // Terminology codes
+  'codes.unverified': 'לא אומת',
+  'codes.unverifiedTitle': 'לא נמצא ברשימת {system} המקומית. יש לאמת לפני שימוש.',
+  'codes.modelLabel': 'תווית המודל: {label}',
+
+  // Personal details
+  'pii.name': 'שם',
+  'pii.email': 'דוא"ל',
+  'pii.phone': 'מספר טלפון',
+  'pii.address': 'כתובת',
+  'pii.id_number': 'מספר זהות',
+  'pii.date_of_birth': 'תאריך לידה',
+  'redaction.found': '{kind} ב{field}',
+
+  // Images
+  'image.label': 'תמונה {index}',
+  'gallery.qualityHint': '{issues}. צלמו מחדש או חתכו לקבלת תוצאה ברורה יותר.',
+  'gallery.remove': 'הסרת תמונה',
+  'gallery.edit': 'חיתוך או סיבוב',
+  'gallery.moveLeft': 'הזזה שמאלה',
+  'gallery.moveRight': 'הזזה ימינה',
+  'gallery.caption': 'כיתוב (אופציונלי)',
+  'gallery.preparing': 'בהכנה',
+  'findings.title': 'ממצאים בתמונות',
+  'editor.title': 'עריכת תמונה {index}',
+  'editor.cropHint': 'גררו על התמונה כדי לחתוך. סיבוב מנקה את החיתוך ואת הטשטושים.',
+  'editor.blurHint': 'גררו על שמות, כתובות או מספרי זהות כדי לטשטש אותם לפני השליחה.',
+  'editor.close': 'סגירה',
+  'editor.crop': 'חיתוך',
+  'editor.blur': 'טשטוש',
+  'editor.rotateLeft': 'סיבוב שמאלה',
+  'editor.rotateRight': 'סיבוב ימינה',
+  'editor.clearCrop': 'ניקוי החיתוך',
+  'editor.clearBlurs': 'ניקוי הטשטושים ({count})',
+  'editor.apply': 'החלה',
+
+  // Cached results
+  'cache.source': 'מהמטמון',
+  'cache.notice': '{source} · נותח ב-{date}',
+  'cache.reanalyze': 'ניתוח מחדש',
+
+  // Offline queue
+  'queue.offline': 'אין חיבור לרשת. אבחונים וניתוחי תרופות נכנסים לתור ויופעלו אוטומטית כשהחיבור יחזור. ההיסטוריה והדוחות השמורים נשארים זמינים.',
+  'queue.ready': 'ניתוחים מהתור שמוכנים: {count}',
+  'queue.viewHistory': 'הצגה בהיסטוריה',
+  'queue.dismiss': 'סגירה',
+  'queue.title': 'בתור ({count})',
+  'queue.retry': 'ניסיון חוזר',
+  'queue.notSent': 'לא נשלח: {reason}',
+  'queue.failed': 'הניתוח נכשל. נסו שוב או הסירו אותו.',
+  'queue.images': 'תמונות: {count}',
+  'queue.queuedAt': 'בתור מאז {time}',
+  'queue.remove': 'הסרה מהתור',
+
+  // Consultation report
+  'report.centre': 'המרכז הרפואי LV Health',
+  'report.date': 'תאריך:',
+  'report.patientId': 'מזהה מטופל:',
+  'report.chiefComplaint': 'תלונה עיקרית',
+  'report.impression': 'רושם קליני',
+  'report.differential': 'אבחנה מבדלת',
+  'report.plan': 'תוכנית פעולה מומלצת',
+  'report.disclaimer': 'הבהרה רפואית',
+
+  // PDF export
+  'pdf.page': 'עמוד {page} מתוך {count}',
+  'pdf.footerShortened': 'מקוצר כאן; ההבהרה המלאה מודפסת במסמך.',
+  'pdf.patientId': 'מזהה מטופל {id}',
+  'pdf.submittedImage': 'תמונה שנשלחה',
+  'pdf.submittedImages': 'תמונות שנשלחו',
+  'pdf.monograph': 'עלון תרופה',
+  'pdf.identification': 'זיהוי',
+  'pdf.brandName': 'שם מסחרי',
+  'pdf.genericName': 'שם גנרי',
+  'pdf.analyzedImage': 'תמונה שנותחה',
+  'pdf.analyzedImages': 'תמונות שנותחו',
+  'pdf.form': 'צורה',
+  'pdf.dosage': 'מינון',
+  'pdf.composition': 'הרכב',
+  'pdf.manufacturerName': 'שם',
+  'pdf.origin': 'ארץ ייצור',
+  'pdf.distribution': 'מופץ ב',
+  'pdf.dates': 'תאריכים',
+  'pdf.productionDate': 'תאריך ייצור',
+  'pdf.expiryDate': 'תאריך תפוגה',
+  'pdf.expiryStatus': 'מצב תפוגה',
+  'pdf.lotNumber': 'מספר אצווה',
+  'pdf.serialNumber': 'מספר סידורי',
+  'pdf.indications': 'התוויות',
+  'pdf.administration': 'אופן נטילה',
+  'pdf.sideEffects': 'תופעות לוואי',
+  'pdf.warnings': 'אזהרות',
+  'pdf.disclaimer': 'הבהרה',
+  'pdf.source.ocr': 'נקרא ב-OCR במכשיר',
+  'pdf.source.model': 'נקרא על ידי המודל',
+  'pdf.source.ocr_and_model': 'ה-OCR והמודל מסכימים',
+  'pdf.source.barcode': 'מהברקוד שעל האריזה',
+};
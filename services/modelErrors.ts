@@ -0,0 +1,171 @@
+import { ModelErrorKind } from "../types";
+import { DEFAULT_LOCALE, MessageKey, translate } from "./i18n";
+
+// Typed failures of model calls. Providers and the service layer map whatever
+// their transport throws onto a kind, which decides whether the call is
+// retried and what the user is told.
+
+// Message keys per kind; the UI shows them in the user's language, while the
+// error itself carries the English text for logs and the API response
+export const MODEL_ERROR_MESSAGES: Record<ModelErrorKind, MessageKey> = {
+  rate_limited: 'modelError.rate_limited',
+  quota_exhausted: 'modelError.quota_exhausted',
+  safety_blocked: 'modelError.safety_blocked',
+  invalid_image: 'modelError.invalid_image',
+  malformed_output: 'modelError.malformed_output',
+  network: 'modelError.network',
+  timeout: 'modelError.timeout',
+  unavailable: 'modelError.unavailable',
+  unknown: 'modelError.unknown',
+};
+
+export const MODEL_ERROR_KINDS = Object.keys(MODEL_ERROR_MESSAGES) as ModelErrorKind[];
+
+// Transient failures: the same request is likely to succeed if repeated
+const RETRYABLE_KINDS = new Set<ModelErrorKind>(['rate_limited', 'network', 'timeout', 'unavailable']);
+
+export class ModelError extends Error {
+  readonly kind: ModelErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: ModelErrorKind, message = translate(DEFAULT_LOCALE, MODEL_ERROR_MESSAGES[kind]), details: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ModelError';
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+// --- Classification ---
+
+const QUOTA_PATTERN = /quota|billing|insufficient_quota|exceeded your current/i;
+const SAFETY_PATTERN = /safety|content_filter|content management policy|responsible ai/i;
+const IMAGE_PATTERN = /image|mime|inline_?data|unsupported (file|format)/i;
+const NETWORK_PATTERN = /failed to fetch|fetch failed|networkerror|network request failed|load failed|econnreset|econnrefused|enotfound|etimedout|socket hang up/i;
+// Gemini puts RetryInfo in the error body, e.g. "retryDelay": "17s"
+const RETRY_DELAY_PATTERN = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/;
+
+const parseRetryAfter = (header?: string | null, detail = ''): number | undefined => {
+  const seconds = header ? Number(header) : Number(detail.match(RETRY_DELAY_PATTERN)?.[1]);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+  const date = header ? Date.parse(header) : NaN;
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Maps an HTTP failure onto a kind. `detail` is the response body or error
+// message, which separates e.g. a spent quota from a per-minute rate limit.
+export const modelErrorFromStatus = (status: number, detail = '', retryAfter?: string | null): ModelError => {
+  const details = { status, retryAfterMs: parseRetryAfter(retryAfter, detail) };
+  if (status === 402 || (QUOTA_PATTERN.test(detail) && (status === 429 || status === 403 || status >= 500))) {
+    return new ModelError('quota_exhausted', undefined, details);
+  }
+  if (status === 429) return new ModelError('rate_limited', undefined, details);
+  if (status === 408 || status === 504) return new ModelError('timeout', undefined, details);
+  if (status >= 500) return new ModelError('unavailable', undefined, details);
+  if (SAFETY_PATTERN.test(detail)) return new ModelError('safety_blocked', undefined, details);
+  if ((status === 400 || status === 413 || status === 415 || status === 422) && IMAGE_PATTERN.test(detail)) {
+    return new ModelError('invalid_image', undefined, details);
+  }
+  return new ModelError('unknown', `Model endpoint responded with ${status}`, details);
+};
+
+// Normalizes anything a provider throws. `fallbackMessage` replaces the
+// generic text for failures that fit no kind.
+export const toModelError = (error: unknown, fallbackMessage?: string): ModelError => {
+  if (error instanceof ModelError) {
+    return error.kind === 'unknown' && fallbackMessage ? new ModelError('unknown', fallbackMessage, { status: error.status }) : error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+  if (status !== undefined) {
+    const classified = modelErrorFromStatus(status, message);
+    if (classified.kind !== 'unknown') return classified;
+  }
+  const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+  if (offline || NETWORK_PATTERN.test(message)) return new ModelError('network', undefined, { status });
+  return new ModelError('unknown', fallbackMessage, { status });
+};
+
+export const errorKindOf = (error: unknown): ModelErrorKind | undefined =>
+  error instanceof ModelError ? error.kind : undefined;
+
+// --- Retry ---
+
+export const MODEL_TIMEOUT_MS = 90 * 1000; // Per attempt, streaming included
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 10 * 1000;
+const MAX_RETRY_AFTER_MS = 30 * 1000; // A longer requested wait is reported instead
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  attempts?: number;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// One attempt with its own deadline, enforced even if the provider ignores
+// the abort. Aborting the caller's signal still cancels the attempt, and that
+// rejection passes through unchanged.
+const attemptWithTimeout = <T>(call: (signal: AbortSignal) => Promise<T>, signal: AbortSignal | undefined, timeoutMs: number): Promise<T> => {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal!.reason);
+  if (signal?.aborted) forwardAbort();
+  else signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new ModelError('timeout'));
+      controller.abort();
+    }, timeoutMs);
+  });
+
+  return Promise.race([call(controller.signal), deadline]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  });
+};
+
+// Runs a model call, retrying transient failures with exponential backoff and
+// full jitter so clients that failed together do not retry together. A
+// server-requested Retry-After wins over the computed delay.
+export const withRetry = async <T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = MODEL_TIMEOUT_MS, attempts = MAX_ATTEMPTS }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await attemptWithTimeout(call, signal, timeoutMs);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const failure = toModelError(error);
+      const offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+      if (!failure.retryable || attempt >= attempts || offline || (failure.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+      const delay = failure.retryAfterMs ?? Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+      console.warn(`Model call failed (${failure.kind}), retrying in ${Math.round(delay)} ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
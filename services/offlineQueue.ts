@@ -0,0 +1,64 @@
+import { QueuedAnalysis, SafetyRefusal } from "../types";
+import { STORES, withStore } from "./db";
+import { InputRefusedError, screenUserInput } from "./inputSafety";
+import { diagnosisUserText, medicationUserText } from "./prompts";
+
+// Analyses submitted without connectivity are kept in IndexedDB and replayed
+// once the browser is back online, so they survive reloads and closed tabs.
+
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// The same screen the online path runs, so a request that would be refused
+// is refused now instead of failing later on replay
+export const screenQueuedAnalysis = (analysis: QueuedAnalysis): SafetyRefusal | null =>
+  screenUserInput(analysis.kind === 'diagnosis'
+    ? diagnosisUserText({ symptoms: analysis.input, images: analysis.images, intake: analysis.intake })
+    : medicationUserText({ query: analysis.input, images: analysis.images }));
+
+// The original blobs are only needed for re-editing, which a queued
+// analysis no longer allows; dropping them keeps the queue small.
+export const enqueueAnalysis = (analysis: QueuedAnalysis): Promise<IDBValidKey> =>
+  withStore(STORES.queue, 'readwrite', store => store.put({
+    ...analysis,
+    images: analysis.images.map(({ source, ...image }) => image),
+  }));
+
+export const removeQueuedAnalysis = (id: string): Promise<undefined> =>
+  withStore(STORES.queue, 'readwrite', store => store.delete(id));
+
+// Oldest first, the order they are replayed in
+export const listQueuedAnalyses = async (): Promise<QueuedAnalysis[]> => {
+  const queued = await withStore<QueuedAnalysis[]>(STORES.queue, 'readonly', store => store.getAll());
+  return queued.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+let replaying: Promise<number> | null = null;
+
+// Runs each queued analysis through `run` and removes it once done; resolves
+// with the number completed. Losing the connection again stops the replay so
+// the rest wait for the next reconnect; other failures are recorded on the
+// entry, which stays queued for a manual retry. A refusal is recorded as such
+// and not retried. Concurrent calls share one run.
+export const replayQueue = (run: (analysis: QueuedAnalysis) => Promise<void>): Promise<number> => {
+  if (!replaying) {
+    replaying = (async () => {
+      let completed = 0;
+      for (const analysis of await listQueuedAnalyses()) {
+        if (isOffline()) break;
+        if (analysis.refusal) continue;
+        try {
+          await run(analysis);
+          await removeQueuedAnalysis(analysis.id);
+          completed++;
+        } catch (error: any) {
+          if (isOffline()) break;
+          await enqueueAnalysis(error instanceof InputRefusedError
+            ? { ...analysis, error: undefined, refusal: error.refusal }
+            : { ...analysis, error: error?.message || 'Analysis failed.' });
+        }
+      }
+      return completed;
+    })().finally(() => { replaying = null; });
+  }
+  return replaying;
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { MedicationResponse } from "../types";
+import { reconcilePackagingOcr } from "./packagingOcr";
+
+const response = (dates: MedicationResponse['medication']['dates']) =>
+  ({ medication: { lot_number: 'Not visible', dates }, analysis_confidence: 80, disclaimer: '' }) as MedicationResponse;
+
+describe('reconcilePackagingOcr', () => {
+  it('confirms labelled model dates that match the OCR', () => {
+    const { medication } = reconcilePackagingOcr(
+      response({ production_date: 'MFG 01/2024 EXP 01/2027', expiry_date: 'MFG 01/2024 EXP 01/2027' }),
+      { text: '', production_date: '2024-01', expiry_date: '2027-01' }
+    );
+    expect(medication.sources).toMatchObject({ production_date: 'ocr_and_model', expiry_date: 'ocr_and_model' });
+  });
+
+  it('keeps the model date when the OCR reads a different one', () => {
+    const { medication } = reconcilePackagingOcr(
+      response({ production_date: 'Not visible', expiry_date: 'Use by March 2027' }),
+      { text: '', lot_number: 'A123', expiry_date: '2027-04' }
+    );
+    expect(medication.sources).toEqual({ lot_number: 'ocr', expiry_date: 'model' });
+    expect(medication.lot_number).toBe('A123');
+  });
+});
@@ -0,0 +1,182 @@
+import type { Worker } from "tesseract.js";
+import workerPath from "tesseract.js/dist/worker.min.js?url";
+import corePath from "tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url";
+import engDataUrl from "@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url";
+import { ExtractionSource, ImageAttachment, MedicationResponse, PackagingField, PackagingOcr } from "../types";
+import { normalizePackagingDate } from "./expiry";
+
+// On-device OCR pre-pass for medication packaging. Recognition runs in a
+// WASM worker. The worker, core and English data are bundled with the build
+// and precached, so OCR needs no third-party download and works offline. The
+// parsed lot and dates ground the model prompt and are reconciled with its
+// answer afterwards.
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+export const EXPIRY_LABEL = /\b(?:EXP(?:IRY|IRES|IRATION)?|USE\s*(?:BY|BEFORE)|BEST\s*BEFORE)\b\.?(?:\s*DATE)?/g;
+export const PRODUCTION_LABEL = /\b(?:MFG|MFD|MANUFACTURED(?:\s*ON)?|MANUFACTURING|MANUF|PROD(?:UCTION)?|DOM)\b\.?(?:\s*(?:DATE|DT)\b\.?)?/g;
+const LOT_PATTERN = /\b(?:LOT|BATCH|B\.?\s*NO|BN)\b\.?(?:\s*(?:NO|NUMBER)\b\.?)?[\s:#.]*([A-Z0-9][A-Z0-9\-/]{1,19})/g;
+const VALUE_WINDOW = 24; // Characters after a label that may hold its date
+
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const [{ createWorker }, data] = await Promise.all([
+        import("tesseract.js"),
+        fetch(engDataUrl).then(response => {
+          if (!response.ok) throw new Error(`OCR language data failed to load (${response.status})`);
+          return response.arrayBuffer();
+        }),
+      ]);
+      // A blob worker could not resolve the bundled paths, and the service
+      // worker already caches the data, so tesseract's own cache is skipped
+      return createWorker([{ code: 'eng', data: new Uint8Array(data) }], undefined, {
+        workerPath,
+        corePath,
+        workerBlobURL: false,
+        cacheMethod: 'none',
+      });
+    })();
+    // Allow a later call to retry if the worker or language data failed to load
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toIso = (year: number, month: number, day?: number): string | undefined => {
+  if (year < 100) year += 2000;
+  if (year < 1990 || year > 2099 || month < 1 || month > 12) return undefined;
+  if (day === undefined) return `${year}-${pad(month)}`;
+  if (day < 1 || day > new Date(year, month, 0).getDate()) return undefined;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Numeric day/month order is ambiguous; packaging outside the US is
+// day-first, so that wins unless the numbers rule it out.
+const dayMonth = (first: number, second: number): [number, number] =>
+  first <= 12 && second > 12 ? [second, first] : [first, second];
+
+const DATE_FORMATS: [RegExp, (m: RegExpExecArray) => string | undefined][] = [
+  // 2025-12-31, 2025/12/31, 2025.12.31
+  [/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/, m => toIso(+m[1], +m[2], +m[3])],
+  // 31/12/2025, 31.12.25, 12/31/2025
+  [/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/, m => {
+    const [day, month] = dayMonth(+m[1], +m[2]);
+    return toIso(+m[3], month, day);
+  }],
+  // 2025-12, 2025/12
+  [/^(\d{4})[-/.](\d{1,2})\b/, m => toIso(+m[1], +m[2])],
+  // 12/2025, 12.2025, 12 2025
+  [/^(\d{1,2})[-/.\s](\d{4})\b/, m => toIso(+m[2], +m[1])],
+  // 12/25, 12-25
+  [/^(\d{1,2})[-/.](\d{2})\b/, m => toIso(+m[2], +m[1])],
+  // MARCH 15, 2027, MAR 15TH 2027 (the model's long form)
+  [/^([A-Z]{3})[A-Z]*\.?[\s./-]*(\d{1,2})(?:ST|ND|RD|TH)?,?[\s./-]+(\d{4})\b/, m => {
+    const month = MONTHS.indexOf(m[1]) + 1;
+    return month > 0 ? toIso(+m[3], month, +m[2]) : undefined;
+  }],
+  // DEC 2025, 31 DEC 2025, DEC-25, 31.DEC.25; a 2-digit number followed by
+  // another is a day, never the year
+  [/^(?:(\d{1,2})[\s./-]*)?([A-Z]{3})[A-Z]*\.?[\s./-]*(\d{4}|\d{2})\b(?![,\s./-]*\d)/, m => {
+    const month = MONTHS.indexOf(m[2]) + 1;
+    return month > 0 ? toIso(+m[3], month, m[1] ? +m[1] : undefined) : undefined;
+  }],
+];
+
+export const parsePackagingDate = (value: string): string | undefined => {
+  const normalized = value.toUpperCase().trim();
+  for (const [pattern, convert] of DATE_FORMATS) {
+    const match = pattern.exec(normalized);
+    if (match) return convert(match);
+  }
+  return undefined;
+};
+
+// First labelled value that parses; "Mfd. by Pfizer" is skipped this way
+export const findLabelledDate = (text: string, label: RegExp): string | undefined => {
+  for (const match of text.matchAll(label)) {
+    const start = match.index! + match[0].length;
+    const value = text.slice(start, start + VALUE_WINDOW).replace(/^[\s.:#/-]+/, '');
+    const date = parsePackagingDate(value);
+    if (date) return date;
+  }
+  return undefined;
+};
+
+export const parsePackagingText = (text: string): PackagingOcr => {
+  const upper = text.toUpperCase();
+  // Lot codes always contain a digit; this rejects words like "NO" or "NUMBER"
+  const lot = [...upper.matchAll(LOT_PATTERN)].map(match => match[1]).find(value => /\d/.test(value));
+  const production = findLabelledDate(upper, PRODUCTION_LABEL);
+  const expiry = findLabelledDate(upper, EXPIRY_LABEL);
+  return {
+    text,
+    ...(lot && { lot_number: lot }),
+    ...(production && { production_date: production }),
+    ...(expiry && { expiry_date: expiry }),
+  };
+};
+
+export const readPackagingText = async (images: ImageAttachment[], signal?: AbortSignal): Promise<PackagingOcr> => {
+  const worker = await getWorker();
+  const pages: string[] = [];
+  for (const image of images) {
+    // Recognition itself cannot be interrupted; stop between images instead
+    signal?.throwIfAborted();
+    const { data } = await worker.recognize(image.dataUrl);
+    pages.push(data.text.trim());
+  }
+  signal?.throwIfAborted();
+  return parsePackagingText(pages.filter(Boolean).join('\n\n'));
+};
+
+// The model answers "Not visible" instead of leaving a field empty
+export const isMissingValue = (value?: string) => !value?.trim() || /not visible/i.test(value);
+
+// The model may answer a date with its label or extra words ("EXP 03/2026"),
+// so it is read like the expiry check reads it
+const sameValue = (field: PackagingField, modelValue: string, ocrValue: string) =>
+  field === 'lot_number'
+    ? modelValue.replace(/\s/g, '').toUpperCase() === ocrValue
+    : normalizePackagingDate(modelValue, field === 'expiry_date' ? 'expiry' : 'production') === ocrValue;
+
+// OCR fills values the model could not read; when both have one, the model's
+// wins (it sees the whole package) and agreement is recorded as provenance.
+export const reconcilePackagingOcr = (response: MedicationResponse, ocr: PackagingOcr): MedicationResponse => {
+  const { medication } = response;
+  const current: Record<PackagingField, string | undefined> = {
+    lot_number: medication.lot_number,
+    production_date: medication.dates.production_date,
+    expiry_date: medication.dates.expiry_date,
+  };
+  const values = { ...current };
+  const sources: Partial<Record<PackagingField, ExtractionSource>> = {};
+
+  (Object.keys(current) as PackagingField[]).forEach(field => {
+    const modelValue = current[field];
+    const ocrValue = ocr[field];
+    if (isMissingValue(modelValue)) {
+      if (ocrValue) {
+        values[field] = ocrValue;
+        sources[field] = 'ocr';
+      }
+    } else {
+      sources[field] = ocrValue && sameValue(field, modelValue!, ocrValue) ? 'ocr_and_model' : 'model';
+    }
+  });
+
+  return {
+    ...response,
+    ocr,
+    medication: {
+      ...medication,
+      ...(values.lot_number && { lot_number: values.lot_number }),
+      dates: { production_date: values.production_date!, expiry_date: values.expiry_date! },
+      sources,
+    },
+  };
+};
@@ -0,0 +1,157 @@
+// Incremental JSON parser for streamed model output. Parses a prefix of a JSON
+// document, returning everything decoded so far. Objects and arrays that were
+// cut off by the end of the input are recorded in `incomplete` so callers can
+// decide whether to render them yet.
+
+export interface PartialJsonResult {
+  value: unknown;
+  incomplete: WeakSet<object>;
+}
+
+interface Node {
+  value: unknown;
+  done: boolean;
+}
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const LITERAL = /^(-?\d+(?:\.\d*)?(?:[eE][+-]?\d*)?|true|false|null)/;
+
+// Returns null if the prefix can never become valid JSON.
+export const parsePartialJson = (input: string): PartialJsonResult | null => {
+  // Models sometimes wrap JSON in a Markdown fence even in JSON mode
+  const text = input.replace(/^\s*```(?:json)?\s*/i, '');
+  const incomplete = new WeakSet<object>();
+  let i = 0;
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const parseString = (): Node => {
+    i++; // opening quote
+    let out = '';
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === '"') {
+        i++;
+        return { value: out, done: true };
+      }
+      if (ch === '\\') {
+        if (i + 1 >= text.length) break;
+        const esc = text[i + 1];
+        if (esc === 'u') {
+          if (i + 6 > text.length) break;
+          out += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+          i += 6;
+          continue;
+        }
+        out += ESCAPES[esc] ?? esc;
+        i += 2;
+        continue;
+      }
+      out += ch;
+      i++;
+    }
+    i = text.length;
+    return { value: out, done: false };
+  };
+
+  const parseLiteral = (): Node => {
+    const rest = text.slice(i);
+    const match = LITERAL.exec(rest);
+    if (!match) {
+      if (['true', 'false', 'null'].some(literal => literal.startsWith(rest))) {
+        i = text.length;
+        return { value: undefined, done: false };
+      }
+      throw new SyntaxError(`Unexpected token at position ${i}`);
+    }
+    i += match[0].length;
+    const raw = match[0];
+    const value = raw === 'true' ? true : raw === 'false' ? false : raw === 'null' ? null : parseFloat(raw);
+    // A literal that runs to the end of the input may still be growing
+    return { value, done: i < text.length };
+  };
+
+  const parseArray = (): Node => {
+    i++;
+    const arr: unknown[] = [];
+    while (true) {
+      skipWhitespace();
+      if (i >= text.length) break;
+      if (text[i] === ']') {
+        i++;
+        return { value: arr, done: true };
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      const item = parseValue();
+      if (item.value !== undefined) arr.push(item.value);
+      if (!item.done) break;
+    }
+    incomplete.add(arr);
+    return { value: arr, done: false };
+  };
+
+  const parseObject = (): Node => {
+    i++;
+    const obj: Record<string, unknown> = {};
+    while (true) {
+      skipWhitespace();
+      if (i >= text.length) break;
+      if (text[i] === '}') {
+        i++;
+        return { value: obj, done: true };
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      if (text[i] !== '"') throw new SyntaxError(`Expected property name at position ${i}`);
+      const key = parseString();
+      if (!key.done) break;
+      skipWhitespace();
+      if (i >= text.length) break;
+      if (text[i] !== ':') throw new SyntaxError(`Expected ':' at position ${i}`);
+      i++;
+      const property = parseValue();
+      if (property.value !== undefined) obj[key.value as string] = property.value;
+      if (!property.done) break;
+    }
+    incomplete.add(obj);
+    return { value: obj, done: false };
+  };
+
+  const parseValue = (): Node => {
+    skipWhitespace();
+    if (i >= text.length) return { value: undefined, done: false };
+    switch (text[i]) {
+      case '{':
+        return parseObject();
+      case '[':
+        return parseArray();
+      case '"':
+        return parseString();
+      default:
+        return parseLiteral();
+    }
+  };
+
+  try {
+    return { value: parseValue().value, incomplete };
+  } catch {
+    return null;
+  }
+};
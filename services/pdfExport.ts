@@ -0,0 +1,358 @@
+import type { jsPDF, TextOptionsLight } from "jspdf";
+import dejaVuSansUrl from "dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url";
+import dejaVuSansBoldUrl from "dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url";
+import { ClinicalReport, ExtractionSource, ImageAttachment, Locale, MedicationResponse } from "../types";
+import { createThumbnail } from "./imageUtils";
+import { assessExpiry, describeExpiry } from "./expiry";
+import { DEFAULT_LOCALE, LOCALES, MessageKey, MessageParams, translate } from "./i18n";
+import { isMissingValue } from "./packagingOcr";
+import { htmlToText } from "./sanitize";
+
+// In-app PDF generation for reports and medication monographs. Documents are
+// A4 with a branded header, and a footer carrying the disclaimer and page
+// numbers on every page. jsPDF is loaded on demand to keep it out of the
+// main bundle.
+//
+// The built-in Helvetica only covers Latin-1, so Arabic and Hebrew documents
+// embed DejaVu Sans and mirror the layout. jsPDF shapes Arabic letters itself
+// and its bidi engine reorders each line for drawing.
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 22;
+const MIN_FOOTER_HEIGHT = 20;
+const FOOTER_LINE_HEIGHT = 3; // 7pt disclaimer text
+const MAX_FOOTER_LINES = 8; // Longer disclaimers are shortened in the footer only
+const CONTENT_TOP = HEADER_HEIGHT + 12;
+const LINE_HEIGHT = 5;
+
+const BRAND_PRIMARY: [number, number, number] = [124, 58, 237];
+const TEXT_DARK: [number, number, number] = [15, 23, 42];
+const TEXT_MUTED: [number, number, number] = [100, 116, 139];
+
+const IMAGE_MAX_HEIGHT = 80;
+const IMAGE_MAX_PIXELS = 1024;
+
+const UNICODE_FONT = 'DejaVuSans';
+// Lines are given in logical order and drawn left to right
+const RTL_TEXT_OPTIONS: TextOptionsLight = {
+  isInputVisual: false,
+  isOutputVisual: true,
+  isInputRtl: true,
+  isOutputRtl: false,
+  isSymmetricSwapping: true,
+};
+
+type PdfFontStyle = 'normal' | 'bold' | 'italic';
+
+// Offsets are measured from the start margin: the left one in left-to-right
+// documents and the right one in right-to-left documents.
+interface PdfTypesetter {
+  setFont(style: PdfFontStyle): void;
+  text(text: string | string[], offset: number, y: number, options?: TextOptionsLight): void;
+  textAtEnd(text: string, y: number): void;
+  imageX(width: number): number;
+}
+
+interface PdfWriter {
+  heading(text: string): void;
+  paragraph(text: string): void;
+  list(items: string[], numbered?: boolean): void;
+  field(label: string, value: string): void;
+  images(attachments: ImageAttachment[]): Promise<void>;
+}
+
+interface PdfDocumentOptions {
+  locale: Locale;
+  title: string;
+  subtitle: string;
+  disclaimer: string;
+  fileName: string;
+}
+
+interface PdfFooter {
+  lines: string[];
+  height: number;
+}
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Only fetched for right-to-left documents. DejaVu has no Arabic oblique, so
+// italic text uses the upright face there.
+const embedUnicodeFont = async (doc: jsPDF): Promise<void> => {
+  const faces = await Promise.all(
+    ([[dejaVuSansUrl, 'normal'], [dejaVuSansBoldUrl, 'bold']] as const).map(async ([url, style]) => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`PDF font failed to load (${response.status})`);
+      return { style, data: toBase64(await response.arrayBuffer()) };
+    })
+  );
+  faces.forEach(({ style, data }) => {
+    const file = `${UNICODE_FONT}-${style}.ttf`;
+    doc.addFileToVFS(file, data);
+    doc.addFont(file, UNICODE_FONT, style);
+  });
+};
+
+const createTypesetter = (doc: jsPDF, rtl: boolean): PdfTypesetter => ({
+  setFont: (style) => {
+    if (rtl) doc.setFont(UNICODE_FONT, style === 'italic' ? 'normal' : style);
+    else doc.setFont('helvetica', style);
+  },
+  text: (text, offset, y, options = {}) => {
+    if (rtl) doc.text(text, PAGE_WIDTH - MARGIN - offset, y, { ...options, ...RTL_TEXT_OPTIONS, align: 'right' });
+    else doc.text(text, MARGIN + offset, y, options);
+  },
+  textAtEnd: (text, y) => {
+    if (rtl) doc.text(text, MARGIN, y, RTL_TEXT_OPTIONS);
+    else doc.text(text, PAGE_WIDTH - MARGIN, y, { align: 'right' });
+  },
+  imageX: (width) => rtl ? PAGE_WIDTH - MARGIN - width : MARGIN,
+});
+
+// The footer grows with the disclaimer so no line is silently dropped. Past
+// MAX_FOOTER_LINES it says so and points to the full text in the body.
+const layoutFooter = (doc: jsPDF, type: PdfTypesetter, disclaimer: string, locale: Locale): PdfFooter => {
+  type.setFont('normal');
+  const wrapped: string[] = doc.setFontSize(7).splitTextToSize(disclaimer, CONTENT_WIDTH - 25);
+  const lines = wrapped.length > MAX_FOOTER_LINES
+    ? [...wrapped.slice(0, MAX_FOOTER_LINES - 1), translate(locale, 'pdf.footerShortened')]
+    : wrapped;
+  return { lines, height: Math.max(MIN_FOOTER_HEIGHT, lines.length * FOOTER_LINE_HEIGHT + 8) };
+};
+
+const createWriter = (doc: jsPDF, type: PdfTypesetter, contentBottom: number, locale: Locale): PdfWriter => {
+  let y = CONTENT_TOP;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > contentBottom) {
+      doc.addPage();
+      y = CONTENT_TOP;
+    }
+  };
+
+  const writeLines = (lines: string[], offset: number) => {
+    lines.forEach(line => {
+      ensureSpace(LINE_HEIGHT);
+      type.text(line, offset, y);
+      y += LINE_HEIGHT;
+    });
+  };
+
+  const setBody = () => {
+    type.setFont('normal');
+    doc.setFontSize(10);
+    doc.setTextColor(...TEXT_DARK);
+  };
+
+  return {
+    heading: (text) => {
+      ensureSpace(LINE_HEIGHT * 3); // Keep a heading with its first lines
+      y += 3;
+      type.setFont('bold');
+      doc.setFontSize(11);
+      doc.setTextColor(...BRAND_PRIMARY);
+      type.text(text.toLocaleUpperCase(locale), 0, y);
+      y += 2;
+      doc.setDrawColor(226, 232, 240);
+      doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+      y += LINE_HEIGHT;
+    },
+    paragraph: (text) => {
+      setBody();
+      writeLines(doc.splitTextToSize(text || '—', CONTENT_WIDTH), 0);
+      y += 2;
+    },
+    list: (items, numbered = false) => {
+      setBody();
+      if (items.length === 0) {
+        writeLines(['—'], 0);
+      }
+      items.forEach((item, idx) => {
+        const marker = numbered ? `${idx + 1}.` : '•';
+        const lines: string[] = doc.splitTextToSize(item, CONTENT_WIDTH - 6);
+        ensureSpace(LINE_HEIGHT);
+        type.text(marker, 0, y);
+        writeLines(lines, 6);
+      });
+      y += 2;
+    },
+    field: (label, value) => {
+      const lines: string[] = doc.splitTextToSize(value || '—', CONTENT_WIDTH - 50);
+      ensureSpace(LINE_HEIGHT);
+      type.setFont('bold');
+      doc.setFontSize(9);
+      doc.setTextColor(...TEXT_MUTED);
+      type.text(label, 0, y);
+      setBody();
+      writeLines(lines, 50);
+    },
+    images: async (attachments) => {
+      for (const [idx, attachment] of attachments.entries()) {
+        // Re-encoding normalises every upload format to a JPEG jsPDF can embed
+        const jpeg = await createThumbnail(attachment.dataUrl, IMAGE_MAX_PIXELS);
+        const { width, height } = doc.getImageProperties(jpeg);
+        const scale = Math.min(CONTENT_WIDTH / width, IMAGE_MAX_HEIGHT / height);
+        ensureSpace(height * scale + LINE_HEIGHT + 4);
+        doc.addImage(jpeg, 'JPEG', type.imageX(width * scale), y, width * scale, height * scale);
+        y += height * scale + 4;
+        type.setFont('italic');
+        doc.setFontSize(8);
+        doc.setTextColor(...TEXT_MUTED);
+        writeLines(doc.splitTextToSize(`${translate(locale, 'image.label', { index: idx + 1 })}${attachment.caption ? `: ${attachment.caption}` : ''}`, CONTENT_WIDTH), 0);
+        y += 3;
+      }
+    },
+  };
+};
+
+// Header and footer are drawn last so the total page count is known.
+const decoratePages = (doc: jsPDF, type: PdfTypesetter, { locale, title, subtitle }: PdfDocumentOptions, footer: PdfFooter) => {
+  const pageCount = doc.getNumberOfPages();
+  const generated = new Date().toLocaleString(locale);
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+
+    doc.setFillColor(...BRAND_PRIMARY);
+    doc.rect(0, 0, PAGE_WIDTH, HEADER_HEIGHT, 'F');
+    doc.setTextColor(255, 255, 255);
+    type.setFont('bold');
+    doc.setFontSize(14);
+    type.text(translate(locale, 'report.centre'), 0, 10);
+    type.setFont('normal');
+    doc.setFontSize(9);
+    type.text(`${title} • ${subtitle}`, 0, 16);
+    type.textAtEnd(generated, 16);
+
+    const footerTop = PAGE_HEIGHT - footer.height;
+    doc.setDrawColor(226, 232, 240);
+    doc.line(MARGIN, footerTop, PAGE_WIDTH - MARGIN, footerTop);
+    doc.setTextColor(...TEXT_MUTED);
+    doc.setFontSize(7);
+    type.text(footer.lines, 0, footerTop + 5, { lineHeightFactor: FOOTER_LINE_HEIGHT / (7 * 0.3528) });
+    doc.setFontSize(8);
+    type.textAtEnd(translate(locale, 'pdf.page', { page, count: pageCount }), footerTop + 5);
+  }
+};
+
+const buildPdf = async (
+  options: PdfDocumentOptions,
+  write: (writer: PdfWriter) => Promise<void>
+): Promise<void> => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: `${options.title} - LV Health`, creator: 'LV Assistant Doctor' });
+  const rtl = LOCALES[options.locale].dir === 'rtl';
+  if (rtl) await embedUnicodeFont(doc);
+  const type = createTypesetter(doc, rtl);
+  const footer = layoutFooter(doc, type, options.disclaimer, options.locale);
+  await write(createWriter(doc, type, PAGE_HEIGHT - footer.height - 6, options.locale));
+  decoratePages(doc, type, options, footer);
+  doc.save(options.fileName);
+};
+
+const toFileName = (...parts: string[]): string =>
+  `${parts.join('-').replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase()}.pdf`;
+
+export const exportReportPdf = (report: ClinicalReport, images: ImageAttachment[] = [], locale: Locale = DEFAULT_LOCALE): Promise<void> => {
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  return buildPdf(
+    {
+      locale,
+      title: t('report.title'),
+      subtitle: `${t('pdf.patientId', { id: report.patient_id })} • ${new Date(report.generated_at).toLocaleDateString(locale)}`,
+      disclaimer: report.disclaimer,
+      fileName: toFileName('lv-health-report', report.patient_id),
+    },
+    async (pdf) => {
+      pdf.heading(t('report.chiefComplaint'));
+      pdf.paragraph(report.chief_complaint);
+      if (images.length > 0) {
+        pdf.heading(t(images.length > 1 ? 'pdf.submittedImages' : 'pdf.submittedImage'));
+        await pdf.images(images);
+      }
+      pdf.heading(t('report.impression'));
+      pdf.paragraph(htmlToText(report.impression));
+      pdf.heading(t('report.differential'));
+      pdf.list(report.differential.map(item => `${item.condition}: ${htmlToText(item.rationale)}`));
+      pdf.heading(t('report.plan'));
+      pdf.list(report.plan, true);
+      pdf.heading(t('report.disclaimer'));
+      pdf.paragraph(report.disclaimer);
+    }
+  );
+};
+
+const SOURCE_NOTES: Record<ExtractionSource, MessageKey> = {
+  ocr: 'pdf.source.ocr',
+  model: 'pdf.source.model',
+  ocr_and_model: 'pdf.source.ocr_and_model',
+  barcode: 'pdf.source.barcode',
+};
+
+export const exportMedicationPdf = (
+  { medication, analysis_confidence, disclaimer }: MedicationResponse,
+  images: ImageAttachment[] = [],
+  locale: Locale = DEFAULT_LOCALE
+): Promise<void> => {
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const withSource = (value: string, source?: ExtractionSource) =>
+    source ? `${value} (${t(SOURCE_NOTES[source])})` : value;
+
+  return buildPdf(
+    {
+      locale,
+      title: t('pdf.monograph'),
+      subtitle: medication.name,
+      disclaimer,
+      fileName: toFileName('lv-health-monograph', medication.name),
+    },
+    async (pdf) => {
+      pdf.heading(t('pdf.identification'));
+      pdf.field(t('pdf.brandName'), medication.name);
+      pdf.field(t('pdf.genericName'), medication.generic_name);
+      pdf.field(t('medication.confidence'), `${analysis_confidence}%`);
+      if (images.length > 0) {
+        pdf.heading(t(images.length > 1 ? 'pdf.analyzedImages' : 'pdf.analyzedImage'));
+        await pdf.images(images);
+      }
+      pdf.heading(t('medication.specifications'));
+      pdf.field(t('pdf.form'), medication.specifications.type);
+      pdf.field(t('pdf.dosage'), medication.specifications.dosage);
+      pdf.field(t('pdf.composition'), medication.specifications.composition);
+      pdf.heading(t('medication.manufacturer'));
+      pdf.field(t('pdf.manufacturerName'), medication.manufacturer.name);
+      pdf.field(t('pdf.origin'), medication.manufacturer.country_of_origin);
+      pdf.field(t('pdf.distribution'), medication.manufacturer.country_of_distribution);
+      pdf.heading(t('pdf.dates'));
+      pdf.field(t('pdf.productionDate'), withSource(medication.dates.production_date, medication.sources?.production_date));
+      pdf.field(t('pdf.expiryDate'), withSource(medication.dates.expiry_date, medication.sources?.expiry_date));
+      pdf.field(t('pdf.expiryStatus'), describeExpiry(assessExpiry(medication.dates), locale));
+      if (!isMissingValue(medication.lot_number)) {
+        pdf.field(t('pdf.lotNumber'), withSource(medication.lot_number, medication.sources?.lot_number));
+      }
+      if (medication.gtin) pdf.field(t('packaging.gtin'), medication.gtin);
+      if (medication.serial_number) pdf.field(t('pdf.serialNumber'), medication.serial_number);
+      pdf.heading(t('pdf.indications'));
+      pdf.list(medication.clinical_info.uses);
+      pdf.heading(t('pdf.administration'));
+      pdf.paragraph(medication.clinical_info.administration_guide);
+      pdf.heading(t('pdf.sideEffects'));
+      pdf.list(medication.clinical_info.side_effects);
+      pdf.heading(t('pdf.warnings'));
+      pdf.paragraph(medication.clinical_info.warnings);
+      pdf.heading(t('pdf.disclaimer'));
+      pdf.paragraph(disclaimer);
+    }
+  );
+};
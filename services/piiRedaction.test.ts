@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { redactText } from "./piiRedaction";
+
+const packagingText = (text: string) => redactText(text, 'Package text', { packaging: true }).text;
+
+describe('redactText', () => {
+  it.each(['SW1A 1AA', 'M1 1AE', 'EC1A 1BB'])('masks the postcode %s', postcode => {
+    expect(redactText(`I live at ${postcode}`, 'Symptoms').text).toBe('I live at [ADDRESS]');
+  });
+
+  it.each(['VITAMIN B12 5MG', 'Vitamin D3 1KG tub', 'B12 1ML ampoule'])('leaves the dose in %s', text => {
+    expect(packagingText(text)).toBe(text);
+  });
+
+  it.each(['5 012345 678900', '0 12345 67890 5', 'BATCH 2301 4456 789'])('leaves barcode digits on packages: %s', text => {
+    expect(packagingText(text)).toBe(text);
+  });
+
+  it.each(['Tel: 020 7946 0958', 'Call +44 20 7946 0958', 'Ph: 555-123-4567'])('masks phone numbers on packages: %s', text => {
+    expect(packagingText(text)).toContain('[PHONE]');
+  });
+
+  it('masks a spaced number in free text', () => {
+    expect(redactText('Call me on 7946 095 812', 'Symptoms').text).toBe('Call me on [PHONE]');
+  });
+});
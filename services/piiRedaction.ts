@@ -0,0 +1,144 @@
+import { ImageAttachment, PatientIntake, PiiKind, Redaction } from "../types";
+import { MessageKey } from "./i18n";
+
+// Local scrubber for personal details in text bound for the model. Names,
+// contact details, addresses and ID numbers are replaced with placeholders
+// such as [NAME]; the clinical content around them is left untouched. Like
+// the red-flag screen it is deterministic and runs entirely on-device.
+
+const PLACEHOLDERS: Record<PiiKind, string> = {
+  name: '[NAME]',
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+  id_number: '[ID]',
+  date_of_birth: '[DATE OF BIRTH]',
+};
+
+export const PII_LABELS: Record<PiiKind, MessageKey> = {
+  name: 'pii.name',
+  email: 'pii.email',
+  phone: 'pii.phone',
+  address: 'pii.address',
+  id_number: 'pii.id_number',
+  date_of_birth: 'pii.date_of_birth',
+};
+
+interface Detector {
+  kind: PiiKind;
+  // Global. With two capture groups the first is a label that is kept and
+  // only the second is masked.
+  pattern: RegExp;
+  accept?: (value: string, packaging: boolean) => boolean;
+  freeTextOnly?: boolean; // Too eager for package text full of lot numbers and barcodes
+}
+
+const NAME_WORD = "[A-Z][A-Za-z'’-]+";
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+// Ordered: earlier detectors claim their text first, so a phone number inside
+// a labelled ID is masked once, as an ID.
+const DETECTORS: Detector[] = [
+  { kind: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  {
+    kind: 'date_of_birth',
+    pattern: /(\b(?:[Dd]ate of [Bb]irth|DATE OF BIRTH|D\.?O\.?B\.?|[Dd]ob|[Bb]orn(?: on)?)\s*:?\s*)(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|\d{4}-\d{2}-\d{2}|\d{1,2}(?:st|nd|rd|th)?\s+[A-Za-z]{3,9},?\s+\d{4}|[A-Za-z]{3,9}\s+\d{1,2}(?:st|nd|rd|th)?,?\s+\d{4})/g,
+  },
+  {
+    kind: 'id_number',
+    pattern: /(\b(?:MRN|NHS(?:\s+(?:[Nn]umber|[Nn]o\.?))?|[Mm]edical [Rr]ecord(?: [Nn]umber| [Nn]o\.?)?|[Pp]atient ID|[Hh]ospital [Nn]umber|SSN|[Ss]ocial [Ss]ecurity(?: [Nn]umber| [Nn]o\.?)?|[Pp]assport(?: [Nn]umber| [Nn]o\.?)?|[Ii]nsurance (?:ID|[Nn]umber|[Nn]o\.?)|[Mm]ember ID|[Pp]olicy (?:[Nn]umber|[Nn]o\.?)|Rx\s*(?:#|[Nn]o\.?|[Nn]umber)|ID\s*(?:#|:|[Nn]umber|[Nn]o\.?))\s*[:#]?\s*)([A-Z0-9-]*\d[A-Z0-9-]*(?:\s?[A-Z0-9-]*\d[A-Z0-9-]*){0,3})/g,
+    accept: value => value.length >= 4,
+  },
+  { kind: 'id_number', pattern: /\b\d{3}-\d{2}-\d{4}\b/g }, // US SSN
+  { kind: 'id_number', pattern: /\b[A-CEGHJ-PR-TW-Z]{2}\s?\d{2}\s?\d{2}\s?\d{2}\s?[A-D]\b/g }, // UK National Insurance
+  {
+    kind: 'phone',
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\b\d{2,6}(?:[\s.-]\d{2,6}){1,4}\b/g,
+    // Needs the shape of a number, not a list of readings like "120 80 95".
+    // On packages, space-separated digits are usually a GTIN or batch printed
+    // under a barcode, so a country code, area code, trunk 0 or dashes are required.
+    accept: (value, packaging) => {
+      const digits = digitCount(value);
+      const longGroups = value.split(/[\s.()+-]+/).filter(group => group.length >= 3).length;
+      if (packaging && !/^[+(]|^0\d{2,4}\s|\d[.-]\d/.test(value)) return false;
+      return digits >= 9 && digits <= 15 && longGroups >= 2 && !/^\d{4}-\d{2}-\d{2}$/.test(value);
+    },
+  },
+  { kind: 'address', pattern: /(\b(?:[Aa]ddress|ADDRESS)\s*:\s*)([^\n]{5,80})/g },
+  {
+    kind: 'address',
+    pattern: /\b\d{1,5}[A-Za-z]?,?\s+(?:[A-Z][A-Za-z'’-]*\s+){1,3}(?:Street|Road|Avenue|Lane|Drive|Boulevard|Court|Close|Terrace|Crescent|Square|Gardens|Way|Place|St|Rd|Ave|Ln|Blvd|Dr|STREET|ROAD|AVENUE|LANE|DRIVE|ST|RD|AVE)\b\.?/g,
+  },
+  // UK postcode. The inward code never uses C, I, K, M, O or V, so doses
+  // such as "B12 5MG" or "D3 1KG" are not mistaken for one.
+  { kind: 'address', pattern: /\b(?:[A-Z]{1,2}\d[A-Z\d]?|GIR)\s?\d[ABD-HJLNP-UW-Z]{2}\b/g },
+  {
+    kind: 'address', // US state and ZIP code
+    pattern: /\b(?:A[KLRZ]|C[AOT]|D[CE]|FL|GA|HI|I[ADLN]|K[SY]|LA|M[ADEINOST]|N[CDEHJMVY]|O[HKR]|PA|RI|S[CD]|T[NX]|UT|V[AT]|W[AIVY])\s+\d{5}(?:-\d{4})?\b/g,
+  },
+  { kind: 'name', pattern: new RegExp(`(\\b[Mm]y name is\\s+)(${NAME_WORD}(?:[ \\t]+${NAME_WORD}){0,2}|[a-z][a-z'’-]+)`, 'g') },
+  { kind: 'name', pattern: new RegExp(`(\\b(?:[Nn]ame|NAME|[Pp]atient(?: [Nn]ame)?|PATIENT(?: NAME)?|[Ff]or|FOR)\\s*:\\s*)(${NAME_WORD}(?:[ \\t]+${NAME_WORD}){0,2})`, 'g') },
+  // Not "Dr": on packaging that is usually a manufacturer, e.g. Dr. Reddy's
+  { kind: 'name', pattern: new RegExp(`(\\b(?:Mr|Mrs|Ms|Miss|Mx)\\.?\\s+)(${NAME_WORD}(?:[ \\t]+${NAME_WORD})?)`, 'g') },
+  { kind: 'id_number', pattern: /\b\d{9,}\b/g, freeTextOnly: true },
+];
+
+// Keeps the first character of each word so the user can recognise what was
+// masked without the log holding the value itself
+const maskValue = (value: string): string =>
+  value.trim().replace(/[A-Za-z0-9]+/g, word => word[0] + '•'.repeat(Math.min(word.length - 1, 6)));
+
+export interface RedactOptions {
+  packaging?: boolean; // OCR text from a package photo
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+export const redactText = (text: string, field: string, { packaging = false }: RedactOptions = {}): RedactionResult => {
+  const redactions: Redaction[] = [];
+  let redacted = text;
+
+  for (const detector of DETECTORS) {
+    if (packaging && detector.freeTextOnly) continue;
+    const placeholder = PLACEHOLDERS[detector.kind];
+    redacted = redacted.replace(detector.pattern, (match: string, ...groups: unknown[]) => {
+      const labelled = typeof groups[0] === 'string';
+      const label = labelled ? groups[0] as string : '';
+      const value = labelled ? groups[1] as string : match;
+      if (value.includes('[') || (detector.accept && !detector.accept(value, packaging))) return match;
+      redactions.push({ kind: detector.kind, field, placeholder, preview: maskValue(value) });
+      return label + placeholder;
+    });
+  }
+
+  return { text: redacted, redactions };
+};
+
+// Collects the redactions of several fields of one request into one log
+export const createRedactor = () => {
+  const redactions: Redaction[] = [];
+  const redact = (text: string, field: string, options?: RedactOptions): string => {
+    const result = redactText(text, field, options);
+    redactions.push(...result.redactions);
+    return result.text;
+  };
+  return { redact, redactions };
+};
+
+type Redact = (text: string, field: string, options?: RedactOptions) => string;
+
+export const redactCaptions = (images: ImageAttachment[], redact: Redact): ImageAttachment[] =>
+  images.map((image, idx) => image.caption.trim() ? { ...image, caption: redact(image.caption, `Image ${idx + 1} caption`) } : image);
+
+// Only the free-text fields; numbers and choices carry no identity
+export const redactIntake = (intake: PatientIntake, redact: Redact): PatientIntake => ({
+  ...intake,
+  symptom_onset: intake.symptom_onset && redact(intake.symptom_onset, 'Symptom onset'),
+  symptom_duration: intake.symptom_duration && redact(intake.symptom_duration, 'Symptom duration'),
+  chronic_conditions: intake.chronic_conditions.map(item => redact(item, 'Chronic conditions')),
+  current_medications: intake.current_medications.map(item => redact(item, 'Current medications')),
+  allergies: intake.allergies.map(item => redact(item, 'Allergies')),
+});
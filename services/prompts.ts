@@ -0,0 +1,286 @@
+import { Schema } from "@google/genai";
+import { ConsultationRound, DiagnosisResponse, ImageAttachment, Locale, PackageBarcode, PackagingOcr, PatientIntake } from "../types";
+import { DEFAULT_LOCALE, LOCALES } from "./i18n";
+import { formatIntake, hasIntakeData } from "./intake";
+import { escapeUserText, MAX_NAME_LENGTH, UNTRUSTED_INPUT_RULES, userContent } from "./inputSafety";
+import { DIAGNOSIS_SCHEMA, INTERACTION_SCHEMA, MEDICATION_SCHEMA, REPORT_SCHEMA } from "./schemas";
+
+export interface InlineImage {
+  mimeType: string;
+  data: string; // base64 without the data URL prefix
+  label: string; // Sent as a text part right before the image, e.g. "Image 2: back of the pack"
+}
+
+// Provider-agnostic description of a single model call. Each provider maps
+// this onto its own request format.
+export interface PromptSpec {
+  systemInstruction?: string;
+  text: string;
+  images: InlineImage[];
+  schema?: Schema;
+  temperature: number;
+}
+
+export const toInlineImage = (image: ImageAttachment, index: number): InlineImage => {
+  const label = `Image ${index + 1}${image.caption.trim() ? `: ${userContent('caption', image.caption, MAX_NAME_LENGTH)}` : ''}`;
+  // Extract base64 data and mime type if it's a data URL
+  const matches = image.dataUrl.match(/^data:(.+);base64,(.+)$/);
+  if (matches) {
+    return { mimeType: matches[1], data: matches[2], label };
+  }
+  return { mimeType: 'image/png', data: image.dataUrl, label };
+};
+
+const describeAttachments = (images: ImageAttachment[] = []): string =>
+  images.length === 0
+    ? ''
+    : images.length === 1
+      ? '[1 IMAGE ATTACHED, labelled Image 1]'
+      : `[${images.length} IMAGES ATTACHED, labelled Image 1 to Image ${images.length}]`;
+
+const DIAGNOSIS_SYSTEM_INSTRUCTION = `
+      You are Dr. LV, a Distinguished Professor of Medicine and Chief Diagnostician with PhD-level expertise in Internal Medicine, Pathophysiology, and Differential Diagnosis. You are the core intelligence of the LV Health "Assistant Doctor" system.
+
+      YOUR CAPABILITIES:
+      - You possess the collective clinical knowledge of a multidisciplinary board of specialists.
+      - Your diagnostic accuracy is designed to exceed that of a standard life-long physician by utilizing pure, bias-free evidence-based medicine.
+      - **Multimodal Analysis**: You are capable of analyzing medical images (rashes, swelling, wounds, test results) in conjunction with provided text to form a more accurate diagnosis.
+
+      YOUR METHODOLOGY:
+      1.  **Phenomenological Analysis**: Do not just match keywords. Analyze the *quality*, *duration*, *onset*, and *progression* of the reported symptoms to build a clinical picture.
+      2.  **Visual Analysis (if image provided)**: Examine the image for clinical signs (erythema, asymmetry, exudate, structural abnormalities) and integrate these findings. Several images may show the same lesion from different angles; each is labelled "Image N" with an optional caption from the patient. Record each observation in image_findings with its image number, and list the supporting image numbers in each condition's image_refs.
+      3.  **Bayesian Reasoning**: Weigh the probability of diseases based on the specific constellation of symptoms. Prioritize conditions where the *pathophysiology* explains the majority of the user's complaints.
+      4.  **Rule Out Strategy**: actively consider "Red Flags" (signs of emergency) and "Zebras" (rare diseases) if the common conditions (Horses) do not fully explain the presentation.
+      5.  **Precision**: Use precise medical terminology, followed by clear explanations.
+
+      DIAGNOSTIC PROTOCOL:
+      - If the input is vague, make the best probabilistic estimate based on epidemiology.
+      - If symptoms suggest a life-threatening emergency (e.g., aortic dissection, myocardial infarction, meningitis, stroke), mark urgency as "CRITICAL" and provide directive advice for emergency care.
+
+      FOLLOW-UP PROTOCOL:
+      - Ask up to 5 clarifying questions (onset, duration, severity, red-flag checks, relevant history) whose answers would most change the differential.
+      - When a consultation history is provided, refine the previous differential using the patient's answers and re-estimate every probability.
+      - Do not repeat questions that have already been answered. Return an empty list once further questions would not change management.
+
+      OUTPUT REQUIREMENT:
+      - Return a structured analysis identifying the top medical conditions.
+      - Rank them by strict probability.
+      - Code every condition with its ICD-10-CM code and SNOMED CT concept ID. Use the most specific code you are certain of; leave a code empty rather than guess.
+      - Maintain a professional, authoritative, yet empathetic tone suitable for a luxury health service.
+    ` + UNTRUSTED_INPUT_RULES;
+
+const MEDICATION_SYSTEM_INSTRUCTION = `
+      You are the LV Health "Pharma-Mind" AI, a PhD-level Clinical Pharmacist and Pharmaceutical Researcher with encyclopedic knowledge of global drug databases.
+      
+      YOUR TASK:
+      Analyze the provided medication name or image (packaging, tablet, bottle, prescription) and provide a 100% accurate, minute detailed monograph.
+      
+      CAPABILITIES (OCR & VISUAL ANALYSIS):
+      - Several images may be attached (e.g. front and back of a pack), each labelled "Image N" with an optional caption. Combine them into one monograph and record where each detail was read in image_findings.
+      - If an image is provided, you MUST perform OCR to read specific text:
+        - **Batch Numbers, Expiry Dates, Manufacturing Dates**: Look for "Exp:", "Mfg:", "Use By". If visible, extract them EXACTLY. If not visible/blurry, explicitly state "Not visible in provided image".
+        - **Manufacturer**: Look for logos and company names. Infer country of origin/distribution based on the packaging language and brand regulations (e.g., FDA vs EMA packaging).
+        - **Dosage/Strength**: Extract numbers (e.g., 500mg, 20mg).
+      
+      KNOWLEDGE RETRIEVAL:
+      - Retrieve mechanism of action, precise chemical composition, official indications, and strict administration guidelines.
+      
+      OUTPUT RULES:
+      - Be precise. Do not guess dates if they aren't in the image.
+      - If the image is a generic loose pill without text, identify it by shape/color/imprint if possible, but lower your confidence score and add a warning.
+      - Code the active ingredient with its RxNorm ingredient RXCUI and WHO ATC code. Leave a code empty rather than guess.
+      - Structure the response strictly according to the schema.
+    ` + UNTRUSTED_INPUT_RULES;
+
+const INTERACTION_SYSTEM_INSTRUCTION = `
+      You are the LV Health "Pharma-Mind" AI, a PhD-level Clinical Pharmacist specialising in drug-drug interactions.
+
+      YOUR TASK:
+      Assess every unordered pair of the provided medications for clinically relevant interactions.
+
+      METHODOLOGY:
+      - Consider pharmacokinetic interactions (CYP450 induction/inhibition, P-gp transport, absorption, renal clearance) and pharmacodynamic interactions (additive toxicity, QT prolongation, serotonergic load, bleeding risk, CNS depression).
+      - Grade severity as "None", "Minor", "Moderate", "Major" or "Contraindicated" following established interaction references.
+      - Give concrete management advice (avoid combination, monitor a specific parameter, adjust dose, separate administration times).
+
+      OUTPUT RULES:
+      - Return exactly one entry per pair, using the medication names exactly as provided.
+      - Use severity "None" with a brief note when no interaction is documented; never omit a pair.
+    ` + UNTRUSTED_INPUT_RULES;
+
+const REPORT_SYSTEM_INSTRUCTION = `
+      You are Dr. LV, a senior specialist at LV Health, writing formal consultation reports.
+      The diagnosis data is produced by the application; the patient's symptoms are their own words.
+    ` + UNTRUSTED_INPUT_RULES;
+
+export interface SymptomAnalysisRequest {
+  symptoms: string;
+  images?: ImageAttachment[];
+  intake?: PatientIntake;
+  history?: ConsultationRound[];
+  correction?: string; // Validation feedback from a rejected previous attempt
+  locale?: Locale; // Language for the free-text fields; English when unset
+}
+
+export interface MedicationAnalysisRequest {
+  query: string;
+  images?: ImageAttachment[];
+  ocr?: PackagingOcr; // Local OCR of the package photos, used as grounding
+  barcode?: PackageBarcode; // Scanned from the package; exact, not a guess
+  correction?: string;
+  locale?: Locale;
+}
+
+const withCorrection = (text: string, correction?: string): string =>
+  correction
+    ? `${text}\n\nYOUR PREVIOUS RESPONSE WAS REJECTED: ${correction}\nReturn a complete JSON object that strictly follows the response schema.`
+    : text;
+
+// The UI parses enums, codes and dates, so only prose is translated
+const withLanguage = (text: string, locale: Locale | undefined, fields: string): string =>
+  !locale || locale === DEFAULT_LOCALE
+    ? text
+    : `${text}\n\nRESPONSE LANGUAGE: Write ${fields} in ${LOCALES[locale].englishName}. Keep JSON keys, enum values, medical codes, numbers and dates exactly as the schema specifies, in English.`;
+
+export interface InteractionRequest {
+  medications: string[];
+  correction?: string;
+  locale?: Locale;
+}
+
+export interface ReportRequest {
+  diagnosis: DiagnosisResponse;
+  symptoms: string;
+  correction?: string;
+  locale?: Locale;
+}
+
+export interface SampleRequest {
+  locale?: Locale;
+}
+
+// Earlier rounds are sent back by the client, so even the model's own
+// condition names and questions are escaped like user text
+const formatConsultationHistory = (history: ConsultationRound[]): string =>
+  history.map((round, index) => {
+    const differential = round.response.conditions
+      .map(condition => `- ${escapeUserText(condition.name, MAX_NAME_LENGTH)} (${Number(condition.probability) || 0}%)`)
+      .join('\n');
+    const answers = round.answers
+      .map(({ question, answer }) => `Q: ${escapeUserText(question, MAX_NAME_LENGTH)}\nA: ${userContent('answer', answer)}`)
+      .join('\n');
+    return `Round ${index + 1} differential:\n${differential}\nPatient answers:\n${answers || '(none)'}`;
+  }).join('\n\n');
+
+export const buildDiagnosisPrompt = ({ symptoms, images = [], intake, history, correction, locale }: SymptomAnalysisRequest): PromptSpec => {
+  let presentation = `Patient Presentation: ${userContent('symptoms', symptoms)} ${describeAttachments(images)}`;
+  if (hasIntakeData(intake)) {
+    presentation += `\n\nPATIENT INTAKE:\n${userContent('intake', formatIntake(intake))}\nWeigh age, sex, pregnancy status, comorbidities, medications and vitals in the differential.`;
+  }
+
+  return {
+    systemInstruction: DIAGNOSIS_SYSTEM_INSTRUCTION,
+    text: withCorrection(withLanguage(history?.length
+      ? `${presentation} \n\nCONSULTATION HISTORY:\n${formatConsultationHistory(history)}\n\nTask: Refine the differential diagnosis using the patient's answers. Re-rank the pathologies, update each probability, and ask further clarifying questions only if they would change management.`
+      : `${presentation} \n\nTask: Perform a rigorous differential diagnosis. Identify the most probable pathologies, explain the mechanism of disease for the top match, recommend clinical workup, and list the clarifying questions you would ask next.`,
+      locale, 'condition names, descriptions, matched symptoms, recommendations, general_advice, disclaimer, image findings and follow-up questions; urgency stays Low, Medium, High or Critical'), correction),
+    images: images.map(toInlineImage),
+    schema: DIAGNOSIS_SCHEMA,
+    temperature: 0.2,
+  };
+};
+
+const formatPackagingOcr = (ocr?: PackagingOcr): string => {
+  if (!ocr?.text.trim()) return '';
+  const parsed = [
+    ocr.lot_number && `Lot: ${escapeUserText(ocr.lot_number, MAX_NAME_LENGTH)}`,
+    ocr.production_date && `Mfg: ${escapeUserText(ocr.production_date, MAX_NAME_LENGTH)}`,
+    ocr.expiry_date && `Exp: ${escapeUserText(ocr.expiry_date, MAX_NAME_LENGTH)}`,
+  ].filter(Boolean).join(', ');
+  return `\n\nOCR TEXT (read on-device from the images; may contain recognition errors, check it against the images):\n${userContent('ocr_text', ocr.text)}${parsed ? `\nParsed from OCR: ${parsed}` : ''}`;
+};
+
+const formatPackageBarcode = (barcode?: PackageBarcode): string => {
+  if (!barcode) return '';
+  const facts = [
+    barcode.gtin && `GTIN: ${escapeUserText(barcode.gtin, MAX_NAME_LENGTH)}`,
+    barcode.expiry_date && `Expiry date: ${escapeUserText(barcode.expiry_date, MAX_NAME_LENGTH)}`,
+    barcode.lot_number && `Lot number: ${escapeUserText(barcode.lot_number, MAX_NAME_LENGTH)}`,
+    barcode.serial_number && `Serial number: ${escapeUserText(barcode.serial_number, MAX_NAME_LENGTH)}`,
+  ].filter(Boolean).join('\n');
+  return `\n\nBARCODE DATA (decoded from the package ${escapeUserText(barcode.format, MAX_NAME_LENGTH)} barcode; these values are exact and authoritative, use them verbatim and identify the product from the GTIN where possible):\n${facts}`;
+};
+
+export const buildMedicationPrompt = ({ query, images = [], ocr, barcode, correction, locale }: MedicationAnalysisRequest): PromptSpec => ({
+  systemInstruction: MEDICATION_SYSTEM_INSTRUCTION,
+  text: withCorrection(withLanguage(
+    `Analyze this medication. Input: ${userContent('query', query)} ${describeAttachments(images)}${formatPackageBarcode(barcode)}${formatPackagingOcr(ocr)} \n\nExtract all visible details (dates, lot number, manufacturer) and provide deep clinical info.`,
+    locale, 'the monograph (type, uses, administration_guide, warnings, side_effects, country of origin, image findings and disclaimer); keep the brand name, manufacturer, text read from the package, batch and date fields and "Not visible" verbatim'), correction),
+  images: images.map(toInlineImage),
+  schema: MEDICATION_SCHEMA,
+  temperature: 0.1, // Very low temp for factual accuracy
+});
+
+export const buildInteractionPrompt = ({ medications, correction, locale }: InteractionRequest): PromptSpec => ({
+  systemInstruction: INTERACTION_SYSTEM_INSTRUCTION,
+  text: withCorrection(withLanguage(
+    `Medications:\n${medications.map((name, index) => `${index + 1}. ${userContent('medication', name, MAX_NAME_LENGTH)}`).join('\n')}\n\nAssess all ${medications.length * (medications.length - 1) / 2} pairs for interactions.`,
+    locale, 'mechanisms, effects, management advice, the summary and disclaimer; medication names stay exactly as provided and severity stays None, Minor, Moderate, Major or Contraindicated'), correction),
+  images: [],
+  schema: INTERACTION_SCHEMA,
+  temperature: 0.1,
+});
+
+export const buildSamplePrompt = ({ locale }: SampleRequest = {}): PromptSpec => ({
+  text: withLanguage("Generate a short, realistic, first-person description of a patient experiencing a specific set of medical symptoms (approx 30-50 words). Do not mention the diagnosis name. Vary the specialty (neurology, cardiology, gastro, etc.).", locale, 'the description'),
+  images: [],
+  temperature: 1.0,
+});
+
+// The diagnosis round-trips through the client, so it is escaped and fenced
+// like user text rather than trusted as the app's own output.
+const MAX_DIAGNOSIS_JSON_LENGTH = 20000;
+
+export const buildReportPrompt = ({ diagnosis, symptoms, correction, locale }: ReportRequest): PromptSpec => ({
+  systemInstruction: REPORT_SYSTEM_INSTRUCTION,
+  text: withCorrection(withLanguage(`
+      Write a formal, highly detailed medical consultation report based on the provided analysis.
+      
+      Patient Symptoms: ${userContent('symptoms', symptoms)}
+      
+      Diagnosis Data: <diagnosis_data>${escapeUserText(JSON.stringify(diagnosis), MAX_DIAGNOSIS_JSON_LENGTH)}</diagnosis_data>
+
+      Requirements:
+      - chief_complaint: Summary of patient's input.
+      - impression: Brief summary of the situation.
+      - differential: Detailed discussion of the top conditions identified, explaining *why* they were selected based on the symptoms.
+      - plan: Clear steps for the patient (e.g., Labs to request, Specialists to see).
+      - disclaimer: Standard medical disclaimer.
+      - Tone: Professional, clinical, authoritative but readable.
+      - Write plain text. Only <strong> and <em> are allowed for emphasis; no other markup, no Markdown.
+      - Do not include a header, date or patient ID; the application adds them.
+    `, locale, 'every report section'), correction),
+  images: [],
+  schema: REPORT_SCHEMA,
+  temperature: 0.3,
+});
+
+// --- Screened text ---
+// The fields of each request the user typed, for the input safety screen.
+// OCR and barcode data come from the package, not the user, and are only
+// escaped.
+
+const captionsOf = (images: ImageAttachment[] = []): string[] => images.map(image => image.caption);
+
+export const diagnosisUserText = ({ symptoms, images, intake, history = [] }: SymptomAnalysisRequest): string[] => [
+  symptoms,
+  ...captionsOf(images),
+  ...(intake ? [intake.symptom_onset, intake.symptom_duration, ...intake.chronic_conditions, ...intake.current_medications, ...intake.allergies] : []),
+  ...history.flatMap(round => round.answers.map(a => a.answer)),
+].filter((text): text is string => !!text);
+
+export const medicationUserText = ({ query, images }: MedicationAnalysisRequest): string[] => [query, ...captionsOf(images)];
+
+export const interactionUserText = ({ medications }: InteractionRequest): string[] => medications;
+
+export const reportUserText = ({ symptoms }: ReportRequest): string[] => [symptoms];
@@ -0,0 +1,68 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { ModelError } from "../modelErrors";
+import { buildDiagnosisPrompt, buildInteractionPrompt, buildMedicationPrompt, buildReportPrompt, buildSamplePrompt, PromptSpec } from "../prompts";
+import { CallOptions, ModelProvider, ModelProviderConfig } from "./types";
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+// A blocked prompt or candidate comes back as a successful response with no
+// text; surface it instead of letting it fail later as malformed JSON.
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+    throw new ModelError('safety_blocked');
+  }
+};
+
+export const createGeminiProvider = (config: ModelProviderConfig): ModelProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+  const modelId = config.model || DEFAULT_MODEL;
+
+  const generate = async (spec: PromptSpec, options: CallOptions = {}): Promise<string> => {
+    // Each image is preceded by its label so the model can cite it by number
+    const parts: any[] = spec.images.flatMap(({ label, mimeType, data }) => [
+      { text: label },
+      { inlineData: { mimeType, data } },
+    ]);
+    parts.push({ text: spec.text });
+
+    const params = {
+      model: modelId,
+      contents: { parts },
+      config: {
+        systemInstruction: spec.systemInstruction,
+        temperature: spec.temperature,
+        abortSignal: options.signal,
+        ...(spec.schema && {
+          responseMimeType: "application/json",
+          responseSchema: spec.schema,
+        }),
+      },
+    };
+
+    if (options.onText) {
+      let text = '';
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        assertNotBlocked(chunk);
+        text += chunk.text || '';
+        options.onText(text);
+      }
+      return text;
+    }
+
+    const response = await ai.models.generateContent(params);
+    assertNotBlocked(response);
+    return response.text || '';
+  };
+
+  return {
+    name: 'gemini',
+    analyzeSymptoms: (request, options) => generate(buildDiagnosisPrompt(request), options),
+    analyzeMedication: (request, options) => generate(buildMedicationPrompt(request), options),
+    checkInteractions: (request, options) => generate(buildInteractionPrompt(request), options),
+    generateSample: (request, options) => generate(buildSamplePrompt(request), options),
+    generateReport: (request, options) => generate(buildReportPrompt(request), options),
+  };
+};
@@ -0,0 +1,52 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { ModelProvider, ModelProviderConfig, ModelProviderName } from "./types";
+
+export type { ModelProvider, ModelProviderConfig, ModelProviderName } from "./types";
+
+const PROVIDER_NAMES: ModelProviderName[] = ['gemini', 'openai', 'mock', 'proxy'];
+
+// Reads provider selection from the environment: the server's at runtime, or
+// the browser build's (see vite.config.ts), which only ever selects `proxy`
+// or `mock` so no key reaches the bundle.
+export const getModelProviderConfig = (): ModelProviderConfig => {
+  const requested = (process.env.MODEL_PROVIDER || 'gemini').toLowerCase() as ModelProviderName;
+  const provider = PROVIDER_NAMES.includes(requested) ? requested : 'gemini';
+
+  return {
+    provider,
+    model: process.env.MODEL_ID || undefined,
+    apiKey: provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.GEMINI_API_KEY,
+    baseUrl: (provider === 'proxy' ? process.env.API_BASE_URL : process.env.OPENAI_BASE_URL) || undefined,
+  };
+};
+
+export const createModelProvider = (config: ModelProviderConfig): ModelProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAiCompatibleProvider(config);
+    case 'proxy':
+      return createProxyProvider(config);
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+let activeProvider: ModelProvider | null = null;
+
+export const getModelProvider = (): ModelProvider => {
+  if (!activeProvider) {
+    activeProvider = createModelProvider(getModelProviderConfig());
+  }
+  return activeProvider;
+};
+
+// Swap the provider at runtime, e.g. to inject the mock provider in tests.
+export const setModelProvider = (provider: ModelProvider | null): void => {
+  activeProvider = provider;
+};
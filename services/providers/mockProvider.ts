@@ -0,0 +1,154 @@
+import { ClinicalReportContent, DiagnosisResponse, ImageAttachment, ImageFinding, InteractionResponse, InteractionSeverity, MedicationResponse, UrgencyLevel } from "../../types";
+import { CallOptions, ModelProvider } from "./types";
+
+// Deterministic offline provider for local development and tests. Responses
+// are fixed fixtures; the text the user supplied is echoed back so the UI shows
+// something recognisable, and follow-up rounds shift the probabilities by a
+// fixed step so the refinement view has something to display.
+
+const MOCK_DISCLAIMER = "Offline mock response. This is not medical advice and was not produced by a model.";
+
+const mockImageFindings = (images: ImageAttachment[] = []): ImageFinding[] =>
+  images.map((image, idx) => ({
+    image: idx + 1,
+    finding: `Mock finding for ${image.caption.trim() || `image ${idx + 1}`}: no visual abnormality assessed offline.`,
+  }));
+
+const mockDiagnosis = (symptoms: string, round: number, images: ImageAttachment[] = []): DiagnosisResponse => ({
+  conditions: [
+    {
+      name: "Tension-Type Headache",
+      probability: Math.min(62 + round * 8, 90),
+      description: "Bilateral pressing pain without significant nausea is most consistent with tension-type headache.",
+      urgency: UrgencyLevel.LOW,
+      symptoms_matched: [symptoms.slice(0, 60)],
+      recommendations: ["Hydration and rest", "Simple analgesia as labelled", "Review sleep and screen posture"],
+      codes: { icd10cm: { code: "G44.209" }, snomed_ct: { code: "398057008" } },
+      image_refs: images.map((_, idx) => idx + 1),
+    },
+    {
+      name: "Migraine without Aura",
+      probability: Math.max(28 - round * 6, 5),
+      description: "Recurrent headache with photophobia can represent migraine; aura absence does not exclude it.",
+      urgency: UrgencyLevel.MEDIUM,
+      symptoms_matched: [symptoms.slice(0, 60)],
+      recommendations: ["Keep a headache diary", "Primary care review if attacks are frequent"],
+      codes: { icd10cm: { code: "G43.009" }, snomed_ct: { code: "56097005", display: "Migraine without aura" } },
+    },
+    {
+      name: "Subarachnoid Haemorrhage",
+      probability: 3,
+      description: "Included as a red-flag rule-out for any sudden, severe headache.",
+      urgency: UrgencyLevel.CRITICAL,
+      symptoms_matched: [],
+      recommendations: ["Seek emergency care for a sudden 'worst ever' headache"],
+      codes: { icd10cm: { code: "I60.9" }, snomed_ct: { code: "21454007" } },
+    },
+  ],
+  disclaimer: MOCK_DISCLAIMER,
+  general_advice: "Mock synopsis: the presentation is most consistent with a benign primary headache disorder.",
+  image_findings: mockImageFindings(images),
+  follow_up_questions: round < 2
+    ? [
+        { question: "Did the headache start suddenly, reaching peak intensity within a minute?", category: "red_flag" },
+        { question: "How many days per month do you get these headaches?", category: "duration" },
+        { question: "On a scale of 1 to 10, how severe is the pain at its worst?", category: "severity" },
+      ]
+    : [],
+});
+
+const mockMedication = (query: string, images: ImageAttachment[] = []): MedicationResponse => ({
+  medication: {
+    name: query.trim() || "Paracetamol 500mg",
+    generic_name: "Paracetamol (Acetaminophen)",
+    manufacturer: {
+      name: "Mock Pharma Ltd.",
+      country_of_origin: "United Kingdom",
+      country_of_distribution: "European Union",
+    },
+    dates: {
+      production_date: "Not visible",
+      expiry_date: "Not visible",
+    },
+    specifications: {
+      type: "Tablet",
+      dosage: "500mg",
+      composition: "Paracetamol 500mg",
+    },
+    clinical_info: {
+      uses: ["Mild to moderate pain", "Fever"],
+      administration_guide: "1-2 tablets every 4-6 hours with water. Do not exceed 8 tablets in 24 hours.",
+      side_effects: ["Rare: skin rash", "Rare: blood disorders"],
+      warnings: "Overdose can cause severe liver damage. Do not combine with other paracetamol-containing products.",
+    },
+    codes: { rxnorm: { code: "161" }, atc: { code: "N02BE01" } },
+  },
+  analysis_confidence: 90,
+  disclaimer: MOCK_DISCLAIMER,
+  image_findings: mockImageFindings(images),
+});
+
+const MOCK_SEVERITIES: InteractionSeverity[] = ['None', 'Minor', 'Moderate', 'Major'];
+
+const mockInteractions = (medications: string[]): InteractionResponse => {
+  const interactions: InteractionResponse['interactions'] = [];
+  medications.forEach((drugA, i) => {
+    medications.slice(i + 1).forEach((drugB, offset) => {
+      interactions.push({
+        drug_a: drugA,
+        drug_b: drugB,
+        severity: MOCK_SEVERITIES[(i + offset) % MOCK_SEVERITIES.length],
+        mechanism: "Mock mechanism: shared hepatic metabolism.",
+        clinical_effect: "Mock effect: possible change in plasma levels.",
+        management: "Mock management: monitor clinically.",
+      });
+    });
+  });
+  return {
+    interactions,
+    summary: `Mock assessment of ${interactions.length} medication pair(s).`,
+    disclaimer: MOCK_DISCLAIMER,
+  };
+};
+
+const MOCK_SAMPLE = "I've had a dull, band-like headache across my forehead for three days. It gets worse in the afternoon at my desk and eases a little after I sleep.";
+
+const mockReport = (diagnosis: DiagnosisResponse, symptoms: string): ClinicalReportContent => ({
+  chief_complaint: symptoms,
+  impression: "Offline mock impression. The presentation is <em>consistent</em> with the conditions listed below.",
+  differential: diagnosis.conditions.map(condition => ({
+    condition: condition.name,
+    rationale: `Mock rationale: estimated at <strong>${condition.probability}%</strong> by the analysis.`,
+  })),
+  plan: diagnosis.conditions[0]?.recommendations || [],
+  disclaimer: MOCK_DISCLAIMER,
+});
+
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_DELAY_MS = 25;
+
+// Replays a fixture through the same option contract as the real providers:
+// chunked when streaming, and rejecting with an AbortError when cancelled.
+const respond = async (text: string, { signal, onText }: CallOptions = {}): Promise<string> => {
+  const checkAborted = () => {
+    if (signal?.aborted) throw new DOMException("The operation was aborted.", "AbortError");
+  };
+  checkAborted();
+  if (onText) {
+    for (let end = STREAM_CHUNK_SIZE; end < text.length + STREAM_CHUNK_SIZE; end += STREAM_CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+      checkAborted();
+      onText(text.slice(0, end));
+    }
+  }
+  return text;
+};
+
+export const createMockProvider = (): ModelProvider => ({
+  name: 'mock',
+  analyzeSymptoms: ({ symptoms, images, history }, options) => respond(JSON.stringify(mockDiagnosis(symptoms, history?.length || 0, images)), options),
+  analyzeMedication: ({ query, images }, options) => respond(JSON.stringify(mockMedication(query, images)), options),
+  checkInteractions: ({ medications }, options) => respond(JSON.stringify(mockInteractions(medications)), options),
+  generateSample: (_request, options) => respond(MOCK_SAMPLE, options),
+  generateReport: ({ diagnosis, symptoms }, options) => respond(JSON.stringify(mockReport(diagnosis, symptoms)), options),
+});
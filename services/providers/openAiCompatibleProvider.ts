@@ -0,0 +1,102 @@
+import { buildDiagnosisPrompt, buildInteractionPrompt, buildMedicationPrompt, buildReportPrompt, buildSamplePrompt, PromptSpec } from "../prompts";
+import { ModelError, modelErrorFromStatus } from "../modelErrors";
+import { toJsonSchema } from "../schemas";
+import { CallOptions, ModelProvider, ModelProviderConfig } from "./types";
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+// Accumulates `choices[0].delta.content` from a server-sent event stream.
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+      const choice = JSON.parse(payload)?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new ModelError('safety_blocked');
+      const delta = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+// Talks to any server implementing the OpenAI `/chat/completions` API
+// (OpenAI, Azure, vLLM, Ollama, LM Studio, ...).
+export const createOpenAiCompatibleProvider = (config: ModelProviderConfig): ModelProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const modelId = config.model || DEFAULT_MODEL;
+
+  const generate = async (spec: PromptSpec, options: CallOptions = {}): Promise<string> => {
+    const messages: any[] = [];
+    if (spec.systemInstruction) {
+      messages.push({ role: 'system', content: spec.systemInstruction });
+    }
+    messages.push({
+      role: 'user',
+      content: [
+        ...spec.images.flatMap(image => [
+          { type: 'text', text: image.label },
+          { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+        ]),
+        { type: 'text', text: spec.text },
+      ],
+    });
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: modelId,
+        messages,
+        temperature: spec.temperature,
+        stream: !!options.onText,
+        ...(spec.schema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: toJsonSchema(spec.schema) },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      throw modelErrorFromStatus(response.status, await response.text().catch(() => ''), response.headers.get('retry-after'));
+    }
+
+    if (options.onText && response.body) {
+      return readEventStream(response.body, options.onText);
+    }
+
+    const data = await response.json();
+    const choice = data?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) throw new ModelError('safety_blocked');
+    return choice?.message?.content || '';
+  };
+
+  return {
+    name: 'openai',
+    analyzeSymptoms: (request, options) => generate(buildDiagnosisPrompt(request), options),
+    analyzeMedication: (request, options) => generate(buildMedicationPrompt(request), options),
+    checkInteractions: (request, options) => generate(buildInteractionPrompt(request), options),
+    generateSample: (request, options) => generate(buildSamplePrompt(request), options),
+    generateReport: (request, options) => generate(buildReportPrompt(request), options),
+  };
+};
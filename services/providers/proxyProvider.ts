@@ -0,0 +1,65 @@
+import { ImageAttachment } from "../../types";
+import { InputRefusedError } from "../inputSafety";
+import { MODEL_ERROR_KINDS, ModelError, modelErrorFromStatus } from "../modelErrors";
+import { CallOptions, ModelProvider, ModelProviderConfig } from "./types";
+
+// Calls the app's own API server (server/index.ts), which holds the model
+// credentials and builds the prompts. Like the other providers it resolves
+// to the raw model text; validation stays in the service layer.
+
+const DEFAULT_BASE_URL = '/api';
+
+// Only what the prompt needs: blobs do not serialize and ids are local
+const toWireImages = (images: ImageAttachment[] = []) =>
+  images.map(({ dataUrl, caption }) => ({ dataUrl, caption }));
+
+export const createProxyProvider = (config: ModelProviderConfig): ModelProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const call = async (endpoint: string, body: object, options: CallOptions = {}): Promise<string> => {
+    const response = await fetch(`${baseUrl}/${endpoint}${options.onText ? '?stream=1' : ''}`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      // The server runs the same input screen; its refusal is not a failure
+      if (data?.refusal) throw new InputRefusedError(data.refusal);
+      const retryAfter = response.headers.get('retry-after');
+      // Model failures arrive already classified by the server
+      if (MODEL_ERROR_KINDS.includes(data?.kind)) {
+        throw new ModelError(data.kind, undefined, { status: response.status, retryAfterMs: retryAfter ? Number(retryAfter) * 1000 : undefined });
+      }
+      throw modelErrorFromStatus(response.status, data?.error || response.statusText, retryAfter);
+    }
+
+    // Streamed responses are the model text itself, written as it arrives
+    if (options.onText && response.body) {
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let text = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value, { stream: true });
+        options.onText(text);
+      }
+      return text;
+    }
+
+    const data = await response.json();
+    return data?.text || '';
+  };
+
+  return {
+    name: 'proxy',
+    analyzeSymptoms: (request, options) => call('diagnose', { ...request, images: toWireImages(request.images) }, options),
+    analyzeMedication: (request, options) => call('medication', { ...request, images: toWireImages(request.images) }, options),
+    checkInteractions: (request, options) => call('interactions', request, options),
+    generateSample: (request, options) => call('sample', request, options),
+    generateReport: (request, options) => call('report', request, options),
+  };
+};
@@ -0,0 +1,27 @@
+import { InteractionRequest, MedicationAnalysisRequest, ReportRequest, SampleRequest, SymptomAnalysisRequest } from "../prompts";
+
+export type ModelProviderName = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+export interface ModelProviderConfig {
+  provider: ModelProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoints and the API proxy
+}
+
+export interface CallOptions {
+  signal?: AbortSignal;
+  // When set the provider streams, reporting the accumulated text after each chunk
+  onText?: (text: string) => void;
+}
+
+// Every operation resolves to the raw model text. Parsing and validation of
+// structured output happens in the service layer so all providers share it.
+export interface ModelProvider {
+  readonly name: ModelProviderName;
+  analyzeSymptoms(request: SymptomAnalysisRequest, options?: CallOptions): Promise<string>;
+  analyzeMedication(request: MedicationAnalysisRequest, options?: CallOptions): Promise<string>;
+  checkInteractions(request: InteractionRequest, options?: CallOptions): Promise<string>;
+  generateSample(request: SampleRequest, options?: CallOptions): Promise<string>;
+  generateReport(request: ReportRequest, options?: CallOptions): Promise<string>;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { DiagnosisResponse, MedicalCondition, UrgencyLevel } from "../types";
+import { enforceRedFlags, evaluateRedFlags } from "./redFlags";
+
+const firedRules = (text: string) => evaluateRedFlags(text).map(match => match.rule_id);
+
+describe('evaluateRedFlags', () => {
+  it.each([
+    ['I am vomiting blood', 'gi-haemorrhage'],
+    ['I have chest pain and I am sweating', 'acute-coronary-syndrome'],
+    ['My neck is stiff and I have a fever', 'meningitis'],
+  ])('fires on affirmed symptoms: %s', (text, rule) => {
+    expect(firedRules(text)).toContain(rule);
+  });
+
+  it.each([
+    ['No vomiting blood', 'gi-haemorrhage'],
+    ['I have chest pain but I am not sweating', 'acute-coronary-syndrome'],
+    ['Denies chest pain. Sweating after the run.', 'acute-coronary-syndrome'],
+    ["My neck is stiff but I don't have a fever", 'meningitis'],
+  ])('ignores negated symptoms: %s', (text, rule) => {
+    expect(firedRules(text)).not.toContain(rule);
+  });
+
+  it.each([
+    ['No cough, but I am vomiting blood', 'gi-haemorrhage'],
+    ["Not sure, but I have chest pain and I'm sweating", 'acute-coronary-syndrome'],
+    ["I don't have a fever but my neck is stiff and I have a rash", 'meningitis'],
+    ['No fever; I have a stiff neck and a rash', 'meningitis'],
+  ])('does not carry a negation into the next clause: %s', (text, rule) => {
+    expect(firedRules(text)).toContain(rule);
+  });
+
+  it.each([
+    ['Estoy vomitando sangre desde esta mañana', 'gi-haemorrhage'],
+    ['Tengo dolor en el pecho y estoy sudando mucho', 'acute-coronary-syndrome'],
+    ['Tengo la cara caída y no puedo mover el brazo derecho', 'stroke'],
+    ['أتقيأ دماً', 'gi-haemorrhage'],
+    ['أشعر بألم في الصدر وأتعرق كثيراً', 'acute-coronary-syndrome'],
+    ['יש לי כאבים בחזה ואני מזיע', 'acute-coronary-syndrome'],
+    ['אני רוצה למות', 'suicidal-ideation'],
+  ])('fires on symptoms in other languages: %s', (text, rule) => {
+    expect(firedRules(text)).toContain(rule);
+  });
+
+  it.each([
+    ['No tengo dolor en el pecho, solo estoy sudando', 'acute-coronary-syndrome'],
+    ['لا أعاني من ألم في الصدر، أتعرق فقط', 'acute-coronary-syndrome'],
+    ['אין לי כאב בחזה, אני רק מזיע', 'acute-coronary-syndrome'],
+  ])('ignores symptoms negated in other languages: %s', (text, rule) => {
+    expect(firedRules(text)).not.toContain(rule);
+  });
+
+  it('treats curly apostrophes like straight ones', () => {
+    expect(firedRules('My neck is stiff but I don’t have a fever')).not.toContain('meningitis');
+  });
+});
+
+describe('enforceRedFlags', () => {
+  const bleeding = evaluateRedFlags('I am vomiting blood');
+
+  const diagnosis = (conditions: MedicalCondition[]): DiagnosisResponse => ({ conditions, disclaimer: '', general_advice: '' });
+
+  const condition = (overrides: Partial<MedicalCondition>): MedicalCondition => ({
+    name: 'Gastritis',
+    probability: 40,
+    description: '',
+    urgency: UrgencyLevel.MEDIUM,
+    symptoms_matched: [],
+    recommendations: [],
+    ...overrides,
+  });
+
+  it('escalates a translated model condition recognised by its ICD-10 code', () => {
+    const { conditions } = enforceRedFlags(diagnosis([
+      condition({ name: 'Hemorragia digestiva alta', codes: { icd10cm: { code: 'K92.2' } } }),
+    ]), bleeding, 'es');
+    expect(conditions).toHaveLength(1);
+    expect(conditions[0].urgency).toBe(UrgencyLevel.CRITICAL);
+  });
+
+  it('adds the rule condition in the selected language', () => {
+    const { conditions } = enforceRedFlags(diagnosis([condition({})]), bleeding, 'es');
+    expect(conditions[0]).toMatchObject({ name: 'Hemorragia gastrointestinal aguda', rule_id: 'gi-haemorrhage', source: 'red_flag_rule' });
+    expect(conditions[0].description).toContain('Vómito o heces con sangre');
+  });
+
+  it('does not add a second condition for a rule that already added one', () => {
+    const first = enforceRedFlags(diagnosis([condition({})]), bleeding);
+    expect(enforceRedFlags(first, bleeding).conditions).toHaveLength(2);
+  });
+});
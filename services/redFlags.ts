@@ -0,0 +1,254 @@
+import { DiagnosisResponse, Locale, MedicalCondition, PatientIntake, RedFlagMatch, UrgencyLevel } from "../types";
+import { DEFAULT_LOCALE, foldForMatching, isMessageKey, translate } from "./i18n";
+
+// Deterministic emergency screen that runs locally before (and independently
+// of) the model. Rules are intentionally over-sensitive: a false alarm costs a
+// dismissed interstitial, a miss can cost a life.
+
+export interface RedFlagRule {
+  id: string;
+  title: string;
+  condition: string; // Emergency diagnosis forced into the differential
+  icd10: string[]; // ICD-10-CM codes or categories that mean the model already lists this diagnosis
+  advice: string;
+  // Every group must have at least one affirmed (non-negated) match in the
+  // text. Groups list English, Spanish, Arabic and Hebrew patterns, one line
+  // each, written in the folded form the text is matched in (no accents,
+  // harakat, hamza seats or niqqud).
+  requires?: RegExp[][];
+  // Structured check against the intake, e.g. vital sign thresholds
+  intake?: (intake: PatientIntake) => boolean;
+}
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: 'acute-coronary-syndrome',
+    title: 'Chest pain with sweating',
+    condition: 'Acute Coronary Syndrome',
+    icd10: ['I20.0', 'I21', 'I22', 'I24'],
+    advice: 'Call emergency services now. Do not drive yourself. If not allergic, chew 300 mg of aspirin while waiting.',
+    requires: [
+      [
+        /chest (pain|pressure|tightness|heaviness)/, /crushing (pain|chest)/, /pain in (my|the) chest/,
+        /dolor (en el |de |del )?pecho/, /dolor toracico/, /(opresion|presion) (en el |del )?pecho/,
+        /(الم|وجع|ثقل|ضيق) (في )?(ال)?صدر/,
+        /(כאב|כאבים|לחץ) ב?חזה/,
+      ],
+      [
+        /sweat/, /diaphore/, /clammy/,
+        /sud(or|ando|oros)/, /transpir/, /diaforesis/,
+        /عرق/,
+        /(הזע|מזיע|זיעה)/,
+      ],
+    ],
+  },
+  {
+    id: 'thunderclap-headache',
+    title: 'Sudden "worst ever" headache',
+    condition: 'Subarachnoid Haemorrhage',
+    icd10: ['I60', 'I61', 'I62', 'I67.1'],
+    advice: 'A sudden, severe headache must be assessed in an emergency department immediately.',
+    requires: [
+      [
+        /worst headache/, /worst[- ]ever headache/, /thunderclap/, /worst pain of my life/, /sudden (severe|explosive) headache/, /headache.{0,30}like (being hit|a hammer|an explosion)/,
+        /peor dolor de cabeza/, /dolor de cabeza (subito|repentino) y? ?(intenso|fuerte|explosivo)/, /cefalea en trueno/, /el peor dolor de mi vida/,
+        /اسوا صداع/, /صداع (مفاجي|مفاجئ) ?و?(شديد|قوي|حاد)/, /صداع كالرعد/, /اسوا الم في حياتي/,
+        /כאב (ה)?ראש (ה)?גרוע ביותר/, /כאב ראש (פתאומי|חד) ו?(חזק|עז|נורא)/, /כאב ראש כמו רעם/, /הכאב הגרוע ביותר בחיי/,
+      ],
+    ],
+  },
+  {
+    id: 'stroke',
+    title: 'One-sided weakness or numbness',
+    condition: 'Acute Stroke',
+    icd10: ['I63', 'I64', 'G45', 'G46'],
+    advice: 'Note the time symptoms started and call emergency services immediately. Every minute matters.',
+    requires: [
+      [
+        /one side/, /one-sided/, /unilateral/, /(left|right) (side|arm|leg|hand|half)/, /half of (my|the) (body|face)/, /face (is )?droop/, /facial droop/,
+        /un (solo )?lado/, /(lado|brazo|pierna|mano) (izquierd|derech)[oa]/, /mitad (del cuerpo|de (la|mi) cara)/, /(cara|boca) (caida|torcida)/,
+        /جانب واحد/, /(الجانب|الذراع|اليد|الساق|الرجل) (الايسر|الايمن|اليسري|اليمني)/, /نصف (الجسم|جسمي|الوجه|وجهي)/, /(الوجه|الفم) (مايل|معوج|متدلي)/,
+        /צד אחד/, /(צד|יד|רגל|זרוע) (שמאל|ימין)/, /(חצי|מחצית) (ה)?(גוף|פנים)/, /(צניחת|עקמת) (ה)?פנים/,
+      ],
+      [
+        /weak/, /numb/, /paraly/, /droop/, /can'?t (move|lift)/, /slurred/,
+        /debil/, /entumecid/, /adormecid/, /paraliz/, /no puedo (mover|levantar)/, /(cara|boca) (caida|torcida)/, /(habla|hablo) (arrastrad|torpe)/,
+        /ضعف/, /خدر/, /تنميل/, /شلل/, /لا استطيع (تحريك|رفع)/, /(الوجه|الفم) (مايل|معوج|متدلي)/, /ثقل (في )?(ال)?(كلام|لسان)/,
+        /חולש|חלש/, /נימול|רדומ/, /שיתוק|משותק/, /לא (יכול|יכולה) להזיז/, /(צניחת|עקמת) (ה)?פנים/, /דיבור (משובש|מעורפל)/,
+      ],
+    ],
+  },
+  {
+    id: 'suicidal-ideation',
+    title: 'Thoughts of suicide or self-harm',
+    condition: 'Suicidal Ideation — Psychiatric Emergency',
+    icd10: ['R45.851', 'T14.91'],
+    advice: 'You deserve support right now. Contact your local emergency number or a crisis line (e.g. 988 in the US, 116 123 in the UK and EU), or go to the nearest emergency department.',
+    requires: [
+      [
+        /suicid/, /kill myself/, /end (my|it all|my life)/, /want to die/, /self[- ]harm/, /hurt(ing)? myself/, /no reason to live/, /better off dead/,
+        /matarme/, /quitarme la vida/, /acabar con (mi vida|todo)/, /quiero morir/, /autolesion/, /hacerme dano/, /no tengo (razon|razones|motivos) para vivir/, /mejor muert[oa]/,
+        /انتحار|انتحر/, /اقتل نفسي/, /انهي حياتي/, /اريد (ان )?اموت/, /ايذاء نفسي|اوذي نفسي/, /لا (يوجد )?(سبب|داعي) (للعيش|للحياة)/, /الموت افضل/,
+        /התאבד/, /להרוג את עצמי/, /לשים קץ ל?חיי/, /רוצה למות/, /לפגוע בעצמי|פגיעה עצמית/, /אין (לי )?(סיבה|טעם) לחיות/, /עדיף (לי )?(למות|מת)/,
+      ],
+    ],
+  },
+  {
+    id: 'anaphylaxis',
+    title: 'Signs of anaphylaxis',
+    condition: 'Anaphylaxis',
+    icd10: ['T78.0', 'T78.2', 'T80.52', 'T88.6'],
+    advice: 'Use an adrenaline auto-injector if available and call emergency services immediately.',
+    requires: [
+      [
+        /throat (is )?(closing|swelling|tight)/, /swollen (tongue|lips|throat)/, /tongue (is )?swell/, /anaphyla/,
+        /garganta[^.,\n]{0,12}(cierr|hinch|inflam)/, /(lengua|labios)[^.,\n]{0,12}(hinchad|inflamad)/, /se me hincha(n)? (la lengua|los labios|la garganta)/, /anafila/,
+        /(انغلاق|اغلاق|تورم|انتفاخ) (في )?(ال)?(حلق|حنجر[ةه]|لسان|شفاه|شفتين)/, /(حلقي|لساني|شفتاي|شفايفي)[^.،\n]{0,10}(متورم|منتفخ|يتورم|ينتفخ|ينغلق)/, /التاق/,
+        /(נפיחות|התנפחות) (ב|של )?(ה)?(לשון|שפתיים|גרון)/, /(לשון|שפתיים|גרון)[^.,\n]{0,10}(נפוח|מתנפח|נסגר)/, /אנפילקס/,
+      ],
+    ],
+  },
+  {
+    id: 'meningitis',
+    title: 'Stiff neck with fever or rash',
+    condition: 'Bacterial Meningitis',
+    icd10: ['G00', 'G01', 'G02', 'G03', 'A39.0', 'A87'],
+    advice: 'Seek emergency care now. Meningitis can progress within hours.',
+    requires: [
+      [
+        /stiff neck/, /neck (is )?stiff/, /can'?t (bend|touch chin)/,
+        /rigidez (de|en) (la )?nuca/, /rigidez (de|en) el cuello|rigidez del cuello/, /cuello rigido|nuca rigida/, /no puedo (doblar|bajar) el cuello/,
+        /(تيبس|تصلب) (في )?(ال)?(رقب|عنق)/, /(رقبتي|عنقي) (متيبس|متصلب)/, /لا استطيع (ثني|تحريك) (رقبتي|عنقي)/,
+        /צוואר (נוקשה|תפוס)/, /נוקשות (ב|של )?(ה)?צוואר/, /קשיון עורף/, /לא (יכול|יכולה) לכופף את הצוואר/,
+      ],
+      [
+        /fever/, /rash/, /light hurts/, /photophobia/, /sensitiv(e|ity) to light/,
+        /fiebre|calentura/, /sarpullido|erupcion|manchas/, /(me molesta|duele) la luz/, /fotofobia/, /sensib(le|ilidad) a la luz/,
+        /حمي|حرار[ةه]|سخون[ةه]/, /طفح/, /(حساسي[ةه]|انزعاج) (من |لل)?(ال)?ضوء/, /رهاب الضوء/,
+        /חום/, /פריחה/, /רגישות לאור/, /האור (מפריע|כואב)/,
+      ],
+    ],
+  },
+  {
+    id: 'gi-haemorrhage',
+    title: 'Vomiting or passing blood',
+    condition: 'Acute Gastrointestinal Haemorrhage',
+    icd10: ['K92.0', 'K92.1', 'K92.2', 'I85.01', 'I85.11'],
+    advice: 'Seek emergency care immediately, especially if you feel faint or dizzy.',
+    requires: [
+      [
+        /vomit(ing|ed)? blood/, /coffee[- ]ground/, /black,? tarry/, /ha?ematemesis/, /melaena|melena/,
+        /vomit(o|ando|e|ar|ado)? sangre/, /(heces|deposiciones|caca) (negras|con sangre)/, /posos de cafe/, /hematemesis/,
+        /(تقيو|تقيا|قيء|استفراغ|استفرغ|اتقيا)[^.،\n]{0,8}(دم|دماء)/, /(براز|غايط)[^.،\n]{0,8}(اسود|دم)/, /(بن|تفل) القهو[ةه]/,
+        /(הקאה|הקאות|מקיא|מקיאה|הקאתי|הקיא)[^.,\n]{0,8}דם/, /צואה (שחורה|דמית|עם דם)/, /(גרגרי|משקע) קפה/,
+      ],
+    ],
+  },
+  {
+    id: 'critical-vitals',
+    title: 'Dangerous vital signs',
+    condition: 'Physiological Instability — Possible Sepsis or Shock',
+    icd10: ['A40', 'A41', 'R57', 'R65.2'],
+    advice: 'The vital signs entered are in a dangerous range. Seek emergency assessment now.',
+    intake: ({ vitals }) =>
+      (vitals.spo2_percent !== undefined && vitals.spo2_percent < 90) ||
+      (vitals.systolic_bp !== undefined && vitals.systolic_bp < 90) ||
+      (vitals.heart_rate_bpm !== undefined && vitals.heart_rate_bpm > 130) ||
+      (vitals.respiratory_rate !== undefined && vitals.respiratory_rate > 30) ||
+      (vitals.temperature_c !== undefined && (vitals.temperature_c >= 40 || vitals.temperature_c < 35)),
+  },
+];
+
+// Built-in rules have translated text; a custom rule keeps its own
+export const redFlagText = (match: RedFlagMatch, field: 'title' | 'advice' | 'condition', locale: Locale = DEFAULT_LOCALE): string => {
+  const key = `redFlag.${match.rule_id}.${field}`;
+  return isMessageKey(key) ? translate(locale, key) : match[field];
+};
+
+const NEGATION = /\b(no|not|never|denies|denied|without|don'?t have|doesn'?t have|sin|nunca|niega|niego|tampoco|ni)\b[\w\s]{0,20}$/;
+// Arabic and Hebrew words take no \b; a leading "and" (و, ו) is attached
+const NEGATION_RTL = /(^|\s)[وו]?(لا|لم|ليس|ليست|لست|بدون|دون|לא|אין|בלי|ללא|אינני|אינו|אינה)\s[\p{L}\p{N}\s]{0,20}$/u;
+
+// A negation only covers its own clause: "no cough, but I am vomiting blood"
+// still affirms the blood. An attached و or ו ("and") also starts a clause;
+// it splits some words that merely begin with it, which can only drop a
+// negation, never add one.
+const CLAUSE_BREAK = /[,.;:!?\n\u060C\u061B\u061F]|\b(?:but|and|pero|y|aunque)\b|\s(?:لكن|ولكن|אבל|אך)\s|\s[وו]/;
+
+// True when the pattern occurs at least once without a negation cue shortly before it in the same clause.
+const matchesAffirmed = (text: string, pattern: RegExp): boolean => {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  for (const match of text.matchAll(global)) {
+    const preceding = text.slice(Math.max(0, (match.index ?? 0) - 30), match.index);
+    const clause = preceding.split(CLAUSE_BREAK).pop() ?? '';
+    if (!NEGATION.test(clause) && !NEGATION_RTL.test(clause)) return true;
+  }
+  return false;
+};
+
+const ruleMatches = (rule: RedFlagRule, text: string, intake?: PatientIntake): boolean => {
+  const textMatch = !!rule.requires && rule.requires.every(group => group.some(pattern => matchesAffirmed(text, pattern)));
+  const intakeMatch = !!rule.intake && !!intake && rule.intake(intake);
+  return textMatch || intakeMatch;
+};
+
+export const evaluateRedFlags = (
+  text: string,
+  intake?: PatientIntake,
+  rules: RedFlagRule[] = RED_FLAG_RULES
+): RedFlagMatch[] => {
+  const normalized = foldForMatching(
+    [text, intake?.symptom_onset, intake?.symptom_duration].filter(Boolean).join('\n').toLowerCase()
+  ).replace(/[’‘]/g, "'");
+
+  return rules
+    .filter(rule => ruleMatches(rule, normalized, intake))
+    .map(({ id, title, condition, advice }) => ({ rule_id: id, title, condition, advice }));
+};
+
+const normalizeCode = (code: string) => code.replace(/\./g, '').toUpperCase();
+
+// Condition names come back in the user's language, so a model condition is
+// recognised by its ICD-10-CM code, or by the rule that added it earlier
+const representsRule = (condition: MedicalCondition, rule: RedFlagRule): boolean => {
+  if (condition.rule_id) return condition.rule_id === rule.id;
+  const code = condition.codes?.icd10cm?.code;
+  return !!code && rule.icd10.some(prefix => normalizeCode(code).startsWith(normalizeCode(prefix)));
+};
+
+// Guarantees every fired rule is represented as a Critical condition. A
+// matching model condition is escalated in place; otherwise a rule-sourced
+// condition is placed at the top of the differential.
+export const enforceRedFlags = (
+  response: DiagnosisResponse,
+  matches: RedFlagMatch[],
+  locale: Locale = DEFAULT_LOCALE,
+  rules: RedFlagRule[] = RED_FLAG_RULES
+): DiagnosisResponse => {
+  if (matches.length === 0) return response;
+
+  const conditions = response.conditions.map(condition => ({ ...condition }));
+  const injected: MedicalCondition[] = [];
+
+  matches.forEach(match => {
+    const rule = rules.find(r => r.id === match.rule_id);
+    const existing = rule && conditions.find(c => representsRule(c, rule));
+    if (existing) {
+      existing.urgency = UrgencyLevel.CRITICAL;
+      return;
+    }
+    const title = redFlagText(match, 'title', locale);
+    injected.push({
+      name: redFlagText(match, 'condition', locale),
+      probability: 0,
+      description: translate(locale, 'redFlag.injectedDescription', { title }),
+      urgency: UrgencyLevel.CRITICAL,
+      symptoms_matched: [title],
+      recommendations: [redFlagText(match, 'advice', locale)],
+      source: 'red_flag_rule',
+      rule_id: match.rule_id,
+    });
+  });
+
+  return { ...response, conditions: [...injected, ...conditions], red_flags: matches };
+};
@@ -0,0 +1,128 @@
+import { CabinetItem, DoseRecord, DoseStatus, Locale } from "../types";
+import { translate } from "./i18n";
+import { DAY_MS, doseRecordId, getDoseSlots } from "./doseSchedule";
+import { registerServiceWorker } from "./serviceWorker";
+
+// Dose reminders are shown through the service worker so their Taken/Skip
+// actions work even after the tab is closed. Where Notification Triggers are
+// available the OS delivers them on schedule with the app closed; elsewhere
+// they fire from timers while any app tab is open.
+
+const REMINDER_HORIZON_MS = DAY_MS; // Rescheduled at least this often
+
+// Action sent back from a clicked notification; no status means the body was
+// clicked and the cabinet should open.
+export interface DoseAction {
+  itemId: string;
+  scheduledFor: number;
+  status?: DoseStatus;
+}
+
+interface TimestampTrigger {
+  readonly timestamp: number;
+}
+
+// Fields the DOM typings lack: actions and the experimental trigger
+interface ReminderOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[];
+  showTrigger?: TimestampTrigger;
+  timestamp?: number;
+}
+
+// Notification Triggers, only in some Chromium builds
+declare global {
+  interface Window {
+    TimestampTrigger?: new (timestamp: number) => TimestampTrigger;
+  }
+}
+
+export const remindersSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window && 'serviceWorker' in navigator;
+
+export const requestReminderPermission = async (): Promise<boolean> => {
+  if (!remindersSupported()) return false;
+  if (Notification.permission === 'default') await Notification.requestPermission();
+  return Notification.permission === 'granted';
+};
+
+const supportsTriggers = () => 'showTrigger' in Notification.prototype && 'TimestampTrigger' in window;
+
+const reminderOptions = (item: CabinetItem, scheduledFor: number, locale: Locale): ReminderOptions => ({
+  body: translate(locale, 'reminder.body', {
+    dose: item.schedule.dose || translate(locale, 'schedule.dose'),
+    time: new Date(scheduledFor).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
+  }),
+  tag: doseRecordId(item.id, scheduledFor), // Same tag replaces rather than duplicates
+  data: { itemId: item.id, scheduledFor },
+  timestamp: scheduledFor,
+  requireInteraction: true,
+  actions: [
+    { action: 'taken', title: translate(locale, 'reminder.taken') },
+    { action: 'skip', title: translate(locale, 'reminder.skip') },
+  ],
+});
+
+let timers: number[] = [];
+let generation = 0;
+
+// Replaces all pending reminders with the upcoming doses of `items`, worded
+// in `locale`
+export const scheduleReminders = async (items: CabinetItem[], records: DoseRecord[], locale: Locale): Promise<void> => {
+  timers.forEach(timer => window.clearTimeout(timer));
+  timers = [];
+  const current = ++generation;
+  if (!remindersSupported() || Notification.permission !== 'granted') return;
+
+  const registration = await registerServiceWorker();
+  if (!registration || current !== generation) return;
+
+  const now = Date.now();
+  const triggers = supportsTriggers();
+  if (triggers) {
+    // Drop previously scheduled (not yet shown) reminders so edits take effect
+    const scheduled = await registration.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+    scheduled.filter(notification => notification.data?.scheduledFor > now).forEach(notification => notification.close());
+  }
+
+  items.filter(item => item.schedule.reminders).forEach(item => {
+    getDoseSlots(item, records, now, now + REMINDER_HORIZON_MS, now)
+      .filter(slot => slot.status === 'upcoming')
+      .forEach(({ scheduledFor }) => {
+        const title = translate(locale, 'reminder.title', { name: item.name });
+        const options = reminderOptions(item, scheduledFor, locale);
+        if (triggers) {
+          registration.showNotification(title, { ...options, showTrigger: new window.TimestampTrigger(scheduledFor) } as ReminderOptions);
+        } else {
+          timers.push(window.setTimeout(() => registration.showNotification(title, options), scheduledFor - now));
+        }
+      });
+  });
+
+  timers.push(window.setTimeout(() => scheduleReminders(items, records, locale), REMINDER_HORIZON_MS));
+};
+
+const readLaunchAction = (): DoseAction | null => {
+  const params = new URLSearchParams(window.location.search);
+  const itemId = params.get('dose');
+  const scheduledFor = Number(params.get('at'));
+  if (!itemId || !scheduledFor) return null;
+  const status = params.get('status');
+  return { itemId, scheduledFor, ...((status === 'taken' || status === 'skipped') && { status }) };
+};
+
+// Delivers notification actions to the app. A click that had to open a new
+// window arrives through the URL instead of a message.
+export const subscribeToDoseActions = (onAction: (action: DoseAction) => void): (() => void) => {
+  const launch = readLaunchAction();
+  if (launch) {
+    window.history.replaceState(null, '', window.location.pathname);
+    onAction(launch);
+  }
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'dose-action') onAction(event.data);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
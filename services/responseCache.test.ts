@@ -0,0 +1,19 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { hashKey, withResponseCache } from "./responseCache";
+
+describe('response cache on an insecure origin', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('has no key and calls the model directly', async () => {
+    vi.stubGlobal('crypto', {});
+    const key = await hashKey('medication', { query: 'ibuprofen' });
+    const call = vi.fn(async () => 'answer');
+
+    expect(key).toBeUndefined();
+    await expect(withResponseCache(key, call)).resolves.toEqual({ value: 'answer' });
+    await expect(withResponseCache(key, call)).resolves.toEqual({ value: 'answer' });
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+});
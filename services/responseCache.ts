@@ -0,0 +1,161 @@
+import { STORES, withStore } from "./db";
+
+// Content-addressed cache for model analyses. Entries are keyed by a SHA-256
+// of everything that determines the answer (operation, provider and model,
+// schema, prompt text and image bytes), persist in IndexedDB with a TTL and a
+// size cap, and identical calls already in flight share one request.
+
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 100;
+const MAX_BYTES = 5 * 1024 * 1024; // Of serialized responses; images are never stored
+
+interface CacheEntry {
+  key: string;
+  value: unknown;
+  createdAt: number;
+  usedAt: number; // Eviction is least recently used first
+  size: number;
+}
+
+// crypto.subtle only exists in secure contexts (HTTPS or localhost). On a
+// plain-HTTP origin there is no key and responses go uncached.
+export const hashKey = async (...parts: unknown[]): Promise<string | undefined> => {
+  if (!globalThis.crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const isExpired = (entry: CacheEntry, now = Date.now()) => now - entry.createdAt > TTL_MS;
+
+// The cache is an optimisation: if IndexedDB is unavailable every lookup
+// misses and every write is dropped
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+  try {
+    const entry = await withStore<CacheEntry | undefined>(STORES.responses, 'readonly', store => store.get(key));
+    if (!entry) return undefined;
+    if (isExpired(entry)) {
+      await withStore(STORES.responses, 'readwrite', store => store.delete(key));
+      return undefined;
+    }
+    withStore(STORES.responses, 'readwrite', store => store.put({ ...entry, usedAt: Date.now() }))
+      .catch(err => console.warn("Failed to touch cached response", err));
+    return entry;
+  } catch (error) {
+    console.warn("Response cache unavailable:", error);
+    return undefined;
+  }
+};
+
+// Drops expired entries, then the least recently used until within limits
+const prune = async (): Promise<void> => {
+  const entries = await withStore<CacheEntry[]>(STORES.responses, 'readonly', store => store.getAll());
+  const now = Date.now();
+  let count = 0;
+  let bytes = 0;
+  const stale = entries
+    .sort((a, b) => b.usedAt - a.usedAt)
+    .filter(entry => {
+      if (isExpired(entry, now)) return true;
+      count++;
+      bytes += entry.size;
+      return count > MAX_ENTRIES || bytes > MAX_BYTES;
+    });
+  if (stale.length === 0) return;
+  await withStore(STORES.responses, 'readwrite', store => {
+    stale.forEach(entry => store.delete(entry.key));
+    return Promise.resolve();
+  });
+};
+
+const writeEntry = async (key: string, value: unknown): Promise<void> => {
+  try {
+    const now = Date.now();
+    const entry: CacheEntry = { key, value, createdAt: now, usedAt: now, size: JSON.stringify(value).length };
+    await withStore(STORES.responses, 'readwrite', store => store.put(entry));
+    await prune();
+  } catch (error) {
+    console.warn("Failed to cache response", error);
+  }
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  await withStore(STORES.responses, 'readwrite', store => store.clear());
+};
+
+// --- In-flight deduplication ---
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const inFlight = new Map<string, InFlight>();
+
+// Each caller can abort its own wait; the shared request is only cancelled
+// once every caller waiting on it has gone
+const join = <T>(shared: InFlight, signal?: AbortSignal): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  shared.waiters++;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(signal!.reason);
+      if (--shared.waiters === 0) shared.controller.abort(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    shared.promise.then(
+      value => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(value as T);
+      },
+      error => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+export interface CacheOptions {
+  signal?: AbortSignal;
+  fresh?: boolean; // Skip the stored response; the new one replaces it
+}
+
+export interface CachedResult<T> {
+  value: T;
+  cachedAt?: number; // Set when served from the cache
+}
+
+// Returns the stored response for `key`, joins an identical call already in
+// flight, or runs `call` and stores what it resolves with. Failures are never
+// cached. Without a key the call simply runs.
+export const withResponseCache = async <T>(
+  key: string | undefined,
+  call: (signal: AbortSignal) => Promise<T>,
+  { signal, fresh = false }: CacheOptions = {}
+): Promise<CachedResult<T>> => {
+  if (key === undefined) return { value: await call(signal ?? new AbortController().signal) };
+
+  if (!fresh) {
+    const entry = await readEntry(key);
+    if (entry) return { value: entry.value as T, cachedAt: entry.createdAt };
+  }
+
+  let shared = inFlight.get(key);
+  // A call abandoned by all its callers is settling; start a new one
+  if (!shared || shared.controller.signal.aborted) {
+    const controller = new AbortController();
+    const promise = call(controller.signal)
+      .then(async value => {
+        await writeEntry(key, value);
+        return value;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === current) inFlight.delete(key);
+      });
+    const current: InFlight = { promise, controller, waiters: 0 };
+    shared = current;
+    inFlight.set(key, current);
+  }
+  return { value: await join<T>(shared, signal) };
+};
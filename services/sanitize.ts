@@ -0,0 +1,43 @@
+// Allowlist sanitizer for model-authored rich text. Only formatting tags
+// survive, every attribute is stripped, and executable elements are dropped
+// together with their contents. Everything else is reduced to escaped text.
+
+export const INLINE_TAGS = ['strong', 'em', 'b', 'i', 'br'];
+
+export const BLOCK_TAGS = [...INLINE_TAGS, 'div', 'p', 'h1', 'h2', 'h3', 'ul', 'ol', 'li'];
+
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'svg', 'math', 'head', 'title']);
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const serialize = (node: Node, allowed: ReadonlySet<string>): string => {
+  if (node.nodeType === TEXT_NODE) return escapeHtml(node.textContent || '');
+  if (node.nodeType !== ELEMENT_NODE) return '';
+
+  const tag = (node as Element).tagName.toLowerCase();
+  if (DROPPED_TAGS.has(tag)) return '';
+  const inner = Array.from(node.childNodes).map(child => serialize(child, allowed)).join('');
+  if (!allowed.has(tag)) return inner; // Unwrap unknown tags, keep their text
+  return tag === 'br' ? '<br>' : `<${tag}>${inner}</${tag}>`;
+};
+
+// DOMParser never executes scripts or loads resources, so parsing untrusted
+// markup here is inert.
+export const sanitizeHtml = (html: string, allowedTags: string[] = INLINE_TAGS): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const allowed = new Set(allowedTags);
+  return Array.from(doc.body.childNodes).map(node => serialize(node, allowed)).join('');
+};
+
+// Flattens rich text for plain-text outputs such as PDF export
+export const htmlToText = (html: string): string =>
+  new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
@@ -0,0 +1,202 @@
+import { Schema, Type } from "@google/genai";
+
+// Visual observations, each tied to the attached image it came from
+const IMAGE_FINDINGS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      image: { type: Type.INTEGER, minimum: 1, description: "1-based number of the image, as labelled in the request" },
+      finding: { type: Type.STRING, description: "What is visible in that image" },
+    },
+    required: ["image", "finding"],
+  },
+  description: "One entry per relevant observation in the attached images. Empty when no images were attached.",
+};
+
+// Terminology code as proposed by the model; verified locally afterwards
+const codeSchema = (system: string, example: string): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    code: { type: Type.STRING, description: `${system} code, e.g. "${example}". Empty if unsure` },
+    display: { type: Type.STRING, description: `Official ${system} display name` },
+  },
+});
+
+// --- Diagnosis Schema ---
+export const DIAGNOSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    conditions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "Precise medical name of the condition" },
+          probability: { type: Type.NUMBER, minimum: 0, maximum: 100, description: "Estimated percentage likelihood (0-100) based on symptom clustering" },
+          description: { type: Type.STRING, description: "Clinical explanation of why this condition matches the specific pathophysiology described" },
+          urgency: { type: Type.STRING, enum: ["Low", "Medium", "High", "Critical"], description: "Clinical urgency level" },
+          symptoms_matched: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Specific reported symptoms that align with this diagnosis" },
+          recommendations: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Clinical next steps (labs, imaging, specialist referral)" },
+          image_refs: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "1-based numbers of the attached images showing evidence for this condition" },
+          codes: {
+            type: Type.OBJECT,
+            properties: {
+              icd10cm: codeSchema("ICD-10-CM", "G43.909"),
+              snomed_ct: codeSchema("SNOMED CT concept ID", "37796009"),
+            },
+          },
+        },
+        required: ["name", "probability", "description", "urgency", "symptoms_matched", "recommendations"],
+      },
+    },
+    disclaimer: { type: Type.STRING, description: "Mandatory medical disclaimer." },
+    general_advice: { type: Type.STRING, description: "High-level clinical synopsis and patient guidance." },
+    image_findings: IMAGE_FINDINGS_SCHEMA,
+    follow_up_questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING, description: "A single clarifying question addressed to the patient" },
+          category: { type: Type.STRING, enum: ["onset", "duration", "severity", "red_flag", "history", "other"] },
+        },
+        required: ["question", "category"],
+      },
+      description: "Clarifying questions whose answers would most change the differential. Empty when no further information is needed.",
+    },
+  },
+  required: ["conditions", "disclaimer", "general_advice"],
+};
+
+// --- Medication Schema ---
+export const MEDICATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    medication: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING, description: "Brand name of the medication" },
+        generic_name: { type: Type.STRING, description: "Generic/Scientific name" },
+        manufacturer: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            country_of_origin: { type: Type.STRING },
+            country_of_distribution: { type: Type.STRING },
+          },
+          required: ["name", "country_of_origin", "country_of_distribution"],
+        },
+        dates: {
+          type: Type.OBJECT,
+          properties: {
+            production_date: { type: Type.STRING, description: "Date extracted from image text if visible, otherwise state 'Not visible'" },
+            expiry_date: { type: Type.STRING, description: "Date extracted from image text if visible, otherwise state 'Not visible'" },
+          },
+          required: ["production_date", "expiry_date"],
+        },
+        lot_number: { type: Type.STRING, description: "Lot/batch number printed on the packaging, otherwise 'Not visible'" },
+        specifications: {
+          type: Type.OBJECT,
+          properties: {
+            type: { type: Type.STRING, description: "Tablet, Capsule, Syrup, Injection, etc." },
+            dosage: { type: Type.STRING, description: "e.g., 500mg, 10ml" },
+            composition: { type: Type.STRING, description: "Active chemical ingredients" },
+          },
+          required: ["type", "dosage", "composition"],
+        },
+        clinical_info: {
+          type: Type.OBJECT,
+          properties: {
+            uses: { type: Type.ARRAY, items: { type: Type.STRING } },
+            administration_guide: { type: Type.STRING, description: "How/When to take, with food/without food, etc." },
+            side_effects: { type: Type.ARRAY, items: { type: Type.STRING } },
+            warnings: { type: Type.STRING, description: "Major contraindications or box warnings" },
+          },
+          required: ["uses", "administration_guide", "side_effects", "warnings"],
+        },
+        codes: {
+          type: Type.OBJECT,
+          properties: {
+            rxnorm: codeSchema("RxNorm ingredient RXCUI", "161"),
+            atc: codeSchema("WHO ATC", "N02BE01"),
+          },
+        },
+      },
+      required: ["name", "generic_name", "manufacturer", "dates", "specifications", "clinical_info"],
+    },
+    analysis_confidence: { type: Type.NUMBER, minimum: 0, maximum: 100, description: "Confidence in identification 0-100" },
+    disclaimer: { type: Type.STRING },
+    image_findings: IMAGE_FINDINGS_SCHEMA,
+  },
+  required: ["medication", "analysis_confidence", "disclaimer"],
+};
+
+// --- Interaction Schema ---
+export const INTERACTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    interactions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          drug_a: { type: Type.STRING, description: "First medication of the pair, exactly as listed in the input" },
+          drug_b: { type: Type.STRING, description: "Second medication of the pair, exactly as listed in the input" },
+          severity: { type: Type.STRING, enum: ["None", "Minor", "Moderate", "Major", "Contraindicated"], description: "Clinical severity of the interaction" },
+          mechanism: { type: Type.STRING, description: "Pharmacokinetic or pharmacodynamic mechanism" },
+          clinical_effect: { type: Type.STRING, description: "Expected clinical consequence for the patient" },
+          management: { type: Type.STRING, description: "Recommended management (avoid, monitor, adjust dose, separate administration)" },
+        },
+        required: ["drug_a", "drug_b", "severity", "mechanism", "clinical_effect", "management"],
+      },
+      description: "Exactly one entry for every unordered pair of the input medications",
+    },
+    summary: { type: Type.STRING, description: "Overall assessment of the regimen, highlighting the most serious interactions" },
+    disclaimer: { type: Type.STRING },
+  },
+  required: ["interactions", "summary", "disclaimer"],
+};
+
+// Converts a Gemini schema (upper-case `Type` values) into plain JSON Schema
+// for providers that accept OpenAI-style `response_format` definitions.
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.minimum !== undefined) out.minimum = schema.minimum;
+  if (schema.maximum !== undefined) out.maximum = schema.maximum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+// --- Clinical Report Schema ---
+export const REPORT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    chief_complaint: { type: Type.STRING, description: "One or two sentence summary of the patient's presenting complaint" },
+    impression: { type: Type.STRING, description: "Brief clinical impression. Plain text; <strong> and <em> may be used for emphasis" },
+    differential: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          condition: { type: Type.STRING, description: "Condition name" },
+          rationale: { type: Type.STRING, description: "Why the condition was selected given the symptoms. Plain text; <strong> and <em> may be used for emphasis" },
+        },
+        required: ["condition", "rationale"],
+      },
+      description: "The top conditions from the analysis, most likely first",
+    },
+    plan: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ordered action steps for the patient (labs, specialists, self-care)" },
+    disclaimer: { type: Type.STRING, description: "Standard medical disclaimer" },
+  },
+  required: ["chief_complaint", "impression", "differential", "plan", "disclaimer"],
+};
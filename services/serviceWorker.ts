@@ -0,0 +1,20 @@
+// Registers public/sw.js, which precaches the app for offline use and
+// delivers dose reminder actions. Registration is shared by every caller.
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | null> => {
+  if (!registrationPromise) {
+    registrationPromise = 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register(SERVICE_WORKER_URL)
+          .then(() => navigator.serviceWorker.ready)
+          .catch(err => {
+            console.error("Service worker registration failed", err);
+            return null;
+          })
+      : Promise.resolve(null);
+  }
+  return registrationPromise;
+};
@@ -0,0 +1,332 @@
+import { ConditionCodes, DiagnosisResponse, MedicalCondition, MedicationCodes, MedicationResponse, TerminologyCode } from "../types";
+
+// Offline verification of the terminology codes the model attaches to results.
+// The bundled lists are a small subset covering common primary-care
+// presentations and medicines; a code outside the subset is kept but marked
+// unverified rather than dropped, since the subset is not exhaustive.
+
+export type CodeSystem = 'icd10cm' | 'snomed_ct' | 'rxnorm' | 'atc';
+
+export const CODE_SYSTEM_LABELS: Record<CodeSystem, string> = {
+  icd10cm: 'ICD-10-CM',
+  snomed_ct: 'SNOMED CT',
+  rxnorm: 'RxNorm',
+  atc: 'ATC',
+};
+
+const CODE_FORMATS: Record<CodeSystem, RegExp> = {
+  icd10cm: /^[A-Z]\d[0-9A-Z](\.[0-9A-Z]{1,4})?$/,
+  snomed_ct: /^\d{6,18}$/,
+  rxnorm: /^\d{1,8}$/,
+  atc: /^[A-Z]\d{2}[A-Z]{2}\d{2}$/,
+};
+
+const ICD10CM: Record<string, string> = {
+  'A09': 'Infectious gastroenteritis and colitis, unspecified',
+  'A41.9': 'Sepsis, unspecified organism',
+  'B01.9': 'Varicella without complication',
+  'B02.9': 'Zoster without complications',
+  'B34.9': 'Viral infection, unspecified',
+  'D50.9': 'Iron deficiency anemia, unspecified',
+  'D64.9': 'Anemia, unspecified',
+  'E03.9': 'Hypothyroidism, unspecified',
+  'E10.9': 'Type 1 diabetes mellitus without complications',
+  'E11.9': 'Type 2 diabetes mellitus without complications',
+  'F32.9': 'Major depressive disorder, single episode, unspecified',
+  'F41.0': 'Panic disorder [episodic paroxysmal anxiety]',
+  'F41.1': 'Generalized anxiety disorder',
+  'G03.9': 'Meningitis, unspecified',
+  'G40.909': 'Epilepsy, unspecified, not intractable, without status epilepticus',
+  'G43.009': 'Migraine without aura, not intractable, without status migrainosus',
+  'G43.109': 'Migraine with aura, not intractable, without status migrainosus',
+  'G43.909': 'Migraine, unspecified, not intractable, without status migrainosus',
+  'G44.209': 'Tension-type headache, unspecified, not intractable',
+  'G45.9': 'Transient cerebral ischemic attack, unspecified',
+  'G47.00': 'Insomnia, unspecified',
+  'H10.9': 'Unspecified conjunctivitis',
+  'H66.90': 'Otitis media, unspecified, unspecified ear',
+  'H81.10': 'Benign paroxysmal vertigo, unspecified ear',
+  'I10': 'Essential (primary) hypertension',
+  'I20.9': 'Angina pectoris, unspecified',
+  'I21.9': 'Acute myocardial infarction, unspecified',
+  'I24.9': 'Acute ischemic heart disease, unspecified',
+  'I26.99': 'Other pulmonary embolism without acute cor pulmonale',
+  'I48.91': 'Unspecified atrial fibrillation',
+  'I50.9': 'Heart failure, unspecified',
+  'I60.9': 'Nontraumatic subarachnoid hemorrhage, unspecified',
+  'I63.9': 'Cerebral infarction, unspecified',
+  'J01.90': 'Acute sinusitis, unspecified',
+  'J02.9': 'Acute pharyngitis, unspecified',
+  'J03.90': 'Acute tonsillitis, unspecified',
+  'J06.9': 'Acute upper respiratory infection, unspecified',
+  'J11.1': 'Influenza due to unidentified influenza virus with other respiratory manifestations',
+  'J18.9': 'Pneumonia, unspecified organism',
+  'J20.9': 'Acute bronchitis, unspecified',
+  'J30.9': 'Allergic rhinitis, unspecified',
+  'J44.9': 'Chronic obstructive pulmonary disease, unspecified',
+  'J45.909': 'Unspecified asthma, uncomplicated',
+  'K21.9': 'Gastro-esophageal reflux disease without esophagitis',
+  'K29.70': 'Gastritis, unspecified, without bleeding',
+  'K35.80': 'Unspecified acute appendicitis',
+  'K52.9': 'Noninfective gastroenteritis and colitis, unspecified',
+  'K58.9': 'Irritable bowel syndrome without diarrhea',
+  'K81.0': 'Acute cholecystitis',
+  'K85.90': 'Acute pancreatitis without necrosis or infection, unspecified',
+  'K92.2': 'Gastrointestinal hemorrhage, unspecified',
+  'L03.90': 'Cellulitis, unspecified',
+  'L20.9': 'Atopic dermatitis, unspecified',
+  'L30.9': 'Dermatitis, unspecified',
+  'L40.0': 'Psoriasis vulgaris',
+  'L50.9': 'Urticaria, unspecified',
+  'L70.0': 'Acne vulgaris',
+  'M10.9': 'Gout, unspecified',
+  'M19.90': 'Unspecified osteoarthritis, unspecified site',
+  'M54.2': 'Cervicalgia',
+  'M54.50': 'Low back pain, unspecified',
+  'N20.0': 'Calculus of kidney',
+  'N30.00': 'Acute cystitis without hematuria',
+  'N39.0': 'Urinary tract infection, site not specified',
+  'R07.9': 'Chest pain, unspecified',
+  'R10.9': 'Unspecified abdominal pain',
+  'R11.2': 'Nausea with vomiting, unspecified',
+  'R42': 'Dizziness and giddiness',
+  'R45.851': 'Suicidal ideations',
+  'R50.9': 'Fever, unspecified',
+  'R51.9': 'Headache, unspecified',
+  'R57.9': 'Shock, unspecified',
+  'T78.2XXA': 'Anaphylactic shock, unspecified, initial encounter',
+  'U07.1': 'COVID-19',
+};
+
+const SNOMED_CT: Record<string, string> = {
+  '4556007': 'Gastritis',
+  '4740000': 'Herpes zoster',
+  '6142004': 'Influenza',
+  '6471006': 'Suicidal thoughts',
+  '7180009': 'Meningitis',
+  '9014002': 'Psoriasis',
+  '9826008': 'Conjunctivitis',
+  '10509002': 'Acute bronchitis',
+  '10743008': 'Irritable bowel syndrome',
+  '11381005': 'Acne',
+  '13645005': 'Chronic obstructive lung disease',
+  '21454007': 'Subarachnoid hemorrhage',
+  '21522001': 'Abdominal pain',
+  '21897009': 'Generalized anxiety disorder',
+  '22298006': 'Myocardial infarction',
+  '24079001': 'Atopic dermatitis',
+  '25064002': 'Headache',
+  '25374005': 'Gastroenteritis',
+  '27942005': 'Shock',
+  '29857009': 'Chest pain',
+  '34014006': 'Viral disease',
+  '34486009': 'Hyperthyroidism',
+  '36971009': 'Sinusitis',
+  '37796009': 'Migraine',
+  '38341003': 'Hypertensive disorder',
+  '38907003': 'Varicella',
+  '39579001': 'Anaphylaxis',
+  '40930008': 'Hypothyroidism',
+  '44054006': 'Diabetes mellitus type 2',
+  '46635009': 'Diabetes mellitus type 1',
+  '49436004': 'Atrial fibrillation',
+  '54150009': 'Upper respiratory infection',
+  '59282003': 'Pulmonary embolism',
+  '61582004': 'Allergic rhinitis',
+  '65275009': 'Acute cholecystitis',
+  '65363002': 'Otitis media',
+  '68566005': 'Urinary tract infectious disease',
+  '68962001': 'Muscle pain',
+  '74474003': 'Gastrointestinal hemorrhage',
+  '81680005': 'Neck pain',
+  '84114007': 'Heart failure',
+  '84757009': 'Epilepsy',
+  '85189001': 'Acute appendicitis',
+  '87522002': 'Iron deficiency anemia',
+  '90560007': 'Gout',
+  '91302008': 'Sepsis',
+  '95570007': 'Kidney stone',
+  '111541001': 'Benign paroxysmal positional vertigo',
+  '126485001': 'Urticaria',
+  '128045006': 'Cellulitis',
+  '128053003': 'Deep venous thrombosis',
+  '193462001': 'Insomnia',
+  '194828000': 'Angina',
+  '195967001': 'Asthma',
+  '197456007': 'Acute pancreatitis',
+  '230690007': 'Cerebrovascular accident',
+  '233604007': 'Pneumonia',
+  '235595009': 'Gastroesophageal reflux disease',
+  '266257000': 'Transient ischemic attack',
+  '271737000': 'Anemia',
+  '279039007': 'Low back pain',
+  '370143000': 'Major depressive disorder',
+  '371631005': 'Panic disorder',
+  '386661006': 'Fever',
+  '394659003': 'Acute coronary syndrome',
+  '396275006': 'Osteoarthritis',
+  '398057008': 'Tension-type headache',
+  '404640003': 'Dizziness',
+  '840539006': 'COVID-19',
+};
+
+// RxNorm ingredient-level concepts (RXCUI)
+const RXNORM: Record<string, string> = {
+  '161': 'Acetaminophen',
+  '435': 'Albuterol',
+  '596': 'Alprazolam',
+  '704': 'Amitriptyline',
+  '723': 'Amoxicillin',
+  '1191': 'Aspirin',
+  '2231': 'Cephalexin',
+  '2551': 'Ciprofloxacin',
+  '2670': 'Codeine',
+  '3322': 'Diazepam',
+  '3355': 'Diclofenac',
+  '3498': 'Diphenhydramine',
+  '3640': 'Doxycycline',
+  '3992': 'Epinephrine',
+  '4493': 'Fluoxetine',
+  '4603': 'Furosemide',
+  '5489': 'Hydrochlorothiazide',
+  '5640': 'Ibuprofen',
+  '6809': 'Metformin',
+  '6851': 'Methotrexate',
+  '6915': 'Metoclopramide',
+  '6918': 'Metoprolol',
+  '6922': 'Metronidazole',
+  '7052': 'Morphine',
+  '7258': 'Naproxen',
+  '7646': 'Omeprazole',
+  '8640': 'Prednisone',
+  '10582': 'Levothyroxine',
+  '10689': 'Tramadol',
+  '11289': 'Warfarin',
+  '17767': 'Amlodipine',
+  '18631': 'Azithromycin',
+  '20610': 'Cetirizine',
+  '25480': 'Gabapentin',
+  '26225': 'Ondansetron',
+  '28889': 'Loratadine',
+  '29046': 'Lisinopril',
+  '32968': 'Clopidogrel',
+  '36437': 'Sertraline',
+  '36567': 'Simvastatin',
+  '37418': 'Sumatriptan',
+  '40790': 'Pantoprazole',
+  '52175': 'Losartan',
+  '83367': 'Atorvastatin',
+  '187832': 'Pregabalin',
+  '301542': 'Rosuvastatin',
+  '321988': 'Escitalopram',
+  '1114195': 'Rivaroxaban',
+  '1364430': 'Apixaban',
+};
+
+const ATC: Record<string, string> = {
+  'A02BC01': 'Omeprazole',
+  'A02BC02': 'Pantoprazole',
+  'A03FA01': 'Metoclopramide',
+  'A04AA01': 'Ondansetron',
+  'A10BA02': 'Metformin',
+  'B01AA03': 'Warfarin',
+  'B01AC04': 'Clopidogrel',
+  'B01AC06': 'Acetylsalicylic acid',
+  'B01AF01': 'Rivaroxaban',
+  'B01AF02': 'Apixaban',
+  'C01CA24': 'Epinephrine',
+  'C03AA03': 'Hydrochlorothiazide',
+  'C03CA01': 'Furosemide',
+  'C07AB02': 'Metoprolol',
+  'C08CA01': 'Amlodipine',
+  'C09AA03': 'Lisinopril',
+  'C09CA01': 'Losartan',
+  'C10AA01': 'Simvastatin',
+  'C10AA05': 'Atorvastatin',
+  'C10AA07': 'Rosuvastatin',
+  'H02AB07': 'Prednisone',
+  'H03AA01': 'Levothyroxine sodium',
+  'J01AA02': 'Doxycycline',
+  'J01CA04': 'Amoxicillin',
+  'J01CR02': 'Amoxicillin and beta-lactamase inhibitor',
+  'J01DB01': 'Cefalexin',
+  'J01EE01': 'Sulfamethoxazole and trimethoprim',
+  'J01FA10': 'Azithromycin',
+  'J01MA02': 'Ciprofloxacin',
+  'L01BA01': 'Methotrexate',
+  'M01AB05': 'Diclofenac',
+  'M01AE01': 'Ibuprofen',
+  'M01AE02': 'Naproxen',
+  'N02AA01': 'Morphine',
+  'N02AX02': 'Tramadol',
+  'N02BA01': 'Acetylsalicylic acid',
+  'N02BE01': 'Paracetamol',
+  'N02CC01': 'Sumatriptan',
+  'N03AX12': 'Gabapentin',
+  'N03AX16': 'Pregabalin',
+  'N05BA01': 'Diazepam',
+  'N05BA12': 'Alprazolam',
+  'N06AA09': 'Amitriptyline',
+  'N06AB03': 'Fluoxetine',
+  'N06AB06': 'Sertraline',
+  'N06AB10': 'Escitalopram',
+  'P01AB01': 'Metronidazole',
+  'R03AC02': 'Salbutamol',
+  'R05DA04': 'Codeine',
+  'R06AA02': 'Diphenhydramine',
+  'R06AE07': 'Cetirizine',
+  'R06AX13': 'Loratadine',
+};
+
+const CODE_LISTS: Record<CodeSystem, Record<string, string>> = {
+  icd10cm: ICD10CM,
+  snomed_ct: SNOMED_CT,
+  rxnorm: RXNORM,
+  atc: ATC,
+};
+
+// Models often drop the ICD-10 dot ("G43909") or add stray spaces.
+const normalizeCode = (system: CodeSystem, code: string): string => {
+  const compact = code.trim().toUpperCase().replace(/\s+/g, '');
+  if (system === 'icd10cm' && !compact.includes('.') && compact.length > 3) {
+    return `${compact.slice(0, 3)}.${compact.slice(3)}`;
+  }
+  return compact;
+};
+
+// Returns undefined for an empty code so absent codes are simply omitted.
+export const verifyCode = (system: CodeSystem, code?: TerminologyCode): TerminologyCode | undefined => {
+  if (!code?.code?.trim()) return undefined;
+  const normalized = normalizeCode(system, code.code);
+  const display = CODE_FORMATS[system].test(normalized) ? CODE_LISTS[system][normalized] : undefined;
+  return display
+    ? { code: normalized, display, verified: true }
+    : { code: normalized, ...(code.display && { display: code.display }), verified: false };
+};
+
+const verifyCodes = <T extends object>(systems: CodeSystem[], codes?: T): T | undefined => {
+  if (!codes) return undefined;
+  const verified: Record<string, TerminologyCode> = {};
+  systems.forEach(system => {
+    const result = verifyCode(system, (codes as Record<string, TerminologyCode | undefined>)[system]);
+    if (result) verified[system] = result;
+  });
+  return Object.keys(verified).length > 0 ? verified as T : undefined;
+};
+
+export const verifyConditionCodes = (condition: MedicalCondition): MedicalCondition => {
+  const codes = verifyCodes<ConditionCodes>(['icd10cm', 'snomed_ct'], condition.codes);
+  const { codes: _raw, ...rest } = condition;
+  return codes ? { ...rest, codes } : rest;
+};
+
+export const verifyDiagnosisCodes = (response: DiagnosisResponse): DiagnosisResponse => ({
+  ...response,
+  conditions: response.conditions.map(verifyConditionCodes),
+});
+
+export const verifyMedicationCodes = (response: MedicationResponse): MedicationResponse => {
+  const codes = verifyCodes<MedicationCodes>(['rxnorm', 'atc'], response.medication.codes);
+  const { codes: _raw, ...medication } = response.medication;
+  return { ...response, medication: codes ? { ...medication, codes } : medication };
+};
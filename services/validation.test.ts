@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { MedicalCondition } from "../types";
+import { DIAGNOSIS_SCHEMA } from "./schemas";
+import { validateAgainstSchema } from "./validation";
+
+const CONDITION_SCHEMA = DIAGNOSIS_SCHEMA.properties!.conditions.items!;
+
+const condition = {
+  name: 'Migraine',
+  probability: 70,
+  description: 'Recurrent headache',
+  urgency: 'Low',
+  symptoms_matched: ['headache'],
+  recommendations: ['Rest'],
+};
+
+describe('validateAgainstSchema', () => {
+  it('leaves absent optional fields out without recording a repair', () => {
+    const result = validateAgainstSchema<MedicalCondition>({ ...condition, image_refs: null }, CONDITION_SCHEMA);
+    expect(result.ok).toBe(true);
+    expect(result.value).not.toHaveProperty('codes');
+    expect(result.value).not.toHaveProperty('image_refs');
+    expect(result.repairs).toEqual([]);
+  });
+
+  it('records repairs of wrongly typed values', () => {
+    const result = validateAgainstSchema<MedicalCondition>({ ...condition, probability: '70%', urgency: 'low' }, CONDITION_SCHEMA);
+    expect(result.value).toMatchObject({ probability: 70, urgency: 'Low' });
+    expect(result.repairs.map(repair => repair.path)).toEqual(['probability', 'urgency']);
+  });
+
+  it('reports a missing required field', () => {
+    const { description: _description, ...incomplete } = condition;
+    const result = validateAgainstSchema<MedicalCondition>(incomplete, CONDITION_SCHEMA);
+    expect(result.ok).toBe(false);
+    expect(result.issues).toEqual([{ path: 'description', message: 'missing required field' }]);
+  });
+});
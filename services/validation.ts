@@ -0,0 +1,183 @@
+import { Schema, Type } from "@google/genai";
+import { ModelError } from "./modelErrors";
+
+// Runtime validation of model JSON against the same schema objects that are
+// sent to the model. Recoverable deviations (out-of-range numbers, enum casing,
+// a bare string where an array is expected) are repaired in place; anything
+// else is reported as an issue with its path. Optional fields the model left
+// out stay absent.
+
+export interface ValidationIssue {
+  path: string; // e.g. "conditions[0].urgency"
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  ok: boolean;
+  value?: T; // Repaired value, present only when ok
+  issues: ValidationIssue[];
+  repairs: ValidationIssue[];
+}
+
+// The malformed_output kind of model error, with the failing fields
+export class SchemaValidationError extends ModelError {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const summary = issues.slice(0, 3).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    super('malformed_output', `Model response failed validation (${summary}${issues.length > 3 ? `; +${issues.length - 3} more` : ''}).`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+
+  get fields(): string[] {
+    return this.issues.map(issue => issue.path);
+  }
+}
+
+interface Context {
+  issues: ValidationIssue[];
+  repairs: ValidationIssue[];
+}
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const displayPath = (path: string): string => path || '$';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateString = (value: unknown, schema: Schema, path: string, ctx: Context): unknown => {
+  let result: string;
+  if (typeof value === 'string') {
+    result = value;
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    result = String(value);
+    ctx.repairs.push({ path: displayPath(path), message: `coerced ${typeof value} to string` });
+  } else if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    result = value.join('; ');
+    ctx.repairs.push({ path: displayPath(path), message: 'joined array into string' });
+  } else {
+    ctx.issues.push({ path: displayPath(path), message: `expected string, got ${Array.isArray(value) ? 'array' : typeof value}` });
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(result)) {
+    const canonical = schema.enum.find(option => option.toLowerCase() === result.trim().toLowerCase());
+    if (!canonical) {
+      ctx.issues.push({ path: displayPath(path), message: `"${result}" is not one of ${schema.enum.join(', ')}` });
+      return value;
+    }
+    ctx.repairs.push({ path: displayPath(path), message: `normalized "${result}" to "${canonical}"` });
+    result = canonical;
+  }
+  return result;
+};
+
+const validateNumber = (value: unknown, schema: Schema, path: string, ctx: Context): unknown => {
+  let result: number;
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    result = value;
+  } else if (typeof value === 'string' && Number.isFinite(parseFloat(value.replace('%', '')))) {
+    result = parseFloat(value.replace('%', ''));
+    ctx.repairs.push({ path: displayPath(path), message: `parsed "${value}" as number` });
+  } else {
+    ctx.issues.push({ path: displayPath(path), message: `expected number, got ${JSON.stringify(value)}` });
+    return value;
+  }
+
+  if (schema.type === Type.INTEGER && !Number.isInteger(result)) {
+    result = Math.round(result);
+  }
+  if (schema.minimum !== undefined && result < schema.minimum) {
+    ctx.repairs.push({ path: displayPath(path), message: `clamped ${result} to minimum ${schema.minimum}` });
+    result = schema.minimum;
+  }
+  if (schema.maximum !== undefined && result > schema.maximum) {
+    ctx.repairs.push({ path: displayPath(path), message: `clamped ${result} to maximum ${schema.maximum}` });
+    result = schema.maximum;
+  }
+  return result;
+};
+
+const validateArray = (value: unknown, schema: Schema, path: string, ctx: Context): unknown => {
+  let items: unknown[];
+  if (Array.isArray(value)) {
+    items = value;
+  } else if (typeof value === 'string' && schema.items?.type === Type.STRING) {
+    items = value.trim() ? [value] : [];
+    ctx.repairs.push({ path: displayPath(path), message: 'wrapped string in array' });
+  } else {
+    ctx.issues.push({ path: displayPath(path), message: `expected array, got ${typeof value}` });
+    return value;
+  }
+  return schema.items
+    ? items.map((item, index) => validateNode(item, schema.items as Schema, joinPath(path, index), ctx))
+    : items;
+};
+
+const validateObject = (value: unknown, schema: Schema, path: string, ctx: Context): unknown => {
+  if (!isPlainObject(value)) {
+    ctx.issues.push({ path: displayPath(path), message: `expected object, got ${Array.isArray(value) ? 'array' : typeof value}` });
+    return value;
+  }
+
+  const result: Record<string, unknown> = { ...value };
+  const required = schema.required || [];
+  for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+    const propertyPath = joinPath(path, key);
+    if (result[key] === undefined || result[key] === null) {
+      if (required.includes(key)) {
+        ctx.issues.push({ path: propertyPath, message: 'missing required field' });
+      } else {
+        delete result[key];
+      }
+      continue;
+    }
+    result[key] = validateNode(result[key], propertySchema, propertyPath, ctx);
+  }
+  return result;
+};
+
+const validateNode = (value: unknown, schema: Schema, path: string, ctx: Context): unknown => {
+  switch (schema.type) {
+    case Type.STRING:
+      return validateString(value, schema, path, ctx);
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return validateNumber(value, schema, path, ctx);
+    case Type.BOOLEAN:
+      if (typeof value !== 'boolean') {
+        ctx.issues.push({ path: displayPath(path), message: `expected boolean, got ${typeof value}` });
+      }
+      return value;
+    case Type.ARRAY:
+      return validateArray(value, schema, path, ctx);
+    case Type.OBJECT:
+      return validateObject(value, schema, path, ctx);
+    default:
+      return value;
+  }
+};
+
+export const validateAgainstSchema = <T>(value: unknown, schema: Schema): ValidationResult<T> => {
+  const ctx: Context = { issues: [], repairs: [] };
+  const repaired = validateNode(value, schema, '', ctx);
+  if (ctx.issues.length > 0) {
+    return { ok: false, issues: ctx.issues, repairs: ctx.repairs };
+  }
+  return { ok: true, value: repaired as T, issues: [], repairs: ctx.repairs };
+};
+
+// Parses raw model text (tolerating Markdown code fences) and validates it.
+export const parseModelJson = <T>(text: string, schema: Schema): ValidationResult<T> => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    return { ok: false, issues: [{ path: '$', message: 'response is not valid JSON' }], repairs: [] };
+  }
+  return validateAgainstSchema<T>(parsed, schema);
+};
@@ -5,6 +5,24 @@ export enum UrgencyLevel {
   CRITICAL = 'Critical',
 }
 
+// A code in an external terminology. The model proposes the code; the app
+// checks it against the bundled code lists and sets `verified`.
+export interface TerminologyCode {
+  code: string;
+  display?: string;
+  verified?: boolean;
+}
+
+export interface ConditionCodes {
+  icd10cm?: TerminologyCode;
+  snomed_ct?: TerminologyCode;
+}
+
+export interface MedicationCodes {
+  rxnorm?: TerminologyCode;
+  atc?: TerminologyCode;
+}
+
 export interface MedicalCondition {
   name: string;
   probability: number; // 0-100
@@ -12,22 +30,178 @@ export interface MedicalCondition {
   urgency: UrgencyLevel;
   symptoms_matched: string[];
   recommendations: string[];
+  source?: 'model' | 'red_flag_rule'; // Absent means model-generated
+  rule_id?: string; // The red-flag rule that added this condition
+  codes?: ConditionCodes;
+  image_refs?: number[]; // 1-based positions of the attached images supporting this condition
+}
+
+// A local emergency rule that fired for the current presentation
+export interface RedFlagMatch {
+  rule_id: string;
+  title: string;
+  condition: string;
+  advice: string;
+}
+
+export type FollowUpCategory = 'onset' | 'duration' | 'severity' | 'red_flag' | 'history' | 'other';
+
+export interface FollowUpQuestion {
+  question: string;
+  category: FollowUpCategory;
+}
+
+// A visual observation tied to one attached image
+export interface ImageFinding {
+  image: number; // 1-based position in the gallery
+  finding: string;
 }
 
 export interface DiagnosisResponse {
   conditions: MedicalCondition[];
   disclaimer: string;
   general_advice: string;
+  image_findings?: ImageFinding[];
+  follow_up_questions?: FollowUpQuestion[];
+  red_flags?: RedFlagMatch[];
+  redactions?: Redaction[]; // Personal details masked out of the request
+}
+
+// --- Clinical Report Types ---
+
+export interface ReportDifferentialItem {
+  condition: string;
+  rationale: string; // May contain <strong>/<em>; always rendered through the sanitizer
+}
+
+// Report body as authored by the model
+export interface ClinicalReportContent {
+  chief_complaint: string;
+  impression: string; // May contain <strong>/<em>; always rendered through the sanitizer
+  differential: ReportDifferentialItem[];
+  plan: string[];
+  disclaimer: string;
+}
+
+// Identifiers are generated by the app, never by the model
+export interface ClinicalReport extends ClinicalReportContent {
+  patient_id: string;
+  generated_at: number; // epoch ms
+}
+
+// --- Image Attachment Types ---
+
+// One image in the upload gallery. Order is significant: the model refers to
+// images by their 1-based position.
+export type ImageRotation = 0 | 90 | 180 | 270;
+
+// Crop rectangle as fractions (0-1) of the rotated image
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdit {
+  rotation: ImageRotation;
+  crop?: ImageCrop;
+  blurs?: ImageCrop[]; // Regions pixelated before sending, in the same coordinates as the crop
+}
+
+export type ImageQualityIssue = 'blurry' | 'glare';
+
+export interface ImageAttachment {
+  id: string;
+  dataUrl: string; // Preprocessed image that is sent to the model
+  caption: string;
+  source?: Blob; // Original upload, so edits are re-applied at full resolution
+  edit?: ImageEdit;
+  issues?: ImageQualityIssue[];
+}
+
+// --- Patient Intake Types ---
+
+export type BiologicalSex = 'female' | 'male' | 'intersex';
+
+export type PregnancyStatus = 'pregnant' | 'not_pregnant' | 'possible' | 'unknown';
+
+export interface Vitals {
+  temperature_c?: number;
+  heart_rate_bpm?: number;
+  systolic_bp?: number;
+  diastolic_bp?: number;
+  respiratory_rate?: number;
+  spo2_percent?: number;
+}
+
+// Optional structured context collected alongside the free-text symptoms.
+// List fields hold raw comma-separated entries as typed; blanks are dropped
+// when the intake is serialized.
+export interface PatientIntake {
+  age?: number;
+  sex?: BiologicalSex;
+  pregnancy_status?: PregnancyStatus;
+  weight_kg?: number;
+  chronic_conditions: string[];
+  current_medications: string[];
+  allergies: string[];
+  vitals: Vitals;
+  symptom_onset?: string;
+  symptom_duration?: string;
+}
+
+// --- Follow-up Consultation Types ---
+
+export interface FollowUpAnswer {
+  question: string;
+  answer: string;
+}
+
+// A completed round of the consultation: the differential the model returned
+// and the answers the user gave to its clarifying questions.
+export interface ConsultationRound {
+  response: DiagnosisResponse;
+  answers: FollowUpAnswer[];
 }
 
 export interface DiagnosisState {
   results: DiagnosisResponse | null;
   loading: boolean;
   error: string | null;
+  errorKind?: ModelErrorKind; // Set when the error came from a model call
+  refusal?: SafetyRefusal;
+  rounds: ConsultationRound[]; // Earlier rounds, oldest first
 }
 
 // --- Medication Types ---
 
+export type PackagingField = 'lot_number' | 'production_date' | 'expiry_date';
+
+// Where a packaging value came from: local OCR, the model, both agreeing, or
+// a scanned barcode (exact, overrides the others)
+export type ExtractionSource = 'ocr' | 'model' | 'ocr_and_model' | 'barcode';
+
+// Text read on-device from package photos. Dates are normalized to ISO
+// (YYYY-MM or YYYY-MM-DD).
+export interface PackagingOcr {
+  text: string;
+  lot_number?: string;
+  production_date?: string;
+  expiry_date?: string;
+}
+
+// Decoded package barcode. GS1 codes carry the GTIN (01), expiry (17, as ISO),
+// batch (10) and serial (21); a plain EAN-13 only the GTIN.
+export interface PackageBarcode {
+  format: string; // ean_13, data_matrix, qr_code...
+  raw: string;
+  gtin?: string;
+  expiry_date?: string;
+  lot_number?: string;
+  serial_number?: string;
+}
+
 export interface MedicationDetails {
   name: string;
   generic_name: string;
@@ -40,6 +214,10 @@ export interface MedicationDetails {
     production_date: string; // Extracted or "Not visible on packaging"
     expiry_date: string;    // Extracted or "Not visible on packaging"
   };
+  lot_number?: string;
+  gtin?: string;          // Only from a scanned barcode
+  serial_number?: string; // Only from a scanned barcode
+  sources?: Partial<Record<PackagingField, ExtractionSource>>; // Set after local OCR or a barcode is reconciled
   specifications: {
     type: string; // Tablet, Syrup, etc.
     dosage: string;
@@ -51,18 +229,186 @@ export interface MedicationDetails {
     side_effects: string[];
     warnings: string;
   };
+  codes?: MedicationCodes;
 }
 
 export interface MedicationResponse {
   medication: MedicationDetails;
   analysis_confidence: number; // 0-100
   disclaimer: string;
+  image_findings?: ImageFinding[];
+  ocr?: PackagingOcr;
+  barcode?: PackageBarcode;
+  redactions?: Redaction[];
+  cached_at?: number; // Set when served from the local response cache: when it was first produced
 }
 
 export interface MedicationState {
   results: MedicationResponse | null;
   loading: boolean;
   error: string | null;
+  errorKind?: ModelErrorKind;
+  refusal?: SafetyRefusal;
+}
+
+// --- Interaction Types ---
+
+export type InteractionSeverity = 'None' | 'Minor' | 'Moderate' | 'Major' | 'Contraindicated';
+
+export interface DrugInteraction {
+  drug_a: string;
+  drug_b: string;
+  severity: InteractionSeverity;
+  mechanism: string;
+  clinical_effect: string;
+  management: string;
+}
+
+export interface InteractionResponse {
+  interactions: DrugInteraction[]; // One entry per assessed pair
+  summary: string;
+  disclaimer: string;
+  cached_at?: number;
+}
+
+export interface InteractionState {
+  results: InteractionResponse | null;
+  loading: boolean;
+  error: string | null;
+  errorKind?: ModelErrorKind;
+  refusal?: SafetyRefusal;
+}
+
+export type ViewMode = 'diagnosis' | 'medication' | 'interactions';
+
+// --- Privacy Types ---
+
+export type PiiKind = 'name' | 'email' | 'phone' | 'address' | 'id_number' | 'date_of_birth';
+
+// One value masked out of the text before it reached the model. Only a
+// partially masked preview is kept, never the value itself.
+export interface Redaction {
+  kind: PiiKind;
+  field: string; // Where it was found, e.g. "Symptoms" or "Package text"
+  placeholder: string; // What the model saw instead, e.g. "[NAME]"
+  preview: string; // e.g. "J••• S••••"
+}
+
+// --- Model Error Types ---
+
+export type ModelErrorKind =
+  | 'rate_limited'
+  | 'quota_exhausted'
+  | 'safety_blocked'
+  | 'invalid_image'
+  | 'malformed_output'
+  | 'network'
+  | 'timeout'
+  | 'unavailable'
+  | 'unknown';
+
+// --- Input Safety Types ---
+
+export type RefusalReason = 'prompt_injection' | 'dangerous_dosage';
+
+// Returned instead of a model call when the input is refused locally or by
+// the API server. Not an error: the request was understood and declined.
+export interface SafetyRefusal {
+  reason: RefusalReason;
+  message: string;
+}
+
+// --- Consultation History Types ---
+
+interface HistoryEntryBase {
+  id: string;
+  createdAt: number; // epoch ms
+  input: string;
+  thumbnail?: string; // Small JPEG data URL of the analyzed image
+}
+
+export interface DiagnosisHistoryEntry extends HistoryEntryBase {
+  kind: 'diagnosis';
+  response: DiagnosisResponse;
+  intake?: PatientIntake;
+  rounds: ConsultationRound[];
+  report?: ClinicalReport;
+  reportHtml?: string; // Legacy model-authored HTML from older entries, rendered sanitized
 }
 
-export type ViewMode = 'diagnosis' | 'medication';
\ No newline at end of file
+export interface MedicationHistoryEntry extends HistoryEntryBase {
+  kind: 'medication';
+  response: MedicationResponse;
+}
+
+export type HistoryEntry = DiagnosisHistoryEntry | MedicationHistoryEntry;
+
+// --- Offline Queue Types ---
+
+// An analysis submitted without connectivity, replayed into history later
+interface QueuedAnalysisBase {
+  id: string;
+  queuedAt: number; // epoch ms
+  input: string;
+  images: ImageAttachment[]; // Without the original `source` blobs
+  error?: string; // Set when a replay failed while online
+  refusal?: SafetyRefusal; // Set when the input screen refused it on replay; never retried
+  locale?: Locale; // Language the results were requested in
+}
+
+export interface QueuedDiagnosis extends QueuedAnalysisBase {
+  kind: 'diagnosis';
+  intake: PatientIntake;
+}
+
+export interface QueuedMedication extends QueuedAnalysisBase {
+  kind: 'medication';
+  barcode?: PackageBarcode;
+}
+
+export type QueuedAnalysis = QueuedDiagnosis | QueuedMedication;
+
+// --- Medicine Cabinet Types ---
+
+export interface DoseSchedule {
+  dose: string;       // e.g. "1 tablet"
+  times: string[];    // Local "HH:MM", sorted
+  days: number[];     // 0 (Sunday) - 6; empty means every day
+  start_date: string; // YYYY-MM-DD
+  end_date?: string;
+  reminders: boolean;
+}
+
+export interface CabinetItem {
+  id: string;
+  savedAt: number; // epoch ms
+  name: string;
+  response: MedicationResponse;
+  schedule: DoseSchedule;
+  thumbnail?: string;
+}
+
+export type DoseStatus = 'taken' | 'skipped';
+
+export interface DoseRecord {
+  id: string; // `${itemId}@${scheduledFor}`, so each slot has at most one record
+  itemId: string;
+  scheduledFor: number; // epoch ms of the scheduled dose
+  status: DoseStatus;
+  recordedAt: number;
+}
+
+// Recorded status, or one derived from the clock for unrecorded slots
+export type DoseSlotStatus = DoseStatus | 'missed' | 'due' | 'upcoming';
+
+export interface DoseSlot {
+  itemId: string;
+  scheduledFor: number;
+  status: DoseSlotStatus;
+}
+
+// --- Localization Types ---
+
+export type Locale = 'en' | 'es' | 'ar' | 'he';
+
+export type TextDirection = 'ltr' | 'rtl';
@@ -1,18 +1,45 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists the build output for public/sw.js to precache. File names are
+// content-hashed, so their list doubles as the build version.
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle)
+      .filter(file => file !== 'index.html' && !/\.(map|woff)$/.test(file)) // woff2 is enough for PWA browsers
+      .sort()
+      .map(file => `/${file}`);
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 16);
+    this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: JSON.stringify({ version, files }) });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Same-origin /api in development and preview, as in production
+    const proxy = { '/api': `http://localhost:${env.API_PORT || 8787}` };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
+      },
+      preview: {
+        proxy,
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Model keys stay on the API server; the browser talks to it (or to the mock)
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER === 'mock' ? 'mock' : 'proxy'),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.MODEL_ID': JSON.stringify(env.MODEL_ID), // Not secret; part of the response cache key
+        'process.env.IMAGE_MAX_DIMENSION': JSON.stringify(env.IMAGE_MAX_DIMENSION),
+        'process.env.IMAGE_MAX_KB': JSON.stringify(env.IMAGE_MAX_KB),
+        'process.env.IMAGE_FORMAT': JSON.stringify(env.IMAGE_FORMAT)
       },
       resolve: {
         alias: {